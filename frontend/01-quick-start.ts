@@ -18,6 +18,7 @@
 import { HttpAgent, Actor } from "@dfinity/agent";
 import { AuthClient } from "@dfinity/auth-client";
 import { IDL } from "@dfinity/candid";
+import type { MeneseService } from "./menese-types";
 
 // ── Step 1: Your config ─────────────────────────────────────
 const CANISTER_ID = "urs2a-ziaaa-aaaad-aembq-cai";
@@ -25,7 +26,7 @@ const IC_HOST = "https://icp0.io";
 
 // ── Step 2: Minimal Candid interface (just what we need) ────
 // Field names MUST match the .did exactly — e.g. "evmAddress" not "address"
-const idlFactory = ({ IDL }: any) => {
+const idlFactory: IDL.InterfaceFactory = ({ IDL }) => {
   const SolanaAddressInfo = IDL.Record({
     address: IDL.Text,
     publicKeyHex: IDL.Text,
@@ -108,6 +109,13 @@ const idlFactory = ({ IDL }: any) => {
   });
 };
 
+// The same methods, typed from menese-types.ts — a wrong field name is a compile error
+type QuickStartService = Pick<MeneseService,
+  | "getMySolanaAddress" | "getMyEvmAddress" | "getMyBitcoinAddress" | "getMyLitecoinAddress"
+  | "getMyThorAddress" | "getMySuiAddress" | "getMyXrpAddress" | "getMyTonAddress"
+  | "getMyCardanoAddress" | "getMyAptosAddress" | "getMyNearAddress" | "getTronAddress"
+  | "getMyCloakAddress" | "getMySolanaBalance" | "getICPBalance">;
+
 // ── Step 3: Connect and get addresses ───────────────────────
 async function main() {
   // Login with Internet Identity
@@ -122,7 +130,7 @@ async function main() {
 
   const identity = authClient.getIdentity();
   const agent = new HttpAgent({ host: IC_HOST, identity });
-  const menese = Actor.createActor(idlFactory, { agent, canisterId: CANISTER_ID });
+  const menese = Actor.createActor<QuickStartService>(idlFactory, { agent, canisterId: CANISTER_ID });
 
   console.log("Connected as:", identity.getPrincipal().toText());
 
@@ -145,19 +153,19 @@ async function main() {
     ]);
 
   console.log("Your wallets across 19 chains:");
-  console.log("  Solana:    ", (sol as any).address);
-  console.log("  Ethereum:  ", (evm as any).evmAddress);   // Same address for ETH/ARB/BASE/POLY/BNB/OP
-  console.log("  Bitcoin:   ", (btc as any).bech32Address);
-  console.log("  Litecoin:  ", (ltc as any).bech32Address);
-  console.log("  THORChain: ", (thor as any).bech32Address);
-  console.log("  SUI:       ", (sui as any).suiAddress);
-  console.log("  XRP:       ", (xrp as any).classicAddress);
-  console.log("  TON:       ", (ton as any).nonBounceable);
-  console.log("  Cardano:   ", (cardano as any).bech32Address);
-  console.log("  Aptos:     ", (aptos as any).address);
-  console.log("  NEAR:      ", (near as any).implicitAccountId);
-  console.log("  TRON:      ", (tron as any).base58Address);
-  console.log("  CloakCoin: ", (cloak as any).base58Address);
+  console.log("  Solana:    ", sol.address);
+  console.log("  Ethereum:  ", evm.evmAddress);   // Same address for ETH/ARB/BASE/POLY/BNB/OP
+  console.log("  Bitcoin:   ", btc.bech32Address);
+  console.log("  Litecoin:  ", ltc.bech32Address);
+  console.log("  THORChain: ", thor.bech32Address);
+  console.log("  SUI:       ", sui.suiAddress);
+  console.log("  XRP:       ", xrp.classicAddress);
+  console.log("  TON:       ", ton.nonBounceable);
+  console.log("  Cardano:   ", cardano.bech32Address);
+  console.log("  Aptos:     ", aptos.address);
+  console.log("  NEAR:      ", near.implicitAccountId);
+  console.log("  TRON:      ", tron.base58Address);
+  console.log("  CloakCoin: ", cloak.base58Address);
   console.log("  ICP:       ", identity.getPrincipal().toText());
 
   // Check balances (also FREE)
@@ -166,11 +174,11 @@ async function main() {
     menese.getICPBalance(),
   ]);
 
-  if ("ok" in (solBal as any)) {
-    console.log("\nSOL balance:", Number((solBal as any).ok) / 1e9, "SOL");
+  if ("ok" in solBal) {
+    console.log("\nSOL balance:", Number(solBal.ok) / 1e9, "SOL");
   }
-  if ("ok" in (icpBal as any)) {
-    console.log("ICP balance:", Number((icpBal as any).ok) / 1e8, "ICP");
+  if ("ok" in icpBal) {
+    console.log("ICP balance:", Number(icpBal.ok) / 1e8, "ICP");
   }
 }
 
@@ -23,6 +23,13 @@
  *   - CloakCoin (CLOAK)   → sendCloak(toAddress, amount)
  *   - Thorchain (RUNE)    → sendThor(toAddress, amount, memo)
  *
+ * One call for all of them: send({ chain, asset, to, amount, memo?, tag? }) in
+ * send.ts picks the method and returns a normalized SendReceipt.
+ *
+ * Amounts: every helper takes an AmountLike — Amount.parse("0.1", "solana"), a
+ * decimal string in whole tokens ("0.1") or a bigint in smallest units.
+ * Never a JS number: 0.1 NEAR is 1e23 yoctoNEAR, far past float precision.
+ *
  * Cost: 1 action per send operation (billed to caller or developer key)
  *
  * EVM chains: chainId 1 (ETH), 42161 (ARB), 8453 (BASE), 137 (POLY), 56 (BSC), 10 (OP)
@@ -33,11 +40,16 @@
  */
 
 import { Principal } from "@dfinity/principal";
-import { createMeneseActor } from "./sdk-setup";
+import { MeneseSession } from "./session";
+import { Amount, toUnits, type AmountLike } from "./amount";
+import type { ChainId } from "./chains";
+
+// One login and one agent for every helper below (see session.ts)
+const session = new MeneseSession();
 
 // ── EVM chain config ─────────────────────────────────────────
 // sendEvmNativeTokenAutonomous requires the actual RPC endpoint and chain ID
-const EVM_CHAINS: Record<string, { chainId: number; rpc: string }> = {
+const EVM_CHAINS: Partial<Record<ChainId, { chainId: number; rpc: string }>> = {
   ethereum:  { chainId: 1,     rpc: "https://eth.llamarpc.com" },
   arbitrum:  { chainId: 42161, rpc: "https://arb1.arbitrum.io/rpc" },
   base:      { chainId: 8453,  rpc: "https://mainnet.base.org" },
@@ -48,12 +60,12 @@ const EVM_CHAINS: Record<string, { chainId: number; rpc: string }> = {
 
 // ── Send SOL ─────────────────────────────────────────────────
 // Returns: Result = { ok: text (txHash), err: text }
-async function sendSol(toAddress: string, amountSol: number) {
-  const menese = await createMeneseActor();
-  const lamports = BigInt(Math.round(amountSol * 1e9));
+async function sendSol(toAddress: string, amountSol: AmountLike) {
+  const menese = await session.menese();
+  const lamports = toUnits(amountSol, "solana");
 
-  console.log(`Sending ${amountSol} SOL to ${toAddress}...`);
-  const result = await menese.sendSolTransaction(toAddress, lamports) as any;
+  console.log(`Sending ${Amount.fromUnits(lamports, "solana")} SOL to ${toAddress}...`);
+  const result = await menese.sendSolTransaction(toAddress, lamports);
 
   if ("ok" in result) {
     console.log("TX hash:", result.ok);
@@ -72,12 +84,13 @@ async function sendSol(toAddress: string, amountSol: number) {
 async function sendSplToken(
   sourceAta: string,       // YOUR ATA for this token (get via getMySolanaAta)
   destinationAta: string,  // Recipient's ATA for this token
-  amount: number,          // Amount in token's smallest unit
+  amount: Amount | bigint, // Amount.parse("1", usdc), or the token's smallest unit
 ) {
-  const menese = await createMeneseActor();
+  const menese = await session.menese();
 
+  const units = amount instanceof Amount ? amount.units : amount;
   console.log(`Sending ${amount} tokens from ${sourceAta} to ${destinationAta}...`);
-  const result = await menese.transferSplToken(BigInt(amount), sourceAta, destinationAta) as any;
+  const result = await menese.transferSplToken(units, sourceAta, destinationAta);
 
   console.log("TX signature:", result.txSignature);
   return result;
@@ -87,22 +100,23 @@ async function sendSplToken(
 // sendEvmNativeTokenAutonomous(to, value, rpcEndpoint, chainId, quoteId?)
 // Returns: { ok: { expectedTxHash, nonce, senderAddress, note }, err: text }
 async function sendEvmToken(
-  chain: string,        // "ethereum" | "arbitrum" | "base" | "polygon" | "bsc" | "optimism"
+  chain: ChainId,       // "ethereum" | "arbitrum" | "base" | "polygon" | "bsc" | "optimism"
   toAddress: string,    // 0x... address
-  amountWei: bigint,    // Amount in wei (1 ETH = 1e18 wei)
+  amount: AmountLike,   // "0.001" (ETH) or wei as bigint (1 ETH = 1e18 wei)
 ) {
-  const menese = await createMeneseActor();
+  const menese = await session.menese();
   const config = EVM_CHAINS[chain];
   if (!config) throw new Error(`Unknown chain: ${chain}`);
+  const amountWei = toUnits(amount, chain);
 
-  console.log(`Sending on ${chain} to ${toAddress}...`);
+  console.log(`Sending ${Amount.fromUnits(amountWei, chain)} on ${chain} to ${toAddress}...`);
   const result = await menese.sendEvmNativeTokenAutonomous(
     toAddress,
     amountWei,
     config.rpc,
     BigInt(config.chainId),
     [],  // quoteId: optional
-  ) as any;
+  );
 
   if ("ok" in result) {
     console.log("Expected TX hash:", result.ok.expectedTxHash);
@@ -116,17 +130,17 @@ async function sendEvmToken(
 
 // ── Send ICP ─────────────────────────────────────────────────
 // Returns: { ok: { amount, blockHeight, fee, from, to }, err: text }
-async function sendIcp(toPrincipal: string, amountIcp: number) {
-  const menese = await createMeneseActor();
-  const e8s = BigInt(Math.round(amountIcp * 1e8));
+async function sendIcp(toPrincipal: string, amountIcp: AmountLike) {
+  const menese = await session.menese();
+  const e8s = toUnits(amountIcp, "icp");
 
-  console.log(`Sending ${amountIcp} ICP to ${toPrincipal}...`);
-  const result = await menese.sendICP(Principal.fromText(toPrincipal), e8s) as any;
+  console.log(`Sending ${Amount.fromUnits(e8s, "icp")} ICP to ${toPrincipal}...`);
+  const result = await menese.sendICP(Principal.fromText(toPrincipal), e8s);
 
   if ("ok" in result) {
     console.log("Block height:", result.ok.blockHeight.toString());
-    console.log("Amount:", Number(result.ok.amount) / 1e8, "ICP");
-    console.log("Fee:", Number(result.ok.fee) / 1e8, "ICP");
+    console.log("Amount:", Amount.fromUnits(result.ok.amount, "icp").toString(), "ICP");
+    console.log("Fee:", Amount.fromUnits(result.ok.fee, "icp").toString(), "ICP");
   } else {
     console.error("Failed:", result.err);
   }
@@ -135,16 +149,16 @@ async function sendIcp(toPrincipal: string, amountIcp: number) {
 
 // ── Send Bitcoin ─────────────────────────────────────────────
 // Returns: { ok: { txid, amount, fee, senderAddress, recipientAddress, note }, err: text }
-async function sendBtc(toAddress: string, amountBtc: number) {
-  const menese = await createMeneseActor();
-  const satoshis = BigInt(Math.round(amountBtc * 1e8));
+async function sendBtc(toAddress: string, amountBtc: AmountLike) {
+  const menese = await session.menese();
+  const satoshis = toUnits(amountBtc, "bitcoin");
 
-  console.log(`Sending ${amountBtc} BTC to ${toAddress}...`);
-  const result = await menese.sendBitcoin(toAddress, satoshis) as any;
+  console.log(`Sending ${Amount.fromUnits(satoshis, "bitcoin")} BTC to ${toAddress}...`);
+  const result = await menese.sendBitcoin(toAddress, satoshis);
 
   if ("ok" in result) {
     console.log("TX ID:", result.ok.txid);
-    console.log("Fee:", Number(result.ok.fee), "satoshis");
+    console.log("Fee:", result.ok.fee.toString(), "satoshis");
   } else {
     console.error("Failed:", result.err);
   }
@@ -156,17 +170,18 @@ async function sendBtc(toAddress: string, amountBtc: number) {
 // Fields: { txHash, explorerUrl, message, success, sequence, ledgerUsed }
 async function sendXrp(
   toAddress: string,     // Classic XRP address (r...)
-  amountXrp: string,     // Amount as string (e.g., "1.5" for 1.5 XRP)
+  amountXrp: AmountLike,  // "1.5" for 1.5 XRP, or drops as bigint
   destinationTag?: number
 ) {
-  const menese = await createMeneseActor();
+  const menese = await session.menese();
+  const xrp = Amount.from(amountXrp, "xrp").toString();  // canister takes XRP as text
 
-  console.log(`Sending ${amountXrp} XRP to ${toAddress}...`);
+  console.log(`Sending ${xrp} XRP to ${toAddress}...`);
   const result = await menese.sendXrpAutonomous(
     toAddress,
-    amountXrp,
+    xrp,
     destinationTag !== undefined ? [destinationTag] : [],
-  ) as any;
+  );
 
   // NOT a variant — it's a flat record
   if (result.success) {
@@ -180,12 +195,12 @@ async function sendXrp(
 
 // ── Send SUI ─────────────────────────────────────────────────
 // Returns: { ok: { txHash, senderAddress, note }, err: text }
-async function sendSuiTokens(toAddress: string, amountSui: number) {
-  const menese = await createMeneseActor();
-  const mist = BigInt(Math.round(amountSui * 1e9));
+async function sendSuiTokens(toAddress: string, amountSui: AmountLike) {
+  const menese = await session.menese();
+  const mist = toUnits(amountSui, "sui");
 
-  console.log(`Sending ${amountSui} SUI to ${toAddress}...`);
-  const result = await menese.sendSui(toAddress, mist) as any;
+  console.log(`Sending ${Amount.fromUnits(mist, "sui")} SUI to ${toAddress}...`);
+  const result = await menese.sendSui(toAddress, mist);
 
   if ("ok" in result) {
     console.log("TX hash:", result.ok.txHash);
@@ -198,12 +213,12 @@ async function sendSuiTokens(toAddress: string, amountSui: number) {
 // ── Send TON ─────────────────────────────────────────────────
 // Returns: SendResultTon (flat record, NOT Result variant)
 // Fields: { txHash, bocBase64, senderAddress, success, error }
-async function sendTon(toAddress: string, amountTon: number) {
-  const menese = await createMeneseActor();
-  const nanotons = BigInt(Math.round(amountTon * 1e9));
+async function sendTon(toAddress: string, amountTon: AmountLike) {
+  const menese = await session.menese();
+  const nanotons = toUnits(amountTon, "ton");
 
-  console.log(`Sending ${amountTon} TON to ${toAddress}...`);
-  const result = await menese.sendTonSimple(toAddress, nanotons) as any;
+  console.log(`Sending ${Amount.fromUnits(nanotons, "ton")} TON to ${toAddress}...`);
+  const result = await menese.sendTonSimple(toAddress, nanotons);
 
   // NOT a variant — it's a flat record
   if (result.success) {
@@ -216,12 +231,12 @@ async function sendTon(toAddress: string, amountTon: number) {
 
 // ── Send Cardano (ADA) ──────────────────────────────────────
 // Returns: Result = { ok: text (txHash), err: text }
-async function sendAda(toAddress: string, amountAda: number) {
-  const menese = await createMeneseActor();
-  const lovelace = BigInt(Math.round(amountAda * 1e6));
+async function sendAda(toAddress: string, amountAda: AmountLike) {
+  const menese = await session.menese();
+  const lovelace = toUnits(amountAda, "cardano");
 
-  console.log(`Sending ${amountAda} ADA to ${toAddress}...`);
-  const result = await menese.sendCardanoTransaction(toAddress, lovelace) as any;
+  console.log(`Sending ${Amount.fromUnits(lovelace, "cardano")} ADA to ${toAddress}...`);
+  const result = await menese.sendCardanoTransaction(toAddress, lovelace);
 
   if ("ok" in result) {
     console.log("TX hash:", result.ok);
@@ -233,12 +248,12 @@ async function sendAda(toAddress: string, amountAda: number) {
 
 // ── Send Tron (TRX) ────────────────────────────────────────
 // Returns: Result = { ok: text, err: text }
-async function sendTrx(toAddress: string, amountTrx: number) {
-  const menese = await createMeneseActor();
-  const sun = BigInt(Math.round(amountTrx * 1e6)); // 1 TRX = 1,000,000 sun
+async function sendTrx(toAddress: string, amountTrx: AmountLike) {
+  const menese = await session.menese();
+  const sun = toUnits(amountTrx, "tron"); // 1 TRX = 1,000,000 sun
 
-  console.log(`Sending ${amountTrx} TRX to ${toAddress}...`);
-  const result = await menese.sendTrx(toAddress, sun) as any;
+  console.log(`Sending ${Amount.fromUnits(sun, "tron")} TRX to ${toAddress}...`);
+  const result = await menese.sendTrx(toAddress, sun);
 
   if ("ok" in result) {
     console.log("TX hash:", result.ok);
@@ -253,13 +268,14 @@ async function sendTrx(toAddress: string, amountTrx: number) {
 async function sendTrc20Token(
   contractAddress: string, // TRC-20 contract (e.g., USDT: TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t)
   toAddress: string,
-  amount: bigint,           // Amount in token smallest unit (Nat, not Nat64)
-  feeLimit: number = 30_000_000, // Default 30 TRX fee limit
+  amount: Amount | bigint,  // Amount in the token, or its smallest unit (Nat, not Nat64)
+  feeLimit: AmountLike = "30", // Default 30 TRX fee limit
 ) {
-  const menese = await createMeneseActor();
+  const menese = await session.menese();
+  const units = amount instanceof Amount ? amount.units : amount;
 
   console.log(`Sending TRC-20 to ${toAddress}...`);
-  const result = await menese.sendTrc20(contractAddress, toAddress, amount, BigInt(feeLimit)) as any;
+  const result = await menese.sendTrc20(contractAddress, toAddress, units, toUnits(feeLimit, "tron"));
 
   if ("ok" in result) {
     console.log("TX hash:", result.ok);
@@ -271,12 +287,12 @@ async function sendTrc20Token(
 
 // ── Send Aptos (APT) ───────────────────────────────────────
 // Returns: { ok: { txHash, senderAddress, note }, err: text }
-async function sendApt(toAddress: string, amountApt: number) {
-  const menese = await createMeneseActor();
-  const octas = BigInt(Math.round(amountApt * 1e8)); // 1 APT = 1e8 octas
+async function sendApt(toAddress: string, amountApt: AmountLike) {
+  const menese = await session.menese();
+  const octas = toUnits(amountApt, "aptos"); // 1 APT = 1e8 octas
 
-  console.log(`Sending ${amountApt} APT to ${toAddress}...`);
-  const result = await menese.sendAptos(toAddress, octas) as any;
+  console.log(`Sending ${Amount.fromUnits(octas, "aptos")} APT to ${toAddress}...`);
+  const result = await menese.sendAptos(toAddress, octas);
 
   if ("ok" in result) {
     console.log("TX hash:", result.ok.txHash);
@@ -288,12 +304,12 @@ async function sendApt(toAddress: string, amountApt: number) {
 
 // ── Send Litecoin (LTC) ────────────────────────────────────
 // Returns: { ok: { txHash, senderAddress, note }, err: text }
-async function sendLtc(toAddress: string, amountLtc: number) {
-  const menese = await createMeneseActor();
-  const litoshis = BigInt(Math.round(amountLtc * 1e8));
+async function sendLtc(toAddress: string, amountLtc: AmountLike) {
+  const menese = await session.menese();
+  const litoshis = toUnits(amountLtc, "litecoin");
 
-  console.log(`Sending ${amountLtc} LTC to ${toAddress}...`);
-  const result = await menese.sendLitecoin(toAddress, litoshis) as any;
+  console.log(`Sending ${Amount.fromUnits(litoshis, "litecoin")} LTC to ${toAddress}...`);
+  const result = await menese.sendLitecoin(toAddress, litoshis);
 
   if ("ok" in result) {
     console.log("TX hash:", result.ok.txHash);
@@ -305,13 +321,13 @@ async function sendLtc(toAddress: string, amountLtc: number) {
 
 // ── Send Near (NEAR) ───────────────────────────────────────
 // Returns: Result = { ok: text, err: text }
-async function sendNear(receiverId: string, amountNear: number) {
-  const menese = await createMeneseActor();
-  // 1 NEAR = 1e24 yoctoNEAR
-  const yocto = BigInt(Math.round(amountNear * 1e6)) * BigInt(1e18);
+async function sendNear(receiverId: string, amountNear: AmountLike) {
+  const menese = await session.menese();
+  // 1 NEAR = 1e24 yoctoNEAR — exact, every digit is kept
+  const yocto = toUnits(amountNear, "near");
 
-  console.log(`Sending ${amountNear} NEAR to ${receiverId}...`);
-  const result = await menese.sendNearTransferFromUser(receiverId, yocto) as any;
+  console.log(`Sending ${Amount.fromUnits(yocto, "near")} NEAR to ${receiverId}...`);
+  const result = await menese.sendNearTransferFromUser(receiverId, yocto);
 
   if ("ok" in result) {
     console.log("TX hash:", result.ok);
@@ -324,11 +340,12 @@ async function sendNear(receiverId: string, amountNear: number) {
 // ── Send CloakCoin (CLOAK) ─────────────────────────────────
 // CloakCoin uses 6 decimals (1 CLOAK = 1,000,000 units), NOT 8
 // Returns: { ok: { txHash, txHex, changeValue }, err: text }
-async function sendCloak(toAddress: string, amount: number) {
-  const menese = await createMeneseActor();
+async function sendCloak(toAddress: string, amount: AmountLike) {
+  const menese = await session.menese();
+  const units = toUnits(amount, "cloak");
 
-  console.log(`Sending ${amount} CLOAK to ${toAddress}...`);
-  const result = await menese.sendCloak(toAddress, BigInt(amount)) as any;
+  console.log(`Sending ${Amount.fromUnits(units, "cloak")} CLOAK to ${toAddress}...`);
+  const result = await menese.sendCloak(toAddress, units);
 
   if ("ok" in result) {
     console.log("TX hash:", result.ok.txHash);
@@ -340,12 +357,12 @@ async function sendCloak(toAddress: string, amount: number) {
 
 // ── Send Thorchain (RUNE) ──────────────────────────────────
 // Returns: Result = { ok: text, err: text }
-async function sendRune(toAddress: string, amountRune: number, memo: string = "") {
-  const menese = await createMeneseActor();
-  const baseAmount = BigInt(Math.round(amountRune * 1e8)); // 1 RUNE = 1e8 base units
+async function sendRune(toAddress: string, amountRune: AmountLike, memo: string = "") {
+  const menese = await session.menese();
+  const baseAmount = toUnits(amountRune, "thorchain"); // 1 RUNE = 1e8 base units
 
-  console.log(`Sending ${amountRune} RUNE to ${toAddress}...`);
-  const result = await menese.sendThor(toAddress, baseAmount, memo) as any;
+  console.log(`Sending ${Amount.fromUnits(baseAmount, "thorchain")} RUNE to ${toAddress}...`);
+  const result = await menese.sendThor(toAddress, baseAmount, memo);
 
   if ("ok" in result) {
     console.log("TX hash:", result.ok);
@@ -358,61 +375,61 @@ async function sendRune(toAddress: string, amountRune: number, memo: string = ""
 // ── Example usage ────────────────────────────────────────────
 async function main() {
   // Send 0.001 SOL
-  await sendSol("RecipientSolanaAddressHere", 0.001);
+  await sendSol("RecipientSolanaAddressHere", "0.001");
 
   // Send 1 USDC on Solana (need your ATA and recipient's ATA)
   // First get your ATA: const myAta = await menese.getMySolanaAta("EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v");
   await sendSplToken(
     "YourUSDCAtaAddressHere",          // Your ATA for USDC
     "RecipientUSDCAtaAddressHere",     // Recipient's ATA for USDC
-    1_000_000,                          // 1 USDC (6 decimals)
+    Amount.parse("1", { symbol: "USDC", decimals: 6 }),
   );
 
   // Send 0.001 ETH on Arbitrum (chainId 42161)
-  await sendEvmToken("arbitrum", "0xRecipientAddress", BigInt("1000000000000000"));
+  await sendEvmToken("arbitrum", "0xRecipientAddress", "0.001");
 
   // Send 0.1 ICP
-  await sendIcp("xxxxx-xxxxx-xxxxx-xxxxx-cai", 0.1);
+  await sendIcp("xxxxx-xxxxx-xxxxx-xxxxx-cai", "0.1");
 
   // Send 0.0001 BTC
-  await sendBtc("bc1qRecipientBitcoinAddress", 0.0001);
+  await sendBtc("bc1qRecipientBitcoinAddress", "0.0001");
 
   // Send 1 XRP
-  await sendXrp("rRecipientXrpAddress", "1");  // Amount as string, e.g., "1" = 1 XRP
+  await sendXrp("rRecipientXrpAddress", "1");  // "1" = 1 XRP
 
   // Send 0.1 SUI
-  await sendSuiTokens("0xRecipientSuiAddress", 0.1);
+  await sendSuiTokens("0xRecipientSuiAddress", "0.1");
 
   // Send 0.1 TON
-  await sendTon("EQRecipientTonAddress", 0.1);
+  await sendTon("EQRecipientTonAddress", "0.1");
 
   // Send 5 ADA (Cardano)
-  await sendAda("addr1qRecipientCardanoAddress", 5);
+  await sendAda("addr1qRecipientCardanoAddress", "5");
 
   // Send 10 TRX (Tron)
-  await sendTrx("TRecipientTronAddress", 10);
+  await sendTrx("TRecipientTronAddress", "10");
 
   // Send 10 USDT on Tron (TRC-20)
-  await sendTrc20Token("TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t", "TRecipientAddr", BigInt(10_000_000));
+  await sendTrc20Token("TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t", "TRecipientAddr", Amount.parse("10", { symbol: "USDT", decimals: 6 }));
 
   // Send 0.1 APT (Aptos)
-  await sendApt("0xRecipientAptosAddress", 0.1);
+  await sendApt("0xRecipientAptosAddress", "0.1");
 
   // Send 0.01 LTC (Litecoin)
-  await sendLtc("ltc1qRecipientLitecoinAddress", 0.01);
+  await sendLtc("ltc1qRecipientLitecoinAddress", "0.01");
 
   // Send 0.1 NEAR
-  await sendNear("recipient.near", 0.1);
+  await sendNear("recipient.near", "0.1");
 
   // Send 100 CLOAK
-  await sendCloak("CloakRecipientAddress", 100);
+  await sendCloak("CloakRecipientAddress", "100");
 
   // Send 1 RUNE (Thorchain)
-  await sendRune("thor1RecipientAddress", 1, "");
+  await sendRune("thor1RecipientAddress", "1", "");
 
   // ── ICRC-1 Tokens (ckBTC, ckETH, etc.) ──────────────────
   // Send any ICRC-1 token by providing the ledger canister ID
-  const actor = await createMeneseActor();
+  const actor = await session.menese();
   const icrc1Result = await actor.sendICRC1(
     Principal.fromText("RECIPIENT_PRINCIPAL"),
     BigInt(50_000),        // amount in token's smallest unit
@@ -21,7 +21,10 @@
  * Tested: Feb 11, 2026 on mainnet canister urs2a-ziaaa-aaaad-aembq-cai
  */
 
-import { createMeneseActor } from "./sdk-setup";
+import { MeneseSession } from "./session";
+
+// One login and one agent for every helper below (see session.ts)
+const session = new MeneseSession();
 
 // ══════════════════════════════════════════════════════════════
 // 1. RAYDIUM (Solana)
@@ -35,6 +38,9 @@ import { createMeneseActor } from "./sdk-setup";
 // This creates the ATA on-chain so your wallet can hold that token.
 // Only needed once per token. SOL doesn't need an ATA.
 
+// Cheaper in cycles: swapSolanaSignOnly (solana-swap.ts) fetches the route
+// from Jupiter / Raydium itself and only asks the canister to sign it.
+//
 // swapRaydiumApiUser has 8 params: inputMint, outputMint, amount, slippageBps,
 // wrapSol, unwrapSol, inputAta?, outputAta?
 // Returns: RaydiumApiSwapResult = { inputAmount, outputAmount, priceImpactPct, txSignature }
@@ -46,7 +52,7 @@ async function swapOnRaydium(
   wrapSol: boolean = false,   // Set true if swapping native SOL (wraps to wSOL)
   unwrapSol: boolean = false, // Set true if receiving SOL (unwraps wSOL)
 ) {
-  const menese = await createMeneseActor();
+  const menese = await session.menese();
 
   console.log(`Swapping on Raydium: ${amountIn} of ${inputMint} → ${outputMint}...`);
   const result = await menese.swapRaydiumApiUser(
@@ -58,7 +64,7 @@ async function swapOnRaydium(
     unwrapSol,
     [],   // inputAta: auto-detect
     [],   // outputAta: auto-detect
-  ) as any;
+  );
 
   // Direct record (NOT a variant with ok/err)
   console.log("Swap TX:", result.txSignature);
@@ -85,9 +91,9 @@ async function swapOnUniswap(
   toToken: string,       // Output token symbol or address
   amountIn: bigint,      // Amount in smallest unit
   slippageBps: number,   // Slippage tolerance (100 = 1%)
-  rpcEndpoint: string,   // Your RPC endpoint for the target chain
+  rpcEndpoint: string,   // Your RPC endpoint for the target chain — rpcPool(chain).url picks the healthiest
 ) {
-  const menese = await createMeneseActor();
+  const menese = await session.menese();
 
   console.log(`Swapping on Uniswap V3: ${fromToken} → ${toToken}...`);
   const result = await menese.swapTokens(
@@ -98,7 +104,7 @@ async function swapOnUniswap(
     BigInt(slippageBps),
     false,          // useFeeOnTransfer: true for rebase/tax tokens
     rpcEndpoint,
-  ) as any;
+  );
 
   if ("ok" in result) {
     console.log("Swap TX:", result.ok.expectedTxHash);
@@ -125,7 +131,7 @@ async function swapOnICPDex(
   minAmountOut: bigint,  // Minimum acceptable output (slippage protection)
   slippagePct: number,   // Slippage as percentage (e.g., 1.0 = 1%)
 ) {
-  const menese = await createMeneseActor();
+  const menese = await session.menese();
 
   console.log(`Swapping on ICP DEX: ${tokenIn} → ${tokenOut}...`);
   const result = await menese.executeICPDexSwap({
@@ -135,7 +141,7 @@ async function swapOnICPDex(
     minAmountOut,
     slippagePct,
     preferredDex: [],    // auto-route to best DEX
-  }) as any;
+  });
 
   if ("ok" in result) {
     console.log("Swap complete!");
@@ -161,7 +167,7 @@ async function getSuiQuote(
   amountIn: string,      // Amount as string (in smallest unit)
   slippageBps: number,
 ) {
-  const menese = await createMeneseActor();
+  const menese = await session.menese();
 
   const quote = await menese.getSuiSwapQuote(
     { mainnet: null },    // Network: mainnet
@@ -169,15 +175,16 @@ async function getSuiQuote(
     toToken,
     amountIn,
     BigInt(slippageBps),
-  ) as any;
+  );
 
-  if (quote.length > 0) {
+  const [best] = quote;  // Opt<SwapQuote> → [] | [quote]
+  if (best) {
     console.log("SUI quote:", {
-      amountIn: quote[0].amountIn,
-      amountOut: quote[0].amountOut,
-      priceImpact: quote[0].priceImpact,
+      amountIn: best.amountIn,
+      amountOut: best.amountOut,
+      priceImpact: best.priceImpact,
     });
-    return quote[0];
+    return best;
   }
   console.log("No quote available for this pair");
   return null;
@@ -190,7 +197,7 @@ async function swapOnCetus(
   amountIn: string,      // Amount in smallest unit as string
   minAmountOut: string,  // From quote, or your own calculation
 ) {
-  const menese = await createMeneseActor();
+  const menese = await session.menese();
 
   console.log(`Swapping on SUI Cetus: ${fromToken} → ${toToken}...`);
   const result = await menese.executeSuiSwap(
@@ -199,7 +206,7 @@ async function swapOnCetus(
     toToken,
     amountIn,
     minAmountOut,
-  ) as any;
+  );
 
   // Direct record (NOT a variant)
   if (result.success) {
@@ -224,14 +231,14 @@ async function getMinswapQuote(
   amountIn: number,      // Amount in lovelace (1 ADA = 1,000,000 lovelace)
   slippagePct: number,   // Slippage as percentage (e.g., 1.0 = 1%)
 ) {
-  const menese = await createMeneseActor();
+  const menese = await session.menese();
 
   const result = await menese.getMinswapQuote(
     tokenIn,
     tokenOut,
     BigInt(amountIn),
     slippagePct,
-  ) as any;
+  );
 
   if ("ok" in result) {
     console.log("Minswap quote:", {
@@ -253,7 +260,7 @@ async function swapOnMinswap(
   amountIn: number,      // Amount in smallest unit
   slippagePct: number,   // Slippage as percentage
 ) {
-  const menese = await createMeneseActor();
+  const menese = await session.menese();
 
   console.log(`Swapping on Minswap: ${tokenIn} → ${tokenOut}...`);
   const result = await menese.executeMinswapSwap(
@@ -261,7 +268,7 @@ async function swapOnMinswap(
     tokenOut,
     BigInt(amountIn),
     slippagePct,
-  ) as any;
+  );
 
   if ("ok" in result) {
     console.log("Swap TX:", result.ok);
@@ -301,7 +308,7 @@ async function swapOnXrpDex(
   paths: string,           // Path-finding JSON (from xrpFindPaths)
   slippageBps: number,     // Slippage tolerance (100 = 1%)
 ) {
-  const menese = await createMeneseActor();
+  const menese = await session.menese();
 
   console.log(`Swapping on XRP DEX: ${sendCurrency} → ${destCurrency}...`);
   const result = await menese.xrpSwap(
@@ -309,7 +316,7 @@ async function swapOnXrpDex(
     { currency: sendCurrency, issuer: sendIssuer, value: sendMaxValue },
     paths,
     BigInt(slippageBps),
-  ) as any;
+  );
 
   // Direct record (NOT a variant)
   if (result.success) {
@@ -368,10 +375,10 @@ async function main() {
 
   // 2. Swap ETH → USDC on Arbitrum (need quote first, then swap)
   //    NOTE: You must provide your own RPC endpoint for EVM chains
-  const menese = await createMeneseActor();
+  const menese = await session.menese();
   const quote = await menese.getTokenQuote(
     "ETH", "USDC", BigInt("1000000000000000"), "https://arb1.arbitrum.io/rpc"
-  ) as any;
+  );
   if ("ok" in quote) {
     await swapOnUniswap(
       "arb-quote-id",        // Use quote ID from your system
@@ -436,9 +443,9 @@ async function main() {
     "SHIB",              // from token
     "USDC",              // to token
     BigInt(1000000000),  // amount in
-    100,                 // 1% slippage
+    BigInt(100),         // 1% slippage
     false,               // useFeeOnTransfer
-    1,                   // chainId (Ethereum mainnet)
+    BigInt(1),           // chainId (Ethereum mainnet)
     "https://eth-mainnet.rpc.url",
   );
   if ("ok" in multiHopResult) {
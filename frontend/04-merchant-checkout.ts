@@ -16,14 +16,29 @@
  *
  * Addresses are FREE. Sends cost 1 action each (for sweeping).
  *
+ * The full checkout runs on one MeneseSession — one login and one agent for
+ * the address lookup, the balance polling and the sweep.
+ *
  * Tested: Feb 11, 2026 on mainnet canister urs2a-ziaaa-aaaad-aembq-cai
+ *
+ * Unit testing: every step takes an optional MeneseConfig, so tests can run
+ * against the in-memory fake with no network:
+ *
+ *   const mock = createMockMenese();
+ *   mock.setBalance("solana", 1_000_000_000n);
+ *   MERCHANT_CONFIG.pollInterval = 0;
+ *   await waitForPayment("solana", "0.5", 1_000, { service: mock.service });  // true
  */
 
 import { createMeneseActor, MENESE_CANISTER_ID } from "./sdk-setup";
+import type { AgentSource } from "./agent-config";
+import { Amount, type AmountLike } from "./amount";
+import { getMaxSendable } from "./max-sendable";
+import { MeneseSession } from "./session";
 import { Principal } from "@dfinity/principal";
 
 // ── Your merchant config ─────────────────────────────────────
-const MERCHANT_CONFIG = {
+export const MERCHANT_CONFIG = {
   // Your cold wallet addresses (where to sweep funds)
   treasury: {
     solana: "YourTreasurySolanaAddress",
@@ -38,21 +53,21 @@ const MERCHANT_CONFIG = {
 };
 
 // ── Step 1: Register as a developer (one-time setup) ────────
-async function setupMerchant() {
-  const menese = await createMeneseActor();
+export async function setupMerchant(config: AgentSource = {}) {
+  const menese = await createMeneseActor(config);
 
   // Check if already registered
-  const existing = await menese.getMyDeveloperAccount() as any;
-  if (existing.length > 0 && existing[0].developerKey) {
-    console.log("Already registered! Key:", existing[0].developerKey);
-    return existing[0].developerKey;
+  const [existing] = await menese.getMyDeveloperAccount();  // Opt → [] | [account]
+  if (existing && existing.developerKey) {
+    console.log("Already registered! Key:", existing.developerKey);
+    return existing.developerKey;
   }
 
   // Register your canister and get API key
   const result = await menese.registerDeveloperCanister(
     Principal.fromText(MENESE_CANISTER_ID),
     "My Marketplace"
-  ) as any;
+  );
 
   if ("ok" in result) {
     console.log("Developer key:", result.ok);
@@ -67,15 +82,15 @@ async function setupMerchant() {
 // ── Step 2: Generate payment addresses ──────────────────────
 // Each user who logs in gets unique addresses. Show these on your
 // checkout page so customers know where to send.
-interface PaymentAddresses {
+export interface PaymentAddresses {
   solana: string;
   evm: string;
   bitcoin: string;
   icp: string;
 }
 
-async function getPaymentAddresses(): Promise<PaymentAddresses> {
-  const menese = await createMeneseActor();
+export async function getPaymentAddresses(config: AgentSource = {}): Promise<PaymentAddresses> {
+  const menese = await createMeneseActor(config);
 
   const [sol, evm, btc] = await Promise.all([
     menese.getMySolanaAddress(),
@@ -84,9 +99,9 @@ async function getPaymentAddresses(): Promise<PaymentAddresses> {
   ]);
 
   const addresses = {
-    solana: (sol as any).address,
-    evm: (evm as any).evmAddress,             // NOT "address" — field is "evmAddress"
-    bitcoin: (btc as any).bech32Address,       // NOT Text — returns AddressInfo record
+    solana: sol.address,
+    evm: evm.evmAddress,             // NOT "address" — field is "evmAddress"
+    bitcoin: btc.bech32Address,       // NOT Text — returns AddressInfo record
     icp: "Pay via ICP ledger transfer",
   };
 
@@ -100,32 +115,34 @@ async function getPaymentAddresses(): Promise<PaymentAddresses> {
 
 // ── Step 3: Monitor for payment ─────────────────────────────
 // Poll the balance until the expected amount arrives.
-async function waitForPayment(
+export async function waitForPayment(
   chain: "solana" | "icp",
-  expectedAmount: number,
+  expectedAmount: AmountLike,
   timeoutMs: number = MERCHANT_CONFIG.paymentTimeout,
+  config: AgentSource = {},
 ): Promise<boolean> {
-  const menese = await createMeneseActor();
+  const menese = await createMeneseActor(config);
   const startTime = Date.now();
+  const expected = Amount.from(expectedAmount, chain);
 
-  console.log(`Waiting for ${expectedAmount} on ${chain}...`);
+  console.log(`Waiting for ${expected} ${expected.symbol} on ${chain}...`);
 
   while (Date.now() - startTime < timeoutMs) {
-    let balance = 0;
+    let balance = Amount.zero(chain);
 
     if (chain === "solana") {
-      const result = await menese.getMySolanaBalance() as any;
+      const result = await menese.getMySolanaBalance();
       if ("ok" in result) {
-        balance = Number(result.ok) / 1e9;
+        balance = Amount.fromUnits(result.ok, "solana");
       }
     } else if (chain === "icp") {
-      const result = await menese.getICPBalance() as any;
+      const result = await menese.getICPBalance();
       if ("ok" in result) {
-        balance = Number(result.ok) / 1e8;
+        balance = Amount.fromUnits(result.ok, "icp");
       }
     }
 
-    if (balance >= expectedAmount) {
+    if (balance.gte(expected)) {
       console.log(`Payment received! Balance: ${balance}`);
       return true;
     }
@@ -139,88 +156,91 @@ async function waitForPayment(
 }
 
 // ── Step 4: Sweep funds to treasury ─────────────────────────
-// After confirming payment, move funds to your cold wallet.
-async function sweepToTreasury(chain: "solana" | "icp", amount: number) {
-  const menese = await createMeneseActor();
+// After confirming payment, move funds to your cold wallet. The sweep is
+// capped at what is left after the network fee (max-sendable.ts), so sweeping
+// the whole balance leaves nothing behind.
+export async function sweepToTreasury(chain: "solana" | "icp", amount: AmountLike, config: AgentSource = {}) {
+  const menese = await createMeneseActor(config);
+  const { max } = await getMaxSendable(chain, "native", config, { menese });
+  const sweepAmount = Amount.min(Amount.from(amount, chain), max.units);
+  if (!sweepAmount.isPositive()) return;
 
   if (chain === "solana") {
-    const lamports = BigInt(Math.round(amount * 1e9));
-    // Keep 0.01 SOL for rent/fees
-    const sweepAmount = lamports - BigInt(10_000_000);
-    if (sweepAmount <= 0n) return;
-
     const result = await menese.sendSolTransaction(
       MERCHANT_CONFIG.treasury.solana,
-      sweepAmount,
-    ) as any;
+      sweepAmount.units,
+    );
 
     if ("ok" in result) {
-      console.log(`Swept ${Number(sweepAmount) / 1e9} SOL to treasury. TX: ${result.ok}`);
+      console.log(`Swept ${sweepAmount} SOL to treasury. TX: ${result.ok}`);
     }
   } else if (chain === "icp") {
-    const e8s = BigInt(Math.round(amount * 1e8));
-    // Keep 0.001 ICP for fees
-    const sweepAmount = e8s - BigInt(100_000);
-    if (sweepAmount <= 0n) return;
-
     const result = await menese.sendICP(
       Principal.fromText(MERCHANT_CONFIG.treasury.icp),
-      sweepAmount,
-    ) as any;
+      sweepAmount.units,
+    );
 
     if ("ok" in result) {
-      console.log(`Swept ${Number(sweepAmount) / 1e8} ICP to treasury.`);
+      console.log(`Swept ${sweepAmount} ICP to treasury.`);
     }
   }
 }
 
 // ── Full checkout flow ──────────────────────────────────────
+const USD = { symbol: "USD", decimals: 2 };
+
 async function checkout(
   orderId: string,
   amountUsd: number,
   paymentChain: "solana" | "icp",
+  session: MeneseSession = new MeneseSession(),
 ) {
   console.log(`\nOrder ${orderId}: $${amountUsd} USD`);
   console.log("=".repeat(40));
 
   // 1. Get payment addresses
-  const addresses = await getPaymentAddresses();
+  const addresses = await getPaymentAddresses(session.config);
 
   // 2. Show address to customer
   if (paymentChain === "solana") {
     // Convert USD to SOL (you'd use a price API in production)
     const solPrice = 150; // Example: $150/SOL
-    const solAmount = amountUsd / solPrice;
-    console.log(`\nPlease send ${solAmount.toFixed(6)} SOL to:`);
+    const solAmount = Amount.parse(String(amountUsd), USD).convert("solana", 1 / solPrice, "up");
+    console.log(`\nPlease send ${solAmount.toFixed(6, "up")} SOL to:`);
     console.log(addresses.solana);
 
     // 3. Wait for payment
-    const paid = await waitForPayment("solana", solAmount);
+    const paid = await waitForPayment("solana", solAmount, undefined, session.config);
     if (paid) {
       console.log("Order confirmed! Fulfilling...");
-      await sweepToTreasury("solana", solAmount);
+      await sweepToTreasury("solana", solAmount, session.config);
     }
   } else if (paymentChain === "icp") {
     const icpPrice = 12; // Example: $12/ICP
-    const icpAmount = amountUsd / icpPrice;
-    console.log(`\nPlease send ${icpAmount.toFixed(4)} ICP to:`);
+    const icpAmount = Amount.parse(String(amountUsd), USD).convert("icp", 1 / icpPrice, "up");
+    console.log(`\nPlease send ${icpAmount.toFixed(4, "up")} ICP to:`);
     console.log(addresses.icp);
 
-    const paid = await waitForPayment("icp", icpAmount);
+    const paid = await waitForPayment("icp", icpAmount, undefined, session.config);
     if (paid) {
       console.log("Order confirmed! Fulfilling...");
-      await sweepToTreasury("icp", icpAmount);
+      await sweepToTreasury("icp", icpAmount, session.config);
     }
   }
 }
 
 // ── Example usage ────────────────────────────────────────────
 async function main() {
+  const session = new MeneseSession();
+
   // One-time: register as developer
-  await setupMerchant();
+  await setupMerchant(session.config);
 
-  // Process a $25 payment in SOL
-  await checkout("ORD-001", 25.00, "solana");
+  // Process a $25 payment in SOL — same login as above
+  await checkout("ORD-001", 25.00, "solana", session);
 }
 
-main().catch(console.error);
+// Don't run the demo when a test runner (Jest/Vitest set NODE_ENV=test) imports this file
+if (typeof process === "undefined" || process.env.NODE_ENV !== "test") {
+  main().catch(console.error);
+}
@@ -13,50 +13,35 @@
  *
  * PERFORMANCE TIP: For production apps, query balances directly from
  * your own RPC endpoints (Helius, Alchemy, Infura, etc.) instead of
- * going through MeneseSDK. Use MeneseSDK to derive addresses once,
- * cache them, then query balances via your own RPC — much faster.
+ * going through MeneseSDK. Use MeneseSDK to derive addresses once
+ * (createMeneseActor caches them — see query-cache.ts), then query
+ * balances via your own RPC — much faster.
  *
  * Tested: Feb 11, 2026 on mainnet canister urs2a-ziaaa-aaaad-aembq-cai
  */
 
-import { createMeneseActor } from "./sdk-setup";
-
-// ── Chain config for the portfolio view ──────────────────────
-const CHAINS = [
-  { id: "solana", name: "Solana", symbol: "SOL", decimals: 9, explorer: "https://solscan.io/account/" },
-  { id: "ethereum", name: "Ethereum", symbol: "ETH", decimals: 18, explorer: "https://etherscan.io/address/" },
-  { id: "arbitrum", name: "Arbitrum", symbol: "ETH", decimals: 18, explorer: "https://arbiscan.io/address/" },
-  { id: "base", name: "Base", symbol: "ETH", decimals: 18, explorer: "https://basescan.org/address/" },
-  { id: "polygon", name: "Polygon", symbol: "MATIC", decimals: 18, explorer: "https://polygonscan.com/address/" },
-  { id: "bsc", name: "BNB Chain", symbol: "BNB", decimals: 18, explorer: "https://bscscan.com/address/" },
-  { id: "optimism", name: "Optimism", symbol: "ETH", decimals: 18, explorer: "https://optimistic.etherscan.io/address/" },
-  { id: "icp", name: "Internet Computer", symbol: "ICP", decimals: 8, explorer: "https://dashboard.internetcomputer.org/account/" },
-  { id: "bitcoin", name: "Bitcoin", symbol: "BTC", decimals: 8, explorer: "https://mempool.space/address/" },
-  { id: "litecoin", name: "Litecoin", symbol: "LTC", decimals: 8, explorer: "https://blockchair.com/litecoin/address/" },
-  { id: "xrp", name: "XRP Ledger", symbol: "XRP", decimals: 6, explorer: "https://xrpscan.com/account/" },
-  { id: "sui", name: "SUI", symbol: "SUI", decimals: 9, explorer: "https://suiscan.xyz/mainnet/account/" },
-  { id: "ton", name: "TON", symbol: "TON", decimals: 9, explorer: "https://tonscan.org/address/" },
-  { id: "cardano", name: "Cardano", symbol: "ADA", decimals: 6, explorer: "https://cardanoscan.io/address/" },
-  { id: "tron", name: "Tron", symbol: "TRX", decimals: 6, explorer: "https://tronscan.org/#/address/" },
-  { id: "aptos", name: "Aptos", symbol: "APT", decimals: 8, explorer: "https://explorer.aptoslabs.com/account/" },
-  { id: "near", name: "NEAR", symbol: "NEAR", decimals: 24, explorer: "https://nearblocks.io/address/" },
-  { id: "cloak", name: "CloakCoin", symbol: "CLOAK", decimals: 6, explorer: "" },
-  { id: "thorchain", name: "THORChain", symbol: "RUNE", decimals: 8, explorer: "https://thorchain.net/address/" },
-];
+import { MeneseSession } from "./session";
+import { CHAINS } from "./chains";
+import { Amount } from "./amount";
+
+// One login and one agent for every helper below (see session.ts)
+const session = new MeneseSession();
+
+// Chain list (symbols, decimals, explorers) lives in chains.ts
 
 // ── Get all addresses at once ────────────────────────────────
 interface PortfolioEntry {
   chain: string;
   symbol: string;
   address: string;
-  balance: number | null;
+  balance: Amount | null;
   explorerUrl: string;
 }
 
 async function getPortfolio(): Promise<PortfolioEntry[]> {
-  const menese = await createMeneseActor();
+  const menese = await session.menese();
 
-  // Fetch all addresses in parallel (FREE)
+  // Fetch all addresses in parallel (FREE) — served from the query cache after the first refresh
   const [sol, evm, btc, ltc, sui, xrp, ton, cardano, tron, aptos, near, cloak, thor] =
     await Promise.all([
       menese.getMySolanaAddress(),
@@ -76,25 +61,25 @@ async function getPortfolio(): Promise<PortfolioEntry[]> {
 
   // Use correct field names from .did
   const addresses: Record<string, string> = {
-    solana: (sol as any).address,
-    ethereum: (evm as any).evmAddress,      // NOT "address"
-    arbitrum: (evm as any).evmAddress,      // Same EVM address
-    base: (evm as any).evmAddress,
-    polygon: (evm as any).evmAddress,
-    bsc: (evm as any).evmAddress,
-    optimism: (evm as any).evmAddress,
+    solana: sol.address,
+    ethereum: evm.evmAddress,      // NOT "address"
+    arbitrum: evm.evmAddress,      // Same EVM address
+    base: evm.evmAddress,
+    polygon: evm.evmAddress,
+    bsc: evm.evmAddress,
+    optimism: evm.evmAddress,
     icp: "principal",                         // ICP uses principal, not address
-    bitcoin: (btc as any).bech32Address,      // NOT Text — returns AddressInfo record
-    litecoin: (ltc as any).bech32Address,     // Same as Bitcoin
-    xrp: (xrp as any).classicAddress,
-    sui: (sui as any).suiAddress,             // NOT "address"
-    ton: (ton as any).nonBounceable,          // NOT "address"
-    cardano: (cardano as any).bech32Address,  // NOT "address"
-    tron: (tron as any).base58Address,        // NOT "base58"
-    aptos: (aptos as any).address,
-    near: (near as any).implicitAccountId,    // NOT "accountId"
-    cloak: (cloak as any).base58Address,
-    thorchain: (thor as any).bech32Address,   // AddressInfo record
+    bitcoin: btc.bech32Address,      // NOT Text — returns AddressInfo record
+    litecoin: ltc.bech32Address,     // Same as Bitcoin
+    xrp: xrp.classicAddress,
+    sui: sui.suiAddress,             // NOT "address"
+    ton: ton.nonBounceable,          // NOT "address"
+    cardano: cardano.bech32Address,  // NOT "address"
+    tron: tron.base58Address,        // NOT "base58"
+    aptos: aptos.address,
+    near: near.implicitAccountId,    // NOT "accountId"
+    cloak: cloak.base58Address,
+    thorchain: thor.bech32Address,   // AddressInfo record
   };
 
   // Fetch balances for chains with native balance queries (FREE)
@@ -113,43 +98,43 @@ async function getPortfolio(): Promise<PortfolioEntry[]> {
     ]);
 
   // Build balance map
-  const balances: Record<string, number | null> = {};
+  const balances: Record<string, Amount | null> = {};
 
   // SOL (ResultNat64)
-  const solResult = solBal as any;
-  balances.solana = "ok" in solResult ? Number(solResult.ok) / 1e9 : null;
+  const solResult = solBal;
+  balances.solana = "ok" in solResult ? Amount.fromUnits(solResult.ok, "solana") : null;
 
   // ICP (ResultNat64)
-  const icpResult = icpBal as any;
-  balances.icp = "ok" in icpResult ? Number(icpResult.ok) / 1e8 : null;
+  const icpResult = icpBal;
+  balances.icp = "ok" in icpResult ? Amount.fromUnits(icpResult.ok, "icp") : null;
 
   // Bitcoin (direct Nat64)
-  balances.bitcoin = Number(btcBal as any) / 1e8;
+  balances.bitcoin = Amount.fromUnits(btcBal, "bitcoin");
 
   // Litecoin (direct Nat64)
-  balances.litecoin = Number(ltcBal as any) / 1e8;
+  balances.litecoin = Amount.fromUnits(ltcBal, "litecoin");
 
   // XRP (Result text)
-  const xrpResult = xrpBal as any;
-  balances.xrp = "ok" in xrpResult ? parseFloat(xrpResult.ok) : null;
+  const xrpResult = xrpBal;
+  balances.xrp = "ok" in xrpResult ? Amount.parse(xrpResult.ok, "xrp") : null;  // already in XRP
 
   // SUI (direct Nat64)
-  balances.sui = Number(suiBal as any) / 1e9;
+  balances.sui = Amount.fromUnits(suiBal, "sui");
 
   // TON (ResultNat64)
-  const tonResult = tonBal as any;
-  balances.ton = "ok" in tonResult ? Number(tonResult.ok) / 1e9 : null;
+  const tonResult = tonBal;
+  balances.ton = "ok" in tonResult ? Amount.fromUnits(tonResult.ok, "ton") : null;
 
   // Cardano (ResultNat64)
-  const cardanoResult = cardanoBal as any;
-  balances.cardano = "ok" in cardanoResult ? Number(cardanoResult.ok) / 1e6 : null;
+  const cardanoResult = cardanoBal;
+  balances.cardano = "ok" in cardanoResult ? Amount.fromUnits(cardanoResult.ok, "cardano") : null;
 
   // Aptos (ResultNat64)
-  const aptosResult = aptosBal as any;
-  balances.aptos = "ok" in aptosResult ? Number(aptosResult.ok) / 1e8 : null;
+  const aptosResult = aptosBal;
+  balances.aptos = "ok" in aptosResult ? Amount.fromUnits(aptosResult.ok, "aptos") : null;
 
   // NEAR (direct Nat)
-  balances.near = Number(nearBal as any) / 1e24;
+  balances.near = Amount.fromUnits(nearBal, "near");  // 24 decimals — exact, no float
 
   // EVM chains — would need your own RPC for each chain (not queried here)
   // Use getMyEvmBalance(rpcEndpoint) for each chain with your own RPC
@@ -182,7 +167,7 @@ function displayPortfolio(portfolio: PortfolioEntry[]) {
 
   for (const entry of portfolio) {
     const balStr = entry.balance !== null
-      ? `${entry.balance.toFixed(6)} ${entry.symbol}`
+      ? `${entry.balance.toLocaleString(undefined, { maximumFractionDigits: 6 })} ${entry.symbol}`
       : `-- ${entry.symbol} (use explorer)`;
 
     const addrShort = entry.address.length > 20
@@ -195,11 +180,11 @@ function displayPortfolio(portfolio: PortfolioEntry[]) {
   console.log("=".repeat(70));
 
   // Show total for chains with known balances
-  const withBalance = portfolio.filter(p => p.balance !== null && p.balance > 0);
+  const withBalance = portfolio.filter(p => p.balance !== null && p.balance.isPositive());
   if (withBalance.length > 0) {
     console.log("\nNon-zero balances:");
     for (const entry of withBalance) {
-      console.log(`  ${entry.chain}: ${entry.balance!.toFixed(6)} ${entry.symbol}`);
+      console.log(`  ${entry.chain}: ${entry.balance!.toLocaleString(undefined, { maximumFractionDigits: 6 })} ${entry.symbol}`);
     }
   }
 }
@@ -233,7 +218,7 @@ async function main() {
 
   // ── Batch Alternative ──────────────────────────────────────
   // Instead of calling each chain individually, use batch endpoints:
-  const actor = await createMeneseActor();
+  const actor = await session.menese();
 
   const allAddresses = await actor.getAllAddresses();
   console.log("\n=== All Addresses (batch) ===");
@@ -18,7 +18,11 @@
  * Free public RPCs (Alchemy, Infura, Ankr) work fine.
  */
 
-import { createMeneseActor } from "./sdk-setup";
+import { MeneseSession } from "./session";
+import { Amount, toUnits, type AmountLike } from "./amount";
+
+// One login and one agent for every helper below (see session.ts)
+const session = new MeneseSession();
 
 const ETH_RPC = "https://eth.llamarpc.com"; // Replace with your own RPC
 
@@ -29,11 +33,11 @@ const ETH_RPC = "https://eth.llamarpc.com"; // Replace with your own RPC
 // ── Supply ETH to Aave (earn yield) ──────────────────────────
 // Deposits ETH into Aave V3 lending pool. You receive aWETH (interest-bearing).
 // Returns: { ok: { ethSupplied, nonce, note, senderAddress, txHash }, err: text }
-async function supplyEthToAave(amountEth: number) {
-  const menese = await createMeneseActor();
-  const wei = BigInt(Math.round(amountEth * 1e18));
+async function supplyEthToAave(amountEth: AmountLike) {
+  const menese = await session.menese();
+  const wei = toUnits(amountEth, "ethereum");
 
-  console.log(`Supplying ${amountEth} ETH to Aave V3...`);
+  console.log(`Supplying ${Amount.fromUnits(wei, "ethereum")} ETH to Aave V3...`);
   const result = await menese.aaveSupplyEth(wei, ETH_RPC, []);
 
   if ("ok" in result) {
@@ -49,11 +53,11 @@ async function supplyEthToAave(amountEth: number) {
 // ── Withdraw ETH from Aave ──────────────────────────────────
 // Burns your aWETH and returns ETH to your wallet.
 // Returns: { ok: { approvalTxHash?, ethWithdrawn, nonce, note, senderAddress, txHash }, err: text }
-async function withdrawEthFromAave(amountEth: number) {
-  const menese = await createMeneseActor();
-  const wei = BigInt(Math.round(amountEth * 1e18));
+async function withdrawEthFromAave(amountEth: AmountLike) {
+  const menese = await session.menese();
+  const wei = toUnits(amountEth, "ethereum");
 
-  console.log(`Withdrawing ${amountEth} ETH from Aave V3...`);
+  console.log(`Withdrawing ${Amount.fromUnits(wei, "ethereum")} ETH from Aave V3...`);
   const result = await menese.aaveWithdrawEth(wei, ETH_RPC, []);
 
   if ("ok" in result) {
@@ -73,7 +77,7 @@ async function supplyTokenToAave(
   tokenAddress: string,  // ERC20 contract address
   amount: bigint,        // Amount in token's smallest unit
 ) {
-  const menese = await createMeneseActor();
+  const menese = await session.menese();
 
   console.log(`Supplying token ${tokenAddress} to Aave V3...`);
   const result = await menese.aaveSupplyToken(tokenAddress, amount, ETH_RPC, []);
@@ -93,7 +97,7 @@ async function withdrawTokenFromAave(
   tokenAddress: string,
   amount: bigint,
 ) {
-  const menese = await createMeneseActor();
+  const menese = await session.menese();
 
   console.log(`Withdrawing token ${tokenAddress} from Aave V3...`);
   const result = await menese.aaveWithdrawToken(tokenAddress, amount, ETH_RPC, []);
@@ -115,11 +119,11 @@ async function withdrawTokenFromAave(
 // Stake ETH with Lido to earn staking rewards (~3-4% APY).
 // stETH balance rebases daily (increases automatically).
 // Returns: { ok: { ethStaked, nonce, note, senderAddress, txHash }, err: text }
-async function stakeEth(amountEth: number) {
-  const menese = await createMeneseActor();
-  const wei = BigInt(Math.round(amountEth * 1e18));
+async function stakeEth(amountEth: AmountLike) {
+  const menese = await session.menese();
+  const wei = toUnits(amountEth, "ethereum");
 
-  console.log(`Staking ${amountEth} ETH with Lido...`);
+  console.log(`Staking ${Amount.fromUnits(wei, "ethereum")} ETH with Lido...`);
   const result = await menese.stakeEthForStEth(wei, ETH_RPC, []);
 
   if ("ok" in result) {
@@ -137,7 +141,7 @@ async function stakeEth(amountEth: number) {
 // Better for DeFi composability (Aave accepts wstETH as collateral).
 // Returns: { ok: { approvalTxHash?, nonce, note, senderAddress, stEthWrapped, txHash }, err: text }
 async function wrapStEthExample(amountStEth: bigint) {
-  const menese = await createMeneseActor();
+  const menese = await session.menese();
 
   console.log("Wrapping stETH → wstETH...");
   const result = await menese.wrapStEth(amountStEth, ETH_RPC, []);
@@ -154,7 +158,7 @@ async function wrapStEthExample(amountStEth: bigint) {
 // ── Unwrap wstETH → stETH ───────────────────────────────────
 // Returns: { ok: { nonce, note, senderAddress, txHash, wstEthUnwrapped }, err: text }
 async function unwrapWstEthExample(amountWstEth: bigint) {
-  const menese = await createMeneseActor();
+  const menese = await session.menese();
 
   console.log("Unwrapping wstETH → stETH...");
   const result = await menese.unwrapWstEth(amountWstEth, ETH_RPC, []);
@@ -178,13 +182,13 @@ async function main() {
   // === Aave V3 ===
 
   // Supply 0.1 ETH to Aave (earn ~2-3% APY)
-  await supplyEthToAave(0.1);
+  await supplyEthToAave("0.1");
 
   // Supply 100 USDC to Aave
   await supplyTokenToAave(USDC_ETH, BigInt(100_000_000)); // 100 USDC (6 decimals)
 
   // Withdraw 0.05 ETH from Aave
-  await withdrawEthFromAave(0.05);
+  await withdrawEthFromAave("0.05");
 
   // Withdraw 50 USDC from Aave
   await withdrawTokenFromAave(USDC_ETH, BigInt(50_000_000));
@@ -192,7 +196,7 @@ async function main() {
   // === Lido ===
 
   // Stake 0.5 ETH → stETH (earns ~3-4% APY)
-  await stakeEth(0.5);
+  await stakeEth("0.5");
 
   // Wrap stETH → wstETH (for DeFi composability)
   await wrapStEthExample(BigInt("500000000000000000")); // 0.5 stETH
@@ -201,7 +205,7 @@ async function main() {
   await unwrapWstEthExample(BigInt("450000000000000000")); // ~0.45 wstETH
 
   // ── Check DeFi Position Balances ───────────────────────────
-  const actor = await createMeneseActor();
+  const actor = await session.menese();
   const evmInfo = await actor.getMyEvmAddress();
   const userAddr = evmInfo.evmAddress;
 
@@ -22,7 +22,11 @@
  * Tested: Feb 12, 2026 on mainnet canister urs2a-ziaaa-aaaad-aembq-cai
  */
 
-import { createMeneseActor } from "./sdk-setup";
+import { MeneseSession } from "./session";
+import type { DexId, RebalancePreferences } from "./menese-types";
+
+// One login and one agent for every helper below (see session.ts)
+const session = new MeneseSession();
 
 const ETH_RPC = "https://eth.llamarpc.com";
 const ARB_RPC = "https://arb1.arbitrum.io/rpc";
@@ -45,7 +49,7 @@ async function addLiquidityWithETH(
   slippageBps: number,           // Slippage (100 = 1%)
   rpcEndpoint: string,
 ) {
-  const menese = await createMeneseActor();
+  const menese = await session.menese();
 
   console.log(`Adding liquidity: ${tokenSymbol} + ETH...`);
   const result = await menese.addLiquidityETH(
@@ -55,7 +59,7 @@ async function addLiquidityWithETH(
     BigInt(slippageBps),
     rpcEndpoint,
     [],  // quoteId: optional
-  ) as any;
+  );
 
   if ("ok" in result) {
     console.log("LP TX:", result.ok.txHash);
@@ -85,7 +89,7 @@ async function addTokenPairLiquidity(
   slippageBps: number,
   rpcEndpoint: string,
 ) {
-  const menese = await createMeneseActor();
+  const menese = await session.menese();
 
   console.log(`Adding liquidity: ${tokenASymbol} + ${tokenBSymbol}...`);
   const result = await menese.addLiquidity(
@@ -96,7 +100,7 @@ async function addTokenPairLiquidity(
     BigInt(slippageBps),
     rpcEndpoint,
     [],  // quoteId: optional
-  ) as any;
+  );
 
   if ("ok" in result) {
     console.log("LP TX:", result.ok.txHash);
@@ -118,7 +122,7 @@ async function removeLiquidityWithETH(
   slippageBps: number,
   rpcEndpoint: string,
 ) {
-  const menese = await createMeneseActor();
+  const menese = await session.menese();
 
   console.log(`Removing ${tokenSymbol}/ETH liquidity...`);
   const result = await menese.removeLiquidityETH(
@@ -128,7 +132,7 @@ async function removeLiquidityWithETH(
     false,       // useFeeOnTransfer: true for rebase/tax tokens
     rpcEndpoint,
     [],          // quoteId: optional
-  ) as any;
+  );
 
   if ("ok" in result) {
     console.log("Remove TX:", result.ok.txHash);
@@ -151,7 +155,7 @@ async function removeTokenPairLiquidity(
   slippageBps: number,
   rpcEndpoint: string,
 ) {
-  const menese = await createMeneseActor();
+  const menese = await session.menese();
 
   console.log(`Removing ${tokenASymbol}/${tokenBSymbol} liquidity...`);
   const result = await menese.removeLiquidity(
@@ -161,7 +165,7 @@ async function removeTokenPairLiquidity(
     BigInt(slippageBps),
     rpcEndpoint,
     [],
-  ) as any;
+  );
 
   if ("ok" in result) {
     console.log("Remove TX:", result.ok.txHash);
@@ -179,9 +183,9 @@ async function removeTokenPairLiquidity(
 // LPPosition = { poolId, dex, token0, token1, token0Symbol, token1Symbol,
 //   liquidity, token0Amount, token1Amount, unclaimedFees?, valueUsd? }
 async function viewICPLPPositions() {
-  const menese = await createMeneseActor();
+  const menese = await session.menese();
 
-  const positions = await menese.getICPLPPositions() as any[];
+  const positions = await menese.getICPLPPositions();
   console.log(`You have ${positions.length} LP positions on ICP DEXes:`);
   for (const pos of positions) {
     const dex = "ICPSwap" in pos.dex ? "ICPSwap" : "KongSwap";
@@ -199,14 +203,14 @@ async function viewICPLPPositions() {
 // dex: { ICPSwap: null } or { KongSwap: null }
 async function addICPDexLiquidity(
   poolId: string,        // Pool canister ID
-  dex: object,           // { ICPSwap: null } or { KongSwap: null }
+  dex: DexId,            // { ICPSwap: null } or { KongSwap: null }
   token0: string,        // Token canister ID
   token1: string,        // Token canister ID
   token0Amount: bigint,
   token1Amount: bigint,
   slippagePct: number,
 ) {
-  const menese = await createMeneseActor();
+  const menese = await session.menese();
 
   console.log("Adding liquidity to ICP DEX...");
   const result = await menese.addICPLiquidity({
@@ -217,7 +221,7 @@ async function addICPDexLiquidity(
     token0Amount,
     token1Amount,
     slippagePct,
-  }) as any;
+  });
 
   if ("ok" in result) {
     console.log("LP added! Tokens:", result.ok.lpTokens.toString());
@@ -234,11 +238,11 @@ async function addICPDexLiquidity(
 // RemoveLiquidityRequest = { poolId, dex, lpTokens, slippagePct }
 async function removeICPDexLiquidity(
   poolId: string,       // Pool canister ID
-  dex: object,          // { ICPSwap: null } or { KongSwap: null }
+  dex: DexId,           // { ICPSwap: null } or { KongSwap: null }
   lpTokens: bigint,     // LP tokens to burn
   slippagePct: number,
 ) {
-  const menese = await createMeneseActor();
+  const menese = await session.menese();
 
   console.log("Removing liquidity from ICP DEX...");
   const result = await menese.removeICPLiquidity({
@@ -246,7 +250,7 @@ async function removeICPDexLiquidity(
     dex,
     lpTokens,
     slippagePct,
-  }) as any;
+  });
 
   if ("ok" in result) {
     console.log("LP removed! Got:", result.ok.token0Received.toString(), "+", result.ok.token1Received.toString());
@@ -298,8 +302,8 @@ async function main() {
   await viewICPLPPositions();
 
   // First, discover available pools
-  const pools = await (await createMeneseActor()).getICPDexPools() as any[];
-  const icpBtcPool = pools.find((p: any) =>
+  const pools = await (await session.menese()).getICPDexPools();
+  const icpBtcPool = pools.find((p) =>
     p.token0Symbol === "ICP" && p.token1Symbol === "ckBTC"
   );
 
@@ -317,7 +321,7 @@ async function main() {
   }
 
   // ── ICP DEX Token Discovery ────────────────────────────────
-  const actor = await createMeneseActor();
+  const actor = await session.menese();
   const tokens = await actor.getICPDexTokens();
   console.log(`\nAvailable ICP DEX tokens (${tokens.length}):`);
   for (const t of tokens.slice(0, 10)) {
@@ -326,7 +330,7 @@ async function main() {
 
   // ── AI Rebalance Recommendations ───────────────────────────
   // Get AI-powered suggestions for optimizing your LP positions
-  const preferences = {
+  const preferences: RebalancePreferences = {
     targetCategories: ["DeFi", "Stablecoins"],
     riskTolerance: "medium",
     minApy: [5.0],          // minimum 5% APY
@@ -24,7 +24,11 @@
  * Tested: Feb 12, 2026 on mainnet canister urs2a-ziaaa-aaaad-aembq-cai
  */
 
-import { createMeneseActor } from "./sdk-setup";
+import { MeneseSession } from "./session";
+import { evmCalldata, quoteEvmTransaction } from "./evm-fees";
+
+// One login and one agent for every helper below (see session.ts)
+const session = new MeneseSession();
 
 const ETH_RPC = "https://eth.llamarpc.com";
 const ARB_RPC = "https://arb1.arbitrum.io/rpc";
@@ -52,7 +56,7 @@ async function transferERC20(
   rpcEndpoint: string,
   chainId: number,
 ) {
-  const menese = await createMeneseActor();
+  const menese = await session.menese();
 
   // Pad address to 32 bytes (remove 0x, left-pad with zeros)
   const addrHex = recipientAddress.replace("0x", "").padStart(64, "0");
@@ -87,7 +91,7 @@ async function approveERC20(
   rpcEndpoint: string,
   chainId: number,
 ) {
-  const menese = await createMeneseActor();
+  const menese = await session.menese();
 
   const spenderHex = spenderAddress.replace("0x", "").padStart(64, "0");
   const amountHex = amount.toString(16).padStart(64, "0");
@@ -121,7 +125,7 @@ async function callPayableFunction(
   rpcEndpoint: string,
   chainId: number,
 ) {
-  const menese = await createMeneseActor();
+  const menese = await session.menese();
 
   console.log(`Calling ${functionSig} with ${ethValue} wei...`);
   const result = await menese.callEvmContractWrite(
@@ -142,6 +146,31 @@ async function callPayableFunction(
   return result;
 }
 
+// ── Quote a write before spending the action ─────────────────
+// Builds the same calldata callEvmContractWrite will send, then estimates its
+// gas and fee at slow / normal / fast (see evm-fees.ts). Free — RPC reads only.
+async function quoteContractWrite(
+  contract: string,
+  functionSig: string,
+  args: string[],
+  rpcEndpoint: string,
+  value: bigint = BigInt(0),
+) {
+  const menese = await session.menese();
+  const { evmAddress } = await menese.getMyEvmAddress();
+
+  const quote = await quoteEvmTransaction(rpcEndpoint, {
+    from: evmAddress,
+    to: contract,
+    value,
+    data: evmCalldata(functionSig, args),
+  });
+  console.log(`${functionSig}: ${quote.gasLimit} gas, ${quote.fees.model} fees on chain ${quote.fees.chainId}`);
+  console.log(`Max fee: ${quote.maxCost.slow} / ${quote.maxCost.normal} / ${quote.maxCost.fast} wei (slow / normal / fast)`);
+  if (quote.l1DataFee > 0n) console.log(`  incl. L1 data fee: ${quote.l1DataFee} wei`);
+  return quote;
+}
+
 // ══════════════════════════════════════════════════════════════
 // READ — Query any contract state (FREE)
 // ══════════════════════════════════════════════════════════════
@@ -161,7 +190,7 @@ async function getERC20Balance(
   walletAddress: string,
   rpcEndpoint: string,
 ): Promise<bigint | null> {
-  const menese = await createMeneseActor();
+  const menese = await session.menese();
 
   const addrHex = walletAddress.replace("0x", "").padStart(64, "0");
 
@@ -191,7 +220,7 @@ async function getERC20Allowance(
   spenderAddress: string,
   rpcEndpoint: string,
 ): Promise<bigint | null> {
-  const menese = await createMeneseActor();
+  const menese = await session.menese();
 
   const ownerHex = ownerAddress.replace("0x", "").padStart(64, "0");
   const spenderHex = spenderAddress.replace("0x", "").padStart(64, "0");
@@ -217,7 +246,7 @@ async function readContract(
   args: string[],
   rpcEndpoint: string,
 ): Promise<string | null> {
-  const menese = await createMeneseActor();
+  const menese = await session.menese();
 
   const result = await menese.callEvmContractRead(
     contract,
@@ -252,6 +281,14 @@ async function main() {
     ETH_RPC,
   );
 
+  // What would it cost? (FREE)
+  await quoteContractWrite(
+    USDC_ETH,
+    "transfer(address,uint256)",
+    ["0xRecipient".replace("0x", "").padStart(64, "0"), BigInt(10_000_000).toString(16).padStart(64, "0")],
+    ETH_RPC,
+  );
+
   // Transfer 10 USDC on Ethereum (1 action)
   await transferERC20(USDC_ETH, "0xRecipient", BigInt(10_000_000), ETH_RPC, 1);
 
@@ -15,18 +15,19 @@
 //       use backend/05-StrategyBot.mo instead.
 
 import { createMeneseActor } from "./sdk-setup";
+import type { StrategyRule } from "./menese-types";
 
 async function main() {
   const actor = await createMeneseActor();
 
   // ── 1. Create a Take Profit rule ───────────────────────────
   // Sell 100% of SOL position when price exceeds $250
-  const takeProfitRule = {
-    id: 0, // auto-assigned by canister
-    positionId: 0,
+  const takeProfitRule: StrategyRule = {
+    id: BigInt(0), // auto-assigned by canister
+    positionId: BigInt(0),
     ruleType: { TakeProfit: null },
     triggerPrice: BigInt(250_000_000), // $250 in micro-USD
-    sizePct: 100, // sell 100%
+    sizePct: BigInt(100), // sell 100%
     swapAmountLamports: [BigInt(500_000_000)], // 0.5 SOL
     swapAmountWei: [],
     chainType: { Solana: null },
@@ -48,12 +49,12 @@ async function main() {
 
   // ── 2. Create a DCA rule ───────────────────────────────────
   // Buy SOL every 24 hours with 0.1 SOL worth of USDC, max 30 buys
-  const dcaRule = {
-    id: 0,
-    positionId: 0,
+  const dcaRule: StrategyRule = {
+    id: BigInt(0),
+    positionId: BigInt(0),
     ruleType: { DCA: null },
     triggerPrice: BigInt(0), // DCA doesn't use price trigger
-    sizePct: 0,
+    sizePct: BigInt(0),
     swapAmountLamports: [BigInt(100_000_000)], // 0.1 SOL equivalent
     swapAmountWei: [],
     chainType: { Solana: null },
@@ -81,12 +82,12 @@ async function main() {
 
   // ── 3. Create a Stop Loss rule (EVM) ───────────────────────
   // Sell ETH if price drops below $1500
-  const stopLossRule = {
-    id: 0,
-    positionId: 0,
+  const stopLossRule: StrategyRule = {
+    id: BigInt(0),
+    positionId: BigInt(0),
     ruleType: { StopLoss: null },
     triggerPrice: BigInt(1_500_000_000), // $1500 in micro-USD
-    sizePct: 100,
+    sizePct: BigInt(100),
     swapAmountLamports: [],
     swapAmountWei: [BigInt("500000000000000000")], // 0.5 ETH in wei
     chainType: { Evm: null },
@@ -117,7 +118,7 @@ async function main() {
   // ── 5. Activate a rule ─────────────────────────────────────
   // Rules start as #Draft. Set to #Active to enable execution.
   if (rules.length > 0) {
-    const ruleId = Number(rules[0].id);
+    const ruleId = rules[0].id;
     const activateResult = await actor.updateStrategyRuleStatus(ruleId, { Active: null });
     if ("ok" in activateResult) {
       console.log(`Rule ${ruleId} activated!`);
@@ -126,7 +127,7 @@ async function main() {
 
   // ── 6. Pause a rule ────────────────────────────────────────
   if (rules.length > 0) {
-    const ruleId = Number(rules[0].id);
+    const ruleId = rules[0].id;
     const pauseResult = await actor.updateStrategyRuleStatus(ruleId, { Paused: null });
     if ("ok" in pauseResult) {
       console.log(`Rule ${ruleId} paused.`);
@@ -135,7 +136,7 @@ async function main() {
 
   // ── 7. Delete a rule ───────────────────────────────────────
   if (rules.length > 1) {
-    const ruleId = Number(rules[1].id);
+    const ruleId = rules[1].id;
     const deleteResult = await actor.deleteStrategyRule(ruleId);
     if ("ok" in deleteResult) {
       console.log(`Rule ${ruleId} deleted.`);
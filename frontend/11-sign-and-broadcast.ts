@@ -6,6 +6,7 @@
  *   1. Frontend fetches chain data (blockhash, nonce, gas, UTXOs) via YOUR OWN RPCs
  *   2. Canister signs the transaction (1 action)
  *   3. Frontend broadcasts the signed transaction to the chain via YOUR OWN RPCs
+ *   4. Frontend waits for confirmation (optional, but "broadcast" is not "landed")
  *
  * Why use sign-only instead of autonomous (full execution)?
  *   - CHEAPER: The canister makes zero HTTP outcalls → saves cycles
@@ -26,13 +27,39 @@
  *   - signTrxTransferRelayer(to, amount, refBlock...)             → TRON
  *
  * Cost: 1 action per sign operation. Chain reads (RPC calls) are free — they're yours.
+ *
+ * Chain data: chain-context.ts has a prepare*Transfer per chain that returns the
+ * relayer's exact arguments — menese.signXrpTransferRelayer(...await prepareXrpTransfer(...)).
+ *
+ * Broadcasting: broadcasters.ts has one broadcaster per chain that takes the
+ * relayer's output as-is — broadcast("aptos", signed) → { txId, explorerUrl }.
+ *
+ * Confirmation: a broadcaster only means a node ACCEPTED the transaction.
+ * waitForConfirmation (confirmation.ts) polls until it is confirmed, and throws
+ * TransactionDropped when it can no longer land (expired blockhash / ledger).
+ *
+ * Or all steps at once: signAndBroadcast("ton", to, "2", session.config, { confirm: "confirmed" }).
+ * Swaps: swapSolanaSignOnly (solana-swap.ts) builds the route transactions for
+ * signSolSwapTxsRelayer and broadcasts them in order.
  */
 
+import { MeneseSession } from "./session";
+import { evmBroadcaster, solanaBroadcaster, suiBroadcaster, xrpBroadcaster } from "./broadcasters";
 import {
-  createMeneseActor,
-  broadcastSolana,
-  broadcastEvm,
-} from "./sdk-setup";
+  prepareEvmTransfer,
+  prepareSolanaTransfer,
+  prepareSuiTransfer,
+  prepareXrpTransfer,
+  signAndBroadcast,
+} from "./chain-context";
+import type { EvmChainId } from "./chains";
+import { waitForConfirmation } from "./confirmation";
+import { decodeEvmRawTx } from "./evm-fees";
+import { evmNonceManager } from "./evm-nonce";
+import { assertSolanaTx } from "./solana-tx";
+
+// One login and one agent for every helper below (see session.ts)
+const session = new MeneseSession();
 
 // ══════════════════════════════════════════════════════════════
 // SOLANA — Sign-Only Send
@@ -43,34 +70,44 @@ async function signOnlySolSend(
   lamports: bigint,
   rpcUrl: string = "https://api.mainnet-beta.solana.com",
 ) {
-  const menese = await createMeneseActor();
+  const menese = await session.menese();
+  const { address: sender } = await menese.getMySolanaAddress();
 
   // Step 1: Fetch latest blockhash from Solana via YOUR RPC
+  // → [toAddress, lamports, blockhash], the exact arguments of signSolTransferRelayer
   console.log("Fetching latest blockhash...");
-  const bhRes = await fetch(rpcUrl, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      jsonrpc: "2.0", id: 1, method: "getLatestBlockhash",
-      params: [{ commitment: "finalized" }],
-    }),
-  });
-  const bhJson = await bhRes.json();
-  const blockhash: string = bhJson.result.value.blockhash;
-  console.log("Blockhash:", blockhash);
+  const args = await prepareSolanaTransfer(rpcUrl, sender, toAddress, lamports);
+  console.log("Blockhash:", args[2]);
 
   // Step 2: Canister signs the transaction (1 action)
   console.log("Signing on canister...");
-  const signed = await menese.signSolTransferRelayer(toAddress, lamports, blockhash);
+  const signed = await menese.signSolTransferRelayer(...args);
   console.log("Signed TX ready. Size:", signed.signedTxBase64.length, "chars");
 
+  // Check what was signed before it leaves: our key's signature, our
+  // blockhash, exactly one transfer of `lamports` to `toAddress`
+  const tx = assertSolanaTx(signed.signedTxBase64, {
+    signer: signed.publicKey,
+    blockhash: args[2],
+    transfers: [{ to: toAddress, amount: lamports }],
+  });
+  console.log("Instructions:", tx.instructions.map((ix) => ix.type), "network fee:", tx.networkFee, "lamports");
+
   // Step 3: Broadcast from frontend via YOUR RPC
   console.log("Broadcasting...");
-  const txSig = await broadcastSolana(signed.signedTxBase64, rpcUrl);
-  console.log("TX confirmed:", txSig);
-  console.log("Explorer: https://solscan.io/tx/" + txSig);
+  const { txId, explorerUrl } = await solanaBroadcaster(rpcUrl).broadcast(signed);
+  console.log("TX sent:", txId);
+  console.log("Explorer:", explorerUrl);
+
+  // Step 4: Wait until it lands — dropped if the blockhash expires first
+  await waitForConfirmation("solana", txId, {
+    rpc: rpcUrl,
+    blockhash: args[2],
+    onProgress: (e) => console.log(`  ${e.state} after ${e.elapsedMs} ms`),
+  });
+  console.log("TX confirmed:", txId);
 
-  return txSig;
+  return txId;
 }
 
 // ══════════════════════════════════════════════════════════════
@@ -81,63 +118,62 @@ async function signOnlyEvmSend(
   toAddress: string,
   valueWei: bigint,
   rpcUrl: string,
-  chainId: bigint,
+  chain: EvmChainId,
 ) {
-  const menese = await createMeneseActor();
-
-  // Step 1: Fetch nonce + gas price from YOUR RPC
-  const evmInfo = await menese.getMyEvmAddress();
-  const senderAddress = evmInfo.evmAddress;
-
-  console.log("Fetching nonce and gas price...");
-  const [nonceRes, gasPriceRes] = await Promise.all([
-    fetch(rpcUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        jsonrpc: "2.0", id: 1, method: "eth_getTransactionCount",
-        params: [senderAddress, "latest"],
-      }),
-    }),
-    fetch(rpcUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        jsonrpc: "2.0", id: 2, method: "eth_gasPrice", params: [],
-      }),
-    }),
-  ]);
-
-  const nonceJson = await nonceRes.json();
-  const gasPriceJson = await gasPriceRes.json();
-
-  const nonce = BigInt(nonceJson.result);
-  const gasPrice = BigInt(gasPriceJson.result);
-  const gasLimit = BigInt(21000); // Standard ETH transfer
-
-  console.log(`Nonce: ${nonce}, Gas price: ${gasPrice}, Gas limit: ${gasLimit}`);
-
-  // Step 2: Canister signs the transaction (1 action)
-  // buildAndSignEvmTxWithData(to, value, data, nonce, gasLimit, gasPrice, chainId)
-  console.log("Signing on canister...");
-  const signed = await menese.buildAndSignEvmTxWithData(
-    toAddress,
-    valueWei,
-    [],            // data: empty for simple ETH transfer
-    nonce,
-    gasLimit,
-    gasPrice,
-    chainId,
-  );
-  console.log("TX hash:", signed.txHash);
+  const menese = await session.menese();
+  const { evmAddress: sender } = await menese.getMyEvmAddress();
+
+  // Step 1: Fetch nonce, gas limit, gas price and chain id from YOUR RPC
+  // (throws if the RPC is not on `chain` — a wrong chainId would sign for another network)
+  //
+  // Fee model: the relayer takes ONE gasPrice. On EIP-1559 chains it is priced
+  // from eth_feeHistory as next base fee + headroom + tip (slow / normal / fast,
+  // see evm-fees.ts); on BSC it is eth_gasPrice. Arbitrum ignores the tip;
+  // Base/Optimism also charge an L1 data fee outside gasPrice.
+  //
+  // Nonce: the pending count is the same for every send in flight, so two
+  // parallel sends would sign the same nonce and one would be dropped. The
+  // shared nonce manager hands out one nonce per send; release it if nothing
+  // gets broadcast, so the next send fills it instead of leaving a gap.
+  const lease = await evmNonceManager(chain, sender, rpcUrl).reserve();
+  let txId: string;
+  try {
+    console.log("Fetching fees...");
+    const args = await prepareEvmTransfer(rpcUrl, sender, toAddress, valueWei, { evmChain: chain, speed: "normal", nonce: lease.nonce });
+    const [, , , nonce, gasLimit, gasPrice] = args;
+    console.log(`Nonce: ${nonce}, Gas price: ${gasPrice}, Gas limit: ${gasLimit}`);
+
+    // Step 2: Canister signs the transaction (1 action)
+    // buildAndSignEvmTxWithData(to, value, data, nonce, gasLimit, gasPrice, chainId)
+    console.log("Signing on canister...");
+    const signed = await menese.buildAndSignEvmTxWithData(...args);
+    console.log("TX hash:", signed.txHash);
+
+    // Step 3: Broadcast from frontend via YOUR RPC
+    // The canister returns two versions: rawTxHex_v0 (legacy type-0 gasPrice tx) and
+    // rawTxHex_v1 (EIP-1559 type-2), which the broadcaster sends by default ({ legacy: true } sends v0).
+    // decodeEvmRawTx shows the type and fee fields each was signed with.
+    for (const [name, raw] of [["v0", signed.rawTxHex_v0], ["v1", signed.rawTxHex_v1]]) {
+      const tx = decodeEvmRawTx(raw);
+      console.log(`${name}: type ${tx.type}, gasPrice ${tx.gasPrice ?? tx.maxFeePerGas}, max cost ${tx.maxCost} wei`);
+    }
+    console.log("Broadcasting...");
+    const result = await evmBroadcaster(chain, rpcUrl).broadcast(signed);
+    lease.sent(args, result.txId);
+    txId = result.txId;
+    console.log("TX sent:", txId);
+    console.log("Explorer:", result.explorerUrl);
+  } catch (e) {
+    lease.release();
+    throw e;
+  }
 
-  // Step 3: Broadcast from frontend via YOUR RPC
-  // The canister returns two versions: rawTxHex_v0 (legacy) and rawTxHex_v1 (EIP-1559 compatible)
-  console.log("Broadcasting...");
-  const txHash = await broadcastEvm(signed.rawTxHex_v1, rpcUrl);
-  console.log("TX confirmed:", txHash);
+  // Step 4: Wait for the receipt and a few blocks on top (DEFAULT_CONFIRMATIONS per chain);
+  // sender + nonce let it notice a replacement transaction
+  const { confirmations } = await waitForConfirmation(chain, txId, { rpc: rpcUrl, sender, nonce: lease.nonce });
+  console.log(`TX confirmed (${confirmations} blocks):`, txId);
 
-  return txHash;
+  return txId;
 }
 
 // ══════════════════════════════════════════════════════════════
@@ -149,72 +185,31 @@ async function signOnlyXrpSend(
   amountXrp: string,   // e.g. "10.5" (XRP, not drops)
   rpcUrl: string = "https://s1.ripple.com:51234",
 ) {
-  const menese = await createMeneseActor();
-
-  // Step 1: Fetch account info (sequence number) from YOUR RPC
-  const xrpInfo = await menese.getMyXrpAddress();
-  const senderAddress = xrpInfo.classicAddress;
+  const menese = await session.menese();
+  const { classicAddress: sender } = await menese.getMyXrpAddress();
 
+  // Step 1: Fetch sequence, current ledger (for LastLedgerSequence) and fee from YOUR RPC
   console.log("Fetching XRP account info...");
-  const acctRes = await fetch(rpcUrl, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      method: "account_info",
-      params: [{ account: senderAddress, ledger_index: "current" }],
-    }),
-  });
-  const acctJson = await acctRes.json();
-  const sequence: number = acctJson.result.account_data.Sequence;
-
-  // Fetch current ledger for lastLedgerSequence (timeout protection)
-  const ledgerRes = await fetch(rpcUrl, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      method: "ledger_current", params: [{}],
-    }),
-  });
-  const ledgerJson = await ledgerRes.json();
-  const currentLedger: number = ledgerJson.result.ledger_current_index;
-  const lastLedgerSeq = currentLedger + 20; // Valid for ~20 ledgers (~80 seconds)
-
-  const fee = BigInt(12); // 12 drops (standard XRP fee)
-
-  console.log(`Sequence: ${sequence}, Last ledger: ${lastLedgerSeq}`);
+  const args = await prepareXrpTransfer(rpcUrl, sender, destAddress, amountXrp);
+  console.log(`Sequence: ${args[2]}, Last ledger: ${args[3]}, Fee: ${args[4]} drops`);
 
   // Step 2: Canister signs the transaction (1 action)
   console.log("Signing on canister...");
-  const signed = await menese.signXrpTransferRelayer(
-    destAddress,
-    amountXrp,
-    sequence,
-    lastLedgerSeq,
-    fee,
-    [],  // destinationTag: optional
-  );
+  const signed = await menese.signXrpTransferRelayer(...args);
   console.log("TX hash:", signed.txHash);
 
   // Step 3: Broadcast — submit the signed blob to YOUR XRP node
+  // (throws with the engine result, e.g. tecUNFUNDED_PAYMENT, if rejected)
   console.log("Broadcasting...");
-  const submitRes = await fetch(rpcUrl, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      method: "submit",
-      params: [{ tx_blob: signed.signedTxHex }],
-    }),
-  });
-  const submitJson = await submitRes.json();
+  const { txId, explorerUrl } = await xrpBroadcaster(rpcUrl).broadcast(signed);
+  console.log("TX submitted successfully!");
+  console.log("Explorer:", explorerUrl);
 
-  if (submitJson.result.engine_result === "tesSUCCESS") {
-    console.log("TX submitted successfully!");
-    console.log("Explorer: https://xrpscan.com/tx/" + signed.txHash);
-  } else {
-    console.error("Submit result:", submitJson.result.engine_result_message);
-  }
+  // Step 4: Wait for a validated ledger — dropped once LastLedgerSequence passes
+  await waitForConfirmation("xrp", txId, { rpc: rpcUrl, lastLedgerSequence: args[3] });
+  console.log("TX validated:", txId);
 
-  return signed.txHash;
+  return txId;
 }
 
 // ══════════════════════════════════════════════════════════════
@@ -226,67 +221,46 @@ async function signOnlySuiSend(
   amountMist: bigint,
   rpcUrl: string = "https://fullnode.mainnet.sui.io",
 ) {
-  const menese = await createMeneseActor();
-
-  // Step 1: Fetch gas coin info from YOUR RPC
-  const suiInfo = await menese.getMySuiAddress();
-  const senderAddress = suiInfo.suiAddress;
+  const menese = await session.menese();
+  const { suiAddress: sender } = await menese.getMySuiAddress();
 
+  // Step 1: Fetch a gas coin (id, version, digest) from YOUR RPC
   console.log("Fetching SUI gas coins...");
-  const coinsRes = await fetch(rpcUrl, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      jsonrpc: "2.0", id: 1, method: "suix_getCoins",
-      params: [senderAddress, "0x2::sui::SUI", null, 1],
-    }),
-  });
-  const coinsJson = await coinsRes.json();
-  const coin = coinsJson.result.data[0];
-
-  const gasCoinId: string = coin.coinObjectId;
-  const gasCoinVersion: bigint = BigInt(coin.version);
-  const gasCoinDigest: string = coin.digest;
-
-  console.log(`Gas coin: ${gasCoinId} v${gasCoinVersion}`);
+  const args = await prepareSuiTransfer(rpcUrl, sender, recipientAddress, amountMist);
+  console.log(`Gas coin: ${args[2]} v${args[3]}`);
 
   // Step 2: Canister signs the transaction (1 action)
   console.log("Signing on canister...");
-  const signed = await menese.signSuiTransferRelayer(
-    recipientAddress,
-    amountMist,
-    gasCoinId,
-    gasCoinVersion,
-    gasCoinDigest,
-  );
+  const signed = await menese.signSuiTransferRelayer(...args);
   console.log("Signed TX ready");
 
   // Step 3: Broadcast — execute the signed tx via YOUR RPC
+  // (throws if the effects status is not "success")
   console.log("Broadcasting...");
-  const execRes = await fetch(rpcUrl, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      jsonrpc: "2.0", id: 1, method: "sui_executeTransactionBlock",
-      params: [
-        signed.txBytesBase64,
-        [signed.signatureBase64],
-        { showEffects: true },
-        "WaitForLocalExecution",
-      ],
-    }),
+  const { txId: digest, explorerUrl } = await suiBroadcaster(rpcUrl).broadcast(signed);
+  console.log("TX executed:", digest);
+  console.log("Explorer:", explorerUrl);
+
+  // Step 4: Wait until it is in a checkpoint
+  await waitForConfirmation("sui", digest, { rpc: rpcUrl, level: "finalized" });
+  console.log("TX finalized:", digest);
+  return digest;
+}
+
+// ══════════════════════════════════════════════════════════════
+// EVERY OTHER CHAIN — fetch → sign → broadcast in one call
+// ══════════════════════════════════════════════════════════════
+// signAndBroadcast runs the same four steps for any sign-only chain.
+// Nodes default to the network's (network.ts); pass `rpcs` for your own.
+
+async function signOnlySend(chain: "near" | "aptos" | "ton" | "cardano" | "tron", to: string, amount: string) {
+  const { txId, explorerUrl } = await signAndBroadcast(chain, to, amount, session.config, {
+    menese: await session.menese(),
+    headers: { tron: { "TRON-PRO-API-KEY": "your-trongrid-key" } },
+    confirm: "confirmed",
   });
-  const execJson = await execRes.json();
-
-  if (execJson.result?.effects?.status?.status === "success") {
-    const digest = execJson.result.digest;
-    console.log("TX confirmed:", digest);
-    console.log("Explorer: https://suiscan.xyz/mainnet/tx/" + digest);
-    return digest;
-  } else {
-    console.error("TX failed:", execJson.result?.effects?.status);
-    return null;
-  }
+  console.log(`${chain} TX confirmed:`, txId, explorerUrl);
+  return txId;
 }
 
 // ══════════════════════════════════════════════════════════════
@@ -308,18 +282,38 @@ async function main() {
     "0xRecipientAddress...",
     BigInt("10000000000000000"),  // 0.01 ETH in wei
     "https://eth.llamarpc.com",
-    BigInt(1),  // chainId: 1 = Ethereum
+    "ethereum",  // chainId 1
   );
 
   // ── EVM: sign-only send on Arbitrum ────────────────────────
-  // Same function, different RPC and chainId — that's it.
+  // Same function, different RPC and chain — that's it.
   await signOnlyEvmSend(
     "0xRecipientAddress...",
     BigInt("10000000000000000"),
     "https://arb1.arbitrum.io/rpc",
-    BigInt(42161),  // chainId: 42161 = Arbitrum
+    "arbitrum",  // chainId 42161
   );
 
+  // ── EVM: parallel sends from one address ───────────────────
+  // signAndBroadcast takes nonces from the same shared manager — no collisions.
+  const baseRpc = "https://mainnet.base.org";
+  const payouts = await Promise.all(
+    ["0xRecipientA...", "0xRecipientB...", "0xRecipientC..."].map((to) =>
+      signAndBroadcast("base", to, "0.001", session.config, { rpcs: { base: baseRpc } })),
+  );
+  console.log("Payouts:", payouts.map((p) => p.txId));
+
+  // Stuck behind a low fee? Re-sign the same nonce at the "fast" preset —
+  // or cancel it (0-value self-transfer). gaps() lists nonces blocking the rest.
+  const { evmAddress } = await (await session.menese()).getMyEvmAddress();
+  const nonces = evmNonceManager("base", evmAddress, baseRpc);
+  const [first] = nonces.pending;
+  if (first) await nonces.speedUp(await session.menese(), first.nonce);
+  for (const gap of await nonces.gaps()) {
+    console.log(`Nonce ${gap.nonce} is a gap (${gap.reason}) — filling it`);
+    await nonces.cancel(await session.menese(), gap.nonce);
+  }
+
   // ── XRP: sign-only send ────────────────────────────────────
   await signOnlyXrpSend(
     "rRecipientXRPAddress...",
@@ -331,6 +325,13 @@ async function main() {
     "0xRecipientSuiAddress...",
     BigInt(100_000_000),  // 0.1 SUI (9 decimals)
   );
+
+  // ── NEAR, Aptos, TON, Cardano, Tron: one call each ─────────
+  await signOnlySend("near", "recipient.near", "0.5");
+  await signOnlySend("aptos", "0xRecipientAptosAddress...", "1.25");
+  await signOnlySend("ton", "EQRecipientTonAddress...", "2");
+  await signOnlySend("cardano", "addr1RecipientCardanoAddress...", "10");
+  await signOnlySend("tron", "TRecipientTronAddress...", "25");
 }
 
 main().catch(console.error);
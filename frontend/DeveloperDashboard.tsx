@@ -8,6 +8,7 @@
 //   <DeveloperDashboard backend={meneseActor} />
 
 import React, { useState, useEffect, useCallback } from "react";
+import { Amount } from "./amount";
 
 // ─── Types (match sdk-setup.ts IDL) ──────────────────────────
 
@@ -144,11 +145,11 @@ export function DeveloperDashboard({ backend }: DeveloperDashboardProps) {
   };
 
   const depositCredits = async () => {
-    const amount = Number(depositAmount);
-    if (!amount || amount <= 0) return;
+    if (!depositAmount) return;
     setActionLoading("deposit");
     try {
-      const e8s = BigInt(Math.round(amount * 1e8));
+      const e8s = Amount.parse(depositAmount, "icp").units;  // throws on invalid input
+      if (e8s <= 0n) return;
       const result = await backend.depositGatewayCredits("ICP", e8s);
       if ("ok" in result) {
         setDepositAmount("");
@@ -0,0 +1,83 @@
+// addresses.test.ts — validateAddress against published vectors (BIP-173/350, EIP-55, XRP X-addresses, CIP-19)
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { validateAddress, toChecksumAddress, tonFriendlyAddress } from "./addresses";
+import { InvalidAddress } from "./errors";
+
+test("bitcoin: BIP-173 and BIP-350 segwit vectors", async () => {
+  const p2wpkh = await validateAddress("bitcoin", "BC1QW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4");
+  assert.deepEqual(p2wpkh, { chain: "bitcoin", address: "bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4", kind: "p2wpkh", testnet: false });
+
+  const p2wsh = "tb1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3q0sl5k7";
+  assert.equal((await validateAddress("bitcoin", p2wsh, { testnet: true })).kind, "p2wsh");
+  await assert.rejects(validateAddress("bitcoin", p2wsh), /is a testnet address — expected mainnet/);
+
+  const taproot = "bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0";
+  assert.equal((await validateAddress("bitcoin", taproot)).kind, "p2tr");
+  // The same v1 program with a bech32 (not bech32m) checksum
+  await assert.rejects(validateAddress("bitcoin", "bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqh2y7hd"), /bad bech32m checksum/);
+  // Mixed case
+  await assert.rejects(validateAddress("bitcoin", "tb1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3q0sL5k7", { testnet: true }), InvalidAddress);
+  // v0 program of 16 bytes
+  await assert.rejects(validateAddress("bitcoin", "BC1QR508D6QEJXTDG4Y5R3ZARVARYV98GJ9P"), /v0 programs are 20 or 32 bytes/);
+});
+
+test("bitcoin: base58check P2PKH and P2SH", async () => {
+  assert.equal((await validateAddress("bitcoin", "1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2")).kind, "p2pkh");
+  assert.equal((await validateAddress("bitcoin", "3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy")).kind, "p2sh");
+  await assert.rejects(validateAddress("bitcoin", "1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN3"), InvalidAddress);
+});
+
+test("EVM: EIP-55 checksums", async () => {
+  const checksummed = "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed";
+  assert.equal(toChecksumAddress(checksummed.toLowerCase()), checksummed);
+  assert.equal((await validateAddress("ethereum", checksummed.toUpperCase().replace("0X", "0x"))).address, checksummed);
+  await assert.rejects(validateAddress("base", checksummed.replace("a", "A")), /fails its EIP-55 checksum/);
+  await assert.rejects(validateAddress("ethereum", "0x1234"), /not 0x followed by 40 hex digits/);
+});
+
+test("xrp: X-addresses carry the destination tag", async () => {
+  const info = await validateAddress("xrp", "XVLhHMPHU98es4dbozjVtdWzVrDjtV18pX8yuPT7y4xaEHi");
+  assert.equal(info.address, "rGWrZyQqhTp9Xu7G5Pkayo7bXjH4k4QYpf");
+  assert.equal(info.destinationTag, 4294967295);
+  assert.equal(info.testnet, false);
+
+  const untagged = await validateAddress("xrp", "X7AcgcsBL6XDcUb289X4mJ8djcdyKaB5hJDWMArnXr61cqZ");
+  assert.equal(untagged.address, "r9cZA1mLK5R5Am25ArfXFmqgNwjZgnfk59");
+  assert.equal(untagged.destinationTag, undefined);
+
+  await assert.rejects(
+    validateAddress("xrp", "XVLhHMPHU98es4dbozjVtdWzVrDjtV18pX8yuPT7y4xaEHi", { destinationTag: 1 }),
+    /carries destination tag 4294967295, but 1 was given/,
+  );
+  assert.equal((await validateAddress("xrp", "rGWrZyQqhTp9Xu7G5Pkayo7bXjH4k4QYpf")).address, "rGWrZyQqhTp9Xu7G5Pkayo7bXjH4k4QYpf");
+});
+
+test("cardano: CIP-19 payment addresses, not stake addresses", async () => {
+  const base = await validateAddress("cardano", "addr1qx2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzer3n0d3vllmyqwsx5wktcd8cc3sq835lu7drv2xwl2wywfgse35a3x");
+  assert.equal(base.testnet, false);
+  const enterprise = await validateAddress("cardano", "addr1vx2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzers66hrl8");
+  assert.notEqual(enterprise.kind, base.kind);
+  await assert.rejects(validateAddress("cardano", "stake1uyehkck0lajq8gr28t9uxnuvgcqrc6070x3k9r8048z8y5gh6ffgw"), /stake \(reward\) address/);
+});
+
+test("ton: raw and user-friendly forms round-trip", async () => {
+  const raw = `0:${"ab".repeat(32)}`;
+  const bounceable = tonFriendlyAddress(raw, true);
+  assert.match(bounceable, /^EQ/);
+  const info = await validateAddress("ton", bounceable, { bounceable: false });
+  assert.match(info.address, /^UQ/);
+  assert.equal(info.address, tonFriendlyAddress(raw, false));
+  const flipped = bounceable.slice(0, 10) + (bounceable[10] === "A" ? "B" : "A") + bounceable.slice(11);
+  await assert.rejects(validateAddress("ton", flipped), /CRC16/);
+});
+
+test("tron, sui, near and icp", async () => {
+  const zero = await validateAddress("tron", `41${"0".repeat(40)}`);
+  assert.equal(zero.address, "T9yD14Nj9j7xAB4dbGeiX9h8unkKHxuWwb");
+  assert.equal((await validateAddress("tron", zero.address)).kind, "base58");
+  assert.equal((await validateAddress("sui", "0x2")).address, `0x${"2".padStart(64, "0")}`);
+  await assert.rejects(validateAddress("near", "Alice.near"), /uppercase/);
+  assert.equal((await validateAddress("icp", "aaaaa-aa")).kind, "principal");
+});
@@ -0,0 +1,418 @@
+// addresses.ts — Check and normalize recipient addresses before sending
+//
+// The canister parses the recipient after the action is counted, so a typo
+// costs an action — or the funds, when it still parses. validateAddress()
+// checks an address's format, checksum and network for its chain, and returns
+// the form to send to:
+//
+//   const { address } = await validateAddress("ethereum", "0xfb6916095ca1df60bb79ce92ce3ea74c37c5d359");
+//   // "0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359" — EIP-55 checksummed
+//
+//   await validateAddress("bitcoin", "tb1q...");                   // InvalidAddress: testnet address
+//   await validateAddress("ton", "EQ...", { bounceable: false });  // → "UQ..."
+//   await validateAddress("xrp", "X7AcgcsBL6XDcUb...");            // classic address + destinationTag
+//
+//   // With a node, also check what the recipient's state requires
+//   await validateAddress("xrp", "rExchange...", { rpc, destinationTag: 1234 });
+//
+//   chain        accepted                                                 returned
+//   solana       base58, 32 bytes                                         as given
+//   EVM chains   0x + 40 hex; mixed case must match EIP-55                checksummed
+//   bitcoin      P2PKH / P2SH base58check, segwit v0 / taproot           lowercase segwit
+//   litecoin     L / M / 3 base58check, ltc1 segwit                       lowercase segwit
+//   xrp          classic r... or X-address (carries a destination tag)   classic
+//   ton          EQ... / UQ... (CRC16) or raw wc:hex                      URL-safe, bounceable as given
+//   cardano      Shelley bech32 addr1... / addr_test1...                  lowercase
+//   thorchain    bech32 thor1... (tthor / sthor on testnet)               lowercase
+//   tron         T... base58check, or 41 + 40 hex                         base58
+//   sui, aptos   0x + up to 64 hex                                        lowercase, padded to 64
+//   near         64-hex implicit, 0x + 40-hex ETH-implicit, named         as given
+//   icp          principal, or 64-hex account identifier (CRC32)          as given
+//   cloak        base58check                                              as given
+//
+// With `rpc`, three chains also check the recipient's state: an XRP account
+// with RequireDest needs a destination tag, a bounceable TON address of an
+// inactive wallet would bounce the funds back, and a NEAR named account must
+// exist. send(), signAndBroadcast() and prepareIntent() validate every
+// recipient this way before calling the canister.
+
+import { Principal } from "@dfinity/principal";
+import { isEvmChain, type ChainId } from "./chains";
+import {
+  XRP_B58,
+  base58CheckToBytes,
+  base58ToBytes,
+  base64ToBytes,
+  bech32ToBytes,
+  bytesToBase58Check,
+  bytesToBase64,
+  bytesToHex,
+  hexToBytes,
+  keccak256,
+  segwitToBytes,
+} from "./encoding";
+import { InvalidAddress, MeneseError } from "./errors";
+import { getJson, jsonRpc, rippledRpc, type RpcOptions } from "./rpc";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface AddressInfo {
+  chain: ChainId;
+  /** Normalized address — what to pass to the canister */
+  address: string;
+  /** Address type: "p2wpkh", "eip55", "bounceable", "implicit", "principal"... */
+  kind: string;
+  /** Set when the address encodes its network (Bitcoin, Litecoin, XRP X-address, TON, Cardano, THORChain) */
+  testnet?: boolean;
+  /** TON user-friendly addresses: the bounce flag they carry */
+  bounceable?: boolean;
+  /** XRP X-addresses: the destination tag they carry */
+  destinationTag?: number;
+}
+
+export interface ValidateAddressOptions extends RpcOptions {
+  /** Expect testnet / regtest addresses. Default: mainnet */
+  testnet?: boolean;
+  /** TON: return the bounceable (EQ...) or non-bounceable (UQ...) form. Default: the form given */
+  bounceable?: boolean;
+  /** Node to check the recipient's state on (XRP, TON, NEAR). Default: format checks only */
+  rpc?: string;
+  /** XRP: the DestinationTag that will be sent */
+  destinationTag?: number;
+}
+
+/** Chains whose recipients validateAddress can also check on a node. */
+export const RECIPIENT_STATE_CHAINS: readonly ChainId[] = ["xrp", "ton", "near"];
+
+// XRP account flag: incoming payments must carry a DestinationTag
+const LSF_REQUIRE_DEST_TAG = 0x00020000;
+
+// TON user-friendly tag byte
+const TON_BOUNCEABLE = 0x11;
+const TON_NON_BOUNCEABLE = 0x51;
+const TON_TESTNET_ONLY = 0x80;
+
+// ============================================================
+// CHECKSUMS
+// ============================================================
+
+/** CRC-32 (IEEE) — ICP account identifiers. */
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const b of bytes) {
+    crc ^= b;
+    for (let i = 0; i < 8; i++) crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** CRC-16/XMODEM — TON user-friendly addresses. */
+function crc16(bytes: Uint8Array): number {
+  let crc = 0;
+  for (const b of bytes) {
+    crc ^= b << 8;
+    for (let i = 0; i < 8; i++) crc = (crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1) & 0xffff;
+  }
+  return crc;
+}
+
+/** EIP-55 mixed-case checksum of an EVM address. */
+export function toChecksumAddress(address: string): string {
+  const hex = address.replace(/^0x/i, "").toLowerCase();
+  if (!/^[0-9a-f]{40}$/.test(hex)) throw new InvalidAddress(`Not an EVM address: "${address}"`);
+  const hash = bytesToHex(keccak256(hex));
+  return `0x${[...hex].map((c, i) => (parseInt(hash[i], 16) >= 8 ? c.toUpperCase() : c)).join("")}`;
+}
+
+/** "0:hex" → user-friendly, URL-safe "EQ..." (bounceable) or "UQ..." (non-bounceable). */
+export function tonFriendlyAddress(raw: string, bounceable: boolean, testnet = false): string {
+  const match = /^(-?\d+):([0-9a-fA-F]{64})$/.exec(raw);
+  if (!match) throw new InvalidAddress(`Not a raw TON address: "${raw}"`);
+  const body = new Uint8Array(36);
+  body[0] = (bounceable ? TON_BOUNCEABLE : TON_NON_BOUNCEABLE) | (testnet ? TON_TESTNET_ONLY : 0);
+  body[1] = Number(match[1]) & 0xff;
+  body.set(hexToBytes(match[2]), 2);
+  const crc = crc16(body.subarray(0, 34));
+  body[34] = crc >> 8;
+  body[35] = crc & 0xff;
+  return bytesToBase64(body).replace(/\+/g, "-").replace(/\//g, "_");
+}
+
+/** User-friendly TON address (already checked) → "wc:hex". */
+function tonRaw(friendly: string): string {
+  const bytes = base64ToBytes(friendly);
+  return `${(bytes[1] << 24) >> 24}:${bytesToHex(bytes.slice(2, 34))}`;
+}
+
+// ============================================================
+// PER-CHAIN FORMATS
+// ============================================================
+
+type UtxoChain = "bitcoin" | "litecoin";
+
+interface UtxoFormat {
+  hrps: string[];
+  /** base58check version byte → address type */
+  versions: Record<number, string>;
+}
+
+const UTXO_FORMATS: Record<UtxoChain, { mainnet: UtxoFormat; testnet: UtxoFormat }> = {
+  bitcoin: {
+    mainnet: { hrps: ["bc"], versions: { 0x00: "p2pkh", 0x05: "p2sh" } },
+    testnet: { hrps: ["tb", "bcrt"], versions: { 0x6f: "p2pkh", 0xc4: "p2sh" } },
+  },
+  litecoin: {
+    mainnet: { hrps: ["ltc"], versions: { 0x30: "p2pkh", 0x32: "p2sh", 0x05: "p2sh" } },
+    testnet: { hrps: ["tltc", "rltc"], versions: { 0x6f: "p2pkh", 0x3a: "p2sh", 0xc4: "p2sh" } },
+  },
+};
+
+/** Run a decoder, turning its plain Error into an InvalidAddress. */
+async function decoded<T>(chain: ChainId, run: () => T | Promise<T>): Promise<T> {
+  try {
+    return await run();
+  } catch (e) {
+    if (e instanceof MeneseError) throw e;
+    throw new InvalidAddress(`${chain}: ${(e as Error).message}`, { cause: e });
+  }
+}
+
+async function utxoAddress(chain: UtxoChain, address: string, fail: (why: string) => InvalidAddress): Promise<AddressInfo> {
+  const { mainnet, testnet } = UTXO_FORMATS[chain];
+  const lower = address.toLowerCase();
+  const prefix = lower.slice(0, lower.lastIndexOf("1"));
+  if ([...mainnet.hrps, ...testnet.hrps].includes(prefix)) {
+    const { hrp, version, program } = await decoded(chain, () => segwitToBytes(address));
+    const kind =
+      version === 0 ? (program.length === 20 ? "p2wpkh" : "p2wsh")
+      : version === 1 && program.length === 32 ? "p2tr"
+      : `witness v${version}`;
+    return { chain, address: lower, kind, testnet: testnet.hrps.includes(hrp) };
+  }
+  const bytes = await decoded(chain, () => base58CheckToBytes(address));
+  if (bytes.length !== 21) throw fail("is not a segwit or base58check address");
+  const kind = mainnet.versions[bytes[0]] ?? testnet.versions[bytes[0]];
+  if (!kind) throw fail(`has version byte 0x${bytes[0].toString(16)}, not a ${chain} address`);
+  return { chain, address, kind, testnet: !(bytes[0] in mainnet.versions) };
+}
+
+async function xrpAddress(address: string, fail: (why: string) => InvalidAddress): Promise<AddressInfo> {
+  const bytes = await decoded("xrp", () => base58CheckToBytes(address, XRP_B58));
+  if (bytes.length === 21 && bytes[0] === 0) return { chain: "xrp", address, kind: "classic" };
+  // X-address: 2-byte network prefix, account id, tag flag, 64-bit little-endian tag
+  const prefix = bytesToHex(bytes.slice(0, 2));
+  if (bytes.length !== 31 || (prefix !== "0544" && prefix !== "0493")) throw fail("is not a classic or X-address");
+  const flag = bytes[22];
+  const tag = bytes[23] + bytes[24] * 2 ** 8 + bytes[25] * 2 ** 16 + bytes[26] * 2 ** 24;   // not |: tags reach 2^32 − 1
+  if (flag > 1 || bytes.slice(27).some((b) => b !== 0) || (flag === 0 && tag !== 0)) throw fail("has a malformed destination tag");
+  return {
+    chain: "xrp",
+    address: await bytesToBase58Check(Uint8Array.from([0, ...bytes.slice(2, 22)]), XRP_B58),
+    kind: "x-address",
+    testnet: prefix === "0493",
+    destinationTag: flag ? tag : undefined,
+  };
+}
+
+async function tonAddress(address: string, options: ValidateAddressOptions, fail: (why: string) => InvalidAddress): Promise<AddressInfo> {
+  const raw = /^(-?\d+):([0-9a-fA-F]{64})$/.exec(address);
+  if (raw) {
+    const normalized = `${raw[1]}:${raw[2].toLowerCase()}`;
+    return options.bounceable === undefined
+      ? { chain: "ton", address: normalized, kind: "raw" }
+      : { chain: "ton", address: tonFriendlyAddress(normalized, options.bounceable, options.testnet), kind: "raw", bounceable: options.bounceable };
+  }
+  if (!/^[A-Za-z0-9+/_-]{48}$/.test(address)) throw fail("is not a user-friendly (EQ.../UQ...) or raw (0:hex) address");
+  const bytes = base64ToBytes(address);
+  const crc = crc16(bytes.subarray(0, 34));
+  if (bytes[34] !== crc >> 8 || bytes[35] !== (crc & 0xff)) throw fail("fails its CRC16 checksum");
+  const tag = bytes[0] & ~TON_TESTNET_ONLY;
+  if (tag !== TON_BOUNCEABLE && tag !== TON_NON_BOUNCEABLE) throw fail(`has an unknown tag byte 0x${bytes[0].toString(16)}`);
+  const testnet = (bytes[0] & TON_TESTNET_ONLY) !== 0;
+  const bounceable = options.bounceable ?? tag === TON_BOUNCEABLE;
+  return {
+    chain: "ton",
+    address: tonFriendlyAddress(tonRaw(address), bounceable, testnet),
+    kind: tag === TON_BOUNCEABLE ? "bounceable" : "non-bounceable",
+    testnet,
+    bounceable,
+  };
+}
+
+async function cardanoAddress(address: string, fail: (why: string) => InvalidAddress): Promise<AddressInfo> {
+  const { hrp, bytes } = await decoded("cardano", () => bech32ToBytes(address));
+  if (hrp === "stake" || hrp === "stake_test") throw fail("is a stake (reward) address, not a payment address");
+  if (hrp !== "addr" && hrp !== "addr_test") throw fail(`has prefix "${hrp}", expected addr or addr_test`);
+  const type = bytes[0] >> 4;
+  const networkId = bytes[0] & 0x0f;
+  if (networkId !== (hrp === "addr" ? 1 : 0)) throw fail(`has network id ${networkId} in its header but prefix "${hrp}"`);
+  // Header types 0–3 base (57 bytes), 4–5 pointer, 6–7 enterprise (29 bytes)
+  const kind = type <= 3 ? "base" : type <= 5 ? "pointer" : type <= 7 ? "enterprise" : undefined;
+  if (!kind) throw fail(`has header type ${type}, not a Shelley payment address`);
+  if ((kind === "base" && bytes.length !== 57) || (kind === "enterprise" && bytes.length !== 29) || (kind === "pointer" && bytes.length < 30)) {
+    throw fail(`is ${bytes.length} bytes, too ${bytes.length < 29 ? "short" : "long"} for a ${kind} address`);
+  }
+  return { chain: "cardano", address: address.toLowerCase(), kind, testnet: hrp === "addr_test" };
+}
+
+async function icpAddress(address: string, fail: (why: string) => InvalidAddress): Promise<AddressInfo> {
+  if (/^[0-9a-fA-F]{64}$/.test(address)) {
+    const bytes = hexToBytes(address);
+    const crc = bytes[0] * 2 ** 24 + (bytes[1] << 16) + (bytes[2] << 8) + bytes[3];
+    if (crc !== crc32(bytes.subarray(4))) throw fail("fails its account identifier CRC32");
+    return { chain: "icp", address: address.toLowerCase(), kind: "accountId" };
+  }
+  const principal = await decoded("icp", () => Principal.fromText(address));
+  return { chain: "icp", address: principal.toText(), kind: "principal" };
+}
+
+const NEAR_NAMED = /^(([a-z\d]+[-_])*[a-z\d]+\.)*([a-z\d]+[-_])*[a-z\d]+$/;
+
+function nearAddress(address: string, fail: (why: string) => InvalidAddress): AddressInfo {
+  if (/^[0-9a-f]{64}$/.test(address)) return { chain: "near", address, kind: "implicit" };
+  if (/^0x[0-9a-f]{40}$/.test(address)) return { chain: "near", address, kind: "eth-implicit" };
+  if (/[A-Z]/.test(address)) throw fail("has uppercase letters — NEAR account ids are lowercase");
+  if (address.length < 2 || address.length > 64 || !NEAR_NAMED.test(address)) throw fail("is not a valid NEAR account id");
+  return { chain: "near", address, kind: "named" };
+}
+
+// ============================================================
+// RECIPIENT STATE
+// ============================================================
+
+async function checkRecipientState(info: AddressInfo, options: ValidateAddressOptions & { rpc: string }, fail: (why: string) => InvalidAddress) {
+  switch (info.chain) {
+    case "xrp": {
+      let flags = 0;
+      try {
+        const r = await rippledRpc(options.rpc, "account_info", { account: info.address, ledger_index: "validated" }, options);
+        flags = r.account_data.Flags;
+      } catch (e) {
+        // Unfunded accounts are created by a payment of at least the reserve
+        if (!(e instanceof MeneseError && (e.raw as { error?: string } | undefined)?.error === "actNotFound")) throw e;
+      }
+      const tag = options.destinationTag ?? info.destinationTag;
+      if (flags & LSF_REQUIRE_DEST_TAG && tag === undefined) throw fail("requires a destination tag (RequireDest is set)");
+      return;
+    }
+    case "ton": {
+      if (!info.bounceable || options.bounceable !== undefined) return;
+      const r = await getJson(`${options.rpc.replace(/\/$/, "")}/getAddressState?address=${encodeURIComponent(info.address)}`, options);
+      if (!r.ok) throw new MeneseError(`ton: getAddressState: ${r.error ?? JSON.stringify(r)}`, { raw: r });
+      if (r.result !== "active") {
+        const nonBounceable = tonFriendlyAddress(tonRaw(info.address), false, info.testnet);
+        throw fail(`is bounceable but the wallet is ${r.result} — the transfer would bounce back. Send to ${nonBounceable}`);
+      }
+      return;
+    }
+    case "near": {
+      if (info.kind !== "named") return;   // implicit accounts are created by their first transfer
+      try {
+        const r = await jsonRpc<{ error?: string }>(options.rpc, "query", {
+          request_type: "view_account", finality: "final", account_id: info.address,
+        }, options);
+        // Older nodes report a missing account in `result.error`
+        if (r.error) throw new MeneseError(r.error, { raw: r });
+      } catch (e) {
+        const raw = e instanceof MeneseError ? (e.raw as { cause?: { name?: string } } | undefined) : undefined;
+        if (raw?.cause?.name === "UNKNOWN_ACCOUNT" || /does not exist/.test((e as Error).message)) {
+          throw fail("does not exist — named accounts must be created before they can receive");
+        }
+        throw e;
+      }
+      return;
+    }
+  }
+}
+
+// ============================================================
+// VALIDATE
+// ============================================================
+
+/**
+ * Check `address` for `chain` and return its normalized form. Throws
+ * InvalidAddress for a bad format or checksum, an address of the other
+ * network, or (with `options.rpc`) a recipient state the send would fail on.
+ */
+export async function validateAddress(chain: ChainId, address: string, options: ValidateAddressOptions = {}): Promise<AddressInfo> {
+  const fail = (why: string) => new InvalidAddress(`${chain}: "${address}" ${why}`);
+  const input = address.trim();
+  if (!input) throw fail("is empty");
+  let info: AddressInfo;
+
+  if (isEvmChain(chain)) {
+    if (!/^0x[0-9a-fA-F]{40}$/.test(input)) throw fail("is not 0x followed by 40 hex digits");
+    const checksummed = toChecksumAddress(input);
+    const hex = input.slice(2);
+    const mixed = hex !== hex.toLowerCase() && hex !== hex.toUpperCase();
+    if (mixed && input !== checksummed) throw fail(`fails its EIP-55 checksum (expected ${checksummed})`);
+    info = { chain, address: checksummed, kind: "eip55" };
+  } else {
+    switch (chain) {
+      case "solana": {
+        const bytes = await decoded(chain, () => base58ToBytes(input));
+        if (bytes.length !== 32) throw fail(`decodes to ${bytes.length} bytes, not 32`);
+        info = { chain, address: input, kind: "account" };
+        break;
+      }
+      case "bitcoin":
+      case "litecoin":
+        info = await utxoAddress(chain, input, fail);
+        break;
+      case "xrp":
+        info = await xrpAddress(input, fail);
+        if (info.destinationTag !== undefined && options.destinationTag !== undefined && info.destinationTag !== options.destinationTag) {
+          throw fail(`carries destination tag ${info.destinationTag}, but ${options.destinationTag} was given`);
+        }
+        break;
+      case "ton":
+        info = await tonAddress(input, options, fail);
+        break;
+      case "cardano":
+        info = await cardanoAddress(input, fail);
+        break;
+      case "thorchain": {
+        const { hrp, bytes } = await decoded(chain, () => bech32ToBytes(input));
+        if (hrp !== "thor" && hrp !== "tthor" && hrp !== "sthor") throw fail(`has prefix "${hrp}", expected thor`);
+        if (bytes.length !== 20 && bytes.length !== 32) throw fail(`decodes to ${bytes.length} bytes, not 20 or 32`);
+        info = { chain, address: input.toLowerCase(), kind: bytes.length === 20 ? "account" : "contract", testnet: hrp !== "thor" };
+        break;
+      }
+      case "tron": {
+        if (/^(0x)?41[0-9a-fA-F]{40}$/.test(input)) {
+          info = { chain, address: await bytesToBase58Check(hexToBytes(input)), kind: "hex" };
+          break;
+        }
+        const bytes = await decoded(chain, () => base58CheckToBytes(input));
+        if (bytes.length !== 21 || bytes[0] !== 0x41) throw fail("is not a Tron address (T... or 41 + 40 hex)");
+        info = { chain, address: input, kind: "base58" };
+        break;
+      }
+      case "sui":
+      case "aptos":
+        if (!/^0x[0-9a-fA-F]{1,64}$/.test(input)) throw fail("is not 0x followed by up to 64 hex digits");
+        info = { chain, address: `0x${input.slice(2).toLowerCase().padStart(64, "0")}`, kind: "account" };
+        break;
+      case "near":
+        info = nearAddress(input, fail);
+        break;
+      case "icp":
+        info = await icpAddress(input, fail);
+        break;
+      case "cloak":
+        await decoded(chain, () => base58CheckToBytes(input));
+        info = { chain, address: input, kind: "base58check" };
+        break;
+      default:
+        throw new MeneseError(`Unknown chain "${chain}" — see CHAINS in chains.ts`);
+    }
+  }
+
+  if (info.testnet !== undefined && info.testnet !== !!options.testnet) {
+    throw fail(`is a ${info.testnet ? "testnet" : "mainnet"} address — expected ${options.testnet ? "testnet" : "mainnet"}`);
+  }
+  if (options.rpc && RECIPIENT_STATE_CHAINS.includes(chain)) await checkRecipientState(info, { ...options, rpc: options.rpc }, fail);
+  return info;
+}
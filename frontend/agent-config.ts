@@ -0,0 +1,307 @@
+// agent-config.ts — One config object for every canister the SDK talks to
+//
+// By default the SDK logs in with Internet Identity and talks to mainnet.
+// A MeneseConfig lets you swap any of that out:
+//
+//   // Node service / CI — dfx identity exported as PEM
+//   const identity = identityFromPem(fs.readFileSync("identity.pem", "utf8"));
+//   const menese = await createMeneseActor({ identity });
+//
+//   // Existing agent (e.g. shared with the rest of your app)
+//   const menese = await createMeneseActor({ agent });
+//
+//   // NFID or Plug
+//   const menese = await createMeneseActor({ wallet: internetIdentityAdapter(NFID_PROVIDER) });
+//   const menese = await createMeneseActor({ wallet: plugAdapter() });
+//
+//   // Local dfx replica (see network.ts)
+//   const menese = await createMeneseActor({ network: await localNetwork(), identity });
+//
+// The same object works for createAnonActor (sdk-setup.ts), createSdkActor
+// (12-msol-icp-sol.ts) and createSovereignSendActor / createMsolActor
+// (sovereign-send.ts).
+//
+// PREREQUISITES (only for the PEM / seed loaders):
+//   npm install @dfinity/identity @dfinity/identity-secp256k1
+
+import { HttpAgent, type Agent, type Identity } from "@dfinity/agent";
+import { AuthClient } from "@dfinity/auth-client";
+import { Ed25519KeyIdentity } from "@dfinity/identity";
+import { Secp256k1KeyIdentity } from "@dfinity/identity-secp256k1";
+import { resolveNetwork, type Network } from "./network";
+import type { MeneseService } from "./menese-types";
+import type { RetryOptions } from "./retry";
+import type { QueryCache } from "./query-cache";
+
+// ============================================================
+// DEFAULTS (IC mainnet)
+// ============================================================
+
+export const DEFAULT_IC_HOST = "https://icp0.io";  // same as NETWORKS.ic.host
+
+export const INTERNET_IDENTITY_PROVIDER = "https://identity.ic0.app";
+export const NFID_PROVIDER = "https://nfid.one/authenticate";
+
+/** Every canister the SDK and its integrations call. */
+export interface CanisterIds {
+  /** MeneseSDK canister */
+  menese: string;
+  /** Sovereign Send (per-principal Solana wallets) */
+  sovereignSend: string;
+  /** ckSOL canister — mSOL minting/redemption */
+  cksol: string;
+  /** ckSOL ICRC-2 ledger (mSOL token) */
+  cksolLedger: string;
+  /** ICP-SOL oracle swap pool */
+  icpSolSwap: string;
+  /** ICP ICRC-2 ledger */
+  icpLedger: string;
+  /** SOL borrow v3 treasury */
+  solBorrowV3: string;
+}
+
+export const DEFAULT_CANISTER_IDS: Readonly<CanisterIds> = {
+  menese: "urs2a-ziaaa-aaaad-aembq-cai",
+  sovereignSend: "fxjsq-raaaa-aaaab-agdaa-cai",
+  cksol: "crmds-kqaaa-aaaaf-qf5aq-cai",
+  cksolLedger: "2ykjj-eyaaa-aaaae-af4ma-cai",
+  icpSolSwap: "w2vjc-2yaaa-aaaab-ae6zq-cai",
+  icpLedger: "ryjl3-tyaaa-aaaaa-aaaba-cai",
+  solBorrowV3: "p7teu-wyaaa-aaaab-afnvq-cai",
+};
+
+// ============================================================
+// CONFIG
+// ============================================================
+
+/**
+ * Anything that can hand us an Identity or a ready-made Agent
+ * (Internet Identity, NFID, Plug, a custom signer...).
+ */
+export interface WalletAdapter {
+  /** `whitelist` lists the canisters that will be called (Plug asks for it). */
+  connect(options: { host: string; whitelist: string[] }): Promise<Identity | Agent>;
+  /** End the wallet session (MeneseSession.logout calls this). */
+  disconnect?(): Promise<void>;
+}
+
+/**
+ * How to reach the IC. Precedence: `agent` > `identity` > `wallet` >
+ * Internet Identity login. Every field is optional.
+ */
+export interface MeneseConfig {
+  /** Use this agent as-is (host and identity options are ignored) */
+  agent?: Agent;
+  /** Sign calls with this identity (see identityFromPem / *FromSeed) */
+  identity?: Identity;
+  /** Ask a wallet for an identity or agent */
+  wallet?: WalletAdapter;
+  /** "ic" (default), "local" or a custom NetworkConfig — see network.ts */
+  network?: Network;
+  /** IC API host. Default: the network's host */
+  host?: string;
+  /** Override any canister ID — the rest come from the network, then mainnet */
+  canisterIds?: Partial<CanisterIds>;
+  /**
+   * Use this implementation instead of a Menese canister actor — e.g.
+   * createMockMenese().service in unit tests (see mock-menese.ts).
+   */
+  service?: MeneseService;
+  /**
+   * Retry/timeout policy for every actor built from this config — see retry.ts.
+   * Default: DEFAULT_RETRY_POLICY. `false` disables retries. An injected
+   * `service` is only wrapped when this is set explicitly.
+   */
+  retry?: RetryOptions | false;
+  /**
+   * Cache for addresses, token info and pools — see query-cache.ts.
+   * Default: sharedQueryCache (in-memory). `false` disables caching. An
+   * injected `service` is only cached when this is set explicitly.
+   */
+  cache?: QueryCache | false;
+}
+
+/** Either a config object or an agent you already have. */
+export type AgentSource = Agent | MeneseConfig;
+
+function isAgent(value: unknown): value is Agent {
+  return typeof (value as Agent)?.call === "function" && typeof (value as Agent)?.query === "function";
+}
+
+function isIdentity(value: unknown): value is Identity {
+  return typeof (value as Identity)?.getPrincipal === "function"
+    && typeof (value as Identity)?.transformRequest === "function";
+}
+
+/** Normalise an AgentSource (or a bare Identity) to a MeneseConfig. */
+export function toConfig(source: AgentSource | Identity = {}): MeneseConfig {
+  if (isAgent(source)) return { agent: source };
+  if (isIdentity(source)) return { identity: source };
+  return source;
+}
+
+export function resolveHost(config: MeneseConfig = {}): string {
+  return config.host ?? resolveNetwork(config.network).host;
+}
+
+/**
+ * Canister IDs for a config: `canisterIds`, then the network's, then mainnet.
+ * Throws on a local replica that was given none — its canisters never have
+ * the mainnet IDs.
+ */
+export function resolveCanisterIds(config: MeneseConfig = {}): CanisterIds {
+  const network = resolveNetwork(config.network);
+  if (network.fetchRootKey && !network.canisterIds && !config.canisterIds) {
+    throw new Error("No canister IDs for this local network — use `await localNetwork()` (reads .dfx/local/canister_ids.json) or pass canisterIds");
+  }
+  return { ...DEFAULT_CANISTER_IDS, ...network.canisterIds, ...config.canisterIds };
+}
+
+/** HttpAgent options shared by every agent we build. */
+function agentOptions(config: MeneseConfig, identity?: Identity) {
+  return {
+    host: resolveHost(config),
+    identity,
+    // Lazily fetched before the first call — local replicas have their own root key
+    shouldFetchRootKey: resolveNetwork(config.network).fetchRootKey,
+  };
+}
+
+// ============================================================
+// AGENTS
+// ============================================================
+
+/**
+ * Build an agent without any async step. Works for `agent` and `identity`
+ * configs; wallets need createAgent(). Agents you pass in are used as-is —
+ * on local networks create them with `shouldFetchRootKey: true`.
+ */
+export function createAgentSync(source: AgentSource | Identity = {}): Agent {
+  const config = toConfig(source);
+  if (config.agent) return config.agent;
+  if (config.identity) return HttpAgent.createSync(agentOptions(config, config.identity));
+  throw new Error("createAgentSync needs an agent or identity — use createAgent() for wallet / Internet Identity login");
+}
+
+/**
+ * Authenticated agent. Falls back to an Internet Identity login popup.
+ * On networks with `fetchRootKey`, agents you pass in get the root key too.
+ */
+export async function createAgent(source: AgentSource | Identity = {}): Promise<Agent> {
+  const config = toConfig(source);
+  if (config.agent) {
+    if (resolveNetwork(config.network).fetchRootKey) {
+      await config.agent.fetchRootKey();
+    }
+    return config.agent;
+  }
+  if (config.identity) return createAgentSync(config);
+
+  const host = resolveHost(config);
+  const wallet = config.wallet ?? internetIdentityAdapter();
+  const connected = await wallet.connect({ host, whitelist: Object.values(resolveCanisterIds(config)) });
+  return isAgent(connected) ? connected : HttpAgent.createSync(agentOptions(config, connected));
+}
+
+/** Agent for query-only calls. Reuses `config.agent` if one was given. */
+export function createAnonymousAgent(source: AgentSource | Identity = {}): Agent {
+  const config = toConfig(source);
+  return config.agent ?? HttpAgent.createSync(agentOptions(config));
+}
+
+// ============================================================
+// WALLET ADAPTERS
+// ============================================================
+
+/**
+ * AuthClient login against Internet Identity (default) or any
+ * II-compatible provider such as NFID_PROVIDER.
+ */
+export function internetIdentityAdapter(identityProvider: string = INTERNET_IDENTITY_PROVIDER): WalletAdapter {
+  return {
+    async connect() {
+      const authClient = await AuthClient.create();
+      if (!(await authClient.isAuthenticated())) {
+        await new Promise<void>((resolve, reject) => {
+          authClient.login({
+            identityProvider,
+            onSuccess: () => resolve(),
+            onError: (err) => reject(new Error(err)),
+          });
+        });
+      }
+      return authClient.getIdentity();
+    },
+    async disconnect() {
+      await (await AuthClient.create()).logout();
+    },
+  };
+}
+
+/** Plug wallet browser extension (window.ic.plug). */
+export function plugAdapter(): WalletAdapter {
+  return {
+    async connect({ host, whitelist }) {
+      const plug = (globalThis as any).ic?.plug;
+      if (!plug) throw new Error("Plug wallet not found — install the extension");
+      if (!(await plug.isConnected()) || !plug.agent) {
+        await plug.requestConnect({ whitelist, host });
+      }
+      return plug.agent as Agent;
+    },
+    async disconnect() {
+      await (globalThis as any).ic?.plug?.disconnect?.();
+    },
+  };
+}
+
+// ============================================================
+// IDENTITY LOADERS (Node services, tests, CI)
+// ============================================================
+
+function toBytes(seed: Uint8Array | string): Uint8Array {
+  if (typeof seed !== "string") return seed;
+  const hex = seed.startsWith("0x") ? seed.slice(2) : seed;
+  if (!/^[0-9a-fA-F]*$/.test(hex) || hex.length % 2 !== 0) throw new Error("Seed must be bytes or a hex string");
+  return Uint8Array.from(hex.match(/../g) ?? [], (b) => parseInt(b, 16));
+}
+
+/** Ed25519 identity from a 32-byte seed (bytes or hex). */
+export function ed25519IdentityFromSeed(seed: Uint8Array | string): Ed25519KeyIdentity {
+  const bytes = toBytes(seed);
+  if (bytes.length !== 32) throw new Error(`Ed25519 seed must be 32 bytes, got ${bytes.length}`);
+  return Ed25519KeyIdentity.generate(bytes);
+}
+
+/** Secp256k1 identity from a 32-byte seed (bytes or hex), or a BIP-39 seed phrase. */
+export function secp256k1IdentityFromSeed(seed: Uint8Array | string): Secp256k1KeyIdentity {
+  if (typeof seed === "string" && seed.trim().includes(" ")) {
+    return Secp256k1KeyIdentity.fromSeedPhrase(seed.trim());
+  }
+  const bytes = toBytes(seed);
+  if (bytes.length !== 32) throw new Error(`Secp256k1 seed must be 32 bytes, got ${bytes.length}`);
+  return Secp256k1KeyIdentity.generate(bytes);
+}
+
+/**
+ * Load a dfx-style PEM (`dfx identity export <name>`).
+ *   "EC PRIVATE KEY" → Secp256k1
+ *   "PRIVATE KEY"    → Ed25519 (PKCS#8 v1 or v2)
+ */
+export function identityFromPem(pem: string): Identity {
+  if (pem.includes("BEGIN EC PRIVATE KEY")) {
+    return Secp256k1KeyIdentity.fromPem(pem);
+  }
+  const body = pem.replace(/-----(BEGIN|END) PRIVATE KEY-----/g, "").replace(/\s+/g, "");
+  if (!body) throw new Error("Unrecognised PEM — expected PRIVATE KEY or EC PRIVATE KEY");
+  const der = Uint8Array.from(atob(body), (c) => c.charCodeAt(0));
+
+  // Ed25519 PKCS#8: ... OID 1.3.101.112 (06 03 2b 65 70) then OCTET STRING(OCTET STRING(32-byte seed))
+  const oid = [0x06, 0x03, 0x2b, 0x65, 0x70, 0x04, 0x22, 0x04, 0x20];
+  for (let i = 0; i + oid.length + 32 <= der.length; i++) {
+    if (oid.every((b, j) => der[i + j] === b)) {
+      return ed25519IdentityFromSeed(der.slice(i + oid.length, i + oid.length + 32));
+    }
+  }
+  throw new Error("Unsupported PEM key — only Ed25519 and Secp256k1 are supported");
+}
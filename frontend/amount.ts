@@ -0,0 +1,275 @@
+// amount.ts — Exact token amounts (no floating point)
+//
+// `BigInt(Math.round(x * 1e9))` and `Number(units) / 1e24` silently lose
+// precision: a JS number holds ~16 significant digits, a NEAR balance has 24
+// decimals and a wei balance easily exceeds 2^53. Amount keeps the smallest
+// unit as a bigint and the token's decimals next to it:
+//
+//   const amount = Amount.parse("0.1", "near");       // 100000000000000000000000 yocto
+//   amount.units;                                      // bigint for the canister
+//   amount.toString();                                 // "0.1"
+//   amount.toLocaleString("de-DE");                    // "0,1"
+//
+//   const bal = Amount.fromUnits(unwrap(await menese.getMySolanaBalance()), "solana");
+//   if (bal.lt("0.01")) topUp();
+//
+//   const info = unwrap(await menese.getICRC1TokenInfo(CKBTC_LEDGER));
+//   const ckbtc = Amount.parse("0.0005", tokenFromIcrc1(info));
+//
+// Every send/swap helper accepts an AmountLike: an Amount, a decimal string in
+// whole tokens ("1.5"), or a bigint in smallest units.
+
+import { getChain, type ChainId } from "./chains";
+import type { Icrc1TokenInfo } from "./menese-types";
+
+// ============================================================
+// TOKENS
+// ============================================================
+
+export interface Token {
+  symbol: string;
+  decimals: number;
+  /** Native chain, for chain tokens */
+  chain?: ChainId;
+  /** ICRC-1 ledger canister, for ICP tokens */
+  ledger?: string;
+}
+
+/** A Token, or a chain id for that chain's native token. */
+export type TokenRef = Token | ChainId;
+
+/** Resolve a TokenRef to a Token (chain ids use the CHAINS table). */
+export function tokenFor(ref: TokenRef): Token {
+  if (typeof ref !== "string") return ref;
+  const chain = getChain(ref);
+  return { symbol: chain.symbol, decimals: chain.decimals, chain: chain.id };
+}
+
+/** Token for an ICRC-1 ledger, from getICRC1TokenInfo(). */
+export function tokenFromIcrc1(info: Icrc1TokenInfo): Token {
+  return { symbol: info.symbol, decimals: info.decimals, ledger: info.canisterId };
+}
+
+// ============================================================
+// DECIMAL HELPERS
+// ============================================================
+
+/** How to drop digits that do not fit. "down" truncates toward zero. */
+export type Rounding = "down" | "up" | "nearest";
+
+const pow10 = (n: number) => 10n ** BigInt(n);
+
+/** Parse "-12.345e-2" into an exact fraction digits / 10^scale. */
+function parseDecimal(text: string): { digits: bigint; scale: number } {
+  const m = /^\s*([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?\s*$/i.exec(text.replace(/_/g, ""));
+  if (!m || (!m[2] && !m[3])) throw new Error(`Invalid amount "${text}"`);
+  const [, sign, whole, fraction = "", exp = "0"] = m;
+  let digits = BigInt((whole || "0") + fraction);
+  let scale = fraction.length - Number(exp);
+  if (scale < 0) {
+    digits *= pow10(-scale);
+    scale = 0;
+  }
+  return { digits: sign === "-" ? -digits : digits, scale };
+}
+
+function divide(n: bigint, d: bigint, rounding: Rounding): bigint {
+  const q = n / d;
+  const r = n % d;
+  if (r === 0n || rounding === "down") return q;
+  const away = n < 0n !== d < 0n ? -1n : 1n;
+  if (rounding === "up") return q + away;
+  const twice = (r < 0n ? -r : r) * 2n;
+  return twice >= (d < 0n ? -d : d) ? q + away : q;
+}
+
+// ============================================================
+// AMOUNT
+// ============================================================
+
+/** Amount, decimal string (whole tokens) or bigint (smallest units). */
+export type AmountLike = Amount | string | bigint;
+
+export class Amount {
+  /** Smallest units (lamports, wei, e8s...) */
+  readonly units: bigint;
+  readonly token: Token;
+
+  private constructor(units: bigint, token: Token) {
+    this.units = units;
+    this.token = token;
+  }
+
+  get decimals(): number {
+    return this.token.decimals;
+  }
+
+  get symbol(): string {
+    return this.token.symbol;
+  }
+
+  // ── Construction ──────────────────────────────────────────
+
+  /** From smallest units, e.g. a canister balance. */
+  static fromUnits(units: bigint | number | string, token: TokenRef): Amount {
+    if (typeof units === "number" && !Number.isSafeInteger(units)) {
+      throw new Error(`fromUnits needs an integer, got ${units} — use Amount.parse for decimal amounts`);
+    }
+    return new Amount(BigInt(units), tokenFor(token));
+  }
+
+  /**
+   * From a decimal string in whole tokens ("1.5", "0.000001", "2e-3").
+   * Throws if it has more digits than the token allows, unless `rounding` is given.
+   */
+  static parse(text: string, token: TokenRef, rounding?: Rounding): Amount {
+    const t = tokenFor(token);
+    const { digits, scale } = parseDecimal(text);
+    if (scale <= t.decimals) return new Amount(digits * pow10(t.decimals - scale), t);
+    if (!rounding) {
+      throw new Error(`"${text}" has more than ${t.decimals} decimals — ${t.symbol} cannot represent it`);
+    }
+    return new Amount(divide(digits, pow10(scale - t.decimals), rounding), t);
+  }
+
+  static zero(token: TokenRef): Amount {
+    return new Amount(0n, tokenFor(token));
+  }
+
+  /**
+   * Normalise an AmountLike. Amounts must be in a compatible token (same
+   * symbol and decimals) — passing ICP to a SOL helper throws.
+   */
+  static from(value: AmountLike, token: TokenRef): Amount {
+    const t = tokenFor(token);
+    if (value instanceof Amount) {
+      if (value.decimals !== t.decimals || value.symbol.toLowerCase() !== t.symbol.toLowerCase()) {
+        throw new Error(`Expected a ${t.symbol} amount, got ${value.toString()} ${value.symbol}`);
+      }
+      return value;
+    }
+    if (typeof value === "bigint") return new Amount(value, t);
+    if (typeof value === "string") return Amount.parse(value, t);
+    throw new Error(`Expected an Amount, decimal string or bigint, got ${typeof value} — numbers are not exact`);
+  }
+
+  static min(first: Amount, ...rest: AmountLike[]): Amount {
+    return rest.reduce<Amount>((m, v) => (m.lte(v) ? m : Amount.from(v, m.token)), first);
+  }
+
+  static max(first: Amount, ...rest: AmountLike[]): Amount {
+    return rest.reduce<Amount>((m, v) => (m.gte(v) ? m : Amount.from(v, m.token)), first);
+  }
+
+  // ── Arithmetic ────────────────────────────────────────────
+
+  add(other: AmountLike): Amount {
+    return new Amount(this.units + Amount.from(other, this.token).units, this.token);
+  }
+
+  sub(other: AmountLike): Amount {
+    return new Amount(this.units - Amount.from(other, this.token).units, this.token);
+  }
+
+  /** Multiply by a plain factor ("0.997", 2n, 1.5). Rounds down by default. */
+  mul(factor: string | bigint | number, rounding: Rounding = "down"): Amount {
+    const { digits, scale } = parseDecimal(String(factor));
+    return new Amount(divide(this.units * digits, pow10(scale), rounding), this.token);
+  }
+
+  /** Divide by a plain divisor. Rounds down by default. */
+  div(divisor: string | bigint | number, rounding: Rounding = "down"): Amount {
+    const { digits, scale } = parseDecimal(String(divisor));
+    if (digits === 0n) throw new Error("Division by zero");
+    return new Amount(divide(this.units * pow10(scale), digits, rounding), this.token);
+  }
+
+  /** `bps` basis points of this amount (100 bps = 1%). */
+  bps(bps: bigint | number, rounding: Rounding = "down"): Amount {
+    return new Amount(divide(this.units * BigInt(bps), 10_000n, rounding), this.token);
+  }
+
+  /** Convert into another token at `rate` (units of `to` per whole token of this). */
+  convert(to: TokenRef, rate: string | number, rounding: Rounding = "down"): Amount {
+    const target = tokenFor(to);
+    const { digits, scale } = parseDecimal(String(rate));
+    const units = divide(this.units * digits * pow10(target.decimals), pow10(scale + this.decimals), rounding);
+    return new Amount(units, target);
+  }
+
+  // ── Comparison ────────────────────────────────────────────
+
+  /** -1, 0 or 1 */
+  cmp(other: AmountLike): -1 | 0 | 1 {
+    const o = Amount.from(other, this.token).units;
+    return this.units < o ? -1 : this.units > o ? 1 : 0;
+  }
+
+  eq(other: AmountLike): boolean { return this.cmp(other) === 0; }
+  lt(other: AmountLike): boolean { return this.cmp(other) < 0; }
+  lte(other: AmountLike): boolean { return this.cmp(other) <= 0; }
+  gt(other: AmountLike): boolean { return this.cmp(other) > 0; }
+  gte(other: AmountLike): boolean { return this.cmp(other) >= 0; }
+
+  isZero(): boolean { return this.units === 0n; }
+  isNegative(): boolean { return this.units < 0n; }
+  isPositive(): boolean { return this.units > 0n; }
+
+  // ── Formatting ────────────────────────────────────────────
+
+  /** Exact decimal in whole tokens, trailing zeros trimmed: "1.5" */
+  toString(): string {
+    const fixed = this.toFixed(this.decimals);
+    return fixed.includes(".") ? fixed.replace(/\.?0+$/, "") : fixed;
+  }
+
+  /** Exactly `digits` fraction digits. Rounds down by default. */
+  toFixed(digits: number, rounding: Rounding = "down"): string {
+    const units = digits >= this.decimals
+      ? this.units * pow10(digits - this.decimals)
+      : divide(this.units, pow10(this.decimals - digits), rounding);
+    const negative = units < 0n;
+    const abs = (negative ? -units : units).toString().padStart(digits + 1, "0");
+    const whole = abs.slice(0, abs.length - digits);
+    const fraction = abs.slice(abs.length - digits);
+    return `${negative ? "-" : ""}${whole}${digits > 0 ? `.${fraction}` : ""}`;
+  }
+
+  /**
+   * Locale-aware display, exact at any precision: toLocaleString("en-US") → "1,234.5".
+   * `symbol: true` appends the token symbol.
+   */
+  toLocaleString(
+    locales?: string | string[],
+    options: { minimumFractionDigits?: number; maximumFractionDigits?: number; rounding?: Rounding; symbol?: boolean } = {},
+  ): string {
+    const max = Math.min(options.maximumFractionDigits ?? this.decimals, this.decimals);
+    const min = Math.min(options.minimumFractionDigits ?? 0, max);
+    const fixed = this.toFixed(max, options.rounding ?? "nearest");
+    const negative = fixed.startsWith("-");
+    const [whole, fraction = ""] = (negative ? fixed.slice(1) : fixed).split(".");
+
+    let trimmed = fraction.replace(/0+$/, "");
+    if (trimmed.length < min) trimmed = fraction.slice(0, min);
+
+    const format = new Intl.NumberFormat(locales);
+    const separator = format.formatToParts(1.5).find((p) => p.type === "decimal")?.value ?? ".";
+    const text = format.format(BigInt(whole)) + (trimmed ? separator + trimmed : "");
+    const signed = negative && /[1-9]/.test(whole + trimmed) ? `-${text}` : text;
+    return options.symbol ? `${signed} ${this.symbol}` : signed;
+  }
+
+  /** Lossy — for charts and percentages only, never for amounts sent on-chain. */
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+}
+
+/** Smallest units of an AmountLike in `token` — what the canister expects. */
+export function toUnits(value: AmountLike, token: TokenRef): bigint {
+  return Amount.from(value, token).units;
+}
@@ -0,0 +1,91 @@
+// batch-payout.test.ts — payout lists, plans and checkpointed runs against the mock canister
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { Principal } from "@dfinity/principal";
+import { BatchPayout, parseAsset, parsePayouts, payoutReportToCsv } from "./batch-payout";
+import { InsufficientFunds, QuotaExhausted } from "./errors";
+import { createMockMenese } from "./mock-menese";
+import { memoryStorage } from "./query-cache";
+
+const SOL_TO = "11111111111111111111111111111111";
+const ICP_TO = Principal.fromUint8Array(new Uint8Array(29).fill(7)).toText();
+
+test("parsePayouts reads CSV with quoted fields and CRLF, and JSON", () => {
+  const csv = 'Chain,To,Amount,Asset,Memo,Tag\r\n'
+    + `solana,${SOL_TO},1.5,"spl:So11111111111111111111111111111111111111112:9","March, ""bonus"""\r\n`
+    + "xrp,rGWrZyQqhTp9Xu7G5Pkayo7bXjH4k4QYpf,20,,,42\r\n\r\n";
+  assert.deepEqual(parsePayouts(csv), [
+    { id: undefined, chain: "solana", asset: { type: "spl", mint: "So11111111111111111111111111111111111111112", decimals: 9 }, to: SOL_TO, amount: "1.5", memo: 'March, "bonus"', tag: undefined },
+    { id: undefined, chain: "xrp", asset: undefined, to: "rGWrZyQqhTp9Xu7G5Pkayo7bXjH4k4QYpf", amount: "20", memo: undefined, tag: 42 },
+  ]);
+  assert.deepEqual(parsePayouts(`[{ "chain": "icp", "to": "${ICP_TO}", "amount": "1", "asset": "icrc1:mxzaz-hqaaa-aaaar-qaada-cai" }]`)[0].asset,
+    { type: "icrc1", ledger: "mxzaz-hqaaa-aaaar-qaada-cai", decimals: undefined });
+  assert.throws(() => parsePayouts("chain,to\nsolana,x"), /line 2: chain, to and amount are required/);
+  assert.throws(() => parsePayouts("chain,to,amount,tag\nxrp,r,1,abc"), /line 2: tag must be a whole number/);
+});
+
+test("parseAsset", () => {
+  assert.equal(parseAsset("native"), "native");
+  assert.deepEqual(parseAsset("xrpIou:USD:rIssuer"), { type: "xrpIou", currency: "USD", issuer: "rIssuer" });
+  assert.throws(() => parseAsset("erc20:"), /needs its contract/);
+  assert.throws(() => parseAsset("erc20:0xabc:six"), /decimals must be a whole number/);
+  assert.throws(() => parseAsset("nft:1"), /Unknown asset/);
+});
+
+test("row ids: repeats are numbered, explicit ids must be unique", () => {
+  const row = { chain: "solana" as const, to: SOL_TO, amount: "1" };
+  assert.deepEqual(new BatchPayout([row, row]).rows.map((r) => r.id), [`solana:native:${SOL_TO}:1`, `solana:native:${SOL_TO}:1#2`]);
+  assert.throws(() => new BatchPayout([{ ...row, id: "a" }, { ...row, amount: "2", id: "a" }]), /must be unique/);
+});
+
+test("payoutReportToCsv quotes what needs quoting", () => {
+  const csv = payoutReportToCsv([{ id: "a", index: 0, chain: "solana", asset: "native", to: SOL_TO, amount: "1", status: "failed", error: 'bad "to", really' }]);
+  assert.equal(csv, `id,index,chain,asset,to,amount,status,txId,explorerUrl,fee,errorKind,error\na,0,solana,native,${SOL_TO},1,failed,,,,,"bad ""to"", really"\n`);
+});
+
+test("plan adds amounts and fees per coin and reports invalid rows and shortfalls", async () => {
+  const mock = createMockMenese().setBalance("solana", 2_000_000n);
+  const batch = new BatchPayout([
+    { chain: "solana", to: SOL_TO, amount: "0.001" },
+    { chain: "solana", to: SOL_TO, amount: "0.001" },
+    { chain: "solana", to: "not-an-address", amount: "0.001" },
+  ], { service: mock.service });
+  const plan = await batch.plan();
+  assert.equal(plan.rows, 2);
+  assert.deepEqual(plan.invalid.map((r) => [r.index, r.errorKind]), [[2, "InvalidAddress"]]);
+  const [sol] = plan.totals;
+  assert.deepEqual([sol.amount.units, sol.fees?.units, sol.balance?.units, sol.shortfall?.units], [2_000_000n, 10_000n, 2_000_000n, 10_000n]);
+  assert.equal(plan.ok, false);
+  await assert.rejects(batch.run(), InsufficientFunds);
+  assert.deepEqual(mock.callsTo("sendSolTransaction"), []);
+});
+
+test("run refuses to start without enough actions", async () => {
+  const mock = createMockMenese({ actionsRemaining: 1 }).setBalance("solana", 10_000_000n);
+  const row = { chain: "solana" as const, to: SOL_TO, amount: "0.001" };
+  await assert.rejects(
+    new BatchPayout([row, row], { service: mock.service }).run(),
+    (e: unknown) => e instanceof QuotaExhausted && /needs 2 actions, 1 left/.test(e.message),
+  );
+  assert.deepEqual(mock.callsTo("sendSolTransaction"), []);
+});
+
+test("run records outcomes, and a re-run only retries what failed", async () => {
+  const mock = createMockMenese().setBalance("solana", 10_000_000n).setBalance("icp", 100_000_000n)
+    .failNext("sendICP", "RpcFailure");
+  const checkpoint = memoryStorage();
+  const rows = parsePayouts(`chain,to,amount\nsolana,${SOL_TO},0.001\nicp,${ICP_TO},0.5\n`);
+  const seen: string[] = [];
+
+  const first = await new BatchPayout(rows, { service: mock.service }, { checkpoint, onRow: (r) => seen.push(`${r.chain} ${r.status}`) }).run();
+  assert.deepEqual([first.sent, first.failed, first.unknown, first.pending], [1, 1, 0, 0]);
+  assert.equal(first.rows[1].errorKind, "RpcFailure");
+  assert.deepEqual(seen.sort(), ["icp failed", "solana sent"]);
+
+  const second = await new BatchPayout(rows, { service: mock.service }, { checkpoint }).run();
+  assert.deepEqual(second.rows.map((r) => [r.status, !!r.resumed]), [["sent", true], ["sent", false]]);
+  assert.equal(second.rows[0].txId, first.rows[0].txId);
+  assert.equal(mock.callsTo("sendSolTransaction").length, 1);
+  assert.equal(mock.balance("icp", ICP_TO), 50_000_000n);
+});
@@ -0,0 +1,563 @@
+// batch-payout.ts — Many sends from one list, with a report and a checkpoint
+//
+// A payroll-style run: hundreds of rows across chains, each one send()
+// (send.ts), 1 action per row.
+//
+//   const batch = BatchPayout.fromText(await readFile("payroll.csv", "utf8"), session.config, {
+//     checkpoint: fileStorage("payroll.checkpoint.json"),
+//     rpcs: { base: BASE_RPC },
+//   });
+//   const plan = await batch.plan();      // balances, fees and actions — nothing is sent
+//   if (!plan.ok) console.table(plan.totals.filter((t) => t.shortfall));
+//   const report = await batch.run();
+//   await writeFile("payroll.report.csv", payoutReportToCsv(report.rows));
+//
+// CSV needs a header row with chain, to and amount columns, and optionally
+// asset, memo, tag and id. `asset` is "native" (the default),
+// "spl:<mint>:<decimals>", "erc20:<contract>:<decimals>",
+// "trc20:<contract>:<decimals>", "icrc1:<ledger>[:<decimals>]" or
+// "xrpIou:<currency>:<issuer>". JSON input is an array of SendRequest rows
+// (asset as an object or the same text).
+//
+// Sends from one address that must not overlap — EVM nonces, XRP / Aptos /
+// NEAR / THORChain sequences, TON seqno, Sui gas coins, Bitcoin / Litecoin /
+// Cardano UTXOs — run one at a time per chain, in list order. Solana, ICP and
+// Tron rows run side by side. At most `concurrency` sends are in flight.
+//
+// With a checkpoint (any CacheStorage, see query-cache.ts) each row is marked
+// before its send starts and its outcome stored as soon as it is known. A
+// re-run skips sent rows and retries failed ones. A row is "failed" only when
+// it definitely did not go through: refused before the canister call, or
+// answered with an `{err}` by the canister. A row whose send was in flight at a
+// crash, timed out, or threw on the way (agent, transport, RpcFailure) may have
+// gone through: it is reported "unknown" and only resent with `resendUnknown`.
+// QuotaExhausted stops the run; rows not started stay "pending" for the next one.
+
+import type { ActorSubclass } from "@dfinity/agent";
+import { toConfig, type AgentSource } from "./agent-config";
+import { Amount } from "./amount";
+import { isEvmChain, type ChainId } from "./chains";
+import {
+  InsufficientFunds,
+  InvalidAddress,
+  MeneseError,
+  QuotaExhausted,
+  toMeneseError,
+  unwrap,
+  type MeneseErrorKind,
+} from "./errors";
+import { estimateEvmFees } from "./evm-fees";
+import { balanceOf } from "./max-sendable";
+import { chainRpcFor } from "./network";
+import { parseCandid, stringifyCandid, type CacheStorage } from "./query-cache";
+import type { RpcOptions } from "./rpc";
+import { createMeneseActor } from "./sdk-setup";
+import { checkSendRequest, send, sendAmount, type SendAsset, type SendOptions, type SendRequest } from "./send";
+import type { MeneseService } from "./menese-types";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface PayoutRow extends SendRequest {
+  /** Key in the checkpoint. Default: chain, asset, recipient and amount, plus "#n" for repeats */
+  id?: string;
+}
+
+/**
+ * pending — not sent yet; sent — txId known; failed — definitely did not go through;
+ * unknown — in flight at a crash, timed out or threw: check the chain before resending.
+ */
+export type PayoutStatus = "pending" | "sent" | "failed" | "unknown";
+
+/** One report row — plain strings, so it serializes to JSON or CSV as is. */
+export interface PayoutResult {
+  id: string;
+  /** Position in the list */
+  index: number;
+  chain: ChainId;
+  /** "native", or "<type>:<mint | contract | ledger | currency.issuer>" */
+  asset: string;
+  to: string;
+  /** As given in the row */
+  amount: string;
+  status: PayoutStatus;
+  txId?: string;
+  explorerUrl?: string;
+  /** "<amount> <symbol>", when the canister reports the fee */
+  fee?: string;
+  errorKind?: MeneseErrorKind;
+  error?: string;
+  /** Outcome read from the checkpoint, not produced by this run */
+  resumed?: boolean;
+}
+
+/** Everything the list sends of one coin or token, against what the wallet holds. */
+export interface PayoutTotal {
+  chain: ChainId;
+  asset: string;
+  amount: Amount;
+  /** Estimated fees paid in this coin or token — undefined when the chain has no estimate */
+  fees?: Amount;
+  /** undefined when it could not be read */
+  balance?: Amount;
+  /** amount + fees − balance, when the balance is short */
+  shortfall?: Amount;
+}
+
+export interface PayoutPlan {
+  /** Rows the next run would send */
+  rows: number;
+  /** 1 action per send */
+  actions: number;
+  /** From getMyGatewayAccount — undefined when it could not be read */
+  actionsRemaining?: bigint;
+  totals: PayoutTotal[];
+  /** Rows that fail before any call: bad recipient, amount or asset */
+  invalid: PayoutResult[];
+  /** No invalid rows, no shortfall, enough actions */
+  ok: boolean;
+}
+
+export interface PayoutReport {
+  /** In list order */
+  rows: PayoutResult[];
+  sent: number;
+  failed: number;
+  unknown: number;
+  pending: number;
+}
+
+export interface BatchPayoutOptions extends Omit<SendOptions, "quoteId">, RpcOptions {
+  /** Sends in flight at once. Default: 4 */
+  concurrency?: number;
+  /** Where row outcomes are kept between runs, e.g. fileStorage("payroll.checkpoint.json") */
+  checkpoint?: CacheStorage;
+  /** Chains whose rows may run side by side. Default: solana, icp, tron */
+  parallelChains?: ChainId[];
+  /** Send rows left "unknown" by an earlier run again. Default: false */
+  resendUnknown?: boolean;
+  /** Retry rows that failed in an earlier run. Default: true */
+  retryFailed?: boolean;
+  /** run() throws instead of sending when plan() finds a shortfall or too few actions. Default: true */
+  precheck?: boolean;
+  /** Called with every row outcome as it is recorded */
+  onRow?: (result: PayoutResult) => void;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_PARALLEL_CHAINS: ChainId[] = ["solana", "icp", "tron"];
+
+// Fee estimates in the chain's smallest unit, where the fee is fixed
+const FIXED_FEES: Partial<Record<ChainId, bigint>> = {
+  solana: 5_000n,   // one signature
+  icp: 10_000n,
+  xrp: 12n,         // reference cost in drops; the canister may pay more under load
+};
+const EVM_TRANSFER_GAS = 21_000n;
+const ERC20_TRANSFER_GAS = 65_000n;
+const DEFAULT_TRC20_FEE_LIMIT = "30";
+
+// ============================================================
+// PARSING
+// ============================================================
+
+/** "native", "spl:<mint>:<decimals>", "erc20:<contract>:<decimals>"... → SendAsset */
+export function parseAsset(text: string): SendAsset {
+  const [type, id, extra] = text.trim().split(":");
+  const decimals = () => {
+    if (extra === undefined || extra === "") return undefined;
+    if (!/^\d+$/.test(extra)) throw new MeneseError(`Asset "${text}": decimals must be a whole number`);
+    return Number(extra);
+  };
+  if (type === "" || type === "native") return "native";
+  if (!id) throw new MeneseError(`Asset "${text}" needs its ${type === "spl" ? "mint" : type === "icrc1" ? "ledger" : "contract"} after "${type}:"`);
+  switch (type) {
+    case "spl": return { type, mint: id, decimals: decimals() };
+    case "erc20":
+    case "trc20": return { type, contract: id, decimals: decimals() };
+    case "icrc1": return { type, ledger: id, decimals: decimals() };
+    case "xrpIou":
+      if (!extra) throw new MeneseError(`Asset "${text}" needs the issuer: xrpIou:<currency>:<issuer>`);
+      return { type, currency: id, issuer: extra };
+  }
+  throw new MeneseError(`Unknown asset "${text}" — use native, spl:, erc20:, trc20:, icrc1: or xrpIou:`);
+}
+
+/** Inverse of parseAsset, without decimals — the asset part of row ids and totals. */
+function assetKey(asset: SendAsset = "native"): string {
+  if (asset === "native") return "native";
+  switch (asset.type) {
+    case "spl": return `spl:${asset.mint}`;
+    case "erc20":
+    case "trc20": return `${asset.type}:${asset.contract}`;
+    case "icrc1": return `icrc1:${asset.ledger}`;
+    case "xrpIou": return `xrpIou:${asset.currency}.${asset.issuer}`;
+  }
+}
+
+/** RFC 4180 fields: quoted fields may hold commas, newlines and "" escapes. */
+function csvRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c !== '"') field += c;
+      else if (text[i + 1] === '"') field += text[i++];
+      else quoted = false;
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      record.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      records.push([...record, field]);
+      record = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  records.push([...record, field]);
+  return records.filter((r) => r.some((f) => f.trim()));
+}
+
+function rowFrom(fields: Record<string, unknown>, where: string): PayoutRow {
+  const text = (key: string) => (fields[key] === undefined || fields[key] === "" ? undefined : String(fields[key]).trim());
+  const [chain, to, amount] = [text("chain"), text("to"), text("amount")];
+  if (!chain || !to || !amount) throw new MeneseError(`${where}: chain, to and amount are required`);
+  const tag = text("tag");
+  if (tag !== undefined && !/^\d+$/.test(tag)) throw new MeneseError(`${where}: tag must be a whole number`);
+  const asset = fields.asset;
+  return {
+    id: text("id"),
+    chain: chain as ChainId,
+    asset: asset === undefined || asset === "" ? undefined : typeof asset === "string" ? parseAsset(asset) : (asset as SendAsset),
+    to,
+    amount,
+    memo: text("memo"),
+    tag: tag === undefined ? undefined : Number(tag),
+  };
+}
+
+/** Rows from a JSON array or a CSV with a header row. */
+export function parsePayouts(text: string): PayoutRow[] {
+  if (text.trim().startsWith("[")) {
+    const rows = JSON.parse(text) as Array<Record<string, unknown>>;
+    return rows.map((row, i) => rowFrom(row, `row ${i + 1}`));
+  }
+  const [header, ...records] = csvRecords(text);
+  if (!header) return [];
+  const columns = header.map((h) => h.trim().toLowerCase());
+  return records.map((record, i) =>
+    rowFrom(Object.fromEntries(columns.map((c, j) => [c, record[j]])), `line ${i + 2}`));
+}
+
+const CSV_COLUMNS: Array<keyof PayoutResult> = ["id", "index", "chain", "asset", "to", "amount", "status", "txId", "explorerUrl", "fee", "errorKind", "error"];
+
+/** A report as CSV, one line per row. */
+export function payoutReportToCsv(rows: PayoutResult[]): string {
+  const cell = (value: unknown) => {
+    const s = value === undefined ? "" : String(value);
+    return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+  };
+  return [CSV_COLUMNS.join(","), ...rows.map((r) => CSV_COLUMNS.map((c) => cell(r[c])).join(","))].join("\n") + "\n";
+}
+
+// ============================================================
+// BATCH PAYOUT
+// ============================================================
+
+/** Run `tasks` with at most `limit` at a time, in order of start. */
+async function pool(tasks: Array<() => Promise<void>>, limit: number): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length) await tasks[next++]();
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, tasks.length) }, worker));
+}
+
+/** `menese`, noting how many calls were made and what the last one returned (undefined while in flight or when it threw). */
+function watched(menese: ActorSubclass<MeneseService>) {
+  const log: { calls: number; answer?: unknown } = { calls: 0 };
+  const actor = new Proxy(menese, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+      if (typeof value !== "function") return value;
+      return async (...args: unknown[]) => {
+        log.calls++;
+        log.answer = undefined;
+        log.answer = await value.apply(target, args);
+        return log.answer;
+      };
+    },
+  });
+  return { actor, log };
+}
+
+/** A canister answer that refuses the call: `{ err }`, `{ Err }` or `success: false`. */
+function isRefusal(answer: unknown): boolean {
+  if (typeof answer !== "object" || answer === null || Array.isArray(answer)) return false;
+  const keys = Object.keys(answer);
+  return (keys.length === 1 && (keys[0] === "err" || keys[0] === "Err")) || (answer as { success?: unknown }).success === false;
+}
+
+export class BatchPayout {
+  readonly rows: ReadonlyArray<PayoutRow & { id: string }>;
+  private menese?: Promise<ActorSubclass<MeneseService>>;
+
+  constructor(
+    rows: PayoutRow[],
+    private readonly source: AgentSource = {},
+    readonly options: BatchPayoutOptions = {},
+  ) {
+    const seen = new Map<string, number>();
+    this.rows = rows.map((row) => {
+      if (row.id !== undefined) return { ...row, id: row.id };
+      const base = `${row.chain}:${assetKey(row.asset)}:${row.to}:${row.amount}`;
+      const n = (seen.get(base) ?? 0) + 1;
+      seen.set(base, n);
+      return { ...row, id: n === 1 ? base : `${base}#${n}` };
+    });
+    const ids = new Set(this.rows.map((r) => r.id));
+    if (ids.size !== this.rows.length) throw new MeneseError("Payout row ids must be unique");
+  }
+
+  /** Parse CSV or JSON (parsePayouts) into a batch. */
+  static fromText(text: string, source: AgentSource = {}, options: BatchPayoutOptions = {}): BatchPayout {
+    return new BatchPayout(parsePayouts(text), source, options);
+  }
+
+  private actor(): Promise<ActorSubclass<MeneseService>> {
+    return (this.menese ??= this.options.menese ? Promise.resolve(this.options.menese) : createMeneseActor(toConfig(this.source)));
+  }
+
+  private get network() {
+    return this.options.network ?? toConfig(this.source).network;
+  }
+
+  private result(row: PayoutRow & { id: string }, status: PayoutStatus): PayoutResult {
+    return {
+      id: row.id,
+      index: this.rows.indexOf(row),
+      chain: row.chain,
+      asset: assetKey(row.asset),
+      to: row.to,
+      amount: String(row.amount),
+      status,
+    };
+  }
+
+  /** Outcomes stored by earlier runs, by row id. */
+  private async checkpointed(): Promise<Map<string, PayoutResult>> {
+    const stored = new Map<string, PayoutResult>();
+    const { checkpoint } = this.options;
+    if (!checkpoint) return stored;
+    for (const row of this.rows) {
+      const text = await checkpoint.get(row.id);
+      if (text !== undefined) stored.set(row.id, { ...(parseCandid(text) as PayoutResult), index: this.rows.indexOf(row), resumed: true });
+    }
+    return stored;
+  }
+
+  private async record(result: PayoutResult): Promise<void> {
+    const { resumed: _resumed, ...stored } = result;
+    await this.options.checkpoint?.set(result.id, stringifyCandid(stored));
+  }
+
+  /** Whether a run sends `row`, given what the checkpoint says about it. */
+  private due(previous?: PayoutResult): boolean {
+    switch (previous?.status) {
+      case "sent": return false;
+      case "unknown": return !!this.options.resendUnknown;
+      case "failed": return this.options.retryFailed !== false;
+      default: return true;
+    }
+  }
+
+  // ============================================================
+  // PLAN
+  // ============================================================
+
+  /**
+   * Check every row the next run would send, and add up what it needs: amounts
+   * and estimated fees per coin or token against the balances (free queries),
+   * and actions against the gateway account. Sends nothing.
+   */
+  async plan(): Promise<PayoutPlan> {
+    const menese = await this.actor();
+    const previous = await this.checkpointed();
+    const invalid: PayoutResult[] = [];
+    // fees: null once a row's fee cannot be estimated
+    const totals = new Map<string, { chain: ChainId; asset: SendAsset; amount: Amount; fees: Amount | null }>();
+    const total = (chain: ChainId, asset: SendAsset, zero: Amount) => {
+      const key = `${chain}|${assetKey(asset)}`;
+      if (!totals.has(key)) totals.set(key, { chain, asset, amount: Amount.zero(zero.token), fees: Amount.zero(zero.token) });
+      return totals.get(key)!;
+    };
+    const evmGasPrice = new Map<ChainId, Promise<bigint | undefined>>();
+    let rows = 0;
+
+    for (const row of this.rows) {
+      if (!this.due(previous.get(row.id))) continue;
+      let amount: Amount;
+      try {
+        await checkSendRequest(row, this.options, this.network);
+        amount = await sendAmount(menese, row);
+      } catch (e) {
+        const error = toMeneseError(e);
+        invalid.push({ ...this.result(row, "failed"), errorKind: error.kind, error: error.message });
+        continue;
+      }
+      rows++;
+      const asset = row.asset ?? "native";
+      const entry = total(row.chain, asset, amount);
+      entry.amount = entry.amount.add(amount.units);
+
+      const fee = await this.estimateFee(menese, row, evmGasPrice);
+      const feeEntry = fee?.asset === "native" || fee === undefined
+        ? total(row.chain, "native", Amount.zero(row.chain))
+        : entry;
+      feeEntry.fees = fee && feeEntry.fees ? feeEntry.fees.add(fee.units) : null;
+    }
+
+    const [accountActions, totalList] = await Promise.all([
+      menese.getMyGatewayAccount().then((a) => a.actionsRemaining, () => undefined),
+      Promise.all([...totals.values()].map(async (t): Promise<PayoutTotal> => {
+        const units = await balanceOf(menese, t.chain, t.asset, { ...this.options, network: this.network }).catch(() => undefined);
+        const balance = units === undefined ? undefined : Amount.fromUnits(units, t.amount.token);
+        const need = t.amount.add((t.fees ?? Amount.zero(t.amount.token)).units);
+        return {
+          chain: t.chain,
+          asset: assetKey(t.asset),
+          amount: t.amount,
+          fees: t.fees ?? undefined,
+          balance,
+          shortfall: balance && need.gt(balance.units) ? need.sub(balance.units) : undefined,
+        };
+      })),
+    ]);
+    return {
+      rows,
+      actions: rows,
+      actionsRemaining: accountActions,
+      totals: totalList,
+      invalid,
+      ok: !invalid.length && totalList.every((t) => !t.shortfall) && (accountActions === undefined || accountActions >= BigInt(rows)),
+    };
+  }
+
+  /** Fee of one row in the smallest unit of the chain's coin ("native") or of the token itself. */
+  private async estimateFee(
+    menese: ActorSubclass<MeneseService>,
+    row: PayoutRow,
+    evmGasPrice: Map<ChainId, Promise<bigint | undefined>>,
+  ): Promise<{ asset: "native" | "token"; units: bigint } | undefined> {
+    const asset = row.asset ?? "native";
+    const { chain } = row;
+    if (isEvmChain(chain)) {
+      if (!evmGasPrice.has(chain)) {
+        const quote = async () => estimateEvmFees(this.options.rpcs?.[chain] ?? chainRpcFor(chain, { network: this.network }), { chain });
+        evmGasPrice.set(chain, quote().then((f) => f.normal.gasPrice, () => undefined));
+      }
+      const gasPrice = await evmGasPrice.get(chain)!;
+      if (gasPrice === undefined) return undefined;
+      return { asset: "native", units: gasPrice * (asset === "native" ? EVM_TRANSFER_GAS : ERC20_TRANSFER_GAS) };
+    }
+    if (asset === "native") {
+      const fixed = FIXED_FEES[chain];
+      return fixed === undefined ? undefined : { asset: "native", units: fixed };
+    }
+    switch (asset.type) {
+      case "spl": return { asset: "native", units: FIXED_FEES.solana! };
+      case "xrpIou": return { asset: "native", units: FIXED_FEES.xrp! };
+      case "trc20": return { asset: "native", units: Amount.from(this.options.feeLimit ?? DEFAULT_TRC20_FEE_LIMIT, "tron").units };   // upper bound
+      case "icrc1": {
+        const info = unwrap(await menese.getICRC1TokenInfo(asset.ledger), "getICRC1TokenInfo");
+        return { asset: "token", units: info.fee };
+      }
+    }
+    return undefined;
+  }
+
+  // ============================================================
+  // RUN
+  // ============================================================
+
+  /**
+   * Send every due row and return the report. Rows already sent (per the
+   * checkpoint) are reported as they were. Throws InsufficientFunds or
+   * QuotaExhausted before sending when the precheck fails — the plan is the
+   * error's `raw`.
+   */
+  async run(): Promise<PayoutReport> {
+    const menese = await this.actor();
+    if (this.options.precheck !== false) {
+      const plan = await this.plan();
+      const short = plan.totals.filter((t) => t.shortfall);
+      if (short.length) {
+        const list = short.map((t) => `${t.chain} ${t.asset} short by ${t.shortfall} ${t.amount.symbol}`).join("; ");
+        throw new InsufficientFunds(`Batch payout: ${list}`, { raw: plan });
+      }
+      if (plan.actionsRemaining !== undefined && plan.actionsRemaining < BigInt(plan.actions)) {
+        throw new QuotaExhausted(`Batch payout needs ${plan.actions} actions, ${plan.actionsRemaining} left`, { raw: plan });
+      }
+    }
+
+    const previous = await this.checkpointed();
+    const results = this.rows.map((row) => previous.get(row.id) ?? this.result(row, "pending"));
+    const parallel = this.options.parallelChains ?? DEFAULT_PARALLEL_CHAINS;
+    const lanes = new Map<string, Array<PayoutRow & { id: string }>>();
+    for (const row of this.rows) {
+      if (!this.due(previous.get(row.id))) continue;
+      const lane = parallel.includes(row.chain) ? `row:${row.id}` : row.chain;
+      lanes.set(lane, [...(lanes.get(lane) ?? []), row]);
+    }
+
+    let stopped = false;
+    const sendRow = async (row: PayoutRow & { id: string }) => {
+      const index = this.rows.indexOf(row);
+      // Marked before the call: if the process dies now, the next run sees "unknown"
+      await this.record(this.result(row, "unknown"));
+      let result: PayoutResult;
+      const { actor, log } = watched(menese);
+      try {
+        const receipt = await send(row, this.source, { ...this.options, menese: actor });
+        result = {
+          ...this.result(row, "sent"),
+          txId: receipt.txId,
+          explorerUrl: receipt.explorerUrl || undefined,
+          fee: receipt.fee && `${receipt.fee} ${receipt.fee.symbol}`,
+        };
+      } catch (e) {
+        const error = toMeneseError(e);
+        if (error instanceof QuotaExhausted) stopped = true;
+        // Anything else thrown once a call is out may hide a payout that went through
+        const failed = error instanceof QuotaExhausted || error instanceof InsufficientFunds
+          || error instanceof InvalidAddress || log.calls === 0 || isRefusal(log.answer);
+        result = {
+          ...this.result(row, failed ? "failed" : "unknown"),
+          errorKind: error.kind,
+          error: error.message,
+        };
+      }
+      results[index] = result;
+      await this.record(result);
+      this.options.onRow?.(result);
+    };
+
+    await pool([...lanes.values()].map((rows) => async () => {
+      for (const row of rows) {
+        if (stopped) return;
+        await sendRow(row);
+      }
+    }), this.options.concurrency ?? DEFAULT_CONCURRENCY);
+
+    const count = (status: PayoutStatus) => results.filter((r) => r.status === status).length;
+    return { rows: results, sent: count("sent"), failed: count("failed"), unknown: count("unknown"), pending: count("pending") };
+  }
+}
@@ -0,0 +1,64 @@
+// broadcasters.test.ts — fan-out broadcasts through an RpcPool, against stubbed nodes
+
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, test } from "node:test";
+import { tronBroadcaster, xrpBroadcaster } from "./broadcasters";
+import { rpcPool, removeRpcPool } from "./rpc-pool";
+
+const ACCEPTS = "https://accepts.example";
+const REJECTS = "https://rejects.example";
+const realFetch = globalThis.fetch;
+
+/** Each endpoint answers with the body `reply` gives for it — always HTTP 200. */
+function stubNodes(reply: (endpoint: string, body: any) => unknown): string[] {
+  const seen: string[] = [];
+  globalThis.fetch = async (input, init) => {
+    const url = String(input);
+    seen.push(url);
+    const endpoint = url.startsWith(ACCEPTS) ? ACCEPTS : REJECTS;
+    return new Response(JSON.stringify(reply(endpoint, JSON.parse(String(init?.body)))), { status: 200 });
+  };
+  return seen;
+}
+
+beforeEach(() => {
+  rpcPool("xrp", [REJECTS, ACCEPTS]);
+  rpcPool("tron", [REJECTS, ACCEPTS]);
+});
+
+afterEach(() => {
+  globalThis.fetch = realFetch;
+  removeRpcPool("xrp");
+  removeRpcPool("tron");
+});
+
+test("xrp: one node's rejection does not fail a broadcast another node accepted", async () => {
+  const seen = stubNodes((endpoint) => ({
+    result: endpoint === ACCEPTS
+      ? { status: "success", engine_result: "tesSUCCESS", tx_json: { hash: "ABC123" } }
+      : { status: "success", engine_result: "tefPAST_SEQ", engine_result_message: "This sequence number has already passed." },
+  }));
+  const r = await xrpBroadcaster(REJECTS).broadcast({ signedTxHex: "1200", txHash: "FALLBACK" } as any);
+  assert.equal(r.txId, "ABC123");
+  assert.equal(seen.length, 2);
+});
+
+test("xrp: every node rejecting throws the node's rejection", async () => {
+  stubNodes(() => ({ result: { status: "success", engine_result: "tecUNFUNDED_PAYMENT", engine_result_message: "Insufficient XRP" } }));
+  await assert.rejects(xrpBroadcaster(ACCEPTS).broadcast({ signedTxHex: "1200", txHash: "" } as any), { kind: "InsufficientFunds" });
+});
+
+test("tron: a node's rejection in a 200 body is a failed leg, not the winner", async () => {
+  stubNodes((endpoint) => (endpoint === ACCEPTS
+    ? { result: true, txid: "beef" }
+    : { result: false, code: "DUP_TRANSACTION_ERROR", message: "" }));
+  const r = await tronBroadcaster(REJECTS).broadcast({ txHex1b: "0a", txHex1c: "0b", txID: "fallback" } as any);
+  assert.equal(r.txId, "beef");
+});
+
+test("tron: SIGERROR everywhere retries with the other recovery id", async () => {
+  const seen = stubNodes((_, body) => (body.transaction === "0b" ? { result: true, txid: "second" } : { result: false, code: "SIGERROR" }));
+  const r = await tronBroadcaster(ACCEPTS).broadcast({ txHex1b: "0a", txHex1c: "0b", txID: "fallback" } as any);
+  assert.equal(r.txId, "second");
+  assert.equal(seen.length, 4);
+});
@@ -0,0 +1,369 @@
+// broadcasters.ts — Submit sign-only relayer output to its chain
+//
+// Every sign-only endpoint returns a different shape; each Broadcaster takes
+// that shape exactly as the canister returned it and gives back the same
+// normalized result:
+//
+//   endpoint                      field(s) broadcast                node call
+//   signSolTransferRelayer        signedTxBase64                    sendTransaction
+//   buildAndSignEvmTxWithData     rawTxHex_v1 (or rawTxHex_v0)      eth_sendRawTransaction
+//   signXrpTransferRelayer        signedTxHex                       rippled submit
+//   signSuiTransferRelayer        txBytesBase64 + signatureBase64   sui_executeTransactionBlock
+//   signNearTransferRelayer       signedTxBytes                     broadcast_tx_commit
+//   signAptosTransferRelayer      signedTxBcs                       POST /transactions (BCS)
+//   signTonTransferRelayer        bocBase64                         toncenter sendBocReturnHash
+//   signCardanoTransferRelayer    signedTxCbor                      Koios submittx (CBOR)
+//   signTrxTransferRelayer        txHex1b, then txHex1c             TronGrid broadcasthex
+//
+//   const signed = await menese.signAptosTransferRelayer(to, amount, seq, 1, expiry);
+//   const { txId, explorerUrl } = await broadcast("aptos", signed);
+//
+//   // Your own nodes / API keys
+//   const broadcasters = createBroadcasters({
+//     rpcs: { ethereum: "https://eth.llamarpc.com", tron: "https://api.trongrid.io" },
+//     headers: { tron: { "TRON-PRO-API-KEY": key } },
+//   });
+//   await broadcasters.ethereum.broadcast(signedEvm);
+//
+// Nodes default to the config's network (network.ts); EVM chains have no
+// mainnet default, so pass `rpcs.<chain>` — or set up an RpcPool for the
+// chain (rpc-pool.ts), which then sends every broadcast to all its live
+// endpoints. Rejections throw a MeneseError (InsufficientFunds, RpcFailure...)
+// carrying the node's message.
+
+import { MeneseError, errorFromText, unwrapResult } from "./errors";
+import { EVM_CHAIN_IDS, txExplorerUrl, type ChainId, type EvmChainId } from "./chains";
+import { chainRpcFor, type Network } from "./network";
+import { base64ToBytes, bytesToBase64, bytesToHex, hexToBytes, toBytes } from "./encoding";
+import { fetchJson, jsonRpc, postJson } from "./rpc";
+import type {
+  ResultOf,
+  SignedAptosTx,
+  SignedCardanoTx,
+  SignedEvmTx,
+  SignedNearTx,
+  SignedSuiTx,
+  SignedTonTx,
+  SignedTronTx,
+  SignedXrpTx,
+} from "./menese-types";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface BroadcastResult {
+  chain: ChainId;
+  /** Chain-native transaction id (signature, hash or digest) */
+  txId: string;
+  /** "" for chains without an explorer */
+  explorerUrl: string;
+}
+
+export interface Broadcaster<TSigned> {
+  readonly chain: ChainId;
+  /** Submit `signed` and resolve once the node has accepted it. */
+  broadcast(signed: TSigned): Promise<BroadcastResult>;
+}
+
+/** Any record carrying a base64 Solana transaction (transfers, swaps, mSOL redemptions...). */
+export interface SignedSolanaTx {
+  signedTxBase64: string;
+}
+
+/** What each chain's broadcaster accepts — the relayer's return value as-is. */
+export interface SignedTxByChain {
+  solana: SignedSolanaTx;
+  ethereum: SignedEvmTx;
+  arbitrum: SignedEvmTx;
+  base: SignedEvmTx;
+  polygon: SignedEvmTx;
+  bsc: SignedEvmTx;
+  optimism: SignedEvmTx;
+  xrp: SignedXrpTx;
+  sui: SignedSuiTx;
+  near: SignedNearTx;
+  aptos: SignedAptosTx;
+  ton: SignedTonTx;
+  /** The variant from signCardanoTransferRelayer, or its unwrapped `ok` */
+  cardano: SignedCardanoTx | ResultOf<SignedCardanoTx>;
+  tron: SignedTronTx | ResultOf<SignedTronTx>;
+}
+
+export type BroadcastChain = keyof SignedTxByChain;
+
+export type BroadcasterRegistry = { [C in BroadcastChain]: Broadcaster<SignedTxByChain[C]> };
+
+export interface BroadcasterOptions {
+  /** Network whose nodes to use. Default: mainnet */
+  network?: Network;
+  /** Node URL per chain — overrides the network's */
+  rpcs?: Partial<Record<BroadcastChain, string>>;
+  /** Extra request headers — API keys for toncenter, Blockfrost, TronGrid */
+  headers?: Partial<Record<"ton" | "cardano" | "tron", Record<string, string>>>;
+  /** EVM: broadcast the legacy type-0 rawTxHex_v0 instead of the EIP-1559 type-2 rawTxHex_v1 */
+  evmLegacy?: boolean;
+}
+
+const result = (chain: ChainId, txId: string): BroadcastResult => ({ chain, txId, explorerUrl: txExplorerUrl(chain, txId) });
+
+/**
+ * Pooled RPCs (rpc-pool.ts) get every broadcast on all live endpoints at once.
+ * Each broadcaster's acceptance check goes in `check`, so it runs per endpoint:
+ * one node's rejection fails only its own leg, and a rejection sent with
+ * HTTP 200 never wins the fan-out.
+ */
+const FAN_OUT = { strategy: "broadcast" } as const;
+
+/** Node rejected the transaction — classify its message. */
+const rejected = (chain: ChainId, detail: string, raw?: unknown) =>
+  errorFromText(`${chain} broadcast rejected: ${detail}`, { method: "broadcast", raw });
+
+// ============================================================
+// BROADCASTERS — one per chain
+// ============================================================
+
+export function solanaBroadcaster(rpcUrl: string): Broadcaster<SignedSolanaTx> {
+  return {
+    chain: "solana",
+    async broadcast(signed) {
+      const signature = await jsonRpc<string>(rpcUrl, "sendTransaction", [
+        signed.signedTxBase64,
+        { encoding: "base64", skipPreflight: false },
+      ], FAN_OUT);
+      return result("solana", signature);
+    },
+  };
+}
+
+export function evmBroadcaster(
+  chain: EvmChainId,
+  rpcUrl: string,
+  options: { legacy?: boolean } = {},
+): Broadcaster<SignedEvmTx> {
+  return {
+    chain,
+    async broadcast(signed) {
+      const raw = options.legacy ? signed.rawTxHex_v0 : signed.rawTxHex_v1;
+      const txHash = await jsonRpc<string>(rpcUrl, "eth_sendRawTransaction", [raw.startsWith("0x") ? raw : `0x${raw}`], FAN_OUT);
+      return result(chain, txHash);
+    },
+  };
+}
+
+/**
+ * rippled JSON-RPC `submit`. Only tesSUCCESS and terQUEUED count as accepted —
+ * other ter* codes (terNO_ACCOUNT, terPRE_SEQ...) will not apply as submitted.
+ */
+export function xrpBroadcaster(rpcUrl: string): Broadcaster<SignedXrpTx> {
+  return {
+    chain: "xrp",
+    async broadcast(signed) {
+      const json = await postJson(rpcUrl, { method: "submit", params: [{ tx_blob: signed.signedTxHex }] }, {
+        ...FAN_OUT,
+        check: (reply) => {
+          const r = reply.result ?? {};
+          const code: string = r.engine_result ?? r.error ?? "";
+          if (r.status === "error" || (code !== "tesSUCCESS" && code !== "terQUEUED")) {
+            // tecUNFUNDED_PAYMENT, terINSUF_FEE_B... — say it in words errorFromText understands
+            const detail = /UNFUNDED|INSUF/.test(code) ? `insufficient funds (${code})` : code;
+            throw rejected("xrp", `${detail} — ${r.engine_result_message ?? r.error_message ?? ""}`, r);
+          }
+        },
+      });
+      return result("xrp", json.result.tx_json?.hash ?? signed.txHash);
+    },
+  };
+}
+
+export function suiBroadcaster(rpcUrl: string): Broadcaster<SignedSuiTx> {
+  return {
+    chain: "sui",
+    async broadcast(signed) {
+      const r = await jsonRpc<any>(rpcUrl, "sui_executeTransactionBlock", [
+        signed.txBytesBase64,
+        [signed.signatureBase64],
+        { showEffects: true },
+        "WaitForLocalExecution",
+      ], {
+        ...FAN_OUT,
+        check: (reply) => {
+          const status = reply?.effects?.status;
+          if (status && status.status !== "success") throw rejected("sui", status.error ?? status.status, reply);
+        },
+      });
+      return result("sui", r.digest);
+    },
+  };
+}
+
+/** NEAR JSON-RPC. Waits until the transaction is included in a block. */
+export function nearBroadcaster(rpcUrl: string): Broadcaster<SignedNearTx> {
+  return {
+    chain: "near",
+    async broadcast(signed) {
+      const r = await jsonRpc<any>(rpcUrl, "broadcast_tx_commit", [bytesToBase64(signed.signedTxBytes)], {
+        ...FAN_OUT,
+        check: (reply) => {
+          const failure = reply?.status?.Failure;
+          if (failure) throw rejected("near", JSON.stringify(failure), reply);
+        },
+      });
+      return result("near", r.transaction.hash);
+    },
+  };
+}
+
+/** Aptos REST API: POST /transactions with the BCS-encoded signed transaction. */
+export function aptosBroadcaster(apiUrl: string): Broadcaster<SignedAptosTx> {
+  return {
+    chain: "aptos",
+    async broadcast(signed) {
+      const r = await fetchJson<{ hash?: string; message?: string }>(`${apiUrl.replace(/\/$/, "")}/transactions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/x.aptos.signed_transaction+bcs" },
+        body: toBytes(signed.signedTxBcs) as BodyInit,
+        label: "aptos",
+        ...FAN_OUT,
+        check: (reply) => {
+          if (!reply.hash) throw rejected("aptos", reply.message ?? JSON.stringify(reply), reply);
+        },
+      });
+      return result("aptos", r.hash!);
+    },
+  };
+}
+
+/** toncenter v2 `sendBocReturnHash`. Pass an X-API-Key header to lift the 1 rps limit. */
+export function tonBroadcaster(apiUrl: string, headers: Record<string, string> = {}): Broadcaster<SignedTonTx> {
+  return {
+    chain: "ton",
+    async broadcast(signed) {
+      const r = await postJson(`${apiUrl.replace(/\/$/, "")}/sendBocReturnHash`, { boc: signed.bocBase64 }, {
+        headers,
+        ...FAN_OUT,
+        check: (reply) => {
+          if (!reply.ok) throw rejected("ton", reply.error ?? JSON.stringify(reply), reply);
+        },
+      });
+      // toncenter returns the message hash in base64; explorers take hex
+      return result("ton", bytesToHex(base64ToBytes(r.result.hash)));
+    },
+  };
+}
+
+/** Koios `submittx` (raw CBOR). Blockfrost works too: its /tx/submit takes the same body plus a project_id header. */
+export function cardanoBroadcaster(
+  apiUrl: string,
+  headers: Record<string, string> = {},
+): Broadcaster<SignedCardanoTx | ResultOf<SignedCardanoTx>> {
+  return {
+    chain: "cardano",
+    async broadcast(signed) {
+      const tx = "ok" in signed || "err" in signed ? unwrapResult(signed, "signCardanoTransferRelayer") : signed;
+      const base = apiUrl.replace(/\/$/, "");
+      const url = /blockfrost/.test(base) ? `${base}/tx/submit` : `${base}/submittx`;
+      const txId = await fetchJson<string>(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/cbor", ...headers },
+        body: toBytes(tx.signedTxCbor) as BodyInit,
+        label: "cardano",
+        ...FAN_OUT,
+      });
+      return result("cardano", typeof txId === "string" ? txId : bytesToHex(tx.txHash));
+    },
+  };
+}
+
+/**
+ * TronGrid `/wallet/broadcasthex`. The canister cannot know the signature's
+ * recovery id, so it returns both candidates: txHex1b (v=27) is tried first,
+ * txHex1c (v=28) only if the node rejects the signature.
+ */
+export function tronBroadcaster(
+  apiUrl: string,
+  headers: Record<string, string> = {},
+): Broadcaster<SignedTronTx | ResultOf<SignedTronTx>> {
+  // TronGrid hex-encodes its error messages
+  const message = (r: any) => {
+    try {
+      return new TextDecoder().decode(hexToBytes(r.message));
+    } catch {
+      return String(r.message ?? r.code);
+    }
+  };
+  const submit = (hex: string) =>
+    postJson(`${apiUrl.replace(/\/$/, "")}/wallet/broadcasthex`, { transaction: hex }, {
+      headers,
+      ...FAN_OUT,
+      check: (reply) => {
+        if (!reply.result) throw rejected("tron", `${reply.code}: ${message(reply)}`, reply);
+      },
+    });
+
+  return {
+    chain: "tron",
+    async broadcast(signed) {
+      const tx = "ok" in signed || "err" in signed ? unwrapResult(signed, "signTrxTransferRelayer") : signed;
+      let r;
+      try {
+        r = await submit(tx.txHex1b);
+      } catch (e) {
+        if (!(e instanceof MeneseError) || (e.raw as { code?: string } | undefined)?.code !== "SIGERROR") throw e;
+        r = await submit(tx.txHex1c);
+      }
+      return result("tron", r.txid ?? tx.txID);
+    },
+  };
+}
+
+// ============================================================
+// REGISTRY
+// ============================================================
+
+/**
+ * One broadcaster per chain. Nodes come from `options.rpcs`, else the
+ * network (network.ts). A chain without a node only fails when used.
+ */
+export function createBroadcasters(options: BroadcasterOptions = {}): BroadcasterRegistry {
+  const node = (chain: BroadcastChain) => options.rpcs?.[chain] ?? chainRpcFor(chain, options);
+  const headers = (chain: "ton" | "cardano" | "tron") => options.headers?.[chain] ?? {};
+  // Resolve the node on first use, so a missing EVM RPC does not break the other chains
+  const lazy = <T>(chain: BroadcastChain, build: () => Broadcaster<T>): Broadcaster<T> => ({
+    chain,
+    broadcast: (signed) => build().broadcast(signed),
+  });
+  const evm = (chain: EvmChainId) =>
+    lazy<SignedEvmTx>(chain, () => evmBroadcaster(chain, node(chain), { legacy: options.evmLegacy }));
+
+  return {
+    solana: lazy("solana", () => solanaBroadcaster(node("solana"))),
+    ethereum: evm("ethereum"),
+    arbitrum: evm("arbitrum"),
+    base: evm("base"),
+    polygon: evm("polygon"),
+    bsc: evm("bsc"),
+    optimism: evm("optimism"),
+    xrp: lazy("xrp", () => xrpBroadcaster(node("xrp"))),
+    sui: lazy("sui", () => suiBroadcaster(node("sui"))),
+    near: lazy("near", () => nearBroadcaster(node("near"))),
+    aptos: lazy("aptos", () => aptosBroadcaster(node("aptos"))),
+    ton: lazy("ton", () => tonBroadcaster(node("ton"), headers("ton"))),
+    cardano: lazy("cardano", () => cardanoBroadcaster(node("cardano"), headers("cardano"))),
+    tron: lazy("tron", () => tronBroadcaster(node("tron"), headers("tron"))),
+  };
+}
+
+/** Broadcast one relayer result on `chain`. Shorthand for createBroadcasters(options)[chain]. */
+export async function broadcast<C extends BroadcastChain>(
+  chain: C,
+  signed: SignedTxByChain[C],
+  options: BroadcasterOptions = {},
+): Promise<BroadcastResult> {
+  const broadcaster = createBroadcasters(options)[chain] as Broadcaster<SignedTxByChain[C]> | undefined;
+  if (!broadcaster) {
+    const evm = Object.keys(EVM_CHAIN_IDS).join(", ");
+    throw new MeneseError(`No broadcaster for "${chain}" — supported: solana, ${evm}, xrp, sui, near, aptos, ton, cardano, tron`);
+  }
+  return broadcaster.broadcast(signed);
+}
@@ -0,0 +1,112 @@
+// candid-drift.test.ts — the .did parser, IDL factory shapes and the drift rules between them
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { IDL } from "@dfinity/candid";
+import { checkCandidDrift, crossCheckInterfaces, diffServices, formatDriftReport, parseDid, serviceFromIdl } from "./candid-drift";
+
+const DID = `
+// comments and named arguments are skipped
+type Tree = variant { leaf : nat64; node : record { left : Tree; right : Tree } };
+type Result = variant { ok : record { txHash : text; "blockHeight" : opt nat64 }; err : text };
+type Send = func (to : text, amount : nat64) -> (Result);
+service : (record { admin : principal }) -> {
+  send : Send;
+  balance : (text) -> (nat64) query;
+  tree : () -> (Tree) composite_query;
+  raw : (blob, vec record { text; nat }) -> ();
+}
+`;
+
+const factory: IDL.InterfaceFactory = ({ IDL }) => {
+  const Tree = IDL.Rec();
+  Tree.fill(IDL.Variant({ leaf: IDL.Nat64, node: IDL.Record({ left: Tree, right: Tree }) }));
+  const Result = IDL.Variant({ ok: IDL.Record({ txHash: IDL.Text, blockHeight: IDL.Opt(IDL.Nat64) }), err: IDL.Text });
+  return IDL.Service({
+    send: IDL.Func([IDL.Text, IDL.Nat64], [Result], []),
+    balance: IDL.Func([IDL.Text], [IDL.Nat64], ["query"]),
+    tree: IDL.Func([], [Tree], ["composite_query"]),
+    raw: IDL.Func([IDL.Vec(IDL.Nat8), IDL.Vec(IDL.Tuple(IDL.Text, IDL.Nat))], [], []),
+  });
+};
+
+test("parseDid reads types, func references, modes and tuples", () => {
+  const service = parseDid(DID);
+  assert.deepEqual([...service.keys()], ["send", "balance", "tree", "raw"]);
+  assert.deepEqual([...service.values()].map((m) => m.mode), ["update", "query", "composite_query", "update"]);
+  const send = service.get("send")!;
+  assert.deepEqual([send.args.length, send.rets.length], [2, 1]);
+  assert.deepEqual(service.get("raw")!.args[0], { kind: "vec", inner: { kind: "prim", name: "nat8" } });
+  // Type names resolve lazily, so recursive and forward references work
+  const [missing] = parseDid("service : { f : (Missing) -> () }").get("f")!.args;
+  assert.throws(() => missing.kind === "ref" && missing.resolve(), /unknown type "Missing"/);
+  assert.throws(() => parseDid("type A = nat;"), /no service declaration/);
+});
+
+test("an IDL factory matching its .did has no drift, recursive types included", () => {
+  assert.deepEqual(checkCandidDrift(factory, DID), []);
+  assert.equal(serviceFromIdl(factory).get("balance")!.mode, "query");
+});
+
+test("drift: missing methods, modes, arity and renamed fields", () => {
+  const sdk = parseDid(`service : {
+    gone : () -> ();
+    q : () -> () query;
+    u : () -> ();
+    two : (text, text) -> ();
+    rec : () -> (record { txHash : text });
+  }`);
+  const canister = parseDid(`service : {
+    q : () -> ();
+    u : () -> () query;
+    two : (text) -> ();
+    rec : () -> (record { tx_hash : text });
+  }`);
+  const issues = diffServices(sdk, canister, "test");
+  const found = (method: string) => issues.filter((i) => i.method === method).map((i) => [i.severity, i.kind, i.path]);
+  assert.deepEqual(found("gone"), [["error", "missing-method", ""]]);
+  // A query call to an update method is rejected; the reverse only costs time
+  assert.deepEqual(found("q"), [["error", "mode-mismatch", ""]]);
+  assert.deepEqual(found("u"), [["warning", "mode-mismatch", ""]]);
+  assert.deepEqual(found("two"), [["error", "arity-changed", "args"]]);
+  assert.deepEqual(issues.find((i) => i.method === "rec"), {
+    severity: "error", kind: "field-renamed", iface: "test", method: "rec", path: "ret[0]", message: 'field "txHash" is now "tx_hash"',
+  });
+});
+
+test("drift: fields and variant tags break only the side that decodes them", () => {
+  const sdk = parseDid(`service : {
+    put : (record { a : nat; b : nat }) -> ();
+    get : () -> (record { a : nat; b : nat; c : opt nat });
+    status : () -> (variant { ok; err });
+    typed : (nat64) -> ();
+  }`);
+  const canister = parseDid(`service : {
+    put : (record { a : nat; b : nat; c : text; d : opt text }) -> ();
+    get : () -> (record { a : nat });
+    status : () -> (variant { ok; err; pending });
+    typed : (nat) -> ();
+  }`);
+  const issues = diffServices(sdk, canister).map((i) => `${i.severity} ${i.kind} ${i.method}${i.path}`);
+  assert.deepEqual(issues.sort(), [
+    "error field-added putarg[0].c",
+    "error field-missing getret[0].b",
+    "error type-changed typedarg[0]",
+    "error variant-tag-missing statusret[0].pending",
+    "warning field-added putarg[0].d",
+    "warning field-missing getret[0].c",
+  ]);
+});
+
+test("the shipped IDL factories agree with each other", () => {
+  assert.deepEqual(crossCheckInterfaces().filter((i) => i.severity === "error"), []);
+});
+
+test("formatDriftReport puts errors first", () => {
+  assert.equal(formatDriftReport([]), "No Candid drift detected.");
+  const report = formatDriftReport(diffServices(parseDid("service : { a : () -> (); b : () -> () }"), parseDid("service : { a : () -> () query }")));
+  assert.deepEqual(report.split("\n"), [
+    "ERROR [sdk] b: b does not exist on the canister",
+    "warn  [sdk] a: SDK calls a as update, canister declares query",
+  ]);
+});
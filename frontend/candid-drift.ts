@@ -0,0 +1,528 @@
+// candid-drift.ts — Detect drift between the IDLs we ship and the deployed canisters
+//
+// Every canister the SDK calls has a hand-written IDL factory somewhere:
+//   sdk-setup.ts          idlFactory                (Menese, full)
+//   12-msol-icp-sol.ts    sdkIdl, cksolIdl, icpSolSwapIdl, icrc2Idl   (partial)
+//   sovereign-send.ts     sovereignSendIDL, msolCanisterIDL, icrc2LedgerIDL
+//
+// This module diffs each of them against the real interface — a .did file,
+// or the `candid:service` metadata of a live/local canister — and reports:
+//   - methods the SDK calls that the canister no longer has
+//   - argument / result arity changes
+//   - query ↔ update mismatches
+//   - record fields that were renamed, removed or added, and type changes
+//
+//   // CI: fail the build if a canister upgrade broke us
+//   const issues = await checkAllInterfaces({ network: "ic" });
+//   console.log(formatDriftReport(issues));
+//   if (issues.some((i) => i.severity === "error")) process.exit(1);
+//
+// Extra methods on the canister are fine — partial IDLs are expected.
+
+import { CanisterStatus, type HttpAgent } from "@dfinity/agent";
+import { IDL } from "@dfinity/candid";
+import { Principal } from "@dfinity/principal";
+import { idlFactory } from "./sdk-setup";
+import {
+  createAnonymousAgent,
+  resolveCanisterIds,
+  toConfig,
+  type AgentSource,
+  type CanisterIds,
+} from "./agent-config";
+import { cksolIdl, icpSolSwapIdl, icrc2Idl, sdkIdl } from "../msol-icp-sol-integration/12-msol-icp-sol";
+import { icrc2LedgerIDL, msolCanisterIDL, sovereignSendIDL } from "../sovereign-send-integration/sovereign-send";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/** Structural view of a Candid type, shared by .did files and IDL factories. */
+export type CandidShape =
+  | { kind: "prim"; name: string }
+  | { kind: "opt" | "vec"; inner: CandidShape }
+  | { kind: "record" | "variant"; fields: Array<[string, CandidShape]> }
+  | { kind: "func"; func: CandidMethod }
+  | { kind: "service"; methods: Map<string, CandidMethod> }
+  | { kind: "ref"; name: string; resolve: () => CandidShape };
+
+export type CallMode = "update" | "query" | "composite_query" | "oneway";
+
+export interface CandidMethod {
+  args: CandidShape[];
+  rets: CandidShape[];
+  mode: CallMode;
+}
+
+export type CandidService = Map<string, CandidMethod>;
+
+export type DriftKind =
+  | "missing-method"
+  | "mode-mismatch"
+  | "arity-changed"
+  | "field-renamed"
+  | "field-missing"
+  | "field-added"
+  | "variant-tag-missing"
+  | "type-changed";
+
+export interface DriftIssue {
+  /** errors break calls at runtime; warnings are worth a look */
+  severity: "error" | "warning";
+  kind: DriftKind;
+  /** SDK interface name, e.g. "sovereign-send/msol" */
+  iface: string;
+  method: string;
+  /** Where in the signature, e.g. "ret[0].ok.txHash" */
+  path: string;
+  message: string;
+}
+
+// ============================================================
+// .did PARSER (the subset dfx emits — no imports)
+// ============================================================
+
+function tokenize(src: string): string[] {
+  const tokens: string[] = [];
+  const re = /\s+|\/\/[^\n]*|\/\*[\s\S]*?\*\/|"(?:[^"\\]|\\.)*"|->|[{}():;,=]|[A-Za-z_][A-Za-z0-9_]*|\d+/y;
+  let m: RegExpExecArray | null;
+  while (re.lastIndex < src.length) {
+    const at = re.lastIndex;
+    if (!(m = re.exec(src))) throw new Error(`.did parse error: unexpected "${src.slice(at, at + 20)}"`);
+    const t = m[0];
+    if (!/^\s/.test(t) && !t.startsWith("//") && !t.startsWith("/*")) tokens.push(t);
+  }
+  return tokens;
+}
+
+const PRIMS = new Set([
+  "nat", "nat8", "nat16", "nat32", "nat64", "int", "int8", "int16", "int32", "int64",
+  "float32", "float64", "bool", "text", "null", "reserved", "empty", "principal",
+]);
+
+/** Parse a .did source into its service methods. */
+export function parseDid(source: string): CandidService {
+  const tokens = tokenize(source);
+  const types = new Map<string, CandidShape>();
+  let pos = 0;
+
+  const peek = (o = 0) => tokens[pos + o];
+  const next = () => tokens[pos++];
+  const expect = (t: string) => {
+    if (tokens[pos] !== t) throw new Error(`.did parse error: expected "${t}" but got "${tokens[pos] ?? "end of file"}"`);
+    pos++;
+  };
+  const label = (t: string) => (t.startsWith('"') ? JSON.parse(t) : t);
+
+  const ref = (name: string): CandidShape => ({
+    kind: "ref",
+    name,
+    resolve: () => {
+      const t = types.get(name);
+      if (!t) throw new Error(`.did: unknown type "${name}"`);
+      return t;
+    },
+  });
+
+  function fields(kind: "record" | "variant"): Array<[string, CandidShape]> {
+    expect("{");
+    const out: Array<[string, CandidShape]> = [];
+    let index = 0;
+    while (peek() !== "}") {
+      if (peek(1) === ":") {
+        const name = label(next());
+        next();
+        out.push([name, dataType()]);
+      } else if (kind === "variant") {
+        out.push([label(next()), { kind: "prim", name: "null" }]);
+      } else {
+        out.push([String(index++), dataType()]);
+      }
+      if (peek() === ";") next();
+    }
+    expect("}");
+    return out;
+  }
+
+  function tuple(): CandidShape[] {
+    expect("(");
+    const out: CandidShape[] = [];
+    while (peek() !== ")") {
+      if (peek(1) === ":") pos += 2;  // named argument
+      out.push(dataType());
+      if (peek() === ",") next();
+    }
+    expect(")");
+    return out;
+  }
+
+  function funcType(): CandidMethod {
+    const args = tuple();
+    expect("->");
+    const rets = tuple();
+    let mode: CallMode = "update";
+    while (peek() === "query" || peek() === "composite_query" || peek() === "oneway") mode = next() as CallMode;
+    return { args, rets, mode };
+  }
+
+  function actorType(): CandidService {
+    expect("{");
+    const methods: CandidService = new Map();
+    while (peek() !== "}") {
+      const name = label(next());
+      expect(":");
+      if (peek() === "(") {
+        methods.set(name, funcType());
+      } else {
+        const typeName = next();
+        const t = types.get(typeName);
+        if (t?.kind !== "func") throw new Error(`.did: method "${name}" refers to "${typeName}", which is not a func type`);
+        methods.set(name, t.func);
+      }
+      if (peek() === ";") next();
+    }
+    expect("}");
+    return methods;
+  }
+
+  function dataType(): CandidShape {
+    const t = next();
+    if (PRIMS.has(t)) return { kind: "prim", name: t };
+    switch (t) {
+      case "blob": return { kind: "vec", inner: { kind: "prim", name: "nat8" } };
+      case "opt": return { kind: "opt", inner: dataType() };
+      case "vec": return { kind: "vec", inner: dataType() };
+      case "record": return { kind: "record", fields: fields("record") };
+      case "variant": return { kind: "variant", fields: fields("variant") };
+      case "func": return { kind: "func", func: funcType() };
+      case "service": return { kind: "service", methods: actorType() };
+      default: return ref(t);
+    }
+  }
+
+  let service: CandidService | undefined;
+  while (pos < tokens.length) {
+    const t = next();
+    if (t === "type") {
+      const name = next();
+      expect("=");
+      types.set(name, dataType());
+    } else if (t === "service") {
+      if (peek() !== ":") next();   // service name
+      expect(":");
+      if (peek() === "(") { tuple(); expect("->"); }  // init args
+      if (peek() === "{") {
+        service = actorType();
+      } else {
+        const s = types.get(next());
+        if (s?.kind !== "service") throw new Error(".did: service type is not a service");
+        service = s.methods;
+      }
+    } else if (t !== ";") {
+      throw new Error(`.did parse error: unexpected "${t}"`);
+    }
+  }
+  if (!service) throw new Error(".did has no service declaration");
+  return service;
+}
+
+// ============================================================
+// IDL FACTORY → SHAPE
+// ============================================================
+
+/**
+ * Element and field types, which agent-js keeps protected (`_type`,
+ * `_fields`) and only hands to a Visitor. Opt and vec give one `["", inner]`.
+ */
+class InnerTypes extends IDL.Visitor<null, Array<[string, IDL.Type]>> {
+  visitType(): Array<[string, IDL.Type]> {
+    return [];
+  }
+  visitVec<T>(_t: IDL.VecClass<T>, type: IDL.Type<T>): Array<[string, IDL.Type]> {
+    return [["", type]];
+  }
+  visitOpt<T>(_t: IDL.OptClass<T>, type: IDL.Type<T>): Array<[string, IDL.Type]> {
+    return [["", type]];
+  }
+  visitRecord(_t: IDL.RecordClass, fields: Array<[string, IDL.Type]>): Array<[string, IDL.Type]> {
+    return fields;
+  }
+  visitVariant(_t: IDL.VariantClass, fields: Array<[string, IDL.Type]>): Array<[string, IDL.Type]> {
+    return fields;
+  }
+}
+
+/** Convert a JS IDL factory (as passed to Actor.createActor) into its service shape. */
+export function serviceFromIdl(factory: IDL.InterfaceFactory): CandidService {
+  const recs = new Map<IDL.Type, CandidShape>();
+  const inner = new InnerTypes();
+
+  function shape(type: IDL.Type): CandidShape {
+    if (type instanceof IDL.RecClass) {
+      let s = recs.get(type);
+      if (!s) {
+        let resolved: CandidShape | undefined;
+        s = { kind: "ref", name: type.name, resolve: () => (resolved ??= shape(type.getType()!)) };
+        recs.set(type, s);
+      }
+      return s;
+    }
+    if (type instanceof IDL.OptClass || type instanceof IDL.VecClass) {
+      return { kind: type instanceof IDL.OptClass ? "opt" : "vec", inner: shape(type.accept(inner, null)[0][1]) };
+    }
+    if (type instanceof IDL.RecordClass || type instanceof IDL.VariantClass) {
+      return {
+        kind: type instanceof IDL.VariantClass ? "variant" : "record",
+        fields: type.accept(inner, null).map(([name, f]) => [name.replace(/^_(\d+)_$/, "$1"), shape(f)]),
+      };
+    }
+    if (type instanceof IDL.FuncClass) return { kind: "func", func: method(type) };
+    if (type instanceof IDL.ServiceClass) return { kind: "service", methods: new Map() };
+    return { kind: "prim", name: type.name };  // nat8, int32, float64, nat, text, bool, null, principal...
+  }
+
+  function method(func: IDL.FuncClass): CandidMethod {
+    const mode = (func.annotations.find((a) => a === "query" || a === "composite_query" || a === "oneway") ?? "update") as CallMode;
+    return { args: func.argTypes.map(shape), rets: func.retTypes.map(shape), mode };
+  }
+
+  const service = factory({ IDL }) as IDL.ServiceClass;
+  return new Map(service._fields.map(([name, func]) => [name, method(func)]));
+}
+
+// ============================================================
+// DIFF
+// ============================================================
+
+const display = (s: CandidShape): string => {
+  switch (s.kind) {
+    case "prim": return s.name;
+    case "ref": return s.name;
+    case "opt": case "vec": return `${s.kind} ${display(s.inner)}`;
+    default: return s.kind;
+  }
+};
+
+const deref = (s: CandidShape): CandidShape => {
+  for (let i = 0; s.kind === "ref" && i < 100; i++) s = s.resolve();
+  return s;
+};
+
+/**
+ * Diff an SDK interface against the canister's.
+ * `sdk` may be a subset — only methods it declares are checked.
+ */
+export function diffServices(sdk: CandidService, canister: CandidService, iface = "sdk"): DriftIssue[] {
+  const issues: DriftIssue[] = [];
+
+  for (const [name, ours] of sdk) {
+    const issue = (severity: DriftIssue["severity"], kind: DriftKind, path: string, message: string) =>
+      issues.push({ severity, kind, iface, method: name, path, message });
+
+    const theirs = canister.get(name);
+    if (!theirs) {
+      issue("error", "missing-method", "", `${name} does not exist on the canister`);
+      continue;
+    }
+
+    const isQuery = (m: CallMode) => m === "query" || m === "composite_query";
+    if (ours.mode !== theirs.mode) {
+      // Update calls to query methods still work (just slower); the reverse is rejected
+      issue(isQuery(ours.mode) && !isQuery(theirs.mode) ? "error" : "warning", "mode-mismatch", "",
+        `SDK calls ${name} as ${ours.mode}, canister declares ${theirs.mode}`);
+    }
+    if (ours.args.length !== theirs.args.length) {
+      issue("error", "arity-changed", "args", `SDK passes ${ours.args.length} argument(s), canister takes ${theirs.args.length}`);
+    }
+    if (ours.rets.length !== theirs.rets.length) {
+      issue("error", "arity-changed", "rets", `SDK expects ${ours.rets.length} result(s), canister returns ${theirs.rets.length}`);
+    }
+
+    // Recursive types: each (ours, theirs, direction) pair is compared once
+    const seen = new Set<string>();
+    const ids = new Map<CandidShape, number>();
+    const id = (s: CandidShape) => { if (!ids.has(s)) ids.set(s, ids.size); return ids.get(s)!; };
+
+    // dir "arg": SDK encodes, canister decodes. dir "ret": canister encodes, SDK decodes.
+    const compare = (a: CandidShape, b: CandidShape, path: string, dir: "arg" | "ret"): void => {
+      const key = `${id(a)}:${id(b)}:${dir}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+
+      const x = deref(a);
+      const y = deref(b);
+      if (x.kind === "prim" && y.kind === "prim") {
+        if (x.name !== y.name && x.name !== "reserved" && y.name !== "reserved") {
+          issue("error", "type-changed", path, `SDK uses ${x.name}, canister uses ${y.name}`);
+        }
+        return;
+      }
+      if (x.kind !== y.kind) {
+        issue("error", "type-changed", path, `SDK uses ${display(x)}, canister uses ${display(y)}`);
+        return;
+      }
+      if ((x.kind === "opt" || x.kind === "vec") && (y.kind === "opt" || y.kind === "vec")) {
+        compare(x.inner, y.inner, `${path}.${x.kind === "opt" ? "?" : "[]"}`, dir);
+        return;
+      }
+      if ((x.kind === "record" || x.kind === "variant") && (y.kind === "record" || y.kind === "variant")) {
+        const ourFields = new Map(x.fields);
+        const theirFields = new Map(y.fields);
+        const onlyOurs = x.fields.filter(([n]) => !theirFields.has(n));
+        const onlyTheirs = y.fields.filter(([n]) => !ourFields.has(n));
+
+        for (const [n, t] of x.fields) {
+          const other = theirFields.get(n);
+          if (other) compare(t, other, `${path}.${n}`, dir);
+        }
+
+        if (x.kind === "record" && onlyOurs.length === 1 && onlyTheirs.length === 1) {
+          issue("error", "field-renamed", path, `field "${onlyOurs[0][0]}" is now "${onlyTheirs[0][0]}"`);
+          return;
+        }
+        const isOpt = (s: CandidShape) => deref(s).kind === "opt";
+        if (x.kind === "record") {
+          // Missing fields only break the side that decodes them, unless they're optional
+          for (const [n, t] of onlyOurs) {
+            if (dir === "ret" && !isOpt(t)) issue("error", "field-missing", `${path}.${n}`, `canister no longer returns "${n}"`);
+            else issue("warning", "field-missing", `${path}.${n}`, `canister has no field "${n}"`);
+          }
+          for (const [n, t] of onlyTheirs) {
+            if (dir === "arg" && !isOpt(t)) issue("error", "field-added", `${path}.${n}`, `canister requires new field "${n}"`);
+            else issue("warning", "field-added", `${path}.${n}`, `canister added field "${n}"`);
+          }
+        } else {
+          for (const [n] of onlyTheirs) {
+            if (dir === "ret") issue("error", "variant-tag-missing", `${path}.${n}`, `canister may return variant "${n}", which the SDK cannot decode`);
+          }
+          for (const [n] of onlyOurs) {
+            issue("warning", "variant-tag-missing", `${path}.${n}`, `canister has no variant "${n}"`);
+          }
+        }
+        return;
+      }
+      if (x.kind === "func" && y.kind === "func") {
+        if (x.func.args.length !== y.func.args.length || x.func.rets.length !== y.func.rets.length) {
+          issue("error", "type-changed", path, "func reference signature changed");
+        }
+      }
+    };
+
+    ours.args.forEach((t, i) => theirs.args[i] && compare(t, theirs.args[i], `arg[${i}]`, "arg"));
+    ours.rets.forEach((t, i) => theirs.rets[i] && compare(t, theirs.rets[i], `ret[${i}]`, "ret"));
+  }
+  return issues;
+}
+
+// ============================================================
+// SDK INTERFACES + LIVE CHECKS
+// ============================================================
+
+export interface SdkInterface {
+  name: string;
+  /** Which canister the factory talks to */
+  canister: keyof CanisterIds;
+  factory: IDL.InterfaceFactory;
+}
+
+/** Every IDL factory the SDK ships, and the canister each one targets. */
+export const SDK_INTERFACES: SdkInterface[] = [
+  { name: "sdk-setup/menese", canister: "menese", factory: idlFactory },
+  { name: "12-msol-icp-sol/sdk", canister: "menese", factory: sdkIdl },
+  { name: "12-msol-icp-sol/cksol", canister: "cksol", factory: cksolIdl },
+  { name: "12-msol-icp-sol/icp-sol-swap", canister: "icpSolSwap", factory: icpSolSwapIdl },
+  { name: "12-msol-icp-sol/cksol-ledger", canister: "cksolLedger", factory: icrc2Idl },
+  { name: "12-msol-icp-sol/icp-ledger", canister: "icpLedger", factory: icrc2Idl },
+  { name: "sovereign-send/sovereign-send", canister: "sovereignSend", factory: sovereignSendIDL },
+  { name: "sovereign-send/msol", canister: "cksol", factory: msolCanisterIDL },
+  { name: "sovereign-send/msol-ledger", canister: "cksolLedger", factory: icrc2LedgerIDL },
+];
+
+/** Read a canister's `candid:service` metadata (public on most canisters). */
+export async function fetchCandidInterface(canisterId: string, source: AgentSource = {}): Promise<string> {
+  const agent = createAnonymousAgent(source) as HttpAgent;
+  const status = await CanisterStatus.request({
+    canisterId: Principal.fromText(canisterId),
+    agent,
+    paths: ["candid"],
+  });
+  const did = status.get("candid");
+  if (typeof did !== "string" || !did) {
+    throw new Error(`Canister ${canisterId} does not publish candid:service metadata — pass its .did file instead`);
+  }
+  return did;
+}
+
+/** Diff one IDL factory against .did source text. */
+export function checkCandidDrift(factory: SdkInterface["factory"], did: string, iface = "sdk"): DriftIssue[] {
+  return diffServices(serviceFromIdl(factory), parseDid(did), iface);
+}
+
+/**
+ * Check every shipped IDL factory against its canister.
+ * `dids` supplies .did text per canister (e.g. from `dfx` build output);
+ * anything missing is fetched from the canister's metadata on `config`'s network.
+ */
+export async function checkAllInterfaces(
+  config: AgentSource = {},
+  dids: Partial<Record<keyof CanisterIds, string>> = {},
+): Promise<DriftIssue[]> {
+  const ids = resolveCanisterIds(toConfig(config));
+  const cache = new Map<keyof CanisterIds, Promise<string>>();
+  const didFor = (canister: keyof CanisterIds) => {
+    if (!cache.has(canister)) {
+      cache.set(canister, dids[canister] !== undefined
+        ? Promise.resolve(dids[canister]!)
+        : fetchCandidInterface(ids[canister], config));
+    }
+    return cache.get(canister)!;
+  };
+
+  const issues: DriftIssue[] = [];
+  for (const iface of SDK_INTERFACES) {
+    issues.push(...checkCandidDrift(iface.factory, await didFor(iface.canister), iface.name));
+  }
+  return issues.concat(crossCheckInterfaces());
+}
+
+/**
+ * Offline check: factories that target the same canister must agree with
+ * each other (same mode, same arity) for every method they both declare.
+ */
+export function crossCheckInterfaces(interfaces: SdkInterface[] = SDK_INTERFACES): DriftIssue[] {
+  const issues: DriftIssue[] = [];
+  const services = interfaces.map((i) => ({ ...i, service: serviceFromIdl(i.factory) }));
+  for (let i = 0; i < services.length; i++) {
+    for (let j = i + 1; j < services.length; j++) {
+      const a = services[i];
+      const b = services[j];
+      if (a.canister !== b.canister || a.factory === b.factory) continue;
+      for (const [name, ma] of a.service) {
+        const mb = b.service.get(name);
+        if (!mb) continue;
+        if (ma.mode !== mb.mode) {
+          issues.push({
+            severity: "warning", kind: "mode-mismatch", iface: `${a.name} ↔ ${b.name}`, method: name, path: "",
+            message: `${a.name} calls ${name} as ${ma.mode}, ${b.name} as ${mb.mode}`,
+          });
+        }
+        if (ma.args.length !== mb.args.length || ma.rets.length !== mb.rets.length) {
+          issues.push({
+            severity: "error", kind: "arity-changed", iface: `${a.name} ↔ ${b.name}`, method: name, path: "",
+            message: `${a.name} and ${b.name} disagree on the signature of ${name}`,
+          });
+        }
+      }
+    }
+  }
+  return issues;
+}
+
+/** Human-readable report, errors first. */
+export function formatDriftReport(issues: DriftIssue[]): string {
+  if (issues.length === 0) return "No Candid drift detected.";
+  return [...issues]
+    .sort((a, b) => (a.severity === b.severity ? 0 : a.severity === "error" ? -1 : 1))
+    .map((i) => `${i.severity === "error" ? "ERROR" : "warn "} [${i.iface}] ${i.method}${i.path ? ` ${i.path}` : ""}: ${i.message}`)
+    .join("\n");
+}
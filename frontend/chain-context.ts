@@ -0,0 +1,457 @@
+// chain-context.ts — Fetch the chain state each sign-only call needs
+//
+// The canister signs without touching the chain, so every sign-only endpoint
+// takes chain state as arguments. Each prepare*Transfer reads it from your
+// node and returns the exact argument tuple of its relayer method:
+//
+//   endpoint                      chain state                          node call
+//   signSolTransferRelayer        recent blockhash                     getLatestBlockhash
+//   buildAndSignEvmTxWithData     nonce, gas limit, gas price, chainId eth_getTransactionCount, eth_feeHistory...
+//   signXrpTransferRelayer        Sequence, LastLedgerSequence, fee    account_info, ledger_current, fee
+//   signSuiTransferRelayer        gas coin id / version / digest       suix_getCoins
+//   signNearTransferRelayer       access key nonce, block hash         query view_access_key
+//   signAptosTransferRelayer      sequence number, chain id, expiry    GET /accounts/{addr}, GET /
+//   signTonTransferRelayer        seqno, account state, bounce         toncenter getWalletInformation
+//   signCardanoTransferRelayer    ADA-only UTXOs                       Koios address_utxos (or Blockfrost)
+//   signTrxTransferRelayer        ref block bytes / hash, expiration   TronGrid getnowblock
+//
+// That is every sign-only transfer. The tenth sign-only endpoint,
+// signSolSwapTxsRelayer, signs route transactions an aggregator builds with
+// their blockhash already in them — no chain state to fetch; its flow lives
+// in solana-swap.ts (swapSolanaSignOnly).
+//
+//   const args = await prepareAptosTransfer(rpc, sender, to, "1.5");
+//   const signed = await menese.signAptosTransferRelayer(...args);
+//
+//   // Or the whole fetch → sign → broadcast in one call
+//   const { txId, explorerUrl } = await signAndBroadcast("aptos", to, "1.5", session.config);
+//
+// Amounts are AmountLike: a decimal string in whole tokens, a bigint in
+// smallest units, or an Amount. signAndBroadcast validates the recipient
+// (addresses.ts) before it asks the canister for anything.
+
+import type { ActorSubclass } from "@dfinity/agent";
+import { validateAddress } from "./addresses";
+import { toConfig, type AgentSource } from "./agent-config";
+import { Amount, toUnits, type AmountLike } from "./amount";
+import { createBroadcasters, type BroadcastChain, type BroadcastResult, type BroadcasterOptions } from "./broadcasters";
+import { isEvmChain, type EvmChainId } from "./chains";
+import { base58ToBytes, bytesToBase58, hexToBytes, type Bytes } from "./encoding";
+import { InsufficientFunds, MeneseError, errorFromText } from "./errors";
+import { waitForConfirmation, type ConfirmOptions, type ConfirmationLevel, type ConfirmationStatus } from "./confirmation";
+import { estimateEvmFees, estimateEvmGas, type FeeSpeed } from "./evm-fees";
+import { evmNonceManager } from "./evm-nonce";
+import { chainRpcFor } from "./network";
+import { assertSolanaTx } from "./solana-tx";
+import { getJson, jsonRpc, postJson, rippledRpc, type RpcOptions } from "./rpc";
+import { createMeneseActor } from "./sdk-setup";
+import type { CardanoUtxo, MeneseService } from "./menese-types";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+type SignMethod =
+  | "signSolTransferRelayer"
+  | "buildAndSignEvmTxWithData"
+  | "signXrpTransferRelayer"
+  | "signSuiTransferRelayer"
+  | "signNearTransferRelayer"
+  | "signAptosTransferRelayer"
+  | "signTonTransferRelayer"
+  | "signCardanoTransferRelayer"
+  | "signTrxTransferRelayer";
+
+/** Argument tuple of a sign-only relayer method. */
+export type SignArgs<M extends SignMethod> = Parameters<MeneseService[M]>;
+
+export interface TransferOptions extends RpcOptions {
+  /** How long the signed transaction stays valid (XRP, Aptos, TON, Tron). Default: 120 s */
+  validForSecs?: number;
+  /** EVM: which chain the RPC must be on — checked against eth_chainId. Default: whatever the node reports */
+  evmChain?: EvmChainId;
+  /** EVM: calldata. Default: none (plain transfer) */
+  data?: Bytes;
+  /** EVM: skip eth_estimateGas */
+  gasLimit?: bigint;
+  /** EVM: fee preset (evm-fees.ts). Default: "normal" */
+  speed?: FeeSpeed;
+  /** EVM: nonce to sign with, e.g. from an EvmNonceManager lease. Default: the pending count */
+  nonce?: bigint;
+  /** XRP: DestinationTag — exchanges require it */
+  destinationTag?: number;
+  /** TON: text comment (memo) */
+  comment?: string;
+  /** TON: bounce if the recipient rejects. Default: only when the recipient is an active contract */
+  bounce?: boolean;
+  /** NEAR: access key of a named account ("ed25519:..."). Default: derived from the implicit account id */
+  publicKey?: string;
+}
+
+const DEFAULT_VALID_FOR_SECS = 120;
+
+const trim = (url: string) => url.replace(/\/$/, "");
+const validFor = (options: TransferOptions) => options.validForSecs ?? DEFAULT_VALID_FOR_SECS;
+
+/** Node answered, but not with what we need. */
+const badContext = (chain: string, detail: string, raw?: unknown) =>
+  errorFromText(`${chain} chain context: ${detail}`, { method: "prepare", raw });
+
+// ============================================================
+// PREPARE — one per chain
+// ============================================================
+// `sender` is the canister-controlled address the transaction spends from
+// (getMy*Address). Solana does not need it; it is kept for a uniform signature.
+
+export async function prepareSolanaTransfer(
+  rpcUrl: string,
+  _sender: string,
+  to: string,
+  amount: AmountLike,
+  options: TransferOptions = {},
+): Promise<SignArgs<"signSolTransferRelayer">> {
+  const { value } = await jsonRpc<{ value: { blockhash: string } }>(
+    rpcUrl, "getLatestBlockhash", [{ commitment: "finalized" }], options);
+  return [to, toUnits(amount, "solana"), value.blockhash];
+}
+
+/**
+ * Pending nonce and chain id from the node; gas price from eth_feeHistory at
+ * `options.speed` (see evm-fees.ts); gas limit from eth_estimateGas unless
+ * `options.gasLimit` is set. The pending count is only safe for one send at
+ * a time — concurrent senders pass `options.nonce` from evm-nonce.ts.
+ */
+export async function prepareEvmTransfer(
+  rpcUrl: string,
+  sender: string,
+  to: string,
+  amount: AmountLike,
+  options: TransferOptions = {},
+): Promise<SignArgs<"buildAndSignEvmTxWithData">> {
+  const value = toUnits(amount, options.evmChain ?? "ethereum");
+  const data = options.data ?? [];
+  const [nonce, fees, gasLimit] = await Promise.all([
+    options.nonce ?? jsonRpc<string>(rpcUrl, "eth_getTransactionCount", [sender, "pending"], options),
+    estimateEvmFees(rpcUrl, { ...options, chain: options.evmChain }),
+    options.gasLimit ?? estimateEvmGas(rpcUrl, { from: sender, to, value, data }, options),
+  ]);
+  return [to, value, data, BigInt(nonce), gasLimit, fees[options.speed ?? "normal"].gasPrice, BigInt(fees.chainId)];
+}
+
+/** Sequence from account_info, LastLedgerSequence ~4 s per ledger ahead, open-ledger fee in drops. */
+export async function prepareXrpTransfer(
+  rpcUrl: string,
+  sender: string,
+  to: string,
+  amount: AmountLike,
+  options: TransferOptions = {},
+): Promise<SignArgs<"signXrpTransferRelayer">> {
+  const [account, ledger, fee] = await Promise.all([
+    rippledRpc(rpcUrl, "account_info", { account: sender, ledger_index: "current" }, options),
+    rippledRpc(rpcUrl, "ledger_current", {}, options),
+    rippledRpc(rpcUrl, "fee", {}, options),
+  ]);
+  const lastLedger = ledger.ledger_current_index + Math.ceil(validFor(options) / 4);
+  const drops = [fee.drops?.base_fee, fee.drops?.open_ledger_fee].map((d) => BigInt(d ?? 12));
+  return [
+    to,
+    Amount.from(amount, "xrp").toString(),   // whole XRP, not drops
+    account.account_data.Sequence,
+    lastLedger,
+    drops[0] > drops[1] ? drops[0] : drops[1],
+    options.destinationTag === undefined ? [] : [options.destinationTag],
+  ];
+}
+
+/** Pays gas from the sender's largest SUI coin. */
+export async function prepareSuiTransfer(
+  rpcUrl: string,
+  sender: string,
+  to: string,
+  amount: AmountLike,
+  options: TransferOptions = {},
+): Promise<SignArgs<"signSuiTransferRelayer">> {
+  const page = await jsonRpc<{ data: Array<{ coinObjectId: string; version: string; digest: string; balance: string }> }>(
+    rpcUrl, "suix_getCoins", [sender, "0x2::sui::SUI", null, 50], options);
+  if (!page.data.length) throw new InsufficientFunds(`sui: ${sender} holds no SUI coins to pay gas with`, { method: "prepare" });
+  const coin = page.data.reduce((a, b) => (BigInt(b.balance) > BigInt(a.balance) ? b : a));
+  return [to, toUnits(amount, "sui"), coin.coinObjectId, BigInt(coin.version), coin.digest];
+}
+
+/** Next nonce of the sender's access key, and a recent final block hash. */
+export async function prepareNearTransfer(
+  rpcUrl: string,
+  sender: string,
+  to: string,
+  amount: AmountLike,
+  options: TransferOptions = {},
+): Promise<SignArgs<"signNearTransferRelayer">> {
+  let publicKey = options.publicKey;
+  if (!publicKey) {
+    // Implicit accounts are the hex of their ed25519 key
+    if (!/^[0-9a-f]{64}$/.test(sender)) {
+      throw new MeneseError(`near: ${sender} is a named account — pass options.publicKey`);
+    }
+    publicKey = `ed25519:${bytesToBase58(hexToBytes(sender))}`;
+  }
+  const key = await jsonRpc<{ nonce?: number; block_hash?: string; error?: string }>(rpcUrl, "query", {
+    request_type: "view_access_key",
+    finality: "final",
+    account_id: sender,
+    public_key: publicKey,
+  }, options);
+  // Older nodes report a missing key in `result.error`
+  if (key.error || key.nonce === undefined || !key.block_hash) {
+    throw badContext("near", key.error ?? `no access key ${publicKey} on ${sender}`, key);
+  }
+  return [to, toUnits(amount, "near"), BigInt(key.nonce) + 1n, base58ToBytes(key.block_hash)];
+}
+
+/** Sequence number from the account; chain id and clock from the ledger, so a skewed local clock does not matter. */
+export async function prepareAptosTransfer(
+  apiUrl: string,
+  sender: string,
+  to: string,
+  amount: AmountLike,
+  options: TransferOptions = {},
+): Promise<SignArgs<"signAptosTransferRelayer">> {
+  const [account, ledger] = await Promise.all([
+    getJson<{ sequence_number: string }>(`${trim(apiUrl)}/accounts/${sender}`, options),
+    getJson<{ chain_id: number; ledger_timestamp: string }>(trim(apiUrl), options),
+  ]);
+  const nowSecs = BigInt(ledger.ledger_timestamp) / 1_000_000n;   // microseconds
+  return [to, toUnits(amount, "aptos"), BigInt(account.sequence_number), ledger.chain_id, nowSecs + BigInt(validFor(options))];
+}
+
+/** toncenter v2 GET — unwraps its `{ ok, result }` envelope. */
+async function toncenter<T>(apiUrl: string, method: string, address: string, options: RpcOptions): Promise<T> {
+  const r = await getJson(`${trim(apiUrl)}/${method}?address=${encodeURIComponent(address)}`, options);
+  if (!r.ok) throw badContext("ton", `${method}: ${r.error ?? JSON.stringify(r)}`, r);
+  return r.result;
+}
+
+/**
+ * Wallet seqno and state ("uninitialized" wallets get deployed by their first
+ * transfer). Bounces only to active contracts unless `options.bounce` says otherwise.
+ */
+export async function prepareTonTransfer(
+  apiUrl: string,
+  sender: string,
+  to: string,
+  amount: AmountLike,
+  options: TransferOptions = {},
+): Promise<SignArgs<"signTonTransferRelayer">> {
+  const [wallet, bounce] = await Promise.all([
+    toncenter<{ account_state: string; seqno?: number }>(apiUrl, "getWalletInformation", sender, options),
+    options.bounce ?? toncenter<string>(apiUrl, "getAddressState", to, options).then((state) => state === "active"),
+  ]);
+  return [
+    to,
+    toUnits(amount, "ton"),
+    wallet.seqno ?? 0,
+    bounce,
+    options.comment === undefined ? [] : [options.comment],
+    validFor(options),
+    wallet.account_state,
+  ];
+}
+
+/**
+ * The sender's UTXOs from Koios, or Blockfrost when `apiUrl` is a Blockfrost
+ * URL (pass its project_id header). UTXOs carrying native tokens are left out:
+ * the relayer only moves lovelace and would not return the tokens as change.
+ */
+export async function prepareCardanoTransfer(
+  apiUrl: string,
+  sender: string,
+  to: string,
+  amount: AmountLike,
+  options: TransferOptions = {},
+): Promise<SignArgs<"signCardanoTransferRelayer">> {
+  const base = trim(apiUrl);
+  let utxos: CardanoUtxo[];
+  if (/blockfrost/.test(base)) {
+    const rows = await getJson<Array<{ tx_hash: string; output_index: number; amount: Array<{ unit: string; quantity: string }> }>>(
+      `${base}/addresses/${sender}/utxos`, options);
+    utxos = rows
+      .filter((u) => u.amount.every((a) => a.unit === "lovelace"))
+      .map((u) => ({ tx_hash: u.tx_hash, tx_index: BigInt(u.output_index), value: BigInt(u.amount[0].quantity) }));
+  } else {
+    const rows = await postJson<Array<{ tx_hash: string; tx_index: number; value: string; asset_list?: unknown[] | null }>>(
+      `${base}/address_utxos`, { _addresses: [sender], _extended: true }, options);
+    utxos = rows
+      .filter((u) => !u.asset_list?.length)
+      .map((u) => ({ tx_hash: u.tx_hash, tx_index: BigInt(u.tx_index), value: BigInt(u.value) }));
+  }
+  if (!utxos.length) throw new InsufficientFunds(`cardano: ${sender} has no ADA-only UTXOs to spend`, { method: "prepare" });
+  return [to, toUnits(amount, "cardano"), utxos, sender];
+}
+
+/**
+ * Reference block from TronGrid `getnowblock`: bytes 6–8 of the block number
+ * and bytes 8–16 of the block id, as in TronWeb. Expiration counts from the
+ * block's timestamp (ms).
+ */
+export async function prepareTronTransfer(
+  apiUrl: string,
+  _sender: string,
+  to: string,
+  amount: AmountLike,
+  options: TransferOptions = {},
+): Promise<SignArgs<"signTrxTransferRelayer">> {
+  const block = await postJson<{ blockID?: string; block_header?: { raw_data: { number: number; timestamp: number } } }>(
+    `${trim(apiUrl)}/wallet/getnowblock`, {}, options);
+  if (!block.blockID || !block.block_header) throw badContext("tron", "getnowblock returned no block", block);
+  const { number, timestamp } = block.block_header.raw_data;
+  const height = hexToBytes(BigInt(number).toString(16).padStart(16, "0"));
+  return [
+    to,
+    toUnits(amount, "tron"),
+    height.slice(6, 8),
+    hexToBytes(block.blockID).slice(8, 16),
+    BigInt(timestamp) + BigInt(validFor(options)) * 1000n,
+    BigInt(Date.now()),
+  ];
+}
+
+// ============================================================
+// SIGN AND BROADCAST
+// ============================================================
+
+export interface SignAndBroadcastOptions extends BroadcasterOptions, Omit<TransferOptions, "headers" | "evmChain"> {
+  /** Reuse an actor (e.g. `await session.menese()`) instead of creating one from the source */
+  menese?: ActorSubclass<MeneseService>;
+  /** Skip the getMy*Address lookup */
+  sender?: string;
+  /** Expect a testnet recipient address (addresses.ts). Default: mainnet */
+  testnet?: boolean;
+  /**
+   * Wait for this level (or these options) after broadcasting — see
+   * confirmation.ts. Expiry (blockhash, LastLedgerSequence, nonce...) is
+   * filled in from the prepared arguments. Default: return once broadcast.
+   */
+  confirm?: ConfirmationLevel | Omit<ConfirmOptions, "rpc" | "network" | "headers">;
+}
+
+export interface SignAndBroadcastResult extends BroadcastResult {
+  /** Set when `options.confirm` was given */
+  confirmation?: ConfirmationStatus;
+}
+
+/** The canister-controlled address that signs for `chain`. */
+export async function senderAddress(menese: ActorSubclass<MeneseService>, chain: BroadcastChain): Promise<string> {
+  if (isEvmChain(chain)) return (await menese.getMyEvmAddress()).evmAddress;
+  switch (chain) {
+    case "solana": return (await menese.getMySolanaAddress()).address;
+    case "xrp": return (await menese.getMyXrpAddress()).classicAddress;
+    case "sui": return (await menese.getMySuiAddress()).suiAddress;
+    case "near": return (await menese.getMyNearAddress()).implicitAccountId;
+    case "aptos": return (await menese.getMyAptosAddress()).address;
+    case "ton": return (await menese.getMyTonAddress()).nonBounceable;
+    case "cardano": return (await menese.getMyCardanoAddress()).bech32Address;
+    case "tron": return (await menese.getTronAddress()).base58Address;
+  }
+  throw new MeneseError(`"${chain}" has no sign-only transfer endpoint`);
+}
+
+/**
+ * Fetch chain state, sign on the canister (1 action) and broadcast — a
+ * sign-only transfer in one call. Nodes come from `options.rpcs`, else the
+ * source's network (network.ts); EVM chains need `rpcs.<chain>`.
+ *
+ *   await signAndBroadcast("ton", to, "2.5", session.config, { comment: "invoice 42" });
+ *   await signAndBroadcast("solana", to, "0.1", session.config, { confirm: "finalized" });
+ */
+export async function signAndBroadcast(
+  chain: BroadcastChain,
+  to: string,
+  amount: AmountLike,
+  source: AgentSource = {},
+  options: SignAndBroadcastOptions = {},
+): Promise<SignAndBroadcastResult> {
+  const config = toConfig(source);
+  const network = options.network ?? config.network;
+  const rpc = options.rpcs?.[chain] ?? chainRpcFor(chain, { network });
+  const headers = options.headers?.[chain as "ton" | "cardano" | "tron"];
+  const recipient = await validateAddress(chain, to, {
+    testnet: options.testnet,
+    destinationTag: options.destinationTag,
+    // TON: prepareTonTransfer picks the bounce flag from the recipient's state itself
+    rpc: chain === "ton" ? undefined : rpc,
+    headers,
+    signal: options.signal,
+  });
+  to = recipient.address;
+  const menese = options.menese ?? (await createMeneseActor(config));
+  const sender = options.sender ?? (await senderAddress(menese, chain));
+  const prepare: TransferOptions = {
+    ...options,
+    destinationTag: options.destinationTag ?? recipient.destinationTag,
+    headers,
+  };
+  const broadcasters = createBroadcasters({ ...options, network });
+  const sent = async (result: BroadcastResult, expiry: ConfirmOptions = {}): Promise<SignAndBroadcastResult> => {
+    if (!options.confirm) return result;
+    const confirm = typeof options.confirm === "string" ? { level: options.confirm } : options.confirm;
+    const confirmation = await waitForConfirmation(chain, result.txId, {
+      ...expiry, ...confirm, rpc, headers: prepare.headers, signal: options.signal,
+    });
+    return { ...result, confirmation };
+  };
+  const secs = (s: bigint | number) => Number(s) * 1000;
+
+  if (isEvmChain(chain)) {
+    // Nonces come from the shared manager so parallel sends from one address don't collide
+    const lease = options.nonce === undefined ? await evmNonceManager(chain, sender, rpc).reserve() : undefined;
+    let result: BroadcastResult;
+    let args: SignArgs<"buildAndSignEvmTxWithData">;
+    try {
+      args = await prepareEvmTransfer(rpc, sender, to, amount, { ...prepare, evmChain: chain, nonce: options.nonce ?? lease?.nonce });
+      result = await broadcasters[chain].broadcast(await menese.buildAndSignEvmTxWithData(...args));
+    } catch (e) {
+      lease?.release();
+      throw e;
+    }
+    lease?.sent(args, result.txId);
+    return sent(result, { sender, nonce: args[3] });
+  }
+  switch (chain) {
+    case "solana": {
+      const args = await prepareSolanaTransfer(rpc, sender, to, amount, prepare);
+      const signed = await menese.signSolTransferRelayer(...args);
+      assertSolanaTx(signed.signedTxBase64, { signer: signed.publicKey, blockhash: args[2], transfers: [{ to, amount: args[1] }] });
+      return sent(await broadcasters.solana.broadcast(signed), { blockhash: args[2] });
+    }
+    case "xrp": {
+      const args = await prepareXrpTransfer(rpc, sender, to, amount, prepare);
+      return sent(await broadcasters.xrp.broadcast(await menese.signXrpTransferRelayer(...args)), { lastLedgerSequence: args[3] });
+    }
+    case "sui": {
+      const args = await prepareSuiTransfer(rpc, sender, to, amount, prepare);
+      return sent(await broadcasters.sui.broadcast(await menese.signSuiTransferRelayer(...args)));
+    }
+    case "near": {
+      const args = await prepareNearTransfer(rpc, sender, to, amount, prepare);
+      return sent(await broadcasters.near.broadcast(await menese.signNearTransferRelayer(...args)), { sender });
+    }
+    case "aptos": {
+      const args = await prepareAptosTransfer(rpc, sender, to, amount, prepare);
+      return sent(await broadcasters.aptos.broadcast(await menese.signAptosTransferRelayer(...args)), { expiresAt: secs(args[4]) });
+    }
+    case "ton": {
+      const args = await prepareTonTransfer(rpc, sender, to, amount, prepare);
+      const signed = await menese.signTonTransferRelayer(...args);
+      // valid_until counts from the canister's clock at signing
+      return sent(await broadcasters.ton.broadcast(signed), { expiresAt: Date.now() + secs(args[5]) });
+    }
+    case "cardano": {
+      const args = await prepareCardanoTransfer(rpc, sender, to, amount, prepare);
+      return sent(await broadcasters.cardano.broadcast(await menese.signCardanoTransferRelayer(...args)));
+    }
+    case "tron": {
+      const args = await prepareTronTransfer(rpc, sender, to, amount, prepare);
+      return sent(await broadcasters.tron.broadcast(await menese.signTrxTransferRelayer(...args)), { expiresAt: Number(args[4]) });
+    }
+  }
+  throw new MeneseError(`"${chain}" has no sign-only transfer endpoint`);
+}
@@ -0,0 +1,77 @@
+// chains.ts — Native token of every chain the SDK supports
+//
+// One row per chain: symbol, decimals (smallest unit per whole token) and
+// block explorer pages for addresses and transactions. amount.ts reads the
+// decimals from here, so add new chains here first.
+
+export interface ChainInfo {
+  id: ChainId;
+  name: string;
+  symbol: string;
+  /** 1 token = 10^decimals smallest units (lamports, wei, satoshis...) */
+  decimals: number;
+  /** Account/address page — append the address */
+  explorer: string;
+  /** Transaction page — append the tx id */
+  txExplorer: string;
+}
+
+export type ChainId =
+  | "solana" | "ethereum" | "arbitrum" | "base" | "polygon" | "bsc" | "optimism"
+  | "icp" | "bitcoin" | "litecoin" | "xrp" | "sui" | "ton" | "cardano" | "tron"
+  | "aptos" | "near" | "cloak" | "thorchain";
+
+export const CHAINS: readonly ChainInfo[] = [
+  { id: "solana", name: "Solana", symbol: "SOL", decimals: 9, explorer: "https://solscan.io/account/", txExplorer: "https://solscan.io/tx/" },
+  { id: "ethereum", name: "Ethereum", symbol: "ETH", decimals: 18, explorer: "https://etherscan.io/address/", txExplorer: "https://etherscan.io/tx/" },
+  { id: "arbitrum", name: "Arbitrum", symbol: "ETH", decimals: 18, explorer: "https://arbiscan.io/address/", txExplorer: "https://arbiscan.io/tx/" },
+  { id: "base", name: "Base", symbol: "ETH", decimals: 18, explorer: "https://basescan.org/address/", txExplorer: "https://basescan.org/tx/" },
+  { id: "polygon", name: "Polygon", symbol: "MATIC", decimals: 18, explorer: "https://polygonscan.com/address/", txExplorer: "https://polygonscan.com/tx/" },
+  { id: "bsc", name: "BNB Chain", symbol: "BNB", decimals: 18, explorer: "https://bscscan.com/address/", txExplorer: "https://bscscan.com/tx/" },
+  { id: "optimism", name: "Optimism", symbol: "ETH", decimals: 18, explorer: "https://optimistic.etherscan.io/address/", txExplorer: "https://optimistic.etherscan.io/tx/" },
+  { id: "icp", name: "Internet Computer", symbol: "ICP", decimals: 8, explorer: "https://dashboard.internetcomputer.org/account/", txExplorer: "https://dashboard.internetcomputer.org/transaction/" },
+  { id: "bitcoin", name: "Bitcoin", symbol: "BTC", decimals: 8, explorer: "https://mempool.space/address/", txExplorer: "https://mempool.space/tx/" },
+  { id: "litecoin", name: "Litecoin", symbol: "LTC", decimals: 8, explorer: "https://blockchair.com/litecoin/address/", txExplorer: "https://blockchair.com/litecoin/transaction/" },
+  { id: "xrp", name: "XRP Ledger", symbol: "XRP", decimals: 6, explorer: "https://xrpscan.com/account/", txExplorer: "https://xrpscan.com/tx/" },
+  { id: "sui", name: "SUI", symbol: "SUI", decimals: 9, explorer: "https://suiscan.xyz/mainnet/account/", txExplorer: "https://suiscan.xyz/mainnet/tx/" },
+  { id: "ton", name: "TON", symbol: "TON", decimals: 9, explorer: "https://tonscan.org/address/", txExplorer: "https://tonscan.org/tx/" },
+  { id: "cardano", name: "Cardano", symbol: "ADA", decimals: 6, explorer: "https://cardanoscan.io/address/", txExplorer: "https://cardanoscan.io/transaction/" },
+  { id: "tron", name: "Tron", symbol: "TRX", decimals: 6, explorer: "https://tronscan.org/#/address/", txExplorer: "https://tronscan.org/#/transaction/" },
+  { id: "aptos", name: "Aptos", symbol: "APT", decimals: 8, explorer: "https://explorer.aptoslabs.com/account/", txExplorer: "https://explorer.aptoslabs.com/txn/" },
+  { id: "near", name: "NEAR", symbol: "NEAR", decimals: 24, explorer: "https://nearblocks.io/address/", txExplorer: "https://nearblocks.io/txns/" },
+  { id: "cloak", name: "CloakCoin", symbol: "CLOAK", decimals: 6, explorer: "", txExplorer: "" },
+  { id: "thorchain", name: "THORChain", symbol: "RUNE", decimals: 8, explorer: "https://thorchain.net/address/", txExplorer: "https://thorchain.net/tx/" },
+];
+
+/** Look up a chain by id. Throws for unknown chains. */
+export function getChain(id: ChainId | string): ChainInfo {
+  const chain = CHAINS.find((c) => c.id === id);
+  if (!chain) throw new Error(`Unknown chain "${id}" — see CHAINS in chains.ts`);
+  return chain;
+}
+
+/** Explorer link for a transaction, or "" when the chain has no explorer. */
+export function txExplorerUrl(id: ChainId, txId: string): string {
+  const { txExplorer } = getChain(id);
+  return txExplorer ? txExplorer + txId : "";
+}
+
+// ============================================================
+// EVM
+// ============================================================
+
+export type EvmChainId = "ethereum" | "arbitrum" | "base" | "polygon" | "bsc" | "optimism";
+
+/** EIP-155 chain id — the `chainId` argument of buildAndSignEvmTxWithData. */
+export const EVM_CHAIN_IDS: Readonly<Record<EvmChainId, number>> = {
+  ethereum: 1,
+  arbitrum: 42161,
+  base: 8453,
+  polygon: 137,
+  bsc: 56,
+  optimism: 10,
+};
+
+export function isEvmChain(id: ChainId | string): id is EvmChainId {
+  return id in EVM_CHAIN_IDS;
+}
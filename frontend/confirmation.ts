@@ -0,0 +1,415 @@
+// confirmation.ts — Wait until a broadcast transaction is confirmed
+//
+// A broadcaster resolves once a node has *accepted* the transaction. It can
+// still fail, be dropped, or sit in a mempool until it expires.
+// waitForConfirmation polls the chain until the transaction reaches a finality
+// level, and fails fast when it can no longer land:
+//
+//   const { txId } = await broadcast("solana", signed);
+//   await waitForConfirmation("solana", txId, { level: "finalized", blockhash, onProgress: console.log });
+//
+// Levels, from weakest to strongest:
+//
+//   included    in a block or ledger — may still be reorganized away
+//   confirmed   `confirmations` blocks deep, or the chain's optimistic confirmation
+//   finalized   irreversible by the chain's own rule
+//
+//   chain     node call                                   confirmed                finalized
+//   solana    getSignatureStatuses                        "confirmed" commitment   "finalized" commitment
+//   evm       eth_getTransactionReceipt                   N blocks deep            at or below the "finalized" block
+//   xrp       tx                                          validated                validated
+//   sui       sui_getTransactionBlock                     effects certified        in a checkpoint
+//   near      tx (wait_until NONE)                        EXECUTED_OPTIMISTIC      FINAL
+//   aptos     GET /transactions/by_hash                   committed                committed (BFT)
+//   ton       toncenter v3 transactionsByMessage          in a block               in a block
+//   cardano   Koios tx_status / Blockfrost /txs           N blocks deep            2160 blocks (k)
+//   tron      gettransactioninfobyid                      N blocks deep            solidified (walletsolidity)
+//
+// Failures throw: TransactionFailed (in a block but reverted / tec* / error),
+// TransactionDropped (blockhash, LastLedgerSequence or expiry passed, EVM nonce
+// reused) and CallTimeout (still pending after `timeoutMs` — outcome unknown).
+
+import {
+  CallTimeout,
+  MeneseError,
+  RpcFailure,
+  TemporarilyUnavailable,
+  TransactionDropped,
+  TransactionFailed,
+} from "./errors";
+import { isEvmChain } from "./chains";
+import type { BroadcastChain } from "./broadcasters";
+import { chainRpcFor, type Network } from "./network";
+import { getJson, jsonRpc, postJson, rippledRpc, type RpcOptions } from "./rpc";
+import { hexToBytes } from "./encoding";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type ConfirmationLevel = "included" | "confirmed" | "finalized";
+
+export type ConfirmationState = "pending" | ConfirmationLevel | "failed" | "dropped";
+
+export interface ConfirmationStatus {
+  chain: BroadcastChain;
+  txId: string;
+  state: ConfirmationState;
+  /** Blocks on top of the transaction's, where the chain reports it (1 = in the latest block) */
+  confirmations?: number;
+  /** Slot, block number, ledger index or version the transaction landed in */
+  block?: number;
+  /** Why it failed or was dropped */
+  reason?: string;
+}
+
+/** Passed to `onProgress` on every change of state or confirmation count. */
+export interface ConfirmationEvent extends ConfirmationStatus {
+  elapsedMs: number;
+}
+
+export interface ConfirmOptions extends RpcOptions {
+  /** Level to wait for. Default: "confirmed" */
+  level?: ConfirmationLevel;
+  /** Node URL. Default: the network's node for the chain (network.ts) */
+  rpc?: string;
+  network?: Network;
+  /** Give up (CallTimeout) after this long. Default: 5 min */
+  timeoutMs?: number;
+  /** Default: 2 s */
+  pollIntervalMs?: number;
+  /** Blocks deep for "confirmed" on EVM, Cardano and Tron. Default: DEFAULT_CONFIRMATIONS */
+  confirmations?: number;
+  onProgress?: (event: ConfirmationEvent) => void;
+
+  // ── Expiry — how a transaction that will never land is detected ──
+  /** Solana: the blockhash the transaction was signed with */
+  blockhash?: string;
+  /** Solana: from getLatestBlockhash, instead of `blockhash` */
+  lastValidBlockHeight?: number;
+  /** XRP: the LastLedgerSequence it was signed with */
+  lastLedgerSequence?: number;
+  /** Any chain: the transaction's own expiry (Aptos, TON, Tron, Cardano TTL), as a Date or unix ms */
+  expiresAt?: Date | number;
+  /** EVM: sender and nonce — a higher account nonce without our receipt means it was replaced. NEAR: sender account (required) */
+  sender?: string;
+  nonce?: bigint;
+}
+
+/** Blocks deep for "confirmed" where the chain has no optimistic confirmation of its own. */
+export const DEFAULT_CONFIRMATIONS: Readonly<Partial<Record<BroadcastChain, number>>> = {
+  ethereum: 3,
+  arbitrum: 1,
+  base: 1,
+  optimism: 1,
+  polygon: 16,
+  bsc: 3,
+  cardano: 6,
+  tron: 3,
+};
+
+/** Cardano's security parameter k — a block this deep cannot be rolled back. */
+const CARDANO_FINALITY = 2160;
+
+const RANK: Record<ConfirmationState, number> = {
+  pending: 0, included: 1, confirmed: 2, finalized: 3, failed: -1, dropped: -1,
+};
+
+/** What one poll saw — ConfirmationStatus without the chain and id. */
+type Observation = Omit<ConfirmationStatus, "chain" | "txId">;
+
+interface CheckContext extends ConfirmOptions {
+  rpc: string;
+  level: ConfirmationLevel;
+  confirmations: number;
+}
+
+const PENDING: Observation = { state: "pending" };
+/** `expiresAt` is compared with the local clock — allow for skew against the chain's. */
+const EXPIRY_SLACK_MS = 30_000;
+const trim = (url: string) => url.replace(/\/$/, "");
+const dropped = (reason: string): Observation => ({ state: "dropped", reason });
+const failed = (reason: string, block?: number): Observation => ({ state: "failed", reason, block });
+
+/** By confirmation count, unless the chain's own finality rule already says final. */
+const byDepth = (confirmations: number, need: number, finalized: boolean): ConfirmationState =>
+  finalized ? "finalized" : confirmations >= need ? "confirmed" : "included";
+
+/** Node said "not found" — the transaction is pending (or unknown), not broken. */
+const notFound = (e: unknown, pattern: RegExp) =>
+  e instanceof MeneseError && pattern.test(`${e.message} ${JSON.stringify(e.raw ?? "")}`);
+
+// ============================================================
+// CHECKS — one poll per chain
+// ============================================================
+
+async function checkSolana(sig: string, ctx: CheckContext): Promise<Observation> {
+  const status = async () => {
+    const { value } = await jsonRpc<{ value: Array<any | null> }>(
+      ctx.rpc, "getSignatureStatuses", [[sig], { searchTransactionHistory: true }], ctx);
+    return value[0];
+  };
+  let s = await status();
+  if (!s) {
+    let expired = false;
+    if (ctx.blockhash) {
+      const { value } = await jsonRpc<{ value: boolean }>(ctx.rpc, "isBlockhashValid", [ctx.blockhash, { commitment: "processed" }], ctx);
+      expired = !value;
+    } else if (ctx.lastValidBlockHeight !== undefined) {
+      expired = (await jsonRpc<number>(ctx.rpc, "getBlockHeight", [{ commitment: "processed" }], ctx)) > ctx.lastValidBlockHeight;
+    }
+    if (!expired) return PENDING;
+    // It may have landed in the last slot before expiry — look once more
+    s = await status();
+    if (!s) return dropped("blockhash expired before the transaction landed");
+  }
+  if (s.err) return failed(JSON.stringify(s.err), s.slot);
+  const state = ({ processed: "included", confirmed: "confirmed", finalized: "finalized" } as const)[
+    s.confirmationStatus as "processed" | "confirmed" | "finalized"] ?? "included";
+  return { state, block: s.slot, confirmations: s.confirmations ?? undefined };
+}
+
+async function checkEvm(hash: string, ctx: CheckContext): Promise<Observation> {
+  const receipt = await jsonRpc<any>(ctx.rpc, "eth_getTransactionReceipt", [hash], ctx);
+  if (!receipt) {
+    if (ctx.sender && ctx.nonce !== undefined) {
+      const used = BigInt(await jsonRpc<string>(ctx.rpc, "eth_getTransactionCount", [ctx.sender, "latest"], ctx));
+      if (used > ctx.nonce && !(await jsonRpc<any>(ctx.rpc, "eth_getTransactionReceipt", [hash], ctx))) {
+        return dropped(`nonce ${ctx.nonce} was used by another transaction`);
+      }
+    }
+    return PENDING;
+  }
+  const block = BigInt(receipt.blockNumber);
+  if (receipt.status === "0x0") return failed("reverted", Number(block));
+  const [head, finalized] = await Promise.all([
+    jsonRpc<string>(ctx.rpc, "eth_blockNumber", [], ctx),
+    ctx.level === "finalized" ? jsonRpc<{ number: string } | null>(ctx.rpc, "eth_getBlockByNumber", ["finalized", false], ctx) : null,
+  ]);
+  const confirmations = Number(BigInt(head) - block + 1n);
+  const final = !!finalized && BigInt(finalized.number) >= block;
+  return { state: byDepth(confirmations, ctx.confirmations, final), block: Number(block), confirmations };
+}
+
+async function checkXrp(hash: string, ctx: CheckContext): Promise<Observation> {
+  let tx: any;
+  try {
+    tx = await rippledRpc(ctx.rpc, "tx", { transaction: hash }, ctx);
+  } catch (e) {
+    if (!(e instanceof MeneseError) || (e.raw as any)?.error !== "txnNotFound") throw e;
+    if (ctx.lastLedgerSequence !== undefined) {
+      const { ledger_index } = await rippledRpc(ctx.rpc, "ledger", { ledger_index: "validated" }, ctx);
+      if (ledger_index > ctx.lastLedgerSequence) return dropped(`LastLedgerSequence ${ctx.lastLedgerSequence} passed`);
+    }
+    return PENDING;
+  }
+  // Unvalidated results are provisional — only a validated ledger is final
+  if (!tx.validated) return { state: "included", block: tx.ledger_index };
+  const code = tx.meta?.TransactionResult;
+  if (code !== "tesSUCCESS") return failed(code ?? "no result", tx.ledger_index);
+  return { state: "finalized", block: tx.ledger_index };
+}
+
+async function checkSui(digest: string, ctx: CheckContext): Promise<Observation> {
+  let tx: any;
+  try {
+    tx = await jsonRpc(ctx.rpc, "sui_getTransactionBlock", [digest, { showEffects: true }], ctx);
+  } catch (e) {
+    if (notFound(e, /could not find|not exist/i)) return PENDING;
+    throw e;
+  }
+  const status = tx.effects?.status;
+  const checkpoint = tx.checkpoint === undefined ? undefined : Number(tx.checkpoint);
+  if (status && status.status !== "success") return failed(status.error ?? status.status, checkpoint);
+  return { state: checkpoint === undefined ? "confirmed" : "finalized", block: checkpoint };
+}
+
+async function checkNear(hash: string, ctx: CheckContext): Promise<Observation> {
+  let r: any;
+  try {
+    r = await jsonRpc(ctx.rpc, "tx", { tx_hash: hash, sender_account_id: ctx.sender, wait_until: "NONE" }, ctx);
+  } catch (e) {
+    if (notFound(e, /UNKNOWN_TRANSACTION|doesn't exist|not found/i)) return PENDING;
+    throw e;
+  }
+  if (r.status?.Failure) return failed(JSON.stringify(r.status.Failure));
+  const state = ({
+    NONE: "pending",
+    INCLUDED: "included",
+    EXECUTED_OPTIMISTIC: "confirmed",
+    INCLUDED_FINAL: "confirmed",
+    EXECUTED: "confirmed",
+    FINAL: "finalized",
+  } as const)[r.final_execution_status as "NONE"] ?? (r.status ? "confirmed" : "pending");   // older nodes omit the field
+  return { state };
+}
+
+async function checkAptos(hash: string, ctx: CheckContext): Promise<Observation> {
+  let tx: any;
+  try {
+    tx = await getJson(`${trim(ctx.rpc)}/transactions/by_hash/${hash}`, ctx);
+  } catch (e) {
+    if (notFound(e, /status code 404|transaction_not_found/i)) return PENDING;
+    throw e;
+  }
+  if (tx.type === "pending_transaction") return PENDING;
+  if (!tx.success) return failed(tx.vm_status, Number(tx.version));
+  return { state: "finalized", block: Number(tx.version) };
+}
+
+/**
+ * toncenter's v2 API cannot look a transaction up by message hash; its v3
+ * API on the same host can. The broadcaster's txId is that message hash.
+ */
+async function checkTon(hash: string, ctx: CheckContext): Promise<Observation> {
+  const v3 = trim(ctx.rpc).replace(/\/api\/v2$/, "/api/v3");
+  const r = await getJson<{ transactions: any[] }>(
+    `${v3}/transactionsByMessage?msg_hash=${encodeURIComponent(hash)}&direction=in`, ctx);
+  const tx = r.transactions?.[0];
+  if (!tx) return PENDING;
+  const block = tx.mc_block_seqno ?? undefined;
+  if (tx.description?.aborted || tx.description?.compute_ph?.success === false) {
+    return failed(`exit code ${tx.description?.compute_ph?.exit_code ?? "?"}`, block);
+  }
+  return { state: "finalized", block };
+}
+
+async function checkCardano(hash: string, ctx: CheckContext): Promise<Observation> {
+  const base = trim(ctx.rpc);
+  let confirmations: number;
+  let block: number | undefined;
+  if (/blockfrost/.test(base)) {
+    let tx: { block_height: number };
+    try {
+      tx = await getJson(`${base}/txs/${hash}`, ctx);
+    } catch (e) {
+      if (notFound(e, /status code 404/)) return PENDING;
+      throw e;
+    }
+    const tip = await getJson<{ height: number }>(`${base}/blocks/latest`, ctx);
+    block = tx.block_height;
+    confirmations = tip.height - tx.block_height + 1;
+  } else {
+    const [row] = await postJson<Array<{ num_confirmations: number | null }>>(`${base}/tx_status`, { _tx_hashes: [hash] }, ctx);
+    if (!row?.num_confirmations) return PENDING;
+    confirmations = row.num_confirmations;
+  }
+  return { state: byDepth(confirmations, ctx.confirmations, confirmations >= CARDANO_FINALITY), block, confirmations };
+}
+
+async function checkTron(txid: string, ctx: CheckContext): Promise<Observation> {
+  const base = trim(ctx.rpc);
+  const info = await postJson<any>(`${base}/wallet/gettransactioninfobyid`, { value: txid }, ctx);
+  if (!info.id) return PENDING;
+  const receipt = info.receipt?.result;
+  if (info.result === "FAILED" || (receipt && receipt !== "SUCCESS")) {
+    let message = info.resMessage ?? receipt;
+    try {
+      message = new TextDecoder().decode(hexToBytes(info.resMessage));
+    } catch {}
+    return failed(message, info.blockNumber);
+  }
+  const [head, solid] = await Promise.all([
+    postJson<any>(`${base}/wallet/getnowblock`, {}, ctx),
+    ctx.level === "finalized" ? postJson<any>(`${base}/walletsolidity/gettransactioninfobyid`, { value: txid }, ctx) : null,
+  ]);
+  const confirmations = head.block_header.raw_data.number - info.blockNumber + 1;
+  return { state: byDepth(confirmations, ctx.confirmations, !!solid?.id), block: info.blockNumber, confirmations };
+}
+
+const CHECKS: Record<Exclude<BroadcastChain, "ethereum" | "arbitrum" | "base" | "polygon" | "bsc" | "optimism">,
+  (txId: string, ctx: CheckContext) => Promise<Observation>> = {
+  solana: checkSolana,
+  xrp: checkXrp,
+  sui: checkSui,
+  near: checkNear,
+  aptos: checkAptos,
+  ton: checkTon,
+  cardano: checkCardano,
+  tron: checkTron,
+};
+
+// ============================================================
+// PUBLIC API
+// ============================================================
+
+function context(chain: BroadcastChain, options: ConfirmOptions): CheckContext {
+  if (chain === "near" && !options.sender) {
+    throw new MeneseError("near: pass options.sender — NEAR looks transactions up by sender account");
+  }
+  return {
+    ...options,
+    rpc: options.rpc ?? chainRpcFor(chain, options),
+    level: options.level ?? "confirmed",
+    confirmations: options.confirmations ?? DEFAULT_CONFIRMATIONS[chain] ?? 1,
+  };
+}
+
+async function check(chain: BroadcastChain, txId: string, ctx: CheckContext): Promise<ConfirmationStatus> {
+  const run = isEvmChain(chain) ? checkEvm : CHECKS[chain as keyof typeof CHECKS];
+  if (!run) throw new MeneseError(`Cannot track "${chain}" transactions`);
+  let seen = await run(txId, ctx);
+  const expiresAt = ctx.expiresAt === undefined ? undefined : +ctx.expiresAt;
+  if (seen.state === "pending" && expiresAt !== undefined && Date.now() > expiresAt + EXPIRY_SLACK_MS) {
+    seen = dropped(`expired at ${new Date(expiresAt).toISOString()} before it landed`);
+  }
+  return { chain, txId, ...seen };
+}
+
+/** One poll: where the transaction is right now. Never throws for failed or dropped — check `state`. */
+export function getConfirmationStatus(
+  chain: BroadcastChain,
+  txId: string,
+  options: ConfirmOptions = {},
+): Promise<ConfirmationStatus> {
+  return check(chain, txId, context(chain, options));
+}
+
+/**
+ * Poll until the transaction reaches `options.level` (default "confirmed").
+ * Node errors while polling (RpcFailure, TemporarilyUnavailable, CallTimeout)
+ * are retried until the timeout; a failed or dropped transaction, or any
+ * other error, throws at once.
+ */
+export async function waitForConfirmation(
+  chain: BroadcastChain,
+  txId: string,
+  options: ConfirmOptions = {},
+): Promise<ConfirmationStatus> {
+  const ctx = context(chain, options);
+  const timeoutMs = options.timeoutMs ?? 5 * 60_000;
+  const interval = options.pollIntervalMs ?? 2_000;
+  const started = Date.now();
+  let last: ConfirmationStatus = { chain, txId, state: "pending" };
+  let lastError: unknown;
+
+  for (;;) {
+    try {
+      const status = await check(chain, txId, ctx);
+      lastError = undefined;
+      if (status.state !== last.state || status.confirmations !== last.confirmations) {
+        last = status;
+        options.onProgress?.({ ...status, elapsedMs: Date.now() - started });
+      }
+      if (status.state === "failed") {
+        throw new TransactionFailed(`${chain} transaction ${txId} failed: ${status.reason}`, { method: "waitForConfirmation", raw: status });
+      }
+      if (status.state === "dropped") {
+        throw new TransactionDropped(`${chain} transaction ${txId} dropped: ${status.reason}`, { method: "waitForConfirmation", raw: status });
+      }
+      if (RANK[status.state] >= RANK[ctx.level]) return status;
+    } catch (e) {
+      if (!(e instanceof RpcFailure || e instanceof TemporarilyUnavailable || e instanceof CallTimeout)) throw e;
+      lastError = e;   // node hiccup — keep polling
+    }
+    if (Date.now() - started + interval > timeoutMs) {
+      const detail = lastError ? ` (last error: ${(lastError as Error).message})` : ` (last state: ${last.state})`;
+      throw new CallTimeout(`${chain} transaction ${txId} not ${ctx.level} after ${timeoutMs} ms${detail}`, {
+        method: "waitForConfirmation",
+        raw: last,
+        cause: lastError,
+      });
+    }
+    await new Promise((resolve) => setTimeout(resolve, interval));
+  }
+}
@@ -0,0 +1,38 @@
+// encoding.test.ts — hashes and text encodings against their published test vectors
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { base58ToBytes, bech32ToBytes, blake2b, bytesToBase58, bytesToBech32, bytesToHex, keccak256, segwitToBytes } from "./encoding";
+
+test("keccak256 and blake2b", () => {
+  assert.equal(bytesToHex(keccak256("")), "c5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470");
+  // RFC 7693 appendix A
+  assert.equal(
+    bytesToHex(blake2b(new TextEncoder().encode("abc"), 64)),
+    "ba80a53f981c4d0d6a2797b69f12f6e94c212f14685ac4b74b12bb6fdbffa2d17d87c5392aab792dc252d5de4533cc9518d38aa8dbf1925ab92386edd4009923",
+  );
+});
+
+test("base58 keeps leading zero bytes", () => {
+  assert.equal(bytesToBase58(new TextEncoder().encode("Hello World!")), "2NEpo7TZRRrLZSi2U");
+  assert.deepEqual(base58ToBytes("1112"), Uint8Array.from([0, 0, 0, 1]));
+});
+
+test("bech32: BIP-173 vectors, and mixed case is rejected", () => {
+  assert.deepEqual(bech32ToBytes("A12UEL5L"), { hrp: "a", bytes: new Uint8Array() });
+  const { hrp, bytes } = bech32ToBytes("abcdef1qpzry9x8gf2tvdw0s3jn54khce6mua7lmqqqxw");
+  assert.equal(hrp, "abcdef");
+  assert.equal(bytesToHex(bytes), "00443214c74254b635cf84653a56d7c675be77df");
+  assert.equal(bytesToBech32(hrp, bytes), "abcdef1qpzry9x8gf2tvdw0s3jn54khce6mua7lmqqqxw");
+
+  assert.throws(() => bech32ToBytes("A12UEl5L"), /mixed case/);
+  assert.throws(() => bech32ToBytes("a12uel5m"), Error);
+});
+
+test("segwit: BIP-173 v0 and BIP-350 v1 programs", () => {
+  const v0 = segwitToBytes("BC1QW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4");
+  assert.deepEqual([v0.hrp, v0.version, bytesToHex(v0.program)], ["bc", 0, "751e76e8199196d454941c45d1b3a323f1433bd6"]);
+  const v1 = segwitToBytes("bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0");
+  assert.deepEqual([v1.version, bytesToHex(v1.program)], [1, "79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798"]);
+  assert.throws(() => segwitToBytes("bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqh2y7hd"), /bad bech32m checksum/);
+});
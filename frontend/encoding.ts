@@ -0,0 +1,425 @@
+// encoding.ts — Byte helpers for signed transactions
+//
+// Candid `vec nat8` arrives as a Uint8Array or a number[] depending on the
+// agent version; chains want hex, base64 or base58. No Buffer, so these work
+// in the browser and in Node alike.
+
+/** Candid `vec nat8` in either representation. */
+export type Bytes = Uint8Array | number[];
+
+export function toBytes(bytes: Bytes): Uint8Array {
+  return bytes instanceof Uint8Array ? bytes : Uint8Array.from(bytes);
+}
+
+// ============================================================
+// HEX
+// ============================================================
+
+export function bytesToHex(bytes: Bytes): string {
+  return Array.from(toBytes(bytes), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** Accepts an optional 0x prefix. */
+export function hexToBytes(hex: string): Uint8Array {
+  const clean = hex.startsWith("0x") || hex.startsWith("0X") ? hex.slice(2) : hex;
+  if (!/^[0-9a-fA-F]*$/.test(clean) || clean.length % 2 !== 0) throw new Error(`Invalid hex string "${hex}"`);
+  return Uint8Array.from(clean.match(/../g) ?? [], (b) => parseInt(b, 16));
+}
+
+// ============================================================
+// BASE64
+// ============================================================
+
+export function bytesToBase64(bytes: Bytes): string {
+  let binary = "";
+  for (const b of toBytes(bytes)) binary += String.fromCharCode(b);
+  return btoa(binary);
+}
+
+/** Standard or URL-safe alphabet, padding optional. */
+export function base64ToBytes(base64: string): Uint8Array {
+  const normal = base64.replace(/-/g, "+").replace(/_/g, "/").replace(/\s+/g, "");
+  const padded = normal + "=".repeat((4 - (normal.length % 4)) % 4);
+  return Uint8Array.from(atob(padded), (c) => c.charCodeAt(0));
+}
+
+// ============================================================
+// BASE58 (Bitcoin alphabet — Solana signatures and keys, NEAR hashes)
+// ============================================================
+
+const B58 = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+/** XRP Ledger's base58 alphabet — same scheme, different digit order. */
+export const XRP_B58 = "rpshnaf39wBUDNEGHJKLM4PQRST7VWXYZ2bcdeCg65jkm8oFqi1tuvAxyz";
+
+export function bytesToBase58(bytes: Bytes, alphabet = B58): string {
+  const b = toBytes(bytes);
+  let n = b.length ? BigInt(`0x${bytesToHex(b) || "0"}`) : 0n;
+  let s = "";
+  while (n > 0n) {
+    s = alphabet[Number(n % 58n)] + s;
+    n /= 58n;
+  }
+  for (const x of b) {
+    if (x !== 0) break;
+    s = alphabet[0] + s;
+  }
+  return s;
+}
+
+export function base58ToBytes(text: string, alphabet = B58): Uint8Array {
+  let n = 0n;
+  for (const c of text) {
+    const digit = alphabet.indexOf(c);
+    if (digit < 0) throw new Error(`Invalid base58 character "${c}" in "${text}"`);
+    n = n * 58n + BigInt(digit);
+  }
+  const hex = n === 0n ? "" : n.toString(16);
+  const body = hexToBytes(hex.length % 2 ? `0${hex}` : hex);
+  let zeros = 0;
+  while (text[zeros] === alphabet[0]) zeros++;
+  const out = new Uint8Array(zeros + body.length);
+  out.set(body, zeros);
+  return out;
+}
+
+// ============================================================
+// KECCAK-256 (EVM function selectors, addresses, tx hashes)
+// ============================================================
+// Ethereum's keccak256 — the original Keccak padding, not NIST SHA3-256.
+// Lanes as BigInt: slow, but inputs here are a few hundred bytes at most.
+
+const MASK64 = (1n << 64n) - 1n;
+const KECCAK_ROTATIONS = [0, 1, 62, 28, 27, 36, 44, 6, 55, 20, 3, 10, 43, 25, 39, 41, 45, 15, 21, 8, 18, 2, 61, 56, 14];
+const KECCAK_ROUNDS = [
+  0x0000000000000001n, 0x0000000000008082n, 0x800000000000808an, 0x8000000080008000n,
+  0x000000000000808bn, 0x0000000080000001n, 0x8000000080008081n, 0x8000000000008009n,
+  0x000000000000008an, 0x0000000000000088n, 0x0000000080008009n, 0x000000008000000an,
+  0x000000008000808bn, 0x800000000000008bn, 0x8000000000008089n, 0x8000000000008003n,
+  0x8000000000008002n, 0x8000000000000080n, 0x000000000000800an, 0x800000008000000an,
+  0x8000000080008081n, 0x8000000000008080n, 0x0000000080000001n, 0x8000000080008008n,
+];
+
+const rotl64 = (x: bigint, n: number) => (n === 0 ? x : ((x << BigInt(n)) | (x >> BigInt(64 - n))) & MASK64);
+
+function keccakF(s: bigint[]): void {
+  const c = new Array<bigint>(5);
+  const b = new Array<bigint>(25);
+  for (const rc of KECCAK_ROUNDS) {
+    for (let x = 0; x < 5; x++) c[x] = s[x] ^ s[x + 5] ^ s[x + 10] ^ s[x + 15] ^ s[x + 20];
+    for (let x = 0; x < 5; x++) {
+      const d = c[(x + 4) % 5] ^ rotl64(c[(x + 1) % 5], 1);
+      for (let y = 0; y < 25; y += 5) s[x + y] ^= d;
+    }
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) b[y + 5 * ((2 * x + 3 * y) % 5)] = rotl64(s[x + 5 * y], KECCAK_ROTATIONS[x + 5 * y]);
+    }
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) s[x + y] = b[x + y] ^ (~b[((x + 1) % 5) + y] & MASK64 & b[((x + 2) % 5) + y]);
+    }
+    s[0] ^= rc;
+  }
+}
+
+/** keccak256 of bytes, or of a string's UTF-8 bytes. */
+export function keccak256(data: Bytes | string): Uint8Array {
+  const input = typeof data === "string" ? new TextEncoder().encode(data) : toBytes(data);
+  const rate = 136;
+  const padded = new Uint8Array(Math.floor(input.length / rate) * rate + rate);
+  padded.set(input);
+  padded[input.length] ^= 0x01;
+  padded[padded.length - 1] ^= 0x80;
+
+  const s = new Array<bigint>(25).fill(0n);
+  for (let block = 0; block < padded.length; block += rate) {
+    for (let i = 0; i < rate / 8; i++) {
+      let lane = 0n;
+      for (let j = 7; j >= 0; j--) lane = (lane << 8n) | BigInt(padded[block + i * 8 + j]);
+      s[i] ^= lane;
+    }
+    keccakF(s);
+  }
+  const out = new Uint8Array(32);
+  for (let i = 0; i < 32; i++) out[i] = Number((s[i >> 3] >> BigInt(8 * (i & 7))) & 0xffn);
+  return out;
+}
+
+// ============================================================
+// SHA-2 (WebCrypto — async) and BASE58CHECK
+// ============================================================
+
+export async function sha256(data: Bytes): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", toBytes(data).slice()));
+}
+
+export async function sha512(data: Bytes): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest("SHA-512", toBytes(data).slice()));
+}
+
+/** Base58 with a 4-byte double-SHA-256 checksum — Tron and XRP addresses. */
+export async function bytesToBase58Check(payload: Bytes, alphabet = B58): Promise<string> {
+  const body = toBytes(payload);
+  const checksum = (await sha256(await sha256(body))).slice(0, 4);
+  const out = new Uint8Array(body.length + 4);
+  out.set(body);
+  out.set(checksum, body.length);
+  return bytesToBase58(out, alphabet);
+}
+
+/** Inverse of bytesToBase58Check — the payload without its checksum. Throws on a bad checksum. */
+export async function base58CheckToBytes(text: string, alphabet = B58): Promise<Uint8Array> {
+  const bytes = base58ToBytes(text, alphabet);
+  if (bytes.length < 5) throw new Error(`Base58Check string "${text}" is too short`);
+  const body = bytes.slice(0, -4);
+  const checksum = (await sha256(await sha256(body))).slice(0, 4);
+  if (checksum.some((b, i) => b !== bytes[body.length + i])) throw new Error(`Base58Check checksum mismatch in "${text}"`);
+  return body;
+}
+
+// ============================================================
+// BLAKE2B (Sui digests and addresses, Cardano tx ids and key hashes)
+// ============================================================
+
+const BLAKE2B_IV = [
+  0x6a09e667f3bcc908n, 0xbb67ae8584caa73bn, 0x3c6ef372fe94f82bn, 0xa54ff53a5f1d36f1n,
+  0x510e527fade682d1n, 0x9b05688c2b3e6c1fn, 0x1f83d9abfb41bd6bn, 0x5be0cd19137e2179n,
+];
+const BLAKE2B_SIGMA = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
+  [14, 10, 4, 8, 9, 15, 13, 6, 1, 12, 0, 2, 11, 7, 5, 3],
+  [11, 8, 12, 0, 5, 2, 15, 13, 10, 14, 3, 6, 7, 1, 9, 4],
+  [7, 9, 3, 1, 13, 12, 11, 14, 2, 6, 5, 10, 4, 0, 15, 8],
+  [9, 0, 5, 7, 2, 4, 10, 15, 14, 1, 11, 12, 6, 8, 3, 13],
+  [2, 12, 6, 10, 0, 11, 8, 3, 4, 13, 7, 5, 15, 14, 1, 9],
+  [12, 5, 1, 15, 14, 13, 4, 10, 0, 7, 6, 3, 9, 2, 8, 11],
+  [13, 11, 7, 14, 12, 1, 3, 9, 5, 0, 15, 4, 8, 6, 2, 10],
+  [6, 15, 14, 9, 11, 3, 0, 8, 12, 2, 13, 7, 1, 4, 10, 5],
+  [10, 2, 8, 4, 7, 6, 1, 5, 15, 11, 9, 14, 3, 12, 13, 0],
+];
+
+const rotr64 = (x: bigint, n: number) => ((x >> BigInt(n)) | (x << BigInt(64 - n))) & MASK64;
+
+function blake2bCompress(h: bigint[], block: Uint8Array, counter: bigint, last: boolean): void {
+  const m = new Array<bigint>(16);
+  for (let i = 0; i < 16; i++) {
+    let word = 0n;
+    for (let j = 7; j >= 0; j--) word = (word << 8n) | BigInt(block[i * 8 + j]);
+    m[i] = word;
+  }
+  const v = [...h, ...BLAKE2B_IV];
+  v[12] ^= counter & MASK64;
+  v[13] ^= counter >> 64n;
+  if (last) v[14] ^= MASK64;
+  const g = (a: number, b: number, c: number, d: number, x: bigint, y: bigint) => {
+    v[a] = (v[a] + v[b] + x) & MASK64;
+    v[d] = rotr64(v[d] ^ v[a], 32);
+    v[c] = (v[c] + v[d]) & MASK64;
+    v[b] = rotr64(v[b] ^ v[c], 24);
+    v[a] = (v[a] + v[b] + y) & MASK64;
+    v[d] = rotr64(v[d] ^ v[a], 16);
+    v[c] = (v[c] + v[d]) & MASK64;
+    v[b] = rotr64(v[b] ^ v[c], 63);
+  };
+  for (let round = 0; round < 12; round++) {
+    const s = BLAKE2B_SIGMA[round % 10];
+    g(0, 4, 8, 12, m[s[0]], m[s[1]]);
+    g(1, 5, 9, 13, m[s[2]], m[s[3]]);
+    g(2, 6, 10, 14, m[s[4]], m[s[5]]);
+    g(3, 7, 11, 15, m[s[6]], m[s[7]]);
+    g(0, 5, 10, 15, m[s[8]], m[s[9]]);
+    g(1, 6, 11, 12, m[s[10]], m[s[11]]);
+    g(2, 7, 8, 13, m[s[12]], m[s[13]]);
+    g(3, 4, 9, 14, m[s[14]], m[s[15]]);
+  }
+  for (let i = 0; i < 8; i++) h[i] ^= v[i] ^ v[i + 8];
+}
+
+/** Unkeyed BLAKE2b with a `size`-byte digest (32 for blake2b-256, 28 for blake2b-224). */
+export function blake2b(data: Bytes, size = 32): Uint8Array {
+  const input = toBytes(data);
+  const h = [...BLAKE2B_IV];
+  h[0] ^= 0x01010000n ^ BigInt(size);
+  const blocks = Math.max(1, Math.ceil(input.length / 128));
+  for (let i = 0; i < blocks; i++) {
+    const block = new Uint8Array(128);
+    block.set(input.subarray(i * 128, (i + 1) * 128));
+    const last = i === blocks - 1;
+    blake2bCompress(h, block, BigInt(last ? input.length : (i + 1) * 128), last);
+  }
+  const out = new Uint8Array(size);
+  for (let i = 0; i < size; i++) out[i] = Number((h[i >> 3] >> BigInt(8 * (i & 7))) & 0xffn);
+  return out;
+}
+
+// ============================================================
+// BECH32 (Cardano and THORChain addresses — no 90-character limit; Bitcoin segwit)
+// ============================================================
+
+const BECH32 = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
+
+function bech32Polymod(values: number[]): number {
+  const gen = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+  let chk = 1;
+  for (const v of values) {
+    const top = chk >> 25;
+    chk = ((chk & 0x1ffffff) << 5) ^ v;
+    for (let i = 0; i < 5; i++) if ((top >> i) & 1) chk ^= gen[i];
+  }
+  return chk;
+}
+
+const hrpExpand = (hrp: string) => [...[...hrp].map((c) => c.charCodeAt(0) >> 5), 0, ...[...hrp].map((c) => c.charCodeAt(0) & 31)];
+
+function convertBits(data: ArrayLike<number>, from: number, to: number, pad: boolean): number[] {
+  let acc = 0;
+  let bits = 0;
+  const out: number[] = [];
+  for (let i = 0; i < data.length; i++) {
+    acc = (acc << from) | data[i];
+    bits += from;
+    while (bits >= to) {
+      bits -= to;
+      out.push((acc >> bits) & ((1 << to) - 1));
+    }
+  }
+  if (pad && bits > 0) out.push((acc << (to - bits)) & ((1 << to) - 1));
+  return out;
+}
+
+export function bytesToBech32(hrp: string, bytes: Bytes): string {
+  const words = convertBits(toBytes(bytes), 8, 5, true);
+  const mod = bech32Polymod([...hrpExpand(hrp), ...words, 0, 0, 0, 0, 0, 0]) ^ 1;
+  const checksum = Array.from({ length: 6 }, (_, i) => (mod >> (5 * (5 - i))) & 31);
+  return `${hrp}1${[...words, ...checksum].map((w) => BECH32[w]).join("")}`;
+}
+
+/** Bech32 string (Cardano, THORChain...) — no 90-character limit, Cardano addresses run longer. */
+export function bech32ToBytes(text: string): { hrp: string; bytes: Uint8Array } {
+  const lower = text.toLowerCase();
+  if (text !== lower && text !== text.toUpperCase()) throw new Error(`Invalid bech32 string "${text}": mixed case`);
+  const sep = lower.lastIndexOf("1");
+  const hrp = lower.slice(0, sep);
+  const words = [...lower.slice(sep + 1)].map((c) => BECH32.indexOf(c));
+  if (sep < 1 || words.length < 6 || words.includes(-1) || bech32Polymod([...hrpExpand(hrp), ...words]) !== 1) {
+    throw new Error(`Invalid bech32 string "${text}"`);
+  }
+  return { hrp, bytes: Uint8Array.from(convertBits(words.slice(0, -6), 5, 8, false)) };
+}
+
+const BECH32M_CONST = 0x2bc830a3;
+
+/**
+ * Segwit address (Bitcoin, Litecoin): witness version and program. Version 0
+ * uses bech32 (BIP-173), later versions bech32m (BIP-350).
+ */
+export function segwitToBytes(text: string): { hrp: string; version: number; program: Uint8Array } {
+  const lower = text.toLowerCase();
+  const sep = lower.lastIndexOf("1");
+  const hrp = lower.slice(0, sep);
+  const words = [...lower.slice(sep + 1)].map((c) => BECH32.indexOf(c));
+  const fail = (why: string) => new Error(`Invalid segwit address "${text}": ${why}`);
+  if ((text !== lower && text !== text.toUpperCase()) || text.length > 90) throw fail("mixed case or too long");
+  if (sep < 1 || words.length < 7 || words.includes(-1)) throw fail("not bech32");
+  const version = words[0];
+  const mod = bech32Polymod([...hrpExpand(hrp), ...words]);
+  if (mod !== (version === 0 ? 1 : BECH32M_CONST)) throw fail(`bad ${version === 0 ? "bech32" : "bech32m"} checksum`);
+  const data = words.slice(1, -6);
+  const program = Uint8Array.from(convertBits(data, 5, 8, false));
+  if ((data.length * 5) % 8 >= 5 || version > 16 || program.length < 2 || program.length > 40) throw fail("bad witness program");
+  if (version === 0 && program.length !== 20 && program.length !== 32) throw fail("v0 programs are 20 or 32 bytes");
+  return { hrp, version, program };
+}
+
+// ============================================================
+// SECP256K1 (EVM / Tron signer recovery, XRP signature checks)
+// ============================================================
+// Affine BigInt arithmetic — verification only, never used with secrets.
+
+const P = 2n ** 256n - 2n ** 32n - 977n;
+const N = 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n;
+const G: Point = [
+  0x79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798n,
+  0x483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8n,
+];
+
+type Point = [bigint, bigint] | null;
+
+const mod = (a: bigint, m: bigint) => ((a % m) + m) % m;
+
+/** Extended Euclid — a⁻¹ mod m. */
+function invert(a: bigint, m: bigint): bigint {
+  let [r0, r1] = [mod(a, m), m];
+  let [s0, s1] = [1n, 0n];
+  while (r1 !== 0n) {
+    const q = r0 / r1;
+    [r0, r1] = [r1, r0 - q * r1];
+    [s0, s1] = [s1, s0 - q * s1];
+  }
+  return mod(s0, m);
+}
+
+function powMod(base: bigint, exp: bigint, m: bigint): bigint {
+  let result = 1n;
+  for (let b = mod(base, m), e = exp; e > 0n; e >>= 1n, b = (b * b) % m) if (e & 1n) result = (result * b) % m;
+  return result;
+}
+
+function pointAdd(a: Point, b: Point): Point {
+  if (!a) return b;
+  if (!b) return a;
+  if (a[0] === b[0] && a[1] !== b[1]) return null;
+  const lambda = a[0] === b[0]
+    ? mod(3n * a[0] * a[0] * invert(2n * a[1], P), P)
+    : mod((b[1] - a[1]) * invert(b[0] - a[0], P), P);
+  const x = mod(lambda * lambda - a[0] - b[0], P);
+  return [x, mod(lambda * (a[0] - x) - a[1], P)];
+}
+
+function pointMul(p: Point, k: bigint): Point {
+  let result: Point = null;
+  for (let add = p, e = mod(k, N); e > 0n; e >>= 1n, add = pointAdd(add, add)) if (e & 1n) result = pointAdd(result, add);
+  return result;
+}
+
+function liftX(x: bigint, odd: boolean): Point {
+  const y2 = mod(x ** 3n + 7n, P);
+  const y = powMod(y2, (P + 1n) / 4n, P);
+  if ((y * y) % P !== y2) return null;
+  return [x, (y & 1n) === (odd ? 1n : 0n) ? y : P - y];
+}
+
+const int = (bytes: Bytes) => BigInt(`0x${bytesToHex(bytes) || "0"}`);
+const word = (n: bigint) => hexToBytes(n.toString(16).padStart(64, "0"));
+
+/**
+ * Public key (64 bytes, x ‖ y) that produced signature (r, s) over the
+ * 32-byte `hash`; `recovery` is 0 or 1 (v − 27 for EVM legacy). null when
+ * the signature is malformed.
+ */
+export function secp256k1Recover(hash: Bytes, r: Bytes | bigint, s: Bytes | bigint, recovery: number): Uint8Array | null {
+  const [rn, sn] = [typeof r === "bigint" ? r : int(r), typeof s === "bigint" ? s : int(s)];
+  if (rn <= 0n || rn >= N || sn <= 0n || sn >= N) return null;
+  const R = liftX(rn + (recovery & 2 ? N : 0n), (recovery & 1) === 1);
+  if (!R) return null;
+  const rInv = invert(rn, N);
+  const Q = pointAdd(pointMul(R, sn * rInv), pointMul(G, mod(-int(hash) * rInv, N)));
+  if (!Q) return null;
+  const out = new Uint8Array(64);
+  out.set(word(Q[0]));
+  out.set(word(Q[1]), 32);
+  return out;
+}
+
+/** ECDSA check of (r, s) over `hash` against a 33-byte compressed or 64/65-byte uncompressed key. */
+export function secp256k1Verify(hash: Bytes, r: Bytes | bigint, s: Bytes | bigint, publicKey: Bytes): boolean {
+  const key = toBytes(publicKey);
+  const Q = key.length === 33
+    ? liftX(int(key.subarray(1)), key[0] === 0x03)
+    : key.length === 64 || key.length === 65
+      ? [int(key.subarray(key.length - 64, key.length - 32)), int(key.subarray(key.length - 32))] as Point
+      : null;
+  const [rn, sn] = [typeof r === "bigint" ? r : int(r), typeof s === "bigint" ? s : int(s)];
+  if (!Q || rn <= 0n || rn >= N || sn <= 0n || sn >= N) return false;
+  const w = invert(sn, N);
+  const X = pointAdd(pointMul(G, int(hash) * w), pointMul(Q, rn * w));
+  return !!X && mod(X[0], N) === rn;
+}
@@ -0,0 +1,306 @@
+// errors.ts — Uniform result unwrapping and typed MeneseError hierarchy
+//
+// The canister returns four different shapes:
+//
+//   1. { ok } | { err: Text }          Result, ResultNat64, most variants
+//   2. { Ok } | { Err: ApproveError }  ICRC ledgers (icrc2_approve, icrc1_transfer)
+//   3. { success: Bool, ... }          sendXrpAutonomous, xrpSwap, executeSuiSwap,
+//                                      sendTon*, xrpSetTrustline (flat records)
+//   4. bare values                     getBitcoinBalance (Nat64), getMyNearBalance (Nat)
+//
+// unwrap() turns every one of them into either the value or a thrown
+// MeneseError subclass, so callers can branch on the kind of failure:
+//
+//   try {
+//     const txHash = unwrap(await menese.sendSolTransaction(to, lamports));
+//   } catch (e) {
+//     if (e instanceof InsufficientFunds) showTopUp();
+//     else if (e instanceof RpcFailure) retryLater();
+//     else throw e;
+//   }
+
+// ============================================================
+// ERROR CLASSES
+// ============================================================
+
+export type MeneseErrorKind =
+  | "InsufficientFunds"
+  | "BadFee"
+  | "SlippageExceeded"
+  | "QuotaExhausted"
+  | "RpcFailure"
+  | "InvalidAddress"
+  | "TemporarilyUnavailable"
+  | "LedgerRejected"
+  | "Timeout"
+  | "SessionExpired"
+  | "TransactionFailed"
+  | "TransactionDropped"
+  | "SignedTxMismatch"
+  | "Unknown";
+
+export interface MeneseErrorOptions {
+  /** Canister method that produced the error, when known */
+  method?: string;
+  /** The untouched value returned by the canister or ledger */
+  raw?: unknown;
+  cause?: unknown;
+}
+
+/** Base class — every error produced by unwrap() is an instance of this. */
+export class MeneseError extends Error {
+  readonly kind: MeneseErrorKind = "Unknown";
+  readonly method?: string;
+  readonly raw?: unknown;
+
+  constructor(message: string, options: MeneseErrorOptions = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.method = options.method;
+    this.raw = options.raw;
+    // Error's own `cause` option needs an ES2022 lib; this works with any
+    if (options.cause !== undefined) Object.assign(this, { cause: options.cause });
+  }
+}
+
+/** Wallet or ledger balance too low for amount + fee. */
+export class InsufficientFunds extends MeneseError {
+  readonly kind = "InsufficientFunds";
+  /** Balance reported by the ledger, when it told us */
+  readonly balance?: bigint;
+
+  constructor(message: string, options: MeneseErrorOptions & { balance?: bigint } = {}) {
+    super(message, options);
+    this.balance = options.balance;
+  }
+}
+
+/** Ledger rejected the fee — retry with `expectedFee`. */
+export class BadFee extends MeneseError {
+  readonly kind = "BadFee";
+  readonly expectedFee?: bigint;
+
+  constructor(message: string, options: MeneseErrorOptions & { expectedFee?: bigint } = {}) {
+    super(message, options);
+    this.expectedFee = options.expectedFee;
+  }
+}
+
+/** Swap output would be below minAmountOut / slippage tolerance. */
+export class SlippageExceeded extends MeneseError {
+  readonly kind = "SlippageExceeded";
+}
+
+/** No actions left on the gateway subscription, or subscription expired. */
+export class QuotaExhausted extends MeneseError {
+  readonly kind = "QuotaExhausted";
+}
+
+/** Chain RPC or HTTP-outcall failure inside the canister. Usually transient. */
+export class RpcFailure extends MeneseError {
+  readonly kind = "RpcFailure";
+}
+
+/** Recipient address, principal or account could not be parsed. */
+export class InvalidAddress extends MeneseError {
+  readonly kind = "InvalidAddress";
+}
+
+/** ICRC ledger asked us to come back later. Nothing was executed. */
+export class TemporarilyUnavailable extends MeneseError {
+  readonly kind = "TemporarilyUnavailable";
+}
+
+/**
+ * No answer within the call timeout (see retry.ts), or no confirmation within
+ * waitForConfirmation's timeout (see confirmation.ts). For update calls and
+ * broadcast transactions the outcome is unknown — it may still execute.
+ */
+export class CallTimeout extends MeneseError {
+  readonly kind = "Timeout";
+}
+
+/**
+ * The login delegation expired and could not be refreshed (see session.ts).
+ * Log in again before retrying.
+ */
+export class SessionExpired extends MeneseError {
+  readonly kind = "SessionExpired";
+}
+
+/**
+ * The transaction made it into a block but did not execute: EVM revert, XRP
+ * tec* result, Solana instruction error... Fees were paid. See confirmation.ts.
+ */
+export class TransactionFailed extends MeneseError {
+  readonly kind = "TransactionFailed";
+}
+
+/**
+ * The transaction can no longer land: its Solana blockhash or XRP
+ * LastLedgerSequence passed, or its EVM nonce was used by another one —
+ * after broadcast (confirmation.ts) or before it (signing-queue.ts).
+ * Nothing was spent — sign it again with fresh chain state.
+ */
+export class TransactionDropped extends MeneseError {
+  readonly kind = "TransactionDropped";
+}
+
+/**
+ * Signed bytes returned by the canister do not do what was asked: wrong
+ * recipient or amount, an unexpected instruction, a bad signature. Do not
+ * broadcast them. See solana-tx.ts and signed-tx.ts.
+ */
+export class SignedTxMismatch extends MeneseError {
+  readonly kind = "SignedTxMismatch";
+}
+
+/**
+ * Any other ICRC ledger error (AllowanceChanged, Expired, TooOld,
+ * CreatedInFuture, Duplicate, GenericError). `code` is the variant tag.
+ */
+export class LedgerRejected extends MeneseError {
+  readonly kind = "LedgerRejected";
+  readonly code: string;
+
+  constructor(message: string, options: MeneseErrorOptions & { code: string }) {
+    super(message, options);
+    this.code = options.code;
+  }
+}
+
+// ============================================================
+// ERROR TEXT CLASSIFICATION
+// ============================================================
+// The canister's `err: Text` messages are free-form. Order matters:
+// "RPC error: insufficient funds" is an InsufficientFunds, not an RpcFailure.
+
+const TEXT_RULES: Array<[RegExp, new (message: string, options: MeneseErrorOptions) => MeneseError]> = [
+  [/insufficient (funds|balance|lamports|sol|eth|gas)|not enough (funds|balance)|balance (is )?too low|exceeds (the )?balance/i, InsufficientFunds],
+  [/bad ?fee|expected[_ ]fee|fee (is )?(too low|mismatch)/i, BadFee],
+  [/slippage|min(imum)?[_ ]?amount[_ ]?out|price impact too high|output (is )?(less|lower) than/i, SlippageExceeded],
+  [/no actions (left|remaining)|actions? (exhausted|limit)|quota|subscription (expired|required|inactive)|insufficient credits|purchase a (gateway )?package/i, QuotaExhausted],
+  [/invalid (address|recipient|destination|principal|account)|bad address|malformed address|checksum mismatch|invalid base58|invalid bech32/i, InvalidAddress],
+  [/temporarily unavailable/i, TemporarilyUnavailable],
+  [/delegation (has )?expired|invalid delegation expiry/i, SessionExpired],
+  [/http ?outcall|rpc (error|failed|failure)|consensus|timed? ?out|status code|fetch failed|request failed|SysTransient|too many requests|rate.?limit/i, RpcFailure],
+];
+
+/** Build the right MeneseError subclass for a canister `err` message. */
+export function errorFromText(message: string, options: MeneseErrorOptions = {}): MeneseError {
+  for (const [pattern, ErrorClass] of TEXT_RULES) {
+    if (pattern.test(message)) return new ErrorClass(message, options);
+  }
+  return new MeneseError(message, options);
+}
+
+/**
+ * Convert anything thrown by an actor call (agent errors, fetch errors,
+ * MeneseErrors) into a MeneseError. MeneseErrors pass through untouched.
+ */
+export function toMeneseError(error: unknown, method?: string): MeneseError {
+  if (error instanceof MeneseError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  return errorFromText(message, { method, cause: error });
+}
+
+// ============================================================
+// ICRC LEDGER ERRORS (ApproveError / TransferError)
+// ============================================================
+
+/** Map an ICRC-1/ICRC-2 `Err` variant to a MeneseError subclass. */
+export function errorFromLedger(err: Record<string, any>, method?: string): MeneseError {
+  const [code] = Object.keys(err);
+  const payload = err[code];
+  const options = { method, raw: err };
+
+  switch (code) {
+    case "InsufficientFunds":
+      return new InsufficientFunds(`Insufficient funds. Balance: ${payload.balance}`, {
+        ...options, balance: BigInt(payload.balance),
+      });
+    case "InsufficientAllowance":
+      return new InsufficientFunds(`Insufficient allowance: ${payload.allowance}`, options);
+    case "BadFee":
+      return new BadFee(`Bad fee. Expected: ${payload.expected_fee}`, {
+        ...options, expectedFee: BigInt(payload.expected_fee),
+      });
+    case "TemporarilyUnavailable":
+      return new TemporarilyUnavailable("Ledger temporarily unavailable", options);
+    case "GenericError":
+      return new LedgerRejected(`Ledger error ${payload.error_code}: ${payload.message}`, { ...options, code });
+    default:
+      return new LedgerRejected(`Ledger rejected the call: ${code}`, { ...options, code });
+  }
+}
+
+// ============================================================
+// UNWRAPPING
+// ============================================================
+
+/** The success type of any canister return shape. */
+export type Unwrapped<T> =
+  T extends { ok: infer V } ? V :
+  T extends { err: unknown } ? never :
+  T extends { Ok: infer V } ? V :
+  T extends { Err: unknown } ? never :
+  T;
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Unwrap `{ ok } | { err: Text }`. */
+export function unwrapResult<T>(result: { ok: T } | { err: string }, method?: string): T {
+  if ("ok" in result) return result.ok;
+  throw errorFromText(result.err, { method, raw: result });
+}
+
+/** Unwrap an ICRC ledger `{ Ok } | { Err }`. */
+export function unwrapLedger<T>(result: { Ok: T } | { Err: Record<string, any> }, method?: string): T {
+  if ("Ok" in result) return result.Ok;
+  throw errorFromLedger(result.Err, method);
+}
+
+/**
+ * Check a flat record with a `success` flag (XRP, SUI, TON results).
+ * Returns the record itself on success; the failure text comes from
+ * `message` or `error` (Opt Text), whichever the record has.
+ */
+export function unwrapFlat<T extends { success: boolean }>(result: T, method?: string): T {
+  if (result.success) return result;
+  const r = result as Record<string, any>;
+  const message =
+    (typeof r.message === "string" && r.message) ||
+    (Array.isArray(r.error) && r.error[0]) ||
+    "Operation failed";
+  throw errorFromText(message, { method, raw: result });
+}
+
+/**
+ * Unwrap any canister return value:
+ *   - { ok } / { err }      → value or thrown MeneseError
+ *   - { Ok } / { Err }      → value or thrown ledger MeneseError
+ *   - { success, ... }      → record or thrown MeneseError
+ *   - { txSignature: "" }   → swapRaydiumApiUser with no submitted tx → thrown
+ *   - anything else         → returned as-is (bare Nat64, records, vectors)
+ */
+export function unwrap<T>(result: T, method?: string): Unwrapped<T> {
+  if (isObject(result)) {
+    if ("ok" in result) return result.ok;
+    if ("err" in result && Object.keys(result).length === 1) {
+      throw errorFromText(String(result.err), { method, raw: result });
+    }
+    if ("Ok" in result) return result.Ok;
+    if ("Err" in result && Object.keys(result).length === 1) {
+      throw errorFromLedger(result.Err, method);
+    }
+    if (typeof result.success === "boolean") {
+      return unwrapFlat(result as unknown as { success: boolean }, method) as Unwrapped<T>;
+    }
+    if ("txSignature" in result && "outputAmount" in result && result.txSignature === "") {
+      throw new MeneseError("Raydium swap returned no transaction signature", { method, raw: result });
+    }
+  }
+  return result as Unwrapped<T>;
+}
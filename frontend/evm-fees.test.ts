@@ -0,0 +1,84 @@
+// evm-fees.test.ts — the raw transaction decoder on the EIP-155 sample, and fee presets against a stubbed node
+
+import assert from "node:assert/strict";
+import { mock, test } from "node:test";
+import { bytesToHex } from "./encoding";
+import { decodeEvmRawTx, estimateEvmFees, evmCalldata, evmChainById } from "./evm-fees";
+
+// The example transaction from EIP-155: nonce 9, 20 gwei, 21000 gas, 1 ether to 0x3535…, chain id 1
+const EIP155_TX = "0xf86c098504a817c800825208943535353535353535353535353535353535353535880de0b6b3a7640000"
+  + "8025a028ef61340bd939bc2195fe537567866003e1a15d3c71ff63e1590620aa636276a067cbe9d8997f761aecb703304b3800ccf555c9f3dc64214b297fb1966a3b6d83";
+const GWEI = 1_000_000_000n;
+
+test("decodes the EIP-155 sample transaction", () => {
+  const tx = decodeEvmRawTx(EIP155_TX);
+  assert.equal(tx.type, 0);
+  assert.equal(tx.chainId, 1n);
+  assert.equal(tx.nonce, 9n);
+  assert.equal(tx.gasPrice, 20n * GWEI);
+  assert.equal(tx.gasLimit, 21_000n);
+  assert.equal(tx.to, `0x${"35".repeat(20)}`);
+  assert.equal(tx.value, 10n ** 18n);
+  assert.equal(tx.data.length, 0);
+  assert.equal(tx.hash, "0x33469b22e9f636356c4160a87eb19df52b7412e8eac32a4a55ffe88ea8350788");
+  assert.equal(tx.from, "0x9d8a62f656a8d1615c1294fd71e9cfb3e4855a4f");
+  assert.equal(tx.maxCost, 10n ** 18n + 21_000n * 20n * GWEI);
+});
+
+test("a pre-EIP-155 signature (v = 27/28) has no chain id", () => {
+  const tx = decodeEvmRawTx(EIP155_TX.replace("8025a0", "801ba0"));
+  assert.equal(tx.chainId, undefined);
+  assert.notEqual(tx.from, "0x9d8a62f656a8d1615c1294fd71e9cfb3e4855a4f");
+});
+
+test("evmCalldata is the selector then 32-byte words", () => {
+  const data = bytesToHex(evmCalldata("transfer(address, uint256)", [`0x${"35".repeat(20)}`, "01"]));
+  assert.equal(data, `a9059cbb${"35".repeat(20).padStart(64, "0")}${"1".padStart(64, "0")}`);
+  assert.throws(() => evmCalldata("f(uint256)", ["1".repeat(65)]), /longer than 32 bytes/);
+});
+
+test("evmChainById", () => {
+  assert.equal(evmChainById(8453), "base");
+  assert.equal(evmChainById(56n), "bsc");
+  assert.equal(evmChainById(5), undefined);
+});
+
+/** Stub fetch as a JSON-RPC node answering from `results`. */
+function stubNode(results: Record<string, unknown>) {
+  return mock.method(globalThis, "fetch", async (_url: string, init: RequestInit) => {
+    const { id, method } = JSON.parse(String(init.body));
+    return new Response(JSON.stringify({ jsonrpc: "2.0", id, result: results[method] }));
+  });
+}
+
+test("estimateEvmFees: next base fee × headroom + median tip per percentile", async (t) => {
+  const hex = (n: bigint) => `0x${n.toString(16)}`;
+  stubNode({
+    eth_chainId: "0x1",
+    eth_feeHistory: {
+      baseFeePerGas: [hex(GWEI / 2n), hex(GWEI)],
+      reward: [[GWEI / 10n, GWEI, 2n * GWEI], [GWEI / 5n, 2n * GWEI, 3n * GWEI], [3n * GWEI / 10n, 3n * GWEI, 4n * GWEI]].map((r) => r.map(hex)),
+    },
+  });
+  t.after(() => mock.restoreAll());
+
+  const fees = await estimateEvmFees("https://node.test");
+  assert.equal(fees.chain, "ethereum");
+  assert.equal(fees.model, "eip1559");
+  assert.equal(fees.baseFeePerGas, GWEI);
+  assert.deepEqual(fees.slow, { maxPriorityFeePerGas: GWEI / 5n, maxFeePerGas: 1_330_000_000n, gasPrice: 1_330_000_000n });
+  assert.equal(fees.normal.maxFeePerGas, 1_500_000_000n + 2n * GWEI);
+  assert.equal(fees.fast.maxFeePerGas, 2n * GWEI + 3n * GWEI);
+  await assert.rejects(estimateEvmFees("https://node.test", { chain: "base" }), /is on chain 1, not base/);
+});
+
+test("estimateEvmFees: gasPrice × headroom on legacy chains", async (t) => {
+  stubNode({ eth_chainId: "0x38", eth_gasPrice: `0x${(3n * GWEI).toString(16)}` });
+  t.after(() => mock.restoreAll());
+
+  const fees = await estimateEvmFees("https://node.test");
+  assert.equal(fees.chain, "bsc");
+  assert.equal(fees.model, "legacy");
+  assert.equal(fees.normal.gasPrice, 3n * GWEI);
+  assert.equal(fees.fast.gasPrice, 3_600_000_000n);
+});
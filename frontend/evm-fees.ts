@@ -0,0 +1,369 @@
+// evm-fees.ts — EVM gas and fee estimation for sign-only sends
+//
+// buildAndSignEvmTxWithData takes ONE gasPrice. On EIP-1559 chains the price
+// a transaction really pays is base fee + tip, and the base fee moves every
+// block — so the single value has to cover the next base fee plus headroom,
+// plus a tip the chain's validators accept. estimateEvmFees works that out
+// from eth_feeHistory with slow / normal / fast presets per chain:
+//
+//   const fees = await estimateEvmFees(rpc, { chain: "base" });
+//   const gasLimit = await estimateEvmGas(rpc, { from, to, value });
+//   await menese.buildAndSignEvmTxWithData(to, value, [], nonce, gasLimit, fees.normal.gasPrice, 8453n);
+//
+//   // What a callEvmContractWrite will cost, before spending the action
+//   const data = evmCalldata("transfer(address,uint256)", [recipientHex, amountHex]);
+//   const quote = await quoteEvmTransaction(rpc, { from, to: token, data }, { chain: "arbitrum" });
+//   quote.maxCost.normal;   // wei: gasLimit × gasPrice (+ L1 data fee on OP Stack)
+//
+// Legacy vs 1559 — the relayer returns each transaction twice:
+//   rawTxHex_v0   legacy type-0 gasPrice tx — pays gasPrice per gas, exactly
+//   rawTxHex_v1   EIP-1559 type-2 tx, gasPrice as its fee cap — pays at most
+//                 gasPrice, less when the base fee is lower. The broadcasters
+//                 send this one by default
+// decodeEvmRawTx(raw) shows the type and fee fields each one was signed with,
+// so you can check what the price means before broadcasting.
+//
+// L2s: Arbitrum's sequencer ignores tips (first come, first served) and its
+// gas estimate already includes the L1 cost. Base and Optimism (OP Stack)
+// charge an L1 data fee on top of gas, outside gasPrice — quoteEvmTransaction
+// adds it to `maxCost`.
+
+import { EVM_CHAIN_IDS, type EvmChainId } from "./chains";
+import { bytesToHex, hexToBytes, keccak256, secp256k1Recover, toBytes, type Bytes } from "./encoding";
+import { MeneseError } from "./errors";
+import { jsonRpc, type RpcOptions } from "./rpc";
+
+// ============================================================
+// PRESETS
+// ============================================================
+
+export type FeeSpeed = "slow" | "normal" | "fast";
+
+export interface EvmFeePreset {
+  /** eth_feeHistory reward percentile used as the tip */
+  tipPercentile: Record<FeeSpeed, number>;
+  /** Next base fee × this percent — how far it may rise before the transaction stalls */
+  baseFeeHeadroom: Record<FeeSpeed, number>;
+  /** Lowest tip the chain's validators include, wei */
+  minTip: bigint;
+  /** "ignored": the sequencer does not sort by tip (Arbitrum). "legacy": no base fee, gasPrice only (BSC) */
+  tipModel?: "ignored" | "legacy";
+  /** OP Stack: an L1 data fee is charged on top of gas */
+  l1DataFee?: boolean;
+}
+
+const GWEI = 1_000_000_000n;
+const PERCENTILES = { slow: 10, normal: 50, fast: 90 };
+
+export const EVM_FEE_PRESETS: Readonly<Record<EvmChainId, EvmFeePreset>> = {
+  ethereum: { tipPercentile: PERCENTILES, baseFeeHeadroom: { slow: 113, normal: 150, fast: 200 }, minTip: GWEI / 20n },
+  arbitrum: { tipPercentile: PERCENTILES, baseFeeHeadroom: { slow: 120, normal: 150, fast: 200 }, minTip: 0n, tipModel: "ignored" },
+  base: { tipPercentile: PERCENTILES, baseFeeHeadroom: { slow: 110, normal: 125, fast: 150 }, minTip: GWEI / 1000n, l1DataFee: true },
+  polygon: { tipPercentile: PERCENTILES, baseFeeHeadroom: { slow: 113, normal: 150, fast: 200 }, minTip: 30n * GWEI },
+  bsc: { tipPercentile: PERCENTILES, baseFeeHeadroom: { slow: 100, normal: 100, fast: 120 }, minTip: GWEI / 20n, tipModel: "legacy" },
+  optimism: { tipPercentile: PERCENTILES, baseFeeHeadroom: { slow: 110, normal: 125, fast: 150 }, minTip: GWEI / 1000n, l1DataFee: true },
+};
+
+/** Chain for an EIP-155 chain id, or undefined for chains the SDK has no preset for. */
+export function evmChainById(chainId: number | bigint): EvmChainId | undefined {
+  return (Object.keys(EVM_CHAIN_IDS) as EvmChainId[]).find((c) => BigInt(EVM_CHAIN_IDS[c]) === BigInt(chainId));
+}
+
+// ============================================================
+// FEES
+// ============================================================
+
+export interface EvmFeeEstimate {
+  maxPriorityFeePerGas: bigint;
+  maxFeePerGas: bigint;
+  /** The one price buildAndSignEvmTxWithData takes — equal to maxFeePerGas */
+  gasPrice: bigint;
+}
+
+export interface EvmFees {
+  chainId: number;
+  /** undefined when the node's chain has no preset (ethereum's is used) */
+  chain?: EvmChainId;
+  model: "eip1559" | "legacy";
+  /** Base fee of the next block; 0 on legacy chains */
+  baseFeePerGas: bigint;
+  slow: EvmFeeEstimate;
+  normal: EvmFeeEstimate;
+  fast: EvmFeeEstimate;
+}
+
+export interface EvmFeeOptions extends RpcOptions {
+  /** Preset to use — and checked against the node's eth_chainId. Default: looked up from eth_chainId */
+  chain?: EvmChainId;
+  /** Blocks of history for the tip percentiles. Default: 20 */
+  blocks?: number;
+}
+
+const SPEEDS: FeeSpeed[] = ["slow", "normal", "fast"];
+const percentOf = (value: bigint, percent: number) => (value * BigInt(Math.round(percent * 100))) / 10_000n;
+const max = (a: bigint, b: bigint) => (a > b ? a : b);
+
+function median(values: bigint[]): bigint {
+  if (!values.length) return 0n;
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/** Slow / normal / fast fees from eth_feeHistory (eth_gasPrice on chains without a base fee). */
+export async function estimateEvmFees(rpcUrl: string, options: EvmFeeOptions = {}): Promise<EvmFees> {
+  const chainId = Number(BigInt(await jsonRpc<string>(rpcUrl, "eth_chainId", [], options)));
+  if (options.chain && EVM_CHAIN_IDS[options.chain] !== chainId) {
+    throw new MeneseError(`${rpcUrl} is on chain ${chainId}, not ${options.chain} (${EVM_CHAIN_IDS[options.chain]})`);
+  }
+  const chain = options.chain ?? evmChainById(chainId);
+  const preset = EVM_FEE_PRESETS[chain ?? "ethereum"];
+  const percentiles = SPEEDS.map((s) => preset.tipPercentile[s]);
+
+  const history = preset.tipModel === "legacy"
+    ? undefined
+    : await jsonRpc<{ baseFeePerGas?: string[]; reward?: string[][] }>(
+      rpcUrl, "eth_feeHistory", [`0x${(options.blocks ?? 20).toString(16)}`, "latest", percentiles], options);
+  // The last entry is the next block's base fee
+  const baseFee = BigInt(history?.baseFeePerGas?.at(-1) ?? 0);
+
+  if (baseFee === 0n) {
+    const gasPrice = max(BigInt(await jsonRpc<string>(rpcUrl, "eth_gasPrice", [], options)), preset.minTip);
+    const legacy = (speed: FeeSpeed): EvmFeeEstimate => {
+      const price = percentOf(gasPrice, preset.baseFeeHeadroom[speed]);
+      return { maxPriorityFeePerGas: price, maxFeePerGas: price, gasPrice: price };
+    };
+    return { chainId, chain, model: "legacy", baseFeePerGas: 0n, slow: legacy("slow"), normal: legacy("normal"), fast: legacy("fast") };
+  }
+
+  const estimate = (speed: FeeSpeed, column: number): EvmFeeEstimate => {
+    const observed = median((history?.reward ?? []).map((r) => BigInt(r[column] ?? 0)).filter((t) => t > 0n));
+    const tip = preset.tipModel === "ignored" ? 0n : max(observed, preset.minTip);
+    const maxFee = percentOf(baseFee, preset.baseFeeHeadroom[speed]) + tip;
+    return { maxPriorityFeePerGas: tip, maxFeePerGas: maxFee, gasPrice: maxFee };
+  };
+  return {
+    chainId,
+    chain,
+    model: "eip1559",
+    baseFeePerGas: baseFee,
+    slow: estimate("slow", 0),
+    normal: estimate("normal", 1),
+    fast: estimate("fast", 2),
+  };
+}
+
+// ============================================================
+// GAS
+// ============================================================
+
+export interface EvmTxRequest {
+  from: string;
+  to: string;
+  /** wei */
+  value?: bigint;
+  data?: Bytes;
+}
+
+const hexQuantity = (n: bigint) => `0x${n.toString(16)}`;
+
+/**
+ * eth_estimateGas plus `bufferPercent` (default 20) for contract calls, whose
+ * cost can change between estimate and inclusion. A plain 21000 transfer is
+ * returned as-is.
+ */
+export async function estimateEvmGas(
+  rpcUrl: string,
+  tx: EvmTxRequest,
+  options: RpcOptions & { bufferPercent?: number } = {},
+): Promise<bigint> {
+  const gas = BigInt(await jsonRpc<string>(rpcUrl, "eth_estimateGas", [{
+    from: tx.from,
+    to: tx.to,
+    value: hexQuantity(tx.value ?? 0n),
+    data: `0x${bytesToHex(tx.data ?? [])}`,
+  }], options));
+  return gas === 21_000n ? gas : percentOf(gas, 100 + (options.bufferPercent ?? 20));
+}
+
+/**
+ * The calldata callEvmContractWrite sends for (functionSignature, argsHexes):
+ * 4-byte selector, then each argument left-padded to 32 bytes.
+ *
+ *   evmCalldata("approve(address,uint256)", [spender.slice(2), amount.toString(16)])
+ */
+export function evmCalldata(functionSignature: string, argsHexes: string[] = []): Uint8Array {
+  const selector = keccak256(functionSignature.replace(/\s+/g, "")).slice(0, 4);
+  const words = argsHexes.map((arg) => {
+    const hex = arg.replace(/^0x/i, "");
+    if (hex.length > 64) throw new MeneseError(`Argument ${arg} is longer than 32 bytes`);
+    return hex.padStart(64, "0");
+  });
+  return hexToBytes(bytesToHex(selector) + words.join(""));
+}
+
+// ============================================================
+// QUOTE
+// ============================================================
+
+/** OP Stack GasPriceOracle predeploy. */
+const OP_GAS_PRICE_ORACLE = "0x420000000000000000000000000000000000000F";
+/** getL1FeeUpperBound(uint256) — takes the unsigned transaction's size */
+const GET_L1_FEE_UPPER_BOUND = "0xf1c7a58b";
+
+/** Upper bound of the OP Stack L1 data fee for a transaction with `dataLength` bytes of calldata. */
+export async function estimateL1DataFee(rpcUrl: string, dataLength: number, options: RpcOptions = {}): Promise<bigint> {
+  // ~60 bytes of RLP for the fields around the calldata
+  const size = BigInt(dataLength + 60).toString(16).padStart(64, "0");
+  const result = await jsonRpc<string>(rpcUrl, "eth_call", [
+    { to: OP_GAS_PRICE_ORACLE, data: `${GET_L1_FEE_UPPER_BOUND}${size}` },
+    "latest",
+  ], options);
+  return BigInt(result);
+}
+
+export interface EvmTxQuote {
+  gasLimit: bigint;
+  fees: EvmFees;
+  /** OP Stack L1 data fee (upper bound), wei; 0 elsewhere */
+  l1DataFee: bigint;
+  /** Most the transaction can cost in fees per speed, wei: gasLimit × gasPrice + l1DataFee */
+  maxCost: Record<FeeSpeed, bigint>;
+}
+
+/** Gas limit, fees and worst-case fee cost of a transaction, without signing it. */
+export async function quoteEvmTransaction(
+  rpcUrl: string,
+  tx: EvmTxRequest,
+  options: EvmFeeOptions & { bufferPercent?: number } = {},
+): Promise<EvmTxQuote> {
+  const [gasLimit, fees] = await Promise.all([estimateEvmGas(rpcUrl, tx, options), estimateEvmFees(rpcUrl, options)]);
+  const l1DataFee = fees.chain && EVM_FEE_PRESETS[fees.chain].l1DataFee
+    ? await estimateL1DataFee(rpcUrl, toBytes(tx.data ?? []).length, options)
+    : 0n;
+  const cost = (speed: FeeSpeed) => gasLimit * fees[speed].gasPrice + l1DataFee;
+  return { gasLimit, fees, l1DataFee, maxCost: { slow: cost("slow"), normal: cost("normal"), fast: cost("fast") } };
+}
+
+// ============================================================
+// RAW TRANSACTIONS — what rawTxHex_v0 / rawTxHex_v1 contain
+// ============================================================
+
+type RlpItem = Uint8Array | RlpItem[];
+
+function rlpDecode(bytes: Uint8Array, offset = 0): { item: RlpItem; end: number } {
+  const b = bytes[offset];
+  if (b === undefined) throw new MeneseError("Truncated RLP");
+  const length = (from: number, n: number) => Number(BigInt(`0x${bytesToHex(bytes.slice(from, from + n)) || "0"}`));
+  if (b < 0x80) return { item: bytes.slice(offset, offset + 1), end: offset + 1 };
+  if (b <= 0xb7) return { item: bytes.slice(offset + 1, offset + 1 + b - 0x80), end: offset + 1 + b - 0x80 };
+  if (b <= 0xbf) {
+    const n = b - 0xb7;
+    const len = length(offset + 1, n);
+    return { item: bytes.slice(offset + 1 + n, offset + 1 + n + len), end: offset + 1 + n + len };
+  }
+  const n = b <= 0xf7 ? 0 : b - 0xf7;
+  const len = b <= 0xf7 ? b - 0xc0 : length(offset + 1, n);
+  const items: RlpItem[] = [];
+  let at = offset + 1 + n;
+  const end = at + len;
+  while (at < end) {
+    const next = rlpDecode(bytes, at);
+    items.push(next.item);
+    at = next.end;
+  }
+  return { item: items, end };
+}
+
+function rlpEncode(item: RlpItem): Uint8Array {
+  const prefix = (short: number, length: number) => {
+    if (length <= 55) return [short + length];
+    const hex = length.toString(16);
+    const bytes = hexToBytes(hex.length % 2 ? `0${hex}` : hex);
+    return [short + 55 + bytes.length, ...bytes];
+  };
+  if (!Array.isArray(item)) {
+    return item.length === 1 && item[0] < 0x80 ? item : Uint8Array.from([...prefix(0x80, item.length), ...item]);
+  }
+  const body = item.flatMap((x) => [...rlpEncode(x)]);
+  return Uint8Array.from([...prefix(0xc0, body.length), ...body]);
+}
+
+/** Signer of an RLP-decoded transaction: keccak of the unsigned payload, then ecrecover. "" if it does not recover. */
+function recoverSender(type: 0 | 1 | 2, f: Uint8Array[]): string {
+  const int = (x: Uint8Array) => BigInt(`0x${bytesToHex(x) || "0"}`);
+  let payload: Uint8Array;
+  let recovery: number;
+  let [r, s]: Uint8Array[] = [];
+  if (type === 0) {
+    const v = int(f[6]);
+    [r, s] = [f[7], f[8]];
+    // EIP-155: v = chainId·2 + 35 + parity, and the chain id is signed too
+    const chainId = v >= 35n ? (v - 35n) / 2n : undefined;
+    recovery = Number(chainId === undefined ? v - 27n : v - 35n - 2n * chainId);
+    const hex = chainId?.toString(16) ?? "";
+    const id = hexToBytes(hex.length % 2 ? `0${hex}` : hex);
+    payload = rlpEncode(chainId === undefined ? f.slice(0, 6) : [...f.slice(0, 6), id, new Uint8Array(), new Uint8Array()]);
+  } else {
+    const n = type === 2 ? 9 : 8;
+    [r, s] = [f[n + 1], f[n + 2]];
+    recovery = Number(int(f[n]));
+    payload = Uint8Array.from([type, ...rlpEncode(f.slice(0, n))]);
+  }
+  const key = secp256k1Recover(keccak256(payload), r, s, recovery);
+  return key ? `0x${bytesToHex(keccak256(key).slice(12))}` : "";
+}
+
+export interface EvmRawTx {
+  /** 0 legacy, 1 EIP-2930 (access list), 2 EIP-1559 */
+  type: 0 | 1 | 2;
+  /** undefined for pre-EIP-155 legacy transactions (replayable on every chain) */
+  chainId?: bigint;
+  nonce: bigint;
+  gasLimit: bigint;
+  /** Type 0 and 1 */
+  gasPrice?: bigint;
+  /** Type 2 */
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  to: string;
+  value: bigint;
+  data: Uint8Array;
+  /** keccak256 of the raw bytes — the transaction hash */
+  hash: string;
+  /** Address recovered from the signature (lowercase hex) — the account that pays */
+  from: string;
+  /** Most it can spend: value + gasLimit × (gasPrice or maxFeePerGas), wei */
+  maxCost: bigint;
+}
+
+/** Decode a signed raw transaction (hex, with or without 0x). */
+export function decodeEvmRawTx(rawHex: string): EvmRawTx {
+  const raw = hexToBytes(rawHex);
+  const type = raw[0] === 0x01 || raw[0] === 0x02 ? raw[0] : 0;
+  const { item } = rlpDecode(raw, type === 0 ? 0 : 1);
+  if (!Array.isArray(item)) throw new MeneseError("Not an EVM transaction: RLP payload is not a list");
+  const f = item as Uint8Array[];
+  const int = (x: Uint8Array) => BigInt(`0x${bytesToHex(x) || "0"}`);
+  const address = (x: Uint8Array) => (x.length ? `0x${bytesToHex(x)}` : "");   // "" = contract creation
+  const hash = `0x${bytesToHex(keccak256(raw))}`;
+  const from = recoverSender(type as 0 | 1 | 2, f);
+
+  if (type === 2) {
+    const [chainId, nonce, tip, maxFee, gasLimit, to, value, data] = f;
+    const tx = { type, chainId: int(chainId), nonce: int(nonce), maxPriorityFeePerGas: int(tip), maxFeePerGas: int(maxFee),
+      gasLimit: int(gasLimit), to: address(to), value: int(value), data, hash, from } as const;
+    return { ...tx, maxCost: tx.value + tx.gasLimit * tx.maxFeePerGas };
+  }
+  if (type === 1) {
+    const [chainId, nonce, gasPrice, gasLimit, to, value, data] = f;
+    const tx = { type, chainId: int(chainId), nonce: int(nonce), gasPrice: int(gasPrice), gasLimit: int(gasLimit),
+      to: address(to), value: int(value), data, hash, from } as const;
+    return { ...tx, maxCost: tx.value + tx.gasLimit * tx.gasPrice };
+  }
+  const [nonce, gasPrice, gasLimit, to, value, data, v] = f;
+  const recovery = int(v);
+  const tx = { type: 0 as const, nonce: int(nonce), gasPrice: int(gasPrice), gasLimit: int(gasLimit),
+    to: address(to), value: int(value), data, hash, from,
+    chainId: recovery >= 35n ? (recovery - 35n) / 2n : undefined };
+  return { ...tx, maxCost: tx.value + tx.gasLimit * tx.gasPrice };
+}
@@ -0,0 +1,257 @@
+// evm-nonce.ts — Nonce allocation for concurrent EVM sign-only sends
+//
+// eth_getTransactionCount is only right for one transaction at a time: two
+// parallel sends from the same Menese EVM address read the same count, sign
+// the same nonce, and one of them is dropped. An EvmNonceManager hands out
+// nonces for one address on one chain, one at a time:
+//
+//   const nonces = evmNonceManager("base", sender, rpc);
+//   const lease = await nonces.reserve();
+//   try {
+//     const args = await prepareEvmTransfer(rpc, sender, to, "0.01", { evmChain: "base", nonce: lease.nonce });
+//     const { txId } = await evmBroadcaster("base", rpc).broadcast(await menese.buildAndSignEvmTxWithData(...args));
+//     lease.sent(args, txId);
+//   } catch (e) {
+//     lease.release();    // not broadcast — the next send reuses the nonce, no gap
+//     throw e;
+//   }
+//
+// signAndBroadcast does exactly this, so parallel signAndBroadcast calls are
+// safe. Stuck transactions can be re-priced (speedUp) or replaced by a 0-value
+// self-transfer (cancel) — same nonce, higher gasPrice, signed by the canister.
+// gaps() lists nonces that block the queue.
+
+import type { ActorSubclass } from "@dfinity/agent";
+import { EVM_CHAIN_IDS, type EvmChainId } from "./chains";
+import { evmBroadcaster, type BroadcastResult } from "./broadcasters";
+import type { SignArgs } from "./chain-context";
+import { MeneseError } from "./errors";
+import { estimateEvmFees, type FeeSpeed } from "./evm-fees";
+import { jsonRpc } from "./rpc";
+import type { MeneseService } from "./menese-types";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type EvmTxArgs = SignArgs<"buildAndSignEvmTxWithData">;
+
+export interface NonceLease {
+  readonly nonce: bigint;
+  /** The transaction with this nonce was broadcast — track it for speedUp / cancel / gaps(). */
+  sent(args: EvmTxArgs, txHash: string): void;
+  /** Nothing was broadcast — the nonce goes back to the pool. No-op after sent(). */
+  release(): void;
+}
+
+/** A broadcast transaction the manager still considers pending. */
+export interface TrackedEvmTx {
+  nonce: bigint;
+  txHash: string;
+  /** buildAndSignEvmTxWithData arguments it was signed with */
+  args: EvmTxArgs;
+  /** Hashes of the transactions it replaced (speedUp / cancel), oldest first */
+  replaced: string[];
+  sentAt: number;
+}
+
+export interface NonceGap {
+  nonce: bigint;
+  /** released: reserved and given back; dropped: broadcast but gone from the mempool; unknown: not sent from here */
+  reason: "released" | "dropped" | "unknown";
+}
+
+export interface ReplaceOptions {
+  /** Fee preset the new price must reach. Default: "fast" */
+  speed?: FeeSpeed;
+  /** Minimum increase over the old gasPrice, percent. Nodes reject replacements under 10%. Default: 15 */
+  bumpPercent?: number;
+  /** Broadcast rawTxHex_v0 instead of v1 */
+  legacy?: boolean;
+}
+
+// ============================================================
+// MANAGER
+// ============================================================
+
+export class EvmNonceManager {
+  readonly chain: EvmChainId;
+  readonly address: string;
+  rpcUrl: string;
+
+  /** Next nonce never handed out; undefined until the first reserve() */
+  private next?: bigint;
+  /** Released nonces, reused lowest first */
+  private free: bigint[] = [];
+  /** Leased, neither sent nor released yet — a send in progress, not a gap */
+  private leased = new Set<bigint>();
+  private tracked = new Map<bigint, TrackedEvmTx>();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(chain: EvmChainId, address: string, rpcUrl: string) {
+    this.chain = chain;
+    this.address = address;
+    this.rpcUrl = rpcUrl;
+  }
+
+  /** Transactions broadcast through this manager and not yet seen mined, lowest nonce first. */
+  get pending(): TrackedEvmTx[] {
+    return [...this.tracked.values()].sort((a, b) => (a.nonce < b.nonce ? -1 : 1));
+  }
+
+  /**
+   * Next free nonce: a released one first, else max(chain's pending count,
+   * last handed out + 1) — the local count wins while our transactions have
+   * not reached the node yet. Concurrent calls are served one by one.
+   */
+  reserve(): Promise<NonceLease> {
+    return this.serial(async () => {
+      const [mined, pending] = await Promise.all([this.count("latest"), this.count("pending")]);
+      this.prune(mined);
+      // A released nonce below the mined count was used elsewhere — skip it
+      this.free = this.free.filter((n) => n >= mined);
+      const nonce = this.free.shift() ?? this.advance(pending);
+      return this.lease(nonce);
+    });
+  }
+
+  /**
+   * Nonces between the mined count and the last one handed out that nothing
+   * in the mempool will fill. Transactions after a gap wait forever — fill
+   * it with cancel() (or the next reserve(), for released nonces).
+   */
+  async gaps(): Promise<NonceGap[]> {
+    const mined = await this.count("latest");
+    this.prune(mined);
+    const gaps: NonceGap[] = [];
+    for (let n = mined; this.next !== undefined && n < this.next; n++) {
+      const tx = this.tracked.get(n);
+      if (this.leased.has(n)) continue;
+      if (this.free.includes(n)) gaps.push({ nonce: n, reason: "released" });
+      else if (!tx) gaps.push({ nonce: n, reason: "unknown" });
+      else if (!(await jsonRpc(this.rpcUrl, "eth_getTransactionByHash", [tx.txHash]))) {
+        gaps.push({ nonce: n, reason: "dropped" });
+      }
+    }
+    return gaps;
+  }
+
+  /** Re-sign a pending transaction with a higher gasPrice (replace-by-fee). */
+  async speedUp(
+    menese: ActorSubclass<MeneseService>,
+    nonce: bigint,
+    options: ReplaceOptions = {},
+  ): Promise<BroadcastResult> {
+    const tx = this.tracked.get(nonce);
+    if (!tx) throw new MeneseError(`${this.chain}: no pending transaction with nonce ${nonce} from ${this.address}`);
+    const [to, value, data, , gasLimit, gasPrice, chainId] = tx.args;
+    return this.replace(menese, [to, value, data, nonce, gasLimit, await this.bumped(gasPrice, options), chainId], options);
+  }
+
+  /**
+   * Replace the transaction at `nonce` with a 0-value transfer to ourselves.
+   * Also fills gaps: works for nonces this manager never sent.
+   */
+  async cancel(
+    menese: ActorSubclass<MeneseService>,
+    nonce: bigint,
+    options: ReplaceOptions = {},
+  ): Promise<BroadcastResult> {
+    const old = this.tracked.get(nonce)?.args[5] ?? 0n;
+    const chainId = BigInt(EVM_CHAIN_IDS[this.chain]);
+    return this.replace(menese, [this.address, 0n, [], nonce, 21_000n, await this.bumped(old, options), chainId], options);
+  }
+
+  /** Forget everything local — the next reserve() starts from the chain's pending count. */
+  reset(): void {
+    this.next = undefined;
+    this.free = [];
+    this.leased.clear();
+    this.tracked.clear();
+  }
+
+  // ── Internals ─────────────────────────────────────────────
+
+  private serial<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => {});
+    return run;
+  }
+
+  private async count(tag: "latest" | "pending"): Promise<bigint> {
+    return BigInt(await jsonRpc<string>(this.rpcUrl, "eth_getTransactionCount", [this.address, tag]));
+  }
+
+  private advance(pending: bigint): bigint {
+    const nonce = this.next === undefined || pending > this.next ? pending : this.next;
+    this.next = nonce + 1n;
+    return nonce;
+  }
+
+  /** Mined transactions are final for nonce purposes — stop tracking them. */
+  private prune(mined: bigint): void {
+    for (const n of this.tracked.keys()) if (n < mined) this.tracked.delete(n);
+  }
+
+  private lease(nonce: bigint): NonceLease {
+    let settled = false;
+    this.leased.add(nonce);
+    return {
+      nonce,
+      sent: (args, txHash) => {
+        settled = true;
+        this.leased.delete(nonce);
+        this.tracked.set(nonce, { nonce, txHash, args, replaced: [], sentAt: Date.now() });
+      },
+      release: () => {
+        if (settled) return;
+        settled = true;
+        this.leased.delete(nonce);
+        this.free = [...this.free, nonce].sort((a, b) => (a < b ? -1 : 1));
+      },
+    };
+  }
+
+  /** max(old + bumpPercent, current preset price) */
+  private async bumped(old: bigint, options: ReplaceOptions): Promise<bigint> {
+    const fees = await estimateEvmFees(this.rpcUrl, { chain: this.chain });
+    const bump = (old * BigInt(100 + (options.bumpPercent ?? 15)) + 99n) / 100n;
+    const preset = fees[options.speed ?? "fast"].gasPrice;
+    return bump > preset ? bump : preset;
+  }
+
+  private async replace(menese: ActorSubclass<MeneseService>, args: EvmTxArgs, options: ReplaceOptions): Promise<BroadcastResult> {
+    const nonce = args[3];
+    const signed = await menese.buildAndSignEvmTxWithData(...args);
+    const result = await evmBroadcaster(this.chain, this.rpcUrl, { legacy: options.legacy }).broadcast(signed);
+    const old = this.tracked.get(nonce);
+    this.tracked.set(nonce, {
+      nonce,
+      txHash: result.txId,
+      args,
+      replaced: old ? [...old.replaced, old.txHash] : [],
+      sentAt: Date.now(),
+    });
+    this.free = this.free.filter((n) => n !== nonce);
+    if (this.next === undefined || nonce >= this.next) this.next = nonce + 1n;
+    return result;
+  }
+}
+
+// ============================================================
+// SHARED MANAGERS
+// ============================================================
+
+const managers = new Map<string, EvmNonceManager>();
+
+/**
+ * The process-wide manager for `address` on `chain` — every send from that
+ * address should go through the same one. `rpcUrl` replaces the one it had.
+ */
+export function evmNonceManager(chain: EvmChainId, address: string, rpcUrl: string): EvmNonceManager {
+  const key = `${chain}:${address.toLowerCase()}`;
+  let manager = managers.get(key);
+  if (!manager) managers.set(key, (manager = new EvmNonceManager(chain, address, rpcUrl)));
+  manager.rpcUrl = rpcUrl;
+  return manager;
+}
@@ -0,0 +1,68 @@
+// max-sendable.test.ts — what getMaxSendable leaves to send after fees and reserves, against the mock canister
+
+import assert from "node:assert/strict";
+import { test, type TestContext } from "node:test";
+import { InsufficientFunds } from "./errors";
+import { getMaxSendable, sendMax } from "./max-sendable";
+import { createMockMenese } from "./mock-menese";
+
+const SOL_TO = "11111111111111111111111111111111";
+const units = (m: { balance: { units: bigint }; max: { units: bigint }; fee: { units: bigint }; reserve: { units: bigint }; minimum?: { units: bigint } }) =>
+  ({ balance: m.balance.units, max: m.max.units, fee: m.fee.units, reserve: m.reserve.units, minimum: m.minimum?.units });
+
+/** Stub fetch as a node answering each method from `results`, recording the methods asked. */
+function stubNode(t: TestContext, results: Record<string, unknown>) {
+  const asked: string[] = [];
+  t.mock.method(globalThis, "fetch", async (_url: string, init: RequestInit) => {
+    const { id, method } = JSON.parse(String(init.body));
+    asked.push(method);
+    return new Response(JSON.stringify({ jsonrpc: "2.0", id, result: results[method] }));
+  });
+  return asked;
+}
+
+test("solana: balance less the signature and priority fees, rent-exempt minimum without a node", async (t) => {
+  const asked = stubNode(t, {});
+  const mock = createMockMenese().setBalance("solana", 1_000_000n);
+  assert.deepEqual(units(await getMaxSendable("solana", "native", { service: mock.service })), {
+    balance: 1_000_000n, max: 995_000n, fee: 5_000n, reserve: 0n, minimum: 890_880n,
+  });
+  const max = await getMaxSendable("solana", "native", { service: mock.service }, { priorityFee: 1_000n, rentExemptMinimum: 1n });
+  assert.deepEqual([max.max.units, max.minimum?.units], [994_000n, 1n]);
+  assert.deepEqual(asked, []);
+});
+
+test("solana: the rent-exempt minimum comes from the node when one is given", async (t) => {
+  const asked = stubNode(t, { getMinimumBalanceForRentExemption: 900_000 });
+  const mock = createMockMenese().setBalance("solana", 1_000_000n);
+  const max = await getMaxSendable("solana", "native", { service: mock.service }, { rpcs: { solana: "https://solana.test" } });
+  assert.equal(max.minimum?.units, 900_000n);
+  assert.deepEqual(asked, ["getMinimumBalanceForRentExemption"]);
+});
+
+test("xrp: the account reserve stays behind, the fee is the higher of base and open-ledger", async (t) => {
+  stubNode(t, {
+    account_info: { status: "success", account_data: { OwnerCount: 2 } },
+    server_info: { status: "success", info: { validated_ledger: { reserve_base_xrp: 1, reserve_inc_xrp: 0.2 } } },
+    fee: { status: "success", drops: { base_fee: "10", open_ledger_fee: "15" } },
+  });
+  const mock = createMockMenese().setBalance("xrp", 5_000_000n);
+  assert.deepEqual(units(await getMaxSendable("xrp", "native", { service: mock.service }, { rpcs: { xrp: "https://xrp.test" } })), {
+    balance: 5_000_000n, max: 3_599_985n, fee: 15n, reserve: 1_400_000n, minimum: 1_000_000n,
+  });
+});
+
+test("fixed-fee chains never go below zero", async () => {
+  const mock = createMockMenese().setBalance("sui", 1_000n);
+  const max = await getMaxSendable("sui", "native", { service: mock.service });
+  assert.deepEqual([max.max.units, max.fee.units], [0n, 2_000_000n]);
+});
+
+test("sendMax sends the max, and refuses when nothing is left", async () => {
+  const mock = createMockMenese().setBalance("solana", 1_000_000n);
+  const receipt = await sendMax({ chain: "solana", to: SOL_TO }, { service: mock.service });
+  assert.equal(receipt.amount.units, 995_000n);
+  assert.equal(mock.balance("solana"), 5_000n);
+  await assert.rejects(sendMax({ chain: "solana", to: SOL_TO }, { service: mock.service }), InsufficientFunds);
+  assert.equal(mock.callsTo("sendSolTransaction").length, 1);
+});
@@ -0,0 +1,406 @@
+// max-sendable.ts — The most a send can move, on every chain
+//
+// A wallet can rarely send its whole balance: the fee comes out of it, and
+// some chains make an account keep a minimum. getMaxSendable works out what
+// is left to send, per chain and asset:
+//
+//   const { max, fee, reserve } = await getMaxSendable("xrp", "native", session.config);
+//   await send({ chain: "xrp", to, amount: max }, session.config);
+//
+//   // Or in one call — throws InsufficientFunds when nothing can be sent
+//   await sendMax({ chain: "solana", to: treasury }, session.config);
+//   await sendMax({ chain: "icp", asset: { type: "icrc1", ledger: CKBTC_LEDGER }, to: principal }, session.config);
+//
+//   chain        fee                                       kept back
+//   bitcoin/ltc  getBitcoinMaxSendAmount (canister, exact)  —
+//   solana       5,000 lamports + priorityFee               — (0 lamports is a valid balance)
+//   spl          5,000 lamports, in SOL                     —
+//   icp / icrc1  icrc1_fee of the ledger                    —
+//   evm / erc20  gasLimit × gasPrice (+ OP Stack L1 fee)    —
+//   xrp          open-ledger fee                            base reserve + owner reserve × objects
+//   cardano      min_fee_a × size + min_fee_b               — (no change output)
+//   ton          wallet transfer fee + storage fee due      —
+//   near         ~0.0001 NEAR of gas                        storage staking of the account
+//   sui, aptos, tron, thorchain, cloak — typical transfer fees
+//
+// `minimum` is the smallest amount that can arrive: a Cardano output below
+// min-UTXO is invalid, and a new Solana or XRP account has to be funded with
+// at least the rent-exempt minimum / base reserve.
+//
+// Only Bitcoin and Litecoin fees come from the canister; the others are
+// estimated from your nodes (same RPCs as send.ts) and the canister picks the
+// real fee when it sends. sendMax() on Sui uses sendSuiMax, which empties
+// the wallet exactly. All queries are free — sendMax costs 1 action.
+
+import type { ActorSubclass } from "@dfinity/agent";
+import { toConfig, type AgentSource } from "./agent-config";
+import { Amount } from "./amount";
+import { isEvmChain, txExplorerUrl, type ChainId } from "./chains";
+import { prepareCardanoTransfer } from "./chain-context";
+import { InsufficientFunds, MeneseError, unwrap } from "./errors";
+import { evmCalldata, quoteEvmTransaction, type FeeSpeed } from "./evm-fees";
+import { chainRpcFor, solanaRpcFor, type Network } from "./network";
+import { getJson, jsonRpc, rippledRpc, type RpcOptions } from "./rpc";
+import { hasRpcPool } from "./rpc-pool";
+import { createMeneseActor } from "./sdk-setup";
+import { checkSendRequest, send, tokenOf, type SendAsset, type SendOptions, type SendReceipt, type SendRequest } from "./send";
+import type { MeneseService } from "./menese-types";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export interface MaxSendable {
+  chain: ChainId;
+  asset: SendAsset;
+  /** What the wallet holds of the asset — for Cardano, its ADA-only UTXOs */
+  balance: Amount;
+  /** Most one send can move; zero when the fee and reserve take everything */
+  max: Amount;
+  /** Fee of that send in the chain's coin (ICRC-1: in the token) */
+  fee: Amount;
+  /** What the account has to keep of the chain's coin after the send */
+  reserve: Amount;
+  /** Smallest amount that can arrive (Cardano), or fund a new account (Solana, XRP) */
+  minimum?: Amount;
+}
+
+export interface MaxSendableOptions extends RpcOptions {
+  /** Reuse an actor (e.g. `await session.menese()`) instead of creating one from the source */
+  menese?: ActorSubclass<MeneseService>;
+  network?: Network;
+  /** Node per chain. Default: the chain's RpcPool (rpc-pool.ts) or the network's */
+  rpcs?: Partial<Record<ChainId, string>>;
+  /** Recipient, when it changes the fee — EVM contracts cost more gas than wallets */
+  to?: string;
+  /** EVM fee preset (evm-fees.ts). Default: "normal" */
+  speed?: FeeSpeed;
+  /** Bitcoin / Litecoin fee rate, sat/vB. Default: the canister's */
+  feeRate?: bigint;
+  /** Solana: priority fee on top of the signature fee, lamports. Default: 0 — sendSolTransaction sets none */
+  priorityFee?: bigint;
+  /**
+   * Solana: rent-exempt minimum of an empty account, lamports. Default: asked
+   * of the node when `rpcs.solana`, a Solana RpcPool or a network is set,
+   * else 890880 — so a mocked actor needs no network
+   */
+  rentExemptMinimum?: bigint;
+  /** TRC-20: most TRX the transaction may burn for energy. Default: "30", as in send() */
+  feeLimit?: SendOptions["feeLimit"];
+}
+
+const SOLANA_SIGNATURE_FEE = 5_000n;
+const SOLANA_RENT_EXEMPT_MINIMUM = 890_880n;   // a 0-byte account, when the node does not say
+const ICP_LEDGER = "ryjl3-tyaaa-aaaaa-aaaba-cai";
+const XRP_BASE_FEE = 12n;                      // drops
+const DROPS_PER_XRP = 1_000_000;
+// Cardano mainnet protocol parameters (Conway)
+const CARDANO_MIN_FEE_A = 44n;                 // lovelace per byte
+const CARDANO_MIN_FEE_B = 155_381n;
+const CARDANO_COINS_PER_UTXO_BYTE = 4_310n;
+const CARDANO_ADA_OUTPUT_BYTES = 65n;          // an ADA-only output to a base address
+// A wallet transfer: body and witness around ~40 bytes per input
+const cardanoTxBytes = (inputs: number) => 150n + 40n * BigInt(inputs) + CARDANO_ADA_OUTPUT_BYTES;
+const TON_TRANSFER_FEE = 6_000_000n;           // gas + forward fees of a wallet v4 / v5 transfer, nanoton
+// A wallet's code and data, ~6,000 bits in ~20 cells, at basechain prices (1 per bit, 500 per cell, per 2^16 s)
+const TON_WALLET_STORAGE_PRICE = 6_000n + 20n * 500n;
+const SUI_TRANSFER_FEE = 2_000_000n;           // computation + storage of the new coin object, MIST
+const APTOS_TRANSFER_GAS = 2_000n;             // gas units, covering a transfer that creates the account
+const APTOS_GAS_PRICE = 100n;                  // octas per gas unit, when the node does not say
+const NEAR_TRANSFER_FEE = 10n ** 20n;          // 0.0001 NEAR — about twice a transfer's gas
+const NEAR_STORAGE_PRICE_PER_BYTE = 10n ** 19n;
+const TRON_TRANSFER_FEE = 270_000n;            // bandwidth burnt once the daily free bandwidth is used, sun
+const THORCHAIN_NATIVE_FEE = 2_000_000n;       // 0.02 RUNE
+const CLOAK_FEE_PER_KB = 10_000n;              // 0.01 CLOAK per started kB
+const DEFAULT_TRC20_FEE_LIMIT = "30";
+
+// ============================================================
+// BALANCES
+// ============================================================
+
+export interface BalanceOptions extends RpcOptions {
+  network?: Network;
+  /** Node per chain. Default: the chain's RpcPool (rpc-pool.ts) or the network's */
+  rpcs?: Partial<Record<ChainId, string>>;
+}
+
+/**
+ * What the caller's wallet holds of an asset, in its smallest unit, from free
+ * queries (plus the Solana node for SPL and the XRP node for IOUs). XRP IOUs
+ * use the 15 decimals send() reads IOU amounts with.
+ */
+export async function balanceOf(
+  menese: ActorSubclass<MeneseService>,
+  chain: ChainId,
+  asset: SendAsset = "native",
+  options: BalanceOptions = {},
+): Promise<bigint> {
+  const rpc = () => options.rpcs?.[chain] ?? chainRpcFor(chain, { network: options.network });
+  if (asset !== "native") {
+    switch (asset.type) {
+      case "icrc1": return unwrap(await menese.getICRC1Balance(asset.ledger), "getICRC1Balance");
+      case "trc20": return unwrap(await menese.getMyTrc20Balance(asset.contract), "getMyTrc20Balance");
+      case "erc20": {
+        const owner = (await menese.getMyEvmAddress()).evmAddress.replace(/^0x/i, "").padStart(64, "0");
+        const hex = unwrap(await menese.callEvmContractRead(asset.contract, "balanceOf(address)", [owner], rpc()), "callEvmContractRead");
+        return BigInt(`0x${hex.replace(/^0x/i, "") || "0"}`);
+      }
+      case "spl": {
+        const ata = await menese.getMySolanaAta(asset.mint);
+        const r = await jsonRpc<{ value: { amount: string } }>(solanaRpcFor(options), "getTokenAccountBalance", [ata], options);
+        return BigInt(r.value.amount);
+      }
+      case "xrpIou": {
+        const account = (await menese.getMyXrpAddress()).classicAddress;
+        const r = await rippledRpc<{ lines: Array<{ currency: string; balance: string }> }>(
+          rpc(), "account_lines", { account, peer: asset.issuer, ledger_index: "validated" }, options);
+        const line = r.lines.find((l) => l.currency === asset.currency);
+        return line ? Amount.parse(line.balance, { symbol: asset.currency, decimals: 15 }).units : 0n;
+      }
+    }
+  }
+  if (isEvmChain(chain)) return unwrap(await menese.getMyEvmBalance(rpc()), "getMyEvmBalance");
+  switch (chain) {
+    case "sui": return menese.getMySuiBalance();
+    case "tron": return unwrap(await menese.getTrxBalance((await menese.getTronAddress()).base58Address), "getTrxBalance");
+    case "cloak": return unwrap(await menese.getCloakBalance(), "getCloakBalance").balance;
+  }
+  const all = await menese.getAllBalances();
+  switch (chain) {
+    case "bitcoin":
+    case "litecoin":
+    case "near":
+      return all[chain];
+    case "xrp":
+      return Amount.parse(unwrap(all.xrp, "getAllBalances"), "xrp").units;   // whole XRP as text
+    case "thorchain":
+      return all.thorchain.find((b) => b.denom === "rune")?.amount ?? 0n;
+    case "aptos":
+    case "cardano":
+    case "icp":
+    case "solana":
+    case "ton":
+      return unwrap(all[chain], "getAllBalances");
+  }
+  throw new MeneseError(`Unknown chain "${chain}" — see CHAINS in chains.ts`);
+}
+
+// ============================================================
+// MAX SENDABLE
+// ============================================================
+
+/** Most the caller can send of `asset` on `chain` after fees and reserves. */
+export async function getMaxSendable(
+  chain: ChainId,
+  asset: SendAsset = "native",
+  source: AgentSource = {},
+  options: MaxSendableOptions = {},
+): Promise<MaxSendable> {
+  const config = toConfig(source);
+  const menese = options.menese ?? (await createMeneseActor(config));
+  const network = options.network ?? config.network;
+  const balances = { ...options, network };
+  const rpc = () => options.rpcs?.[chain] ?? chainRpcFor(chain, { network });
+  const coin = (units: bigint) => Amount.fromUnits(units, chain);
+
+  // Native coin: balance − fee − reserve
+  const native = async (fee: bigint, reserve = 0n, minimum?: bigint, balance?: bigint): Promise<MaxSendable> => {
+    const held = balance ?? (await balanceOf(menese, chain, "native", balances));
+    const left = held - fee - reserve;
+    return {
+      chain,
+      asset,
+      balance: coin(held),
+      max: coin(left > 0n ? left : 0n),
+      fee: coin(fee),
+      reserve: coin(reserve),
+      minimum: minimum === undefined ? undefined : coin(minimum),
+    };
+  };
+  // Token whose fee is paid in the chain's coin: all of it, if the coin covers the fee
+  const token = async (fee: bigint, reserve = 0n): Promise<MaxSendable> => {
+    if (asset === "native") throw new MeneseError("token() is for tokens");
+    const [held, coins, t] = await Promise.all([
+      balanceOf(menese, chain, asset, balances),
+      balanceOf(menese, chain, "native", balances),
+      tokenOf(menese, chain, asset),
+    ]);
+    return {
+      chain,
+      asset,
+      balance: Amount.fromUnits(held, t),
+      max: Amount.fromUnits(coins - reserve >= fee ? held : 0n, t),
+      fee: coin(fee),
+      reserve: coin(reserve),
+    };
+  };
+
+  if (isEvmChain(chain)) {
+    const from = (await menese.getMyEvmAddress()).evmAddress;
+    const to = options.to ?? from;
+    const held = await balanceOf(menese, chain, asset, balances);
+    const tx = asset === "native"
+      ? { from, to }
+      : { from, to: asset.type === "erc20" ? asset.contract : to, data: evmCalldata("transfer(address,uint256)", [to, held.toString(16)]) };
+    const quote = await quoteEvmTransaction(rpc(), tx, { ...options, chain });
+    const fee = quote.maxCost[options.speed ?? "normal"];
+    return asset === "native" ? native(fee, 0n, undefined, held) : token(fee);
+  }
+
+  if (asset !== "native") {
+    switch (asset.type) {
+      case "spl": return token(SOLANA_SIGNATURE_FEE + (options.priorityFee ?? 0n));
+      case "trc20": return token(Amount.from(options.feeLimit ?? DEFAULT_TRC20_FEE_LIMIT, "tron").units);   // upper bound
+      case "xrpIou": {
+        const { fee, reserve } = await xrpCosts(menese, rpc(), options);
+        return token(fee, reserve);
+      }
+      case "icrc1": {
+        // The ledger fee comes out of the token itself
+        const [held, info] = await Promise.all([
+          balanceOf(menese, chain, asset, balances),
+          menese.getICRC1TokenInfo(asset.ledger).then((r) => unwrap(r, "getICRC1TokenInfo")),
+        ]);
+        const t = await tokenOf(menese, chain, asset);
+        const left = held - info.fee;
+        return {
+          chain,
+          asset,
+          balance: Amount.fromUnits(held, t),
+          max: Amount.fromUnits(left > 0n ? left : 0n, t),
+          fee: Amount.fromUnits(info.fee, t),
+          reserve: Amount.zero(t),
+        };
+      }
+    }
+  }
+
+  switch (chain) {
+    case "bitcoin":
+    case "litecoin": {
+      const feeRate: [] | [bigint] = options.feeRate === undefined ? [] : [options.feeRate];
+      const method = chain === "bitcoin" ? "getBitcoinMaxSendAmount" : "getLitecoinMaxSendAmount";
+      const [held, r] = await Promise.all([
+        balanceOf(menese, chain, "native", balances),
+        menese[method](feeRate).then((x) => unwrap(x, method)),
+      ]);
+      return { chain, asset, balance: coin(held), max: coin(r.maxAmount), fee: coin(r.fee), reserve: coin(0n) };
+    }
+    case "solana": {
+      const rpcUrl = options.rpcs?.solana ?? (hasRpcPool("solana") || network ? solanaRpcFor({ network }) : undefined);
+      const rent = options.rentExemptMinimum ?? (rpcUrl
+        ? await jsonRpc<number>(rpcUrl, "getMinimumBalanceForRentExemption", [0], options).then(BigInt, () => SOLANA_RENT_EXEMPT_MINIMUM)
+        : SOLANA_RENT_EXEMPT_MINIMUM);
+      return native(SOLANA_SIGNATURE_FEE + (options.priorityFee ?? 0n), 0n, rent);
+    }
+    case "icp": {
+      const info = unwrap(await menese.getICRC1TokenInfo(ICP_LEDGER), "getICRC1TokenInfo");
+      return native(info.fee);
+    }
+    case "xrp": {
+      const { fee, reserve, baseReserve } = await xrpCosts(menese, rpc(), options);
+      return native(fee, reserve, baseReserve);
+    }
+    case "cardano": {
+      // Spends every ADA-only UTXO into one output, so there is no change to keep above min-UTXO
+      const sender = (await menese.getMyCardanoAddress()).bech32Address;
+      const [, , utxos] = await prepareCardanoTransfer(rpc(), sender, sender, 0n, options).catch((e) => {
+        if (e instanceof InsufficientFunds) return [sender, 0n, [], sender] as const;
+        throw e;
+      });
+      const held = utxos.reduce((sum, u) => sum + u.value, 0n);
+      const fee = CARDANO_MIN_FEE_A * cardanoTxBytes(utxos.length) + CARDANO_MIN_FEE_B;
+      const minUtxo = (160n + CARDANO_ADA_OUTPUT_BYTES) * CARDANO_COINS_PER_UTXO_BYTE;
+      const result = await native(fee, 0n, minUtxo, held);
+      return result.max.lt(minUtxo) ? { ...result, max: coin(0n) } : result;
+    }
+    case "ton": {
+      // Storage fees accrue until the wallet's next transaction, which pays them
+      const address = (await menese.getMyTonAddress()).nonBounceable;
+      const last = await getJson(`${rpc().replace(/\/+$/, "")}/getTransactions?address=${encodeURIComponent(address)}&limit=1`, options)
+        .then((r) => (r.ok && r.result.length ? BigInt(r.result[0].utime) : undefined), () => undefined);
+      const idle = last === undefined ? 0n : BigInt(Math.floor(Date.now() / 1000)) - last;
+      const storage = idle > 0n ? (idle * TON_WALLET_STORAGE_PRICE + 65_535n) / 65_536n : 0n;
+      return native(TON_TRANSFER_FEE + storage);
+    }
+    case "near": {
+      // The account must keep enough to stake its own storage
+      const accountId = (await menese.getMyNearAddress()).implicitAccountId;
+      const account = await jsonRpc<{ amount: string; storage_usage: number }>(rpc(), "query", {
+        request_type: "view_account",
+        finality: "final",
+        account_id: accountId,
+      }, options);
+      return native(NEAR_TRANSFER_FEE, BigInt(account.storage_usage) * NEAR_STORAGE_PRICE_PER_BYTE, undefined, BigInt(account.amount));
+    }
+    case "aptos": {
+      const price = await getJson<{ gas_estimate: number }>(`${rpc().replace(/\/+$/, "")}/estimate_gas_price`, options)
+        .then((r) => BigInt(r.gas_estimate), () => APTOS_GAS_PRICE);
+      return native(APTOS_TRANSFER_GAS * price);
+    }
+    case "sui": return native(SUI_TRANSFER_FEE);
+    case "tron": return native(TRON_TRANSFER_FEE);
+    case "thorchain": return native(THORCHAIN_NATIVE_FEE);
+    case "cloak": {
+      const info = unwrap(await menese.getCloakBalance(), "getCloakBalance");
+      const bytes = 10n + 148n * info.utxoCount + 34n;
+      return native(((bytes + 999n) / 1000n) * CLOAK_FEE_PER_KB, 0n, undefined, info.balance);
+    }
+  }
+  throw new MeneseError(`Unknown chain "${chain}" — see CHAINS in chains.ts`);
+}
+
+/** Open-ledger fee and the reserves of the caller's XRP account, in drops. */
+async function xrpCosts(menese: ActorSubclass<MeneseService>, rpcUrl: string, options: RpcOptions) {
+  const account = (await menese.getMyXrpAddress()).classicAddress;
+  const [info, state, fee] = await Promise.all([
+    rippledRpc(rpcUrl, "account_info", { account, ledger_index: "validated" }, options).catch((e) => {
+      if (e?.raw?.error === "actNotFound") return undefined;
+      throw e;
+    }),
+    rippledRpc(rpcUrl, "server_info", {}, options),
+    rippledRpc(rpcUrl, "fee", {}, options).catch(() => undefined),
+  ]);
+  const ledger = state.info.validated_ledger;
+  const drops = (xrp: number) => BigInt(Math.round(xrp * DROPS_PER_XRP));
+  const baseReserve = drops(ledger.reserve_base_xrp);
+  const owners = BigInt(info?.account_data.OwnerCount ?? 0);
+  const fees = [fee?.drops?.base_fee, fee?.drops?.open_ledger_fee].map((d) => BigInt(d ?? XRP_BASE_FEE));
+  return {
+    fee: fees[0] > fees[1] ? fees[0] : fees[1],
+    // An unfunded account has nothing to keep
+    reserve: info ? baseReserve + owners * drops(ledger.reserve_inc_xrp) : 0n,
+    baseReserve,
+  };
+}
+
+// ============================================================
+// SEND MAX
+// ============================================================
+
+/**
+ * Send everything getMaxSendable allows to `request.to`. Throws
+ * InsufficientFunds when that is nothing, or less than the chain's minimum
+ * for an output (Cardano). 1 action.
+ */
+export async function sendMax(
+  request: Omit<SendRequest, "amount">,
+  source: AgentSource = {},
+  options: SendOptions & MaxSendableOptions = {},
+): Promise<SendReceipt> {
+  const { chain } = request;
+  const asset = request.asset ?? "native";
+  const config = toConfig(source);
+  const menese = options.menese ?? (await createMeneseActor(config));
+  const max = await getMaxSendable(chain, asset, config, { ...options, menese, to: options.to ?? request.to });
+  if (!max.max.isPositive()) {
+    throw new InsufficientFunds(`${chain}: nothing to send — balance ${max.balance} ${max.balance.symbol}, fee ${max.fee} ${max.fee.symbol}, reserve ${max.reserve} ${max.reserve.symbol}`);
+  }
+  if (chain === "sui" && asset === "native") {
+    // The canister sends the whole balance less the gas it really pays — `amount` is the estimate
+    const { to } = await checkSendRequest({ ...request, amount: max.max }, options, options.network ?? config.network);
+    const raw = unwrap(await menese.sendSuiMax(to), "sendSuiMax");
+    return { chain, asset, method: "sendSuiMax", to, amount: max.max, txId: raw.txHash, explorerUrl: txExplorerUrl(chain, raw.txHash), raw };
+  }
+  return send({ ...request, amount: max.max }, config, { ...options, menese });
+}
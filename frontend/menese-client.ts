@@ -0,0 +1,78 @@
+// menese-client.ts — Strongly-typed MeneseSDK client
+//
+// MeneseClient exposes every method of the canister with full TypeScript
+// types (see menese-types.ts), so field mistakes such as `address` vs
+// `evmAddress` are compile errors instead of runtime `undefined`s.
+//
+//   const menese = await MeneseClient.create();
+//   const evm = await menese.getMyEvmAddress();
+//   evm.evmAddress;   // ok
+//   evm.address;      // compile error
+//
+// Calls go straight to the underlying actor — no wrapping, no extra cost.
+// `menese.unwrapped` exposes the same methods, but returns the success value
+// directly and throws a typed MeneseError on failure (see errors.ts):
+//
+//   const txHash = await menese.unwrapped.sendSolTransaction(to, lamports);
+
+import type { ActorSubclass } from "@dfinity/agent";
+import { createAnonActor, createMeneseActor, idlFactory } from "./sdk-setup";
+import {
+  MENESE_METHOD_NAMES,
+  assertMeneseIdlInSync,
+  type MeneseService,
+} from "./menese-types";
+import { unwrap, type Unwrapped } from "./errors";
+import type { AgentSource } from "./agent-config";
+
+/** MeneseService with every return value passed through unwrap(). */
+export type UnwrappedMeneseService = {
+  [K in keyof MeneseService]: (
+    ...args: Parameters<MeneseService[K]>
+  ) => Promise<Unwrapped<Awaited<ReturnType<MeneseService[K]>>>>;
+};
+
+// Declaration merging: the class carries every MeneseService method.
+export interface MeneseClient extends MeneseService {}
+
+export class MeneseClient {
+  /** The raw agent-js actor, for withOptions() or anything not covered here. */
+  readonly actor: ActorSubclass<MeneseService>;
+  /** Same methods, but `ok` values are returned and failures thrown as MeneseError. */
+  readonly unwrapped: UnwrappedMeneseService;
+
+  constructor(actor: ActorSubclass<MeneseService>) {
+    this.actor = actor;
+    const methods: Record<string, unknown> = {};
+    const unwrapped: Record<string, unknown> = {};
+    for (const name of MENESE_METHOD_NAMES) {
+      const method = actor[name] as (...args: unknown[]) => Promise<unknown>;
+      methods[name] = method;
+      unwrapped[name] = async (...args: unknown[]) => unwrap(await method(...args), name);
+    }
+    // The MeneseService half of the class (see the interface above)
+    Object.assign(this, methods);
+    this.unwrapped = unwrapped as UnwrappedMeneseService;
+  }
+
+  /**
+   * Authenticated client. Internet Identity login unless `config` supplies
+   * an agent, identity or wallet (see agent-config.ts).
+   */
+  static async create(config?: AgentSource): Promise<MeneseClient> {
+    return new MeneseClient(await createMeneseActor(config));
+  }
+
+  /** Anonymous client — only useful for query methods like health/version. */
+  static async anonymous(config?: AgentSource): Promise<MeneseClient> {
+    return new MeneseClient(await createAnonActor(config));
+  }
+
+  /**
+   * Throw if MeneseService has drifted from `idlFactory`.
+   * Cheap enough to call once at startup or in CI.
+   */
+  static assertInSync(): void {
+    assertMeneseIdlInSync(idlFactory);
+  }
+}
@@ -0,0 +1,1394 @@
+// menese-types.ts — TypeScript types for the MeneseSDK canister interface
+//
+// Mirrors `idlFactory` in sdk-setup.ts one-to-one, using the same mapping
+// dfx uses for generated declarations:
+//
+//   Text → string          Nat / Nat64 / Int / Int64 → bigint
+//   Bool → boolean         Nat8 / Nat32 / Float64    → number
+//   Opt(T) → [] | [T]      Vec(Nat8) → Uint8Array | number[]
+//   Variant → { tag: value } union
+//
+// MENESE_METHODS below is checked against the IDL at runtime
+// (assertMeneseIdlInSync) and against MeneseService at compile time,
+// so a method added, removed or re-shaped on one side fails loudly.
+
+import type { ActorMethod } from "@dfinity/agent";
+import type { Principal } from "@dfinity/principal";
+import { IDL } from "@dfinity/candid";
+
+// ============================================================
+// RESULT TYPES
+// ============================================================
+
+export type Result = { ok: string } | { err: string };
+export type ResultNat64 = { ok: bigint } | { err: string };
+export type ResultNat = { ok: bigint } | { err: string };
+export type ResultOf<T> = { ok: T } | { err: string };
+
+// ============================================================
+// ADDRESS TYPES (exact field names from .did)
+// ============================================================
+
+export interface SolanaAddressInfo {
+  address: string;
+  publicKeyHex: string;
+  publicKeyBytes: Uint8Array | number[];
+}
+
+export interface EvmAddressInfo {
+  evmAddress: string;           // NOT "address"
+  publicKeyHex: string;
+}
+
+/** Bitcoin, Litecoin, Thorchain */
+export interface AddressInfo {
+  bech32Address: string;        // NOT plain Text — it's a record
+  hash160Hex: string;
+  pubKeyHex: string;
+}
+
+export interface CardanoAddressInfo {
+  bech32Address: string;
+  addressBytesHex: string;
+  paymentPubKeyHex: string;
+  stakePubKeyHex: string;
+}
+
+export interface SuiAddressInfo {
+  suiAddress: string;           // NOT "address"
+  publicKeyHex: string;
+  publicKeyBytes: Uint8Array | number[];
+}
+
+export interface XrpAddressInfo {
+  classicAddress: string;
+  accountIdHex: string;
+  accountIdBytes: Uint8Array | number[];
+  publicKeyHex: string;
+}
+
+export interface TonAddressInfo {
+  bounceable: string;           // NOT "address"
+  nonBounceable: string;
+  rawAddress: string;
+  publicKeyHex: string;
+  stateInitBocBase64: string;
+}
+
+export interface TronAddressInfo {
+  base58Address: string;        // NOT "base58"
+  hexAddress: string;           // NOT "hex"
+  publicKeyHex: string;
+}
+
+export interface AptosAddressInfo {
+  address: string;
+  publicKeyHex: string;
+}
+
+/** Near */
+export interface PubKeyInfo {
+  implicitAccountId: string;
+  publicKeyBase58: string;
+  publicKeyHex: string;
+}
+
+export interface CloakAddressInfo {
+  base58Address: string;
+  addressBytesHex: string;
+  hash160Hex: string;
+  pubKeyHex: string;
+}
+
+// ============================================================
+// SEND RESULT TYPES
+// ============================================================
+
+/** SOL, SUI, Aptos, Near, Thor, Litecoin */
+export interface SendResult {
+  txHash: string;
+  senderAddress: string;
+  note: string;
+}
+
+export interface SendResultBtcLtc {
+  txid: string;
+  amount: bigint;
+  fee: bigint;
+  senderAddress: string;
+  recipientAddress: string;
+  note: string;
+}
+
+export interface SendICPResult {
+  amount: bigint;
+  blockHeight: bigint;
+  fee: bigint;
+  from: Principal;
+  to: Principal;
+}
+
+export interface SendICRC1Result {
+  amount: bigint;
+  blockHeight: bigint;
+  fee: bigint;
+  to: Principal;
+  token: string;
+}
+
+export interface SendResultEvm {
+  expectedTxHash: string;
+  nonce: bigint;
+  senderAddress: string;
+  note: string;
+}
+
+/** Flat record — check `success`, NOT a Result variant */
+export interface SendResultTon {
+  txHash: string;
+  bocBase64: string;
+  senderAddress: string;
+  success: boolean;
+  error: [] | [string];
+}
+
+/** Flat record — check `success`, NOT a Result variant */
+export interface SendResultXrp {
+  txHash: string;
+  explorerUrl: string;
+  message: string;
+  success: boolean;
+  sequence: number;
+  ledgerUsed: number;
+}
+
+export interface SendResultCloak {
+  txHash: string;
+  txHex: string;
+  changeValue: bigint;
+}
+
+export interface TransferAndSendResult {
+  txSignature: string;
+  serializedTxBase64: string;
+  blockhash: string;
+}
+
+export interface Icrc2ApproveResult {
+  amount: bigint;
+  blockHeight: bigint;
+  spender: Principal;
+  token: string;
+}
+
+export interface Icrc2AllowanceResult {
+  allowance: bigint;
+  expires_at: [] | [bigint];
+}
+
+export interface Icrc2TransferFromResult {
+  amount: bigint;
+  blockHeight: bigint;
+  from: Principal;
+  to: Principal;
+  token: string;
+}
+
+// ============================================================
+// SWAP TYPES
+// ============================================================
+
+/** Flat record — NOT a Result variant */
+export interface RaydiumApiSwapResult {
+  inputAmount: string;
+  outputAmount: string;
+  priceImpactPct: string;
+  txSignature: string;
+}
+
+export type DexId = { ICPSwap: null } | { KongSwap: null };
+
+export interface SwapRequest {
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: bigint;
+  minAmountOut: bigint;
+  slippagePct: number;
+  preferredDex: [] | [DexId];
+}
+
+export interface SwapResultIcp {
+  amountIn: bigint;
+  amountOut: bigint;
+  dex: DexId;
+  fee: bigint;
+  message: string;
+  success: boolean;
+  txId: bigint;
+}
+
+/** Flat record — check `success`, NOT a Result variant */
+export interface SwapResultSui {
+  success: boolean;
+  txDigest: string;
+  amountOut: string;
+  error: [] | [string];
+}
+
+/** Flat record — check `success`, NOT a Result variant */
+export interface SwapResultXrp {
+  success: boolean;
+  txHash: string;
+  explorerUrl: string;
+  message: string;
+  sourceAmount: string;
+  destinationAmount: string;
+}
+
+export interface TokenAmount {
+  currency: string;
+  issuer: string;
+  value: string;
+}
+
+export type SuiNetwork = { mainnet: null } | { testnet: null } | { devnet: null };
+
+export interface SwapQuote {
+  amountIn: string;
+  amountOut: string;
+  estimatedGas: bigint;
+  priceImpact: number;
+  routerData: string;
+}
+
+export interface UniswapSwapResult {
+  expectedTxHash: string;
+  approvalTxHash: [] | [string];
+  nonce: bigint;
+  note: string;
+  path: string[];
+  senderAddress: string;
+  amountIn: bigint;
+  minAmountOut: bigint;
+}
+
+export interface SwapEthForUsdcResult {
+  expectedTxHash: string;
+  nonce: bigint;
+  note: string;
+  senderAddress: string;
+  ethIn: bigint;
+  minUSDCOut: bigint;
+}
+
+export interface SwapUsdcForEthResult {
+  expectedTxHash: string;
+  approvalTxHash: [] | [string];
+  nonce: bigint;
+  note: string;
+  senderAddress: string;
+  usdcIn: bigint;
+  minETHOut: bigint;
+}
+
+export interface MultiHopSwapResult {
+  amountIn: bigint;
+  approvalTxHash: [] | [string];
+  expectedTxHash: string;
+  isDirect: boolean;
+  minAmountOut: bigint;
+  nonce: bigint;
+  note: string;
+  path: string[];
+  pathSymbols: string[];
+  senderAddress: string;
+}
+
+// ─── Quotes ─────────────────────────────────────────────────
+
+export interface RaydiumQuote {
+  inputAmount: string;
+  minOutputAmount: string;
+  outputAmount: string;
+  priceImpactPct: string;
+  routeInfo: string;
+  success: boolean;
+}
+
+export interface IcpDexQuote {
+  amountIn: bigint;
+  amountOut: bigint;
+  dex: DexId;
+  fee: bigint;
+  minAmountOut: bigint;
+  success: boolean;
+  tokenIn: string;
+  tokenOut: string;
+  poolId: [] | [string];
+  priceImpactPct: string;
+  rawData: string;
+  route: string[];
+}
+
+export interface IcpDexAggregatedQuote {
+  best: IcpDexQuote;
+  icpswapQuote: [] | [IcpDexQuote];
+  kongswapQuote: [] | [IcpDexQuote];
+  timestamp: bigint;
+}
+
+export interface MinswapQuote {
+  aggregator_fee: string;
+  amount_in: string;
+  amount_out: string;
+  avg_price_impact: string;
+  min_amount_out: string;
+  paths_json: string;
+  rawJson: string;
+  success: boolean;
+  token_in: string;
+  token_out: string;
+  total_dex_fee: string;
+  total_lp_fee: string;
+}
+
+export interface TokenQuote {
+  amountIn: bigint;
+  amountOut: bigint;
+  fromToken: string;
+  toToken: string;
+  path: string[];
+}
+
+export interface TokenQuoteMultiHop {
+  amountIn: bigint;
+  amountOut: bigint;
+  fromToken: string;
+  toToken: string;
+  isDirect: boolean;
+  path: string[];
+  pathSymbols: string[];
+  routeNote: string;
+}
+
+export interface XrpPathsResult {
+  destinationAmount: TokenAmount;
+  message: string;
+  paths: string;
+  sourceAmount: TokenAmount;
+  success: boolean;
+}
+
+// ─── ICP DEX liquidity ──────────────────────────────────────
+
+export interface IcpLpPosition {
+  poolId: string;
+  dex: DexId;
+  token0: string;
+  token1: string;
+  token0Symbol: string;
+  token1Symbol: string;
+  liquidity: bigint;
+  token0Amount: bigint;
+  token1Amount: bigint;
+  unclaimedFees: [] | [[bigint, bigint]];
+  valueUsd: [] | [bigint];
+}
+
+export interface AddIcpLiquidityRequest {
+  poolId: string;
+  dex: DexId;
+  token0: string;
+  token1: string;
+  token0Amount: bigint;
+  token1Amount: bigint;
+  slippagePct: number;
+}
+
+export interface AddIcpLiquidityResult {
+  success: boolean;
+  lpTokens: bigint;
+  token0Used: bigint;
+  token1Used: bigint;
+  poolId: string;
+  message: string;
+}
+
+export interface RemoveIcpLiquidityRequest {
+  poolId: string;
+  dex: DexId;
+  lpTokens: bigint;
+  slippagePct: number;
+}
+
+export interface RemoveIcpLiquidityResult {
+  success: boolean;
+  token0Received: bigint;
+  token1Received: bigint;
+  message: string;
+}
+
+export interface IcpDexPool {
+  poolId: string;
+  dex: DexId;
+  token0: string;
+  token1: string;
+  token0Symbol: string;
+  token1Symbol: string;
+  reserve0: bigint;
+  reserve1: bigint;
+  fee: bigint;
+  tvl: [] | [bigint];
+  apr: [] | [number];
+  volume24h: [] | [bigint];
+}
+
+export interface IcpDexToken {
+  canisterId: string;
+  symbol: string;
+  name: string;
+  decimals: number;
+  fee: bigint;
+  standard: { ICRC1: null } | { ICRC2: null } | { DIP20: null };
+  logo: [] | [string];
+  category: [] | [string];
+  availableOn: DexId[];
+}
+
+export interface RebalancePreferences {
+  targetCategories: string[];
+  riskTolerance: string;
+  minApy: [] | [number];
+  maxImpermanentLoss: [] | [number];
+  autoCompound: boolean;
+}
+
+export interface RebalanceRecommendation {
+  id: string;
+  action: { Swap: null } | { AddLiquidity: null } | { RemoveLiquidity: null } | { Compound: null };
+  fromToken: string;
+  toToken: string;
+  fromSymbol: string;
+  toSymbol: string;
+  amount: bigint;
+  reason: string;
+  estimatedApy: [] | [number];
+  currentApy: [] | [number];
+  impermanentLossRisk: { Low: null } | { Medium: null } | { High: null };
+  confidence: number;
+  estimatedGasUsd: [] | [number];
+}
+
+// ============================================================
+// TOKEN INFO / SETUP TYPES
+// ============================================================
+
+export interface Icrc1TokenInfo {
+  canisterId: string;
+  decimals: number;
+  fee: bigint;
+  name: string;
+  symbol: string;
+}
+
+export interface SupportedIcpToken {
+  name: string;
+  symbol: string;
+  canisterId: string;
+  type_: string;
+  category: string;
+}
+
+export interface ThorBalance {
+  amount: bigint;
+  denom: string;
+}
+
+export interface BalanceInfo {
+  address: string;
+  balance: bigint;
+  utxoCount: bigint;
+}
+
+export interface CreateAtaResult {
+  ata: string;
+  mint: string;
+  owner: string;
+  txSignature: string;
+  blockhash: string;
+}
+
+export interface TrustSetResult {
+  success: boolean;
+  txHash: string;
+  explorerUrl: string;
+  message: string;
+}
+
+// ============================================================
+// BILLING TYPES
+// ============================================================
+
+export type Tier =
+  | { Free: null }
+  | { Basic: null }
+  | { Developer: null }
+  | { Pro: null }
+  | { Enterprise: null };
+
+export interface DeveloperAccountV3 {
+  owner: Principal;
+  canisters: Principal[];
+  appName: string;
+  developerKey: string;
+  createdAt: bigint;
+}
+
+export interface UserAccount {
+  creditsMicroUsd: bigint;
+  tier: Tier;
+  actionsRemaining: bigint;
+  subscriptionExpiry: [] | [bigint];
+  actionsUsed: bigint;
+  totalDepositedMicroUsd: bigint;
+  createdAt: bigint;
+}
+
+export interface GatewayDeposit {
+  amount: bigint;
+  currency: string;
+  id: bigint;
+  ledgerCanisterId: string;
+  timestamp: bigint;
+  usdValueMicroUsd: bigint;
+  user: Principal;
+}
+
+// ============================================================
+// BATCH TYPES
+// ============================================================
+
+export interface AllAddresses {
+  aptos: AptosAddressInfo;
+  bitcoin: AddressInfo;
+  cardano: CardanoAddressInfo;
+  evm: EvmAddressInfo;
+  litecoin: AddressInfo;
+  near: PubKeyInfo;
+  solana: SolanaAddressInfo;
+  sui: SuiAddressInfo;
+  thorchain: AddressInfo;
+  ton: TonAddressInfo;
+  tron: TronAddressInfo;
+  xrp: XrpAddressInfo;
+}
+
+export interface AllBalances {
+  aptos: ResultNat64;
+  bitcoin: bigint;
+  cardano: ResultNat64;
+  icp: ResultNat64;
+  litecoin: bigint;
+  near: bigint;
+  solana: ResultNat64;
+  thorchain: ThorBalance[];
+  ton: ResultNat64;
+  xrp: Result;
+}
+
+// ============================================================
+// DEFI TYPES (Aave, Lido, Uniswap V2-style liquidity)
+// ============================================================
+
+export interface AaveSupplyEthResult {
+  ethSupplied: bigint;
+  nonce: bigint;
+  note: string;
+  senderAddress: string;
+  txHash: string;
+}
+
+export interface AaveWithdrawEthResult {
+  approvalTxHash: [] | [string];
+  ethWithdrawn: bigint;
+  nonce: bigint;
+  note: string;
+  senderAddress: string;
+  txHash: string;
+}
+
+export interface AaveSupplyTokenResult {
+  amountSupplied: bigint;
+  approvalTxHash: [] | [string];
+  nonce: bigint;
+  note: string;
+  senderAddress: string;
+  tokenAddress: string;
+  txHash: string;
+}
+
+export interface AaveWithdrawTokenResult {
+  amountWithdrawn: bigint;
+  nonce: bigint;
+  note: string;
+  senderAddress: string;
+  tokenAddress: string;
+  txHash: string;
+}
+
+export interface StakeEthResult {
+  ethStaked: bigint;
+  nonce: bigint;
+  note: string;
+  senderAddress: string;
+  txHash: string;
+}
+
+export interface WrapStEthResult {
+  approvalTxHash: [] | [string];
+  nonce: bigint;
+  note: string;
+  senderAddress: string;
+  stEthWrapped: bigint;
+  txHash: string;
+}
+
+export interface UnwrapWstEthResult {
+  nonce: bigint;
+  note: string;
+  senderAddress: string;
+  txHash: string;
+  wstEthUnwrapped: bigint;
+}
+
+export interface AddLiquidityEthResult {
+  txHash: string;
+  senderAddress: string;
+  nonce: bigint;
+  tokenAddress: string;
+  amountTokenDesired: bigint;
+  amountETHDesired: bigint;
+  amountTokenMin: bigint;
+  amountETHMin: bigint;
+  approvalTxHash: [] | [string];
+  note: string;
+}
+
+export interface AddLiquidityResult {
+  txHash: string;
+  senderAddress: string;
+  nonce: bigint;
+  tokenA: string;
+  tokenB: string;
+  amountADesired: bigint;
+  amountBDesired: bigint;
+  amountAMin: bigint;
+  amountBMin: bigint;
+  approvalTxHashA: [] | [string];
+  approvalTxHashB: [] | [string];
+  note: string;
+}
+
+export interface RemoveLiquidityEthResult {
+  txHash: string;
+  senderAddress: string;
+  nonce: bigint;
+  tokenAddress: string;
+  lpTokensBurned: bigint;
+  minTokenOut: bigint;
+  minETHOut: bigint;
+  approvalTxHash: [] | [string];
+  note: string;
+}
+
+export interface RemoveLiquidityResult {
+  txHash: string;
+  senderAddress: string;
+  nonce: bigint;
+  tokenA: string;
+  tokenB: string;
+  lpTokensBurned: bigint;
+  minAmountAOut: bigint;
+  minAmountBOut: bigint;
+  approvalTxHash: [] | [string];
+  note: string;
+}
+
+export interface PairAddressResult {
+  tokenA: string;
+  tokenB: string;
+  pairAddress: string;
+}
+
+export interface PoolReservesResult {
+  pairAddress: string;
+  reserve0: bigint;
+  reserve1: bigint;
+  token0: string;
+  token1: string;
+  blockTimestampLast: bigint;
+}
+
+// ============================================================
+// SIGN-ONLY TYPES
+// ============================================================
+
+export interface SignedSolTransfer {
+  signedTxBase64: string;
+  txMessage: Uint8Array | number[];
+  signature: Uint8Array | number[];
+  publicKey: Uint8Array | number[];
+}
+
+export interface SignedSolSwapTx {
+  signedTxBase64: string;
+  signature: Uint8Array | number[];
+}
+
+export interface SignedEvmTx {
+  /** Legacy type-0 gasPrice transaction */
+  rawTxHex_v0: string;
+  /** EIP-1559 type-2 transaction, gasPrice as the fee cap */
+  rawTxHex_v1: string;
+  txHash: string;
+  signature: string;
+}
+
+export interface SignedNearTx {
+  signedTxBytes: Uint8Array | number[];
+  txHash: Uint8Array | number[];
+  senderAccountId: string;
+}
+
+export interface SignedAptosTx {
+  signedTxBcs: Uint8Array | number[];
+  txHash: Uint8Array | number[];
+  senderAddress: string;
+}
+
+export interface SignedTonTx {
+  bocBase64: string;
+  senderAddress: string;
+  payloadHash: Uint8Array | number[];
+}
+
+export interface SignedSuiTx {
+  txBytesBase64: string;
+  signatureBase64: string;
+  senderAddress: string;
+}
+
+export interface CardanoUtxo {
+  tx_hash: string;
+  tx_index: bigint;
+  value: bigint;
+}
+
+export interface SignedCardanoTx {
+  signedTxCbor: Uint8Array | number[];
+  txHash: Uint8Array | number[];
+}
+
+export interface SignedXrpTx {
+  signedTxHex: string;
+  txHash: string;
+  senderAddress: string;
+  publicKeyHex: string;
+}
+
+export interface SignedTronTx {
+  txHex1b: string;
+  txHex1c: string;
+  txID: string;
+  senderAddress: string;
+}
+
+// ============================================================
+// STRATEGY ENGINE TYPES
+// ============================================================
+
+export type StrategyRuleType =
+  | { TakeProfit: null }
+  | { StopLoss: null }
+  | { DCA: null }
+  | { Rebalance: null }
+  | { Scheduled: null }
+  | { APYMigration: null }
+  | { LiquidityProvision: null }
+  | { VolatilityTrigger: null };
+
+export type StrategyRuleStatus =
+  | { Draft: null }
+  | { Active: null }
+  | { Paused: null }
+  | { Executing: null }
+  | { Executed: null }
+  | { Cancelled: null }
+  | { Failed: null }
+  | { Ready: null }
+  | { Confirmed: null };
+
+export type StrategyChainType = { Solana: null } | { Evm: null };
+
+export interface DcaConfig {
+  amountPerBuy: bigint;
+  executedBuys: bigint;
+  intervalSeconds: bigint;
+  nextExecutionTime: bigint;
+  tokenIn: string;
+  tokenOut: string;
+  totalBuys: bigint;
+}
+
+export interface LpConfig {
+  cooldownHours: bigint;
+  exitOnHighVolatility: boolean;
+  maxPositionSizePct: number;
+  maxVolatility: number;
+  minApy: number;
+  minTvlUSD: number;
+  poolAddress: string;
+  rebalanceThreshold: number;
+}
+
+export type ScheduledAction =
+  | { AddLP: { amountUSD: bigint; poolAddress: string } }
+  | { RemoveLP: { percentage: bigint; poolAddress: string } }
+  | { Send: { amount: bigint; recipient: string; token: string } }
+  | { Swap: { amountIn: bigint; tokenIn: string; tokenOut: string } };
+
+export interface ScheduledConfig {
+  action: ScheduledAction;
+  cronPattern: string;
+  executedCount: bigint;
+  nextExecutionTime: bigint;
+  repeatCount: bigint;
+}
+
+export interface ApyMigrationConfig {
+  cooldownHours: bigint;
+  currentPoolAddress: string;
+  lastMigrated: bigint;
+  maxMigrationCostPct: number;
+  minApyDelta: number;
+  targetPools: string[];
+}
+
+export type VolatilityAction =
+  | { Alert: null }
+  | { Buy: { amountUSD: bigint } }
+  | { ExitLP: { poolAddress: string } }
+  | { Sell: { percentage: bigint } };
+
+export interface VolatilityConfig {
+  action: VolatilityAction;
+  cooldownMinutes: bigint;
+  direction: { Above: null } | { Below: null };
+  lastTriggered: bigint;
+  tokenSymbol: string;
+  triggerStdDev: number;
+}
+
+export interface StrategyRule {
+  id: bigint;
+  positionId: bigint;
+  ruleType: StrategyRuleType;
+  triggerPrice: bigint;
+  sizePct: bigint;
+  swapAmountLamports: [] | [bigint];
+  swapAmountWei: [] | [bigint];
+  chainType: StrategyChainType;
+  status: StrategyRuleStatus;
+  createdAt: bigint;
+  dcaConfig: [] | [DcaConfig];
+  lpConfig: [] | [LpConfig];
+  scheduledConfig: [] | [ScheduledConfig];
+  apyMigrationConfig: [] | [ApyMigrationConfig];
+  volatilityConfig: [] | [VolatilityConfig];
+}
+
+export type StrategyLogStage =
+  | { ACTIVATED: null } | { ADDRESS_GENERATED: null } | { BROADCASTING: null }
+  | { BUILT_TX: null } | { COMPLETED: null } | { ESTIMATING_FEE: null }
+  | { FAILED: null } | { FETCHING_UTXOS: null } | { INITIATED: null }
+  | { PENDING: null } | { QUOTE_FETCHED: null } | { RECEIVED_DEPOSIT: null }
+  | { SENT: null } | { SIGNING: null } | { TRIGGERED: null } | { VALIDATED: null };
+
+export interface StrategyLog {
+  error: [] | [string];
+  intent_hash: string;
+  rule_id: string;
+  stage: StrategyLogStage;
+  ts: bigint;
+  tx_id: [] | [string];
+}
+
+// ============================================================
+// UTILITY TYPES
+// ============================================================
+
+export interface MaxSendAmount {
+  maxAmount: bigint;
+  fee: bigint;
+  utxoCount: bigint;
+}
+
+// ============================================================
+// SERVICE DEFINITION
+// ============================================================
+
+export interface MeneseService {
+  // === ADDRESSES (FREE) ===
+  getMySolanaAddress: ActorMethod<[], SolanaAddressInfo>;
+  getMyEvmAddress: ActorMethod<[], EvmAddressInfo>;
+  getMyBitcoinAddress: ActorMethod<[], AddressInfo>;
+  getMyLitecoinAddress: ActorMethod<[], AddressInfo>;
+  getMyCardanoAddress: ActorMethod<[], CardanoAddressInfo>;
+  getMySuiAddress: ActorMethod<[], SuiAddressInfo>;
+  getMyXrpAddress: ActorMethod<[], XrpAddressInfo>;
+  getMyTonAddress: ActorMethod<[], TonAddressInfo>;
+  getTronAddress: ActorMethod<[], TronAddressInfo>;
+  getMyAptosAddress: ActorMethod<[], AptosAddressInfo>;
+  getMyNearAddress: ActorMethod<[], PubKeyInfo>;
+  getMyCloakAddress: ActorMethod<[], CloakAddressInfo>;
+  getMyThorAddress: ActorMethod<[], AddressInfo>;
+  getMySolanaAta: ActorMethod<[string], string>;
+
+  // === BALANCES (FREE) ===
+  getMySolanaBalance: ActorMethod<[], ResultNat64>;
+  getMyEvmBalance: ActorMethod<[string], ResultNat>;
+  getICPBalance: ActorMethod<[], ResultNat64>;
+  getBitcoinBalance: ActorMethod<[], bigint>;
+  getLitecoinBalance: ActorMethod<[], bigint>;
+  getMyXrpBalance: ActorMethod<[], Result>;
+  getMySuiBalance: ActorMethod<[], bigint>;
+  getMyTonBalance: ActorMethod<[], ResultNat64>;
+  getCardanoBalance: ActorMethod<[], ResultNat64>;
+  getAptosBalance: ActorMethod<[], ResultNat64>;
+  getMyNearBalance: ActorMethod<[], bigint>;
+  getThorBalance: ActorMethod<[], ThorBalance[]>;
+  getCloakBalance: ActorMethod<[], ResultOf<BalanceInfo>>;
+  getTrxBalance: ActorMethod<[string], ResultNat64>;
+  getICRC1Balance: ActorMethod<[string], ResultNat>;
+  getICPBalanceFor: ActorMethod<[Principal], ResultNat64>;
+  getICRC1BalanceFor: ActorMethod<[Principal, string], ResultNat>;
+  getICRC1TokenInfo: ActorMethod<[string], ResultOf<Icrc1TokenInfo>>;
+  getSupportedICPTokens: ActorMethod<[], SupportedIcpToken[]>;
+  getMyTrc20Balance: ActorMethod<[string], ResultNat>;
+
+  // === SEND — ALL CHAINS (1 action) ===
+  sendSolTransaction: ActorMethod<[string, bigint], Result>;
+  transferSplToken: ActorMethod<[bigint, string, string], TransferAndSendResult>;
+  sendEvmNativeTokenAutonomous: ActorMethod<[string, bigint, string, bigint, [] | [string]], ResultOf<SendResultEvm>>;
+  sendICP: ActorMethod<[Principal, bigint], ResultOf<SendICPResult>>;
+  sendICRC1: ActorMethod<[Principal, bigint, string], ResultOf<SendICRC1Result>>;
+  approveICRC2: ActorMethod<[Principal, bigint, [] | [bigint], string], ResultOf<Icrc2ApproveResult>>;
+  getICRC2Allowance: ActorMethod<[Principal, Principal, string], ResultOf<Icrc2AllowanceResult>>;
+  transferFromICRC2: ActorMethod<[Principal, Principal, bigint, string], ResultOf<Icrc2TransferFromResult>>;
+  sendBitcoin: ActorMethod<[string, bigint], ResultOf<SendResultBtcLtc>>;
+  sendBitcoinDynamicFee: ActorMethod<[string, bigint], ResultOf<SendResultBtcLtc>>;
+  sendBitcoinWithFee: ActorMethod<[string, bigint, bigint], ResultOf<SendResultBtcLtc>>;
+  sendLitecoin: ActorMethod<[string, bigint], ResultOf<SendResult>>;
+  sendLitecoinWithFee: ActorMethod<[string, bigint, bigint], ResultOf<SendResult>>;
+  sendXrpAutonomous: ActorMethod<[string, string, [] | [number]], SendResultXrp>;
+  sendXrpIOU: ActorMethod<[string, string, string, string, [] | [number]], SendResultXrp>;
+  sendSui: ActorMethod<[string, bigint], ResultOf<SendResult>>;
+  sendSuiMax: ActorMethod<[string], ResultOf<SendResult>>;
+  transferSuiCoin: ActorMethod<[string, string, bigint], ResultOf<SendResult>>;
+  sendTonSimple: ActorMethod<[string, bigint], SendResultTon>;
+  sendTon: ActorMethod<[string, bigint, boolean, [] | [string], number], SendResultTon>;
+  sendTonWithComment: ActorMethod<[string, bigint, string], SendResultTon>;
+  sendCardanoTransaction: ActorMethod<[string, bigint], Result>;
+  sendTrx: ActorMethod<[string, bigint], Result>;
+  sendTrc20: ActorMethod<[string, string, bigint, bigint], Result>;
+  sendAptos: ActorMethod<[string, bigint], ResultOf<SendResult>>;
+  sendNearTransferFromUser: ActorMethod<[string, bigint], Result>;
+  sendCloak: ActorMethod<[string, bigint], ResultOf<SendResultCloak>>;
+  sendThor: ActorMethod<[string, bigint, string], Result>;
+
+  // === SWAP — 6 DEXes (1 action) ===
+  swapRaydiumApiUser: ActorMethod<
+    [string, string, bigint, bigint, boolean, boolean, [] | [string], [] | [string]],
+    RaydiumApiSwapResult
+  >;
+  swapTokens: ActorMethod<[string, string, string, bigint, bigint, boolean, string], ResultOf<UniswapSwapResult>>;
+  swapETHForUSDC: ActorMethod<[bigint, bigint, string], ResultOf<SwapEthForUsdcResult>>;
+  swapUSDCForETH: ActorMethod<[bigint, bigint, string], ResultOf<SwapUsdcForEthResult>>;
+  executeICPDexSwap: ActorMethod<[SwapRequest], ResultOf<SwapResultIcp>>;
+  getICPLPPositions: ActorMethod<[], IcpLpPosition[]>;
+  addICPLiquidity: ActorMethod<[AddIcpLiquidityRequest], ResultOf<AddIcpLiquidityResult>>;
+  removeICPLiquidity: ActorMethod<[RemoveIcpLiquidityRequest], ResultOf<RemoveIcpLiquidityResult>>;
+  getICPDexPools: ActorMethod<[], IcpDexPool[]>;
+  getICPDexTokens: ActorMethod<[], IcpDexToken[]>;
+  getICPRebalanceRecommendations: ActorMethod<
+    [RebalancePreferences, Array<[string, bigint]>, [] | [IcpDexPool[]]],
+    RebalanceRecommendation[]
+  >;
+  executeSuiSwap: ActorMethod<[SuiNetwork, string, string, string, string], SwapResultSui>;
+  executeMinswapSwap: ActorMethod<[string, string, bigint, number], Result>;
+  xrpSwap: ActorMethod<[TokenAmount, TokenAmount, string, bigint], SwapResultXrp>;
+
+  // === SWAP QUOTES (FREE) ===
+  getRaydiumQuote: ActorMethod<[string, string, bigint, bigint], RaydiumQuote>;
+  getICPDexQuote: ActorMethod<[string, string, bigint, number], IcpDexAggregatedQuote>;
+  getSuiSwapQuote: ActorMethod<[SuiNetwork, string, string, string, bigint], [] | [SwapQuote]>;
+  getMinswapQuote: ActorMethod<[string, string, bigint, number], ResultOf<MinswapQuote>>;
+  getTokenQuote: ActorMethod<[string, string, bigint, string], ResultOf<TokenQuote>>;
+
+  // === SOLANA ATA CREATION ===
+  createMySolanaAtaForMint: ActorMethod<[string, string], CreateAtaResult>;
+  createMySolanaAtaForMintWithProgram: ActorMethod<[string, string, string], CreateAtaResult>;
+
+  // === XRP TRUSTLINES ===
+  xrpSetTrustline: ActorMethod<[string, string, string], TrustSetResult>;
+  xrpGetAccountLines: ActorMethod<[], Result>;
+
+  // === DEVELOPER / BILLING ===
+  registerDeveloperCanister: ActorMethod<[Principal, string], Result>;
+  getMyDeveloperKey: ActorMethod<[], Result>;
+  regenerateDeveloperKey: ActorMethod<[], Result>;
+  validateDeveloperKey: ActorMethod<[string], boolean>;
+  getMyGatewayAccount: ActorMethod<[], UserAccount>;
+  getMyDeveloperAccount: ActorMethod<[], [] | [DeveloperAccountV3]>;
+  depositGatewayCredits: ActorMethod<[string, bigint], ResultOf<GatewayDeposit>>;
+  purchaseGatewayPackage: ActorMethod<[Tier, string], ResultOf<UserAccount>>;
+
+  // === BATCH ENDPOINTS (FREE) ===
+  getAllAddresses: ActorMethod<[], AllAddresses>;
+  getAllBalances: ActorMethod<[], AllBalances>;
+
+  // === DEFI — AAVE V3 (1 action) ===
+  aaveSupplyEth: ActorMethod<[bigint, string, [] | [string]], ResultOf<AaveSupplyEthResult>>;
+  aaveWithdrawEth: ActorMethod<[bigint, string, [] | [string]], ResultOf<AaveWithdrawEthResult>>;
+  aaveSupplyToken: ActorMethod<[string, bigint, string, [] | [string]], ResultOf<AaveSupplyTokenResult>>;
+  aaveWithdrawToken: ActorMethod<[string, bigint, string, [] | [string]], ResultOf<AaveWithdrawTokenResult>>;
+  getAWethBalance: ActorMethod<[string, string], ResultNat>;
+  getATokenBalance: ActorMethod<[string, string, string], ResultNat>;
+
+  // === DEFI — LIDO STAKING (1 action) ===
+  stakeEthForStEth: ActorMethod<[bigint, string, [] | [string]], ResultOf<StakeEthResult>>;
+  wrapStEth: ActorMethod<[bigint, string, [] | [string]], ResultOf<WrapStEthResult>>;
+  unwrapWstEth: ActorMethod<[bigint, string, [] | [string]], ResultOf<UnwrapWstEthResult>>;
+  getStEthBalance: ActorMethod<[string, string], ResultNat>;
+  getWstEthBalance: ActorMethod<[string, string], ResultNat>;
+
+  // === DEFI — UNISWAP V3 LIQUIDITY (1 action) ===
+  addLiquidityETH: ActorMethod<[string, bigint, bigint, bigint, string, [] | [string]], ResultOf<AddLiquidityEthResult>>;
+  addLiquidity: ActorMethod<[string, string, bigint, bigint, bigint, string, [] | [string]], ResultOf<AddLiquidityResult>>;
+  removeLiquidityETH: ActorMethod<[string, bigint, bigint, boolean, string, [] | [string]], ResultOf<RemoveLiquidityEthResult>>;
+  removeLiquidity: ActorMethod<[string, string, bigint, bigint, string, [] | [string]], ResultOf<RemoveLiquidityResult>>;
+  getPairAddress: ActorMethod<[string, string, string], ResultOf<PairAddressResult>>;
+  getPoolReserves: ActorMethod<[string, string, string], ResultOf<PoolReservesResult>>;
+
+  // === CUSTOM EVM CONTRACTS (1 action write / FREE read) ===
+  callEvmContractRead: ActorMethod<[string, string, string[], string], Result>;
+  callEvmContractWrite: ActorMethod<[string, string, string[], string, bigint, bigint, [] | [string]], ResultOf<SendResultEvm>>;
+
+  // === MULTI-HOP SWAP (1 action) ===
+  swapTokensMultiHop: ActorMethod<[string, string, bigint, bigint, boolean, bigint, string], ResultOf<MultiHopSwapResult>>;
+
+  // === ADDITIONAL QUOTES (FREE) ===
+  getTokenQuoteMultiHop: ActorMethod<[string, string, bigint, string], ResultOf<TokenQuoteMultiHop>>;
+  xrpFindPaths: ActorMethod<[TokenAmount, TokenAmount[]], XrpPathsResult>;
+
+  // === SIGN-ONLY ENDPOINTS (1 action each) ===
+  signSolTransferRelayer: ActorMethod<[string, bigint, string], SignedSolTransfer>;
+  signSolSwapTxsRelayer: ActorMethod<[string[]], SignedSolSwapTx[]>;
+  buildAndSignEvmTxWithData: ActorMethod<
+    [string, bigint, Uint8Array | number[], bigint, bigint, bigint, bigint],
+    SignedEvmTx
+  >;
+  signNearTransferRelayer: ActorMethod<[string, bigint, bigint, Uint8Array | number[]], SignedNearTx>;
+  signAptosTransferRelayer: ActorMethod<[string, bigint, bigint, number, bigint], SignedAptosTx>;
+  signTonTransferRelayer: ActorMethod<[string, bigint, number, boolean, [] | [string], number, string], SignedTonTx>;
+  signSuiTransferRelayer: ActorMethod<[string, bigint, string, bigint, string], SignedSuiTx>;
+  signCardanoTransferRelayer: ActorMethod<[string, bigint, CardanoUtxo[], string], ResultOf<SignedCardanoTx>>;
+  signXrpTransferRelayer: ActorMethod<[string, string, number, number, bigint, [] | [number]], SignedXrpTx>;
+  signTrxTransferRelayer: ActorMethod<
+    [string, bigint, Uint8Array | number[], Uint8Array | number[], bigint, bigint],
+    ResultOf<SignedTronTx>
+  >;
+
+  // === STRATEGY ENGINE (1 action per creation, 1 per execution) ===
+  addStrategyRule: ActorMethod<[StrategyRule], ResultOf<bigint>>;
+  getMyStrategyRules: ActorMethod<[], StrategyRule[]>;
+  updateStrategyRuleStatus: ActorMethod<[bigint, StrategyRuleStatus], ResultOf<null>>;
+  deleteStrategyRule: ActorMethod<[bigint], ResultOf<null>>;
+  getStrategyLogs: ActorMethod<[], StrategyLog[]>;
+
+  // === UTILITY ===
+  getBitcoinMaxSendAmount: ActorMethod<[[] | [bigint]], ResultOf<MaxSendAmount>>;
+  getLitecoinMaxSendAmount: ActorMethod<[[] | [bigint]], ResultOf<MaxSendAmount>>;
+  health: ActorMethod<[], string>;
+  version: ActorMethod<[], string>;
+}
+
+export type MeneseMethodName = keyof MeneseService;
+
+// ============================================================
+// METHOD TABLE — kept in sync with idlFactory
+// ============================================================
+// `arity` is typed from MeneseService, so changing a signature without
+// updating this table (or vice versa) is a compile error. The runtime
+// half of the check lives in assertMeneseIdlInSync below.
+
+type MethodSpec<K extends MeneseMethodName> = {
+  arity: Parameters<MeneseService[K]>["length"];
+  query?: true;
+};
+
+export const MENESE_METHODS: { [K in MeneseMethodName]: MethodSpec<K> } = {
+  getMySolanaAddress: { arity: 0 },
+  getMyEvmAddress: { arity: 0 },
+  getMyBitcoinAddress: { arity: 0 },
+  getMyLitecoinAddress: { arity: 0 },
+  getMyCardanoAddress: { arity: 0 },
+  getMySuiAddress: { arity: 0 },
+  getMyXrpAddress: { arity: 0 },
+  getMyTonAddress: { arity: 0 },
+  getTronAddress: { arity: 0 },
+  getMyAptosAddress: { arity: 0 },
+  getMyNearAddress: { arity: 0 },
+  getMyCloakAddress: { arity: 0 },
+  getMyThorAddress: { arity: 0 },
+  getMySolanaAta: { arity: 1 },
+
+  getMySolanaBalance: { arity: 0 },
+  getMyEvmBalance: { arity: 1 },
+  getICPBalance: { arity: 0 },
+  getBitcoinBalance: { arity: 0 },
+  getLitecoinBalance: { arity: 0 },
+  getMyXrpBalance: { arity: 0 },
+  getMySuiBalance: { arity: 0 },
+  getMyTonBalance: { arity: 0 },
+  getCardanoBalance: { arity: 0 },
+  getAptosBalance: { arity: 0 },
+  getMyNearBalance: { arity: 0 },
+  getThorBalance: { arity: 0 },
+  getCloakBalance: { arity: 0 },
+  getTrxBalance: { arity: 1 },
+  getICRC1Balance: { arity: 1 },
+  getICPBalanceFor: { arity: 1 },
+  getICRC1BalanceFor: { arity: 2 },
+  getICRC1TokenInfo: { arity: 1 },
+  getSupportedICPTokens: { arity: 0, query: true },
+  getMyTrc20Balance: { arity: 1 },
+
+  sendSolTransaction: { arity: 2 },
+  transferSplToken: { arity: 3 },
+  sendEvmNativeTokenAutonomous: { arity: 5 },
+  sendICP: { arity: 2 },
+  sendICRC1: { arity: 3 },
+  approveICRC2: { arity: 4 },
+  getICRC2Allowance: { arity: 3 },
+  transferFromICRC2: { arity: 4 },
+  sendBitcoin: { arity: 2 },
+  sendBitcoinDynamicFee: { arity: 2 },
+  sendBitcoinWithFee: { arity: 3 },
+  sendLitecoin: { arity: 2 },
+  sendLitecoinWithFee: { arity: 3 },
+  sendXrpAutonomous: { arity: 3 },
+  sendXrpIOU: { arity: 5 },
+  sendSui: { arity: 2 },
+  sendSuiMax: { arity: 1 },
+  transferSuiCoin: { arity: 3 },
+  sendTonSimple: { arity: 2 },
+  sendTon: { arity: 5 },
+  sendTonWithComment: { arity: 3 },
+  sendCardanoTransaction: { arity: 2 },
+  sendTrx: { arity: 2 },
+  sendTrc20: { arity: 4 },
+  sendAptos: { arity: 2 },
+  sendNearTransferFromUser: { arity: 2 },
+  sendCloak: { arity: 2 },
+  sendThor: { arity: 3 },
+
+  swapRaydiumApiUser: { arity: 8 },
+  swapTokens: { arity: 7 },
+  swapETHForUSDC: { arity: 3 },
+  swapUSDCForETH: { arity: 3 },
+  executeICPDexSwap: { arity: 1 },
+  getICPLPPositions: { arity: 0 },
+  addICPLiquidity: { arity: 1 },
+  removeICPLiquidity: { arity: 1 },
+  getICPDexPools: { arity: 0 },
+  getICPDexTokens: { arity: 0 },
+  getICPRebalanceRecommendations: { arity: 3 },
+  executeSuiSwap: { arity: 5 },
+  executeMinswapSwap: { arity: 4 },
+  xrpSwap: { arity: 4 },
+
+  getRaydiumQuote: { arity: 4 },
+  getICPDexQuote: { arity: 4 },
+  getSuiSwapQuote: { arity: 5 },
+  getMinswapQuote: { arity: 4 },
+  getTokenQuote: { arity: 4 },
+
+  createMySolanaAtaForMint: { arity: 2 },
+  createMySolanaAtaForMintWithProgram: { arity: 3 },
+
+  xrpSetTrustline: { arity: 3 },
+  xrpGetAccountLines: { arity: 0 },
+
+  registerDeveloperCanister: { arity: 2 },
+  getMyDeveloperKey: { arity: 0 },
+  regenerateDeveloperKey: { arity: 0 },
+  validateDeveloperKey: { arity: 1, query: true },
+  getMyGatewayAccount: { arity: 0 },
+  getMyDeveloperAccount: { arity: 0 },
+  depositGatewayCredits: { arity: 2 },
+  purchaseGatewayPackage: { arity: 2 },
+
+  getAllAddresses: { arity: 0 },
+  getAllBalances: { arity: 0 },
+
+  aaveSupplyEth: { arity: 3 },
+  aaveWithdrawEth: { arity: 3 },
+  aaveSupplyToken: { arity: 4 },
+  aaveWithdrawToken: { arity: 4 },
+  getAWethBalance: { arity: 2 },
+  getATokenBalance: { arity: 3 },
+
+  stakeEthForStEth: { arity: 3 },
+  wrapStEth: { arity: 3 },
+  unwrapWstEth: { arity: 3 },
+  getStEthBalance: { arity: 2 },
+  getWstEthBalance: { arity: 2 },
+
+  addLiquidityETH: { arity: 6 },
+  addLiquidity: { arity: 7 },
+  removeLiquidityETH: { arity: 6 },
+  removeLiquidity: { arity: 6 },
+  getPairAddress: { arity: 3 },
+  getPoolReserves: { arity: 3 },
+
+  callEvmContractRead: { arity: 4 },
+  callEvmContractWrite: { arity: 7 },
+
+  swapTokensMultiHop: { arity: 7 },
+
+  getTokenQuoteMultiHop: { arity: 4 },
+  xrpFindPaths: { arity: 2 },
+
+  signSolTransferRelayer: { arity: 3 },
+  signSolSwapTxsRelayer: { arity: 1 },
+  buildAndSignEvmTxWithData: { arity: 7 },
+  signNearTransferRelayer: { arity: 4 },
+  signAptosTransferRelayer: { arity: 5 },
+  signTonTransferRelayer: { arity: 7 },
+  signSuiTransferRelayer: { arity: 5 },
+  signCardanoTransferRelayer: { arity: 4 },
+  signXrpTransferRelayer: { arity: 6 },
+  signTrxTransferRelayer: { arity: 6 },
+
+  addStrategyRule: { arity: 1 },
+  getMyStrategyRules: { arity: 0 },
+  updateStrategyRuleStatus: { arity: 2 },
+  deleteStrategyRule: { arity: 1 },
+  getStrategyLogs: { arity: 0, query: true },
+
+  getBitcoinMaxSendAmount: { arity: 1 },
+  getLitecoinMaxSendAmount: { arity: 1 },
+  health: { arity: 0, query: true },
+  version: { arity: 0, query: true },
+};
+
+export const MENESE_METHOD_NAMES = Object.keys(MENESE_METHODS) as MeneseMethodName[];
+
+// Record field names for methods that return a plain record. These are the
+// fields people get wrong ("address" vs "evmAddress"), so they are checked
+// against the IDL record definitions too.
+type FieldsOf<K extends MeneseMethodName> = Array<keyof Awaited<ReturnType<MeneseService[K]>>>;
+
+const RETURN_FIELDS: { [K in MeneseMethodName]?: FieldsOf<K> } = {
+  getMySolanaAddress: ["address", "publicKeyHex", "publicKeyBytes"],
+  getMyEvmAddress: ["evmAddress", "publicKeyHex"],
+  getMyBitcoinAddress: ["bech32Address", "hash160Hex", "pubKeyHex"],
+  getMyLitecoinAddress: ["bech32Address", "hash160Hex", "pubKeyHex"],
+  getMyCardanoAddress: ["bech32Address", "addressBytesHex", "paymentPubKeyHex", "stakePubKeyHex"],
+  getMySuiAddress: ["suiAddress", "publicKeyHex", "publicKeyBytes"],
+  getMyXrpAddress: ["classicAddress", "accountIdHex", "accountIdBytes", "publicKeyHex"],
+  getMyTonAddress: ["bounceable", "nonBounceable", "rawAddress", "publicKeyHex", "stateInitBocBase64"],
+  getTronAddress: ["base58Address", "hexAddress", "publicKeyHex"],
+  getMyAptosAddress: ["address", "publicKeyHex"],
+  getMyNearAddress: ["implicitAccountId", "publicKeyBase58", "publicKeyHex"],
+  getMyCloakAddress: ["base58Address", "addressBytesHex", "hash160Hex", "pubKeyHex"],
+  getMyThorAddress: ["bech32Address", "hash160Hex", "pubKeyHex"],
+  transferSplToken: ["txSignature", "serializedTxBase64", "blockhash"],
+  sendXrpAutonomous: ["txHash", "explorerUrl", "message", "success", "sequence", "ledgerUsed"],
+  sendTonSimple: ["txHash", "bocBase64", "senderAddress", "success", "error"],
+  swapRaydiumApiUser: ["inputAmount", "outputAmount", "priceImpactPct", "txSignature"],
+  executeSuiSwap: ["success", "txDigest", "amountOut", "error"],
+  xrpSwap: ["success", "txHash", "explorerUrl", "message", "sourceAmount", "destinationAmount"],
+  getAllAddresses: ["aptos", "bitcoin", "cardano", "evm", "litecoin", "near", "solana", "sui", "thorchain", "ton", "tron", "xrp"],
+  getAllBalances: ["aptos", "bitcoin", "cardano", "icp", "litecoin", "near", "solana", "thorchain", "ton", "xrp"],
+  signSolTransferRelayer: ["signedTxBase64", "txMessage", "signature", "publicKey"],
+  buildAndSignEvmTxWithData: ["rawTxHex_v0", "rawTxHex_v1", "txHash", "signature"],
+  signNearTransferRelayer: ["signedTxBytes", "txHash", "senderAccountId"],
+  signAptosTransferRelayer: ["signedTxBcs", "txHash", "senderAddress"],
+  signTonTransferRelayer: ["bocBase64", "senderAddress", "payloadHash"],
+  signSuiTransferRelayer: ["txBytesBase64", "signatureBase64", "senderAddress"],
+  signXrpTransferRelayer: ["signedTxHex", "txHash", "senderAddress", "publicKeyHex"],
+};
+
+/** Record fields are protected on RecordClass — agent-js hands them to a Visitor instead. */
+class RecordFieldNames extends IDL.Visitor<null, string[]> {
+  visitType(): string[] {
+    return [];
+  }
+  visitRecord(_type: IDL.RecordClass, fields: Array<[string, IDL.Type]>): string[] {
+    return fields.map(([name]) => name);
+  }
+}
+
+function recordFieldNames(type: IDL.Type): string[] | null {
+  if (!(type instanceof IDL.RecordClass)) return null;
+  return type.accept(new RecordFieldNames(), null);
+}
+
+/**
+ * Compare MENESE_METHODS against an IDL factory (normally `idlFactory`
+ * from sdk-setup.ts). Returns a list of mismatches — empty means in sync.
+ */
+export function checkMeneseIdl(factory: IDL.InterfaceFactory): string[] {
+  const service = factory({ IDL }) as IDL.ServiceClass;
+  const problems: string[] = [];
+  const seen = new Set<string>();
+
+  for (const [name, func] of service._fields) {
+    seen.add(name);
+    const spec = (MENESE_METHODS as Record<string, MethodSpec<MeneseMethodName> | undefined>)[name];
+    if (!spec) {
+      problems.push(`${name}: in IDL but missing from MeneseService`);
+      continue;
+    }
+    if (func.argTypes.length !== spec.arity) {
+      problems.push(`${name}: IDL takes ${func.argTypes.length} args, MeneseService takes ${spec.arity}`);
+    }
+    const isQuery = func.annotations.includes("query");
+    if (isQuery !== Boolean(spec.query)) {
+      problems.push(`${name}: IDL is ${isQuery ? "query" : "update"}, MeneseService says ${spec.query ? "query" : "update"}`);
+    }
+    const expected = (RETURN_FIELDS as Record<string, string[]>)[name];
+    const actual = recordFieldNames(func.retTypes[0]);
+    if (expected && actual) {
+      const missing = expected.filter((f) => !actual.includes(f));
+      const extra = actual.filter((f) => !expected.includes(f));
+      if (missing.length || extra.length) {
+        problems.push(`${name}: record fields differ (IDL has [${extra.join(", ")}] extra, missing [${missing.join(", ")}])`);
+      }
+    }
+  }
+  for (const name of MENESE_METHOD_NAMES) {
+    if (!seen.has(name)) problems.push(`${name}: in MeneseService but missing from IDL`);
+  }
+  return problems;
+}
+
+/** Throw if MeneseService and the IDL factory have drifted apart. */
+export function assertMeneseIdlInSync(factory: IDL.InterfaceFactory): void {
+  const problems = checkMeneseIdl(factory);
+  if (problems.length > 0) {
+    throw new Error(`MeneseService is out of sync with the IDL:\n  ${problems.join("\n  ")}`);
+  }
+}
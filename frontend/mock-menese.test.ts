@@ -0,0 +1,73 @@
+// mock-menese.test.ts — the in-memory canister the other tests run against
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { Principal } from "@dfinity/principal";
+import { InsufficientFunds, QuotaExhausted, RpcFailure, unwrap } from "./errors";
+import { createMockMenese } from "./mock-menese";
+import { buildSolanaSwap, mockSwapAggregator, SOL_MINT } from "./solana-swap";
+import { verifySolanaTx } from "./solana-tx";
+
+const OTHER = Principal.fromUint8Array(new Uint8Array(29).fill(7)).toText();
+const SOL_TO = "11111111111111111111111111111111";
+
+test("addresses are deterministic per principal", async () => {
+  const a = createMockMenese();
+  const b = createMockMenese();
+  assert.deepEqual(await a.service.getMySolanaAddress(), await b.service.getMySolanaAddress());
+  assert.notEqual((await a.as(OTHER).getMySolanaAddress()).address, (await a.service.getMySolanaAddress()).address);
+  assert.equal((await a.service.getMyEvmAddress()).evmAddress, a.addresses().evm.evmAddress);
+});
+
+test("sends debit the sender and credit an ICP principal", async () => {
+  const mock = createMockMenese().setBalance("icp", 500n);
+  unwrap(await mock.service.sendICP(Principal.fromText(OTHER), 200n), "sendICP");
+  assert.equal(mock.balance("icp"), 300n);
+  assert.equal(mock.balance("icp", OTHER), 200n);
+});
+
+test("a send above the balance fails as InsufficientFunds and debits nothing", async () => {
+  const mock = createMockMenese().setBalance("solana", 10n);
+  const result = await mock.service.sendSolTransaction(SOL_TO, 11n);
+  assert.throws(() => unwrap(result, "sendSolTransaction"), InsufficientFunds);
+  assert.equal(mock.balance("solana"), 10n);
+  assert.equal(mock.callsTo("sendSolTransaction")[0].failed, true);
+});
+
+test("failNext fails only the next call, in the method's own failure shape", async () => {
+  const mock = createMockMenese().setBalance("solana", 100n).failNext("sendSolTransaction", "RpcFailure");
+  const failed = await mock.service.sendSolTransaction(SOL_TO, 1n);
+  assert.throws(() => unwrap(failed, "sendSolTransaction"), RpcFailure);
+  unwrap(await mock.service.sendSolTransaction(SOL_TO, 1n), "sendSolTransaction");
+  assert.deepEqual(mock.callsTo("sendSolTransaction").map((c) => c.failed), [true, false]);
+  assert.equal(mock.balance("solana"), 99n);
+});
+
+test("paid calls stop when the actions run out", async () => {
+  const mock = createMockMenese({ actionsRemaining: 1 }).setBalance("solana", 100n);
+  unwrap(await mock.service.sendSolTransaction(SOL_TO, 1n), "sendSolTransaction");
+  const refused = await mock.service.sendSolTransaction(SOL_TO, 1n);
+  assert.throws(() => unwrap(refused, "sendSolTransaction"), QuotaExhausted);
+  await mock.service.getMySolanaAddress();   // free
+  assert.equal(mock.actionsRemaining, 0);
+});
+
+test("arguments and override results are checked against the IDL", async () => {
+  const mock = createMockMenese();
+  const send = mock.service.sendSolTransaction as (...args: unknown[]) => Promise<unknown>;
+  await assert.rejects(send(SOL_TO), /expected 2 arguments, got 1/);
+  await assert.rejects(send(SOL_TO, "1"), /nat64/);
+  mock.on("getMySolanaBalance", () => ({ ok: 42n }));
+  assert.deepEqual(await mock.service.getMySolanaBalance(), { ok: 42n });
+  mock.on("getMySolanaBalance", () => ({ ok: "42" }) as never);
+  await assert.rejects(mock.service.getMySolanaBalance(), /nat64/);
+});
+
+test("swap signatures verify against the caller's Solana address", async () => {
+  const mock = createMockMenese();
+  const feePayer = mock.addresses().solana.address;
+  const aggregator = mockSwapAggregator();
+  const quote = await aggregator.quote({ inputMint: SOL_MINT, outputMint: SOL_MINT, amount: 1_000n, slippageBps: 50 });
+  const [signed] = await mock.service.signSolSwapTxsRelayer(await buildSolanaSwap(aggregator, quote, feePayer));
+  assert.equal(verifySolanaTx(signed.signedTxBase64, feePayer), true);
+});
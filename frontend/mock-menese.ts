@@ -0,0 +1,530 @@
+// mock-menese.ts — In-memory fake of the Menese canister for unit tests
+//
+// Implements every method in `idlFactory` without touching the network:
+//   - deterministic addresses per principal (same principal → same addresses)
+//   - settable balances that sends actually debit
+//   - every call recorded, with its arguments and caller
+//   - injectable failures (insufficient funds, RPC errors, quota exhaustion...)
+//
+// Arguments are checked against the Candid types exactly like agent-js would,
+// so a missing argument or a malformed record fails here too.
+// Methods without a dedicated handler return a well-formed "empty" success
+// value built from the IDL (e.g. `{ ok: { txHash: "mock-tx-...", ... } }`).
+//
+//   const mock = createMockMenese();
+//   mock.setBalance("solana", 2_000_000_000n);
+//   mock.failNext("sendSolTransaction", "RpcFailure");
+//
+//   const menese = await createMeneseActor({ service: mock.service });
+//   // ...code under test...
+//   expect(mock.callsTo("sendSolTransaction")).toHaveLength(2);
+
+import { IDL } from "@dfinity/candid";
+import { Ed25519KeyIdentity } from "@dfinity/identity";
+import { Principal } from "@dfinity/principal";
+import { base64ToBytes, bytesToBase64 } from "./encoding";
+import { idlFactory } from "./sdk-setup";
+import { decodeSolanaTx } from "./solana-tx";
+import type { MeneseMethodName, MeneseService } from "./menese-types";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type MockChain =
+  | "solana" | "evm" | "icp" | "bitcoin" | "litecoin" | "xrp" | "sui"
+  | "ton" | "cardano" | "aptos" | "near" | "tron" | "thorchain" | "cloak";
+
+/** Named failures map to canister error texts that errors.ts classifies. */
+export type MockFailure =
+  | "InsufficientFunds"
+  | "RpcFailure"
+  | "QuotaExhausted"
+  | "InvalidAddress"
+  | "SlippageExceeded"
+  | { message: string };
+
+export interface RecordedCall {
+  method: MeneseMethodName;
+  args: unknown[];
+  /** Principal text of the caller */
+  caller: string;
+  /** true if the call returned an error, a failed flat record, or threw */
+  failed: boolean;
+}
+
+export interface MockMeneseOptions {
+  /** Default caller. Use mock.as(principal) for other users. */
+  principal?: Principal | string;
+  /** Actions left on the gateway subscription. Default: unlimited */
+  actionsRemaining?: number;
+}
+
+/** May return a promise — invoke() awaits it. */
+type Handler = (caller: string, args: any[]) => unknown;
+
+const FAILURE_TEXT: Record<Exclude<MockFailure, { message: string }>, string> = {
+  InsufficientFunds: "Insufficient balance",
+  RpcFailure: "HTTP outcall failed: RPC error (mock)",
+  QuotaExhausted: "No actions remaining — purchase a gateway package",
+  InvalidAddress: "Invalid address",
+  SlippageExceeded: "Slippage tolerance exceeded",
+};
+
+/** Free methods never consume an action (see Pricing in README). */
+const FREE_METHOD = /^(get|validate|health$|version$|register|regenerate|purchase|depositGateway|callEvmContractRead$|xrpGetAccountLines$|xrpFindPaths$|addStrategyRule$|updateStrategyRuleStatus$|deleteStrategyRule$)/;
+
+/** [chain, recipient arg index, amount arg index] for every autonomous send */
+const SEND_METHODS: Partial<Record<MeneseMethodName, [MockChain, number, number]>> = {
+  sendSolTransaction: ["solana", 0, 1],
+  sendEvmNativeTokenAutonomous: ["evm", 0, 1],
+  sendICP: ["icp", 0, 1],
+  sendBitcoin: ["bitcoin", 0, 1],
+  sendBitcoinDynamicFee: ["bitcoin", 0, 1],
+  sendBitcoinWithFee: ["bitcoin", 0, 1],
+  sendLitecoin: ["litecoin", 0, 1],
+  sendLitecoinWithFee: ["litecoin", 0, 1],
+  sendXrpAutonomous: ["xrp", 0, 1],
+  sendSui: ["sui", 0, 1],
+  sendTonSimple: ["ton", 0, 1],
+  sendTon: ["ton", 0, 1],
+  sendTonWithComment: ["ton", 0, 1],
+  sendCardanoTransaction: ["cardano", 0, 1],
+  sendTrx: ["tron", 0, 1],
+  sendAptos: ["aptos", 0, 1],
+  sendNearTransferFromUser: ["near", 0, 1],
+  sendCloak: ["cloak", 0, 1],
+  sendThor: ["thorchain", 0, 1],
+};
+
+// ============================================================
+// DETERMINISTIC BYTES / ADDRESSES
+// ============================================================
+
+/** FNV-1a based byte stream — stable across runs, not cryptographic. */
+function mockBytes(seed: string, length: number): Uint8Array {
+  const out = new Uint8Array(length);
+  for (let i = 0; i < length; i++) {
+    let h = 0x811c9dc5;
+    for (const c of `${seed}:${i >> 2}`) h = Math.imul(h ^ c.charCodeAt(0), 0x01000193) >>> 0;
+    out[i] = (h >>> ((i & 3) * 8)) & 0xff;
+  }
+  return out;
+}
+
+const hex = (b: Uint8Array) => Array.from(b, (x) => x.toString(16).padStart(2, "0")).join("");
+
+const B58 = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+function base58(b: Uint8Array): string {
+  let n = BigInt(`0x${hex(b) || "0"}`);
+  let s = "";
+  while (n > 0n) { s = B58[Number(n % 58n)] + s; n /= 58n; }
+  for (const x of b) { if (x !== 0) break; s = "1" + s; }
+  return s;
+}
+
+const BECH32 = "qpzry9x8gf2tvdw0s3jn54khce6mua7l";
+const bech32ish = (b: Uint8Array, n: number) => Array.from(b.slice(0, n), (x) => BECH32[x & 31]).join("");
+
+/** Per-chain address records, shaped exactly like the canister's. */
+/** The principal's Solana key — a real Ed25519 key, so its signatures verify. */
+function mockSolanaKey(principal: string): Ed25519KeyIdentity {
+  return Ed25519KeyIdentity.generate(mockBytes(`${principal}/solana`, 32));
+}
+
+function mockAddresses(principal: string) {
+  const b = (chain: string, n = 32) => mockBytes(`${principal}/${chain}`, n);
+  const btc = (chain: string, hrp: string) => ({
+    bech32Address: `${hrp}1q${bech32ish(b(chain, 38), 38)}`,
+    hash160Hex: hex(b(chain, 20)),
+    pubKeyHex: `02${hex(b(`${chain}/pk`))}`,
+  });
+  const solanaKey = new Uint8Array(mockSolanaKey(principal).getPublicKey().toRaw());
+  const suiKey = b("sui");
+  const xrpId = b("xrp", 20);
+  return {
+    solana: { address: base58(solanaKey), publicKeyHex: hex(solanaKey), publicKeyBytes: solanaKey },
+    evm: { evmAddress: `0x${hex(b("evm", 20))}`, publicKeyHex: `04${hex(b("evm/pk", 64))}` },
+    bitcoin: btc("bitcoin", "bc"),
+    litecoin: btc("litecoin", "ltc"),
+    thorchain: btc("thorchain", "thor"),
+    cardano: {
+      bech32Address: `addr1q${bech32ish(b("cardano", 57), 57)}`,
+      addressBytesHex: hex(b("cardano", 57)),
+      paymentPubKeyHex: hex(b("cardano/pay")),
+      stakePubKeyHex: hex(b("cardano/stake")),
+    },
+    sui: { suiAddress: `0x${hex(suiKey)}`, publicKeyHex: hex(suiKey), publicKeyBytes: suiKey },
+    xrp: {
+      classicAddress: `r${base58(xrpId)}`,
+      accountIdHex: hex(xrpId),
+      accountIdBytes: xrpId,
+      publicKeyHex: `02${hex(b("xrp/pk"))}`,
+    },
+    ton: {
+      bounceable: `EQ${base58(b("ton")).slice(0, 46)}`,
+      nonBounceable: `UQ${base58(b("ton")).slice(0, 46)}`,
+      rawAddress: `0:${hex(b("ton"))}`,
+      publicKeyHex: hex(b("ton/pk")),
+      stateInitBocBase64: "",
+    },
+    tron: {
+      base58Address: `T${base58(b("tron", 24)).slice(0, 33)}`,
+      hexAddress: `41${hex(b("tron", 20))}`,
+      publicKeyHex: `04${hex(b("tron/pk", 64))}`,
+    },
+    aptos: { address: `0x${hex(b("aptos"))}`, publicKeyHex: hex(b("aptos/pk")) },
+    near: { implicitAccountId: hex(b("near")), publicKeyBase58: base58(b("near")), publicKeyHex: hex(b("near")) },
+    cloak: {
+      base58Address: `C${base58(b("cloak", 24)).slice(0, 33)}`,
+      addressBytesHex: hex(b("cloak", 25)),
+      hash160Hex: hex(b("cloak", 20)),
+      pubKeyHex: `02${hex(b("cloak/pk"))}`,
+    },
+  };
+}
+
+// ============================================================
+// IDL-DRIVEN DEFAULT VALUES
+// ============================================================
+
+/**
+ * A well-formed value of `type`: success variants pick `ok`/`Ok`,
+ * `success` flags are true, tx-hash-like text fields get a fake hash.
+ */
+function defaultValue(type: IDL.Type, field: string, seed: string): unknown {
+  const t = type as any;
+  if (type instanceof IDL.RecClass) return defaultValue(type.getType()!, field, seed);
+  if (type instanceof IDL.TextClass) {
+    // `ok: Text` is usually a tx hash or key — never hand back an empty one
+    return /tx|hash|signature|digest|txid|^ok$/i.test(field) ? `mock-${field}-${hex(mockBytes(seed, 8))}` : "";
+  }
+  if (type instanceof IDL.BoolClass) return field === "success";
+  if (type instanceof IDL.NatClass || type instanceof IDL.IntClass) return 0n;
+  if (type instanceof IDL.FixedNatClass || type instanceof IDL.FixedIntClass) return t._bits > 32 ? 0n : 0;
+  if (type instanceof IDL.FloatClass) return 0;
+  if (type instanceof IDL.NullClass) return null;
+  if (type instanceof IDL.PrincipalClass) return Principal.anonymous();
+  if (type instanceof IDL.OptClass) return [];
+  if (type instanceof IDL.VecClass) return [];
+  if (type instanceof IDL.TupleClass) {
+    return (t._components as IDL.Type[]).map((c, i) => defaultValue(c, `${field}${i}`, seed));
+  }
+  if (type instanceof IDL.RecordClass) {
+    const out: Record<string, unknown> = {};
+    for (const [name, f] of t._fields as Array<[string, IDL.Type]>) out[name] = defaultValue(f, name, `${seed}/${name}`);
+    return out;
+  }
+  if (type instanceof IDL.VariantClass) {
+    const fields = t._fields as Array<[string, IDL.Type]>;
+    const [name, f] = fields.find(([n]) => n === "ok" || n === "Ok") ?? fields[0];
+    return { [name]: defaultValue(f, field || name, seed) };
+  }
+  return undefined;
+}
+
+/** The "failed" shape of a return type, or undefined if it has none (→ throw). */
+function failureValue(type: IDL.Type, message: string, seed: string): unknown {
+  const t = type as any;
+  if (type instanceof IDL.VariantClass && (t._fields as Array<[string]>).some(([n]) => n === "err")) {
+    return { err: message };
+  }
+  if (type instanceof IDL.RecordClass && (t._fields as Array<[string]>).some(([n]) => n === "success")) {
+    const value = defaultValue(type, "", seed) as Record<string, unknown>;
+    value.success = false;
+    if ("message" in value) value.message = message;
+    if ("error" in value) value.error = [message];
+    for (const k of Object.keys(value)) if (typeof value[k] === "string" && k !== "message") value[k] = "";
+    return value;
+  }
+  return undefined;
+}
+
+// ============================================================
+// MOCK
+// ============================================================
+
+export class MockMenese {
+  /** Every call made through any service view, in order */
+  readonly calls: RecordedCall[] = [];
+  /** Service view for the default principal — pass as `{ service }` */
+  readonly service: MeneseService;
+  readonly principal: string;
+  /** null = unlimited */
+  actionsRemaining: number | null;
+
+  private readonly funcs = new Map<string, IDL.FuncClass>();
+  private readonly balances = new Map<string, bigint>();
+  private readonly overrides = new Map<string, Handler>();
+  private readonly failures: Array<{ method: string; message: string; times: number }> = [];
+  private txCounter = 0;
+
+  constructor(options: MockMeneseOptions = {}) {
+    const service = idlFactory({ IDL }) as IDL.ServiceClass;
+    for (const [name, func] of service._fields) this.funcs.set(name, func);
+    this.principal = String(options.principal ?? Principal.fromUint8Array(mockBytes("menese-mock", 29)).toText());
+    this.actionsRemaining = options.actionsRemaining ?? null;
+    this.service = this.as(this.principal);
+  }
+
+  /** A service view whose calls come from `principal`. */
+  as(principal: Principal | string): MeneseService {
+    const caller = String(principal);
+    const view: Record<string, unknown> = {};
+    for (const name of this.funcs.keys()) {
+      view[name] = async (...args: unknown[]) => this.invoke(name as MeneseMethodName, caller, args);
+    }
+    return view as unknown as MeneseService;
+  }
+
+  // ── State ─────────────────────────────────────────────────
+
+  /** Address records for a principal (same shape as getAllAddresses). */
+  addresses(principal: Principal | string = this.principal) {
+    return mockAddresses(String(principal));
+  }
+
+  /** Set a balance in the chain's smallest unit (lamports, wei, e8s, sats, drops...). */
+  setBalance(chain: MockChain, amount: bigint, principal: Principal | string = this.principal): this {
+    this.balances.set(`${principal}/${chain}`, amount);
+    return this;
+  }
+
+  balance(chain: MockChain, principal: Principal | string = this.principal): bigint {
+    return this.balances.get(`${principal}/${chain}`) ?? 0n;
+  }
+
+  // ── Behaviour ─────────────────────────────────────────────
+
+  /**
+   * Make the next `times` calls to `method` ("*" = any paid method) fail.
+   * Variant results get `{ err }`, flat records get `success: false`,
+   * everything else rejects like a canister trap.
+   */
+  failNext(method: MeneseMethodName | "*", failure: MockFailure, times = 1): this {
+    const message = typeof failure === "string" ? FAILURE_TEXT[failure] : failure.message;
+    this.failures.push({ method, message, times });
+    return this;
+  }
+
+  /** Replace a method's behaviour. The return value is still checked against the IDL. */
+  on<K extends MeneseMethodName>(
+    method: K,
+    handler: (...args: Parameters<MeneseService[K]>) => Awaited<ReturnType<MeneseService[K]>>,
+  ): this {
+    this.overrides.set(method, (_caller, args) => (handler as (...a: any[]) => unknown)(...args));
+    return this;
+  }
+
+  callsTo(method: MeneseMethodName): RecordedCall[] {
+    return this.calls.filter((c) => c.method === method);
+  }
+
+  /** Forget calls, balances, overrides and pending failures. */
+  reset(): void {
+    this.calls.length = 0;
+    this.balances.clear();
+    this.overrides.clear();
+    this.failures.length = 0;
+    this.txCounter = 0;
+  }
+
+  // ── Dispatch ──────────────────────────────────────────────
+
+  private async invoke(method: MeneseMethodName, caller: string, args: unknown[]): Promise<unknown> {
+    const func = this.funcs.get(method)!;
+    const call: RecordedCall = { method, args, caller, failed: false };
+    this.calls.push(call);
+
+    try {
+      if (args.length !== func.argTypes.length) {
+        throw new Error(`${method}: expected ${func.argTypes.length} arguments, got ${args.length}`);
+      }
+      func.argTypes.forEach((t, i) => {
+        if (!t.covariant(args[i])) throw new Error(`${method}: argument ${i} is not a valid ${t.display()}`);
+      });
+
+      const retType = func.retTypes[0];
+      const seed = `${caller}/${method}/${++this.txCounter}`;
+      const paid = !FREE_METHOD.test(method);
+
+      let failure = this.takeFailure(method, paid);
+      if (!failure && paid && this.actionsRemaining !== null) {
+        if (this.actionsRemaining <= 0) failure = FAILURE_TEXT.QuotaExhausted;
+        else this.actionsRemaining--;
+      }
+
+      let result: unknown;
+      if (failure !== undefined) {
+        result = retType && failureValue(retType, failure, seed);
+        if (result === undefined) throw new Error(failure);
+      } else {
+        const handler = this.overrides.get(method) ?? this.builtin(method);
+        result = handler ? await handler(caller, args) : retType && defaultValue(retType, "", seed);
+        // A send handler may report insufficient funds in the method's own failure shape
+        if (result instanceof Error) {
+          const error = result;
+          result = retType && failureValue(retType, error.message, seed);
+          if (result === undefined) throw error;
+        }
+      }
+
+      if (retType && !retType.covariant(result)) {
+        throw new Error(`MockMenese: ${method} returned a value that does not match ${retType.display()}`);
+      }
+      call.failed = isFailure(result);
+      return result;
+    } catch (e) {
+      call.failed = true;
+      throw e;
+    }
+  }
+
+  private takeFailure(method: string, paid: boolean): string | undefined {
+    const i = this.failures.findIndex((f) => f.method === method || (f.method === "*" && paid));
+    if (i < 0) return undefined;
+    const f = this.failures[i];
+    if (--f.times <= 0) this.failures.splice(i, 1);
+    return f.message;
+  }
+
+  private builtin(method: MeneseMethodName): Handler | undefined {
+    const send = SEND_METHODS[method];
+    if (send) return (caller, args) => this.send(method, send, caller, args);
+
+    const addr = (chain: keyof ReturnType<typeof mockAddresses>): Handler => (caller) => mockAddresses(caller)[chain];
+    const ok = (chain: MockChain): Handler => (caller) => ({ ok: this.balance(chain, caller) });
+    const bare = (chain: MockChain): Handler => (caller) => this.balance(chain, caller);
+
+    const handlers: Partial<Record<MeneseMethodName, Handler>> = {
+      getMySolanaAddress: addr("solana"),
+      getMyEvmAddress: addr("evm"),
+      getMyBitcoinAddress: addr("bitcoin"),
+      getMyLitecoinAddress: addr("litecoin"),
+      getMyCardanoAddress: addr("cardano"),
+      getMySuiAddress: addr("sui"),
+      getMyXrpAddress: addr("xrp"),
+      getMyTonAddress: addr("ton"),
+      getTronAddress: addr("tron"),
+      getMyAptosAddress: addr("aptos"),
+      getMyNearAddress: addr("near"),
+      getMyCloakAddress: addr("cloak"),
+      getMyThorAddress: addr("thorchain"),
+      getAllAddresses: (caller) => {
+        const { cloak: _cloak, ...all } = mockAddresses(caller);
+        return all;
+      },
+
+      getMySolanaBalance: ok("solana"),
+      getMyEvmBalance: ok("evm"),
+      getICPBalance: ok("icp"),
+      getICPBalanceFor: (_caller, [p]) => ({ ok: this.balance("icp", String(p)) }),
+      getBitcoinBalance: bare("bitcoin"),
+      getLitecoinBalance: bare("litecoin"),
+      getMyXrpBalance: (caller) => ({ ok: formatUnits(this.balance("xrp", caller), 6) }),
+      getMySuiBalance: bare("sui"),
+      getMyTonBalance: ok("ton"),
+      getCardanoBalance: ok("cardano"),
+      getAptosBalance: ok("aptos"),
+      getMyNearBalance: bare("near"),
+      getTrxBalance: ok("tron"),
+      getThorBalance: (caller) => [{ denom: "rune", amount: this.balance("thorchain", caller) }],
+      getCloakBalance: (caller) => ({
+        ok: { address: mockAddresses(caller).cloak.base58Address, balance: this.balance("cloak", caller), utxoCount: 0n },
+      }),
+      getAllBalances: (caller) => ({
+        aptos: { ok: this.balance("aptos", caller) },
+        bitcoin: this.balance("bitcoin", caller),
+        cardano: { ok: this.balance("cardano", caller) },
+        icp: { ok: this.balance("icp", caller) },
+        litecoin: this.balance("litecoin", caller),
+        near: this.balance("near", caller),
+        solana: { ok: this.balance("solana", caller) },
+        thorchain: [{ denom: "rune", amount: this.balance("thorchain", caller) }],
+        ton: { ok: this.balance("ton", caller) },
+        xrp: { ok: formatUnits(this.balance("xrp", caller), 6) },
+      }),
+
+      getMyGatewayAccount: () => ({
+        ...(defaultValue(this.funcs.get("getMyGatewayAccount")!.retTypes[0], "", "account") as object),
+        tier: { Developer: null },
+        actionsRemaining: BigInt(this.actionsRemaining ?? 1_000_000),
+      }),
+      // Echo each transaction signed by the caller's Solana key in the fee payer slot
+      signSolSwapTxsRelayer: (caller, [txs]) => Promise.all((txs as string[]).map(async (tx) => {
+        const signature = new Uint8Array(await mockSolanaKey(caller).sign(decodeSolanaTx(tx).message.slice().buffer));
+        const bytes = base64ToBytes(tx);
+        bytes.set(signature, 1);   // first slot, after the 1-byte signature count
+        return { signedTxBase64: bytesToBase64(bytes), signature };
+      })),
+      health: () => "ok (mock)",
+      version: () => "mock",
+    };
+    return handlers[method];
+  }
+
+  /** Debit the sender, credit the recipient if it's a principal we know, return a success record. */
+  private send(
+    method: MeneseMethodName,
+    [chain, toIndex, amountIndex]: [MockChain, number, number],
+    caller: string,
+    args: any[],
+  ): unknown {
+    const raw = args[amountIndex];
+    const amount = typeof raw === "string" ? parseUnits(raw, 6) : BigInt(raw);
+    const balance = this.balance(chain, caller);
+    if (amount > balance) return new Error(`${FAILURE_TEXT.InsufficientFunds}: have ${balance}, need ${amount}`);
+
+    this.setBalance(chain, balance - amount, caller);
+    const to = args[toIndex];
+    if (chain === "icp" && to instanceof Principal) {
+      this.setBalance("icp", this.balance("icp", to.toText()) + amount, to.toText());
+    }
+
+    const retType = this.funcs.get(method)!.retTypes[0];
+    const result = defaultValue(retType, "", `${caller}/${method}/${this.txCounter}`) as Record<string, any>;
+    const record = "ok" in result && typeof result.ok === "object" ? result.ok : result;
+    if (record && typeof record === "object") {
+      if ("amount" in record) record.amount = amount;
+      if ("senderAddress" in record) record.senderAddress = senderAddress(mockAddresses(caller), chain);
+      if ("recipientAddress" in record) record.recipientAddress = String(to);
+      if ("from" in record) record.from = Principal.fromText(caller);
+      if ("to" in record && to instanceof Principal) record.to = to;
+    }
+    return result;
+  }
+}
+
+function senderAddress(a: ReturnType<typeof mockAddresses>, chain: MockChain): string {
+  switch (chain) {
+    case "evm": return a.evm.evmAddress;
+    case "bitcoin": case "litecoin": case "thorchain": case "cardano": return a[chain].bech32Address;
+    case "sui": return a.sui.suiAddress;
+    case "xrp": return a.xrp.classicAddress;
+    case "ton": return a.ton.bounceable;
+    case "tron": case "cloak": return a[chain].base58Address;
+    case "near": return a.near.implicitAccountId;
+    case "icp": return "";
+    default: return a[chain].address;
+  }
+}
+
+function isFailure(result: unknown): boolean {
+  if (typeof result !== "object" || result === null) return false;
+  return "err" in result || "Err" in result || (result as { success?: unknown }).success === false;
+}
+
+function formatUnits(value: bigint, decimals: number): string {
+  const s = value.toString().padStart(decimals + 1, "0");
+  return `${s.slice(0, -decimals)}.${s.slice(-decimals)}`;
+}
+
+function parseUnits(value: string, decimals: number): bigint {
+  const [whole, frac = ""] = value.trim().split(".");
+  return BigInt(whole || "0") * 10n ** BigInt(decimals) + BigInt((frac + "0".repeat(decimals)).slice(0, decimals) || "0");
+}
+
+/** A fresh mock. Same principal → same addresses across runs. */
+export function createMockMenese(options: MockMeneseOptions = {}): MockMenese {
+  return new MockMenese(options);
+}
@@ -0,0 +1,208 @@
+// network.ts — Mainnet, local dfx replica, or a custom network
+//
+// Every MeneseConfig takes an optional `network`:
+//
+//   "ic"     mainnet (default) — icp0.io, mainnet canister IDs, public Solana RPCs
+//   "local"  dfx replica on 127.0.0.1:4943 — root key fetched, solana-test-validator
+//            + anvil RPCs. No canister IDs: use localNetwork(), which reads
+//            .dfx/local/canister_ids.json, or pass canisterIds
+//   { ... }  anything else (a staging subnet, a PocketIC instance...)
+//
+//   // CI against `dfx start` + `solana-test-validator` + `anvil`
+//   const network = await localNetwork();
+//   const menese = await createMeneseActor({ network, identity });
+//   const signed = unwrap(await menese.signSolTransferRelayer(to, lamports, blockhash));
+//   await broadcastSolana(signed.signedTxBase64, solanaRpcFor({ network }));
+//
+// NEVER set fetchRootKey on mainnet — it lets a malicious host forge responses.
+
+import type { CanisterIds } from "./agent-config";
+import { isEvmChain, type ChainId } from "./chains";
+import { hasRpcPool, rpcPool } from "./rpc-pool";
+
+// ============================================================
+// PRESETS
+// ============================================================
+
+export const LOCAL_REPLICA_HOST = "http://127.0.0.1:4943";
+/** solana-test-validator default RPC port */
+export const LOCAL_SOLANA_RPC = "http://127.0.0.1:8899";
+/** anvil / hardhat default RPC port */
+export const LOCAL_EVM_RPC = "http://127.0.0.1:8545";
+
+export const MAINNET_SOLANA_RPCS = [
+  "https://api.mainnet-beta.solana.com",
+  "https://solana-rpc.publicnode.com",
+  "https://solana.drpc.org",
+  "https://rpc.ankr.com/solana",
+];
+
+/**
+ * Public mainnet nodes for the other sign-only chains (broadcasters.ts).
+ * All rate-limited — use your own provider in production.
+ */
+export const MAINNET_CHAIN_RPCS: Readonly<Partial<Record<ChainId, string>>> = {
+  xrp: "https://s1.ripple.com:51234",
+  sui: "https://fullnode.mainnet.sui.io",
+  near: "https://rpc.mainnet.near.org",
+  aptos: "https://fullnode.mainnet.aptoslabs.com/v1",
+  ton: "https://toncenter.com/api/v2",
+  cardano: "https://api.koios.rest/api/v1",
+  tron: "https://api.trongrid.io",
+};
+
+export interface NetworkConfig {
+  /** IC API host */
+  host: string;
+  /** Fetch the replica's root key before the first call (local/test replicas only) */
+  fetchRootKey: boolean;
+  /**
+   * Canister IDs on this network — anything missing falls back to mainnet IDs.
+   * Required (here or in the config) when `fetchRootKey` is set.
+   */
+  canisterIds?: Partial<CanisterIds>;
+  /** Solana RPCs, in preference order */
+  solanaRpcs: string[];
+  /** EVM RPC used when a helper needs one and none was passed */
+  evmRpc?: string;
+  /** Node URL for every other chain (XRP, Sui, NEAR, Aptos, TON, Cardano, Tron) */
+  chainRpcs?: Partial<Record<ChainId, string>>;
+}
+
+export type NetworkName = "ic" | "local";
+
+/** A preset name, or your own network. Only `host` is required for custom ones. */
+export type Network = NetworkName | (Partial<NetworkConfig> & { host: string });
+
+export const NETWORKS: Readonly<Record<NetworkName, Readonly<NetworkConfig>>> = {
+  ic: {
+    host: "https://icp0.io",
+    fetchRootKey: false,
+    solanaRpcs: MAINNET_SOLANA_RPCS,
+    chainRpcs: MAINNET_CHAIN_RPCS,
+  },
+  local: {
+    host: LOCAL_REPLICA_HOST,
+    fetchRootKey: true,
+    solanaRpcs: [LOCAL_SOLANA_RPC],
+    evmRpc: LOCAL_EVM_RPC,
+  },
+};
+
+/** Expand a preset name or partial custom network into a full NetworkConfig. */
+export function resolveNetwork(network: Network = "ic"): NetworkConfig {
+  if (typeof network === "string") {
+    const preset = NETWORKS[network];
+    if (!preset) throw new Error(`Unknown network "${network}" — use "ic", "local" or a NetworkConfig`);
+    return preset;
+  }
+  return {
+    fetchRootKey: false,
+    solanaRpcs: MAINNET_SOLANA_RPCS,
+    chainRpcs: MAINNET_CHAIN_RPCS,
+    ...network,
+  };
+}
+
+// The *RpcFor helpers below return the healthiest endpoint of the chain's
+// RpcPool (rpc-pool.ts) once one is set up, so SDK defaults go through it too.
+
+/** Primary Solana RPC for a config — pass it to broadcastSolana / fetchBlockhash. */
+export function solanaRpcFor(config: { network?: Network } = {}): string {
+  return hasRpcPool("solana") ? rpcPool("solana").url : resolveNetwork(config.network).solanaRpcs[0];
+}
+
+/** All Solana RPCs for a config, in preference order. */
+export function solanaRpcsFor(config: { network?: Network } = {}): string[] {
+  return hasRpcPool("solana") ? rpcPool("solana").endpoints : resolveNetwork(config.network).solanaRpcs;
+}
+
+/** EVM RPC for a config. Mainnet has no default — bring your own provider. */
+export function evmRpcFor(config: { network?: Network } = {}): string {
+  const rpc = resolveNetwork(config.network).evmRpc;
+  if (!rpc) throw new Error("No default EVM RPC on this network — pass an rpcUrl");
+  return rpc;
+}
+
+/** Node URL for any chain on a config's network: Solana, EVM, or `chainRpcs`. */
+export function chainRpcFor(chain: ChainId, config: { network?: Network } = {}): string {
+  if (hasRpcPool(chain)) return rpcPool(chain).url;
+  const network = resolveNetwork(config.network);
+  if (chain === "solana") return network.solanaRpcs[0];
+  const rpc = isEvmChain(chain) ? network.evmRpc : network.chainRpcs?.[chain];
+  if (!rpc) throw new Error(`No ${chain} node on this network — pass your own ${chain} RPC URL`);
+  return rpc;
+}
+
+// ============================================================
+// DFX CANISTER IDS
+// ============================================================
+
+/** dfx canister name for each SDK canister. Defaults to the camelCase and snake_case key. */
+export type DfxCanisterNames = Partial<Record<keyof CanisterIds, string>>;
+
+/**
+ * Pick SDK canister IDs out of a parsed canister_ids.json
+ * (`{ "<name>": { "<network>": "<id>" } }`). Unknown names are ignored.
+ */
+export function canisterIdsFromDfx(
+  json: Record<string, Record<string, string>>,
+  dfxNetwork: string = "local",
+  names: DfxCanisterNames = {},
+): Partial<CanisterIds> {
+  const keys: Array<keyof CanisterIds> = [
+    "menese", "sovereignSend", "cksol", "cksolLedger", "icpSolSwap", "icpLedger", "solBorrowV3",
+  ];
+  const ids: Partial<CanisterIds> = {};
+  for (const key of keys) {
+    const candidates = names[key]
+      ? [names[key]!]
+      : [key, key.replace(/[A-Z0-9]+/g, (m) => `_${m.toLowerCase()}`)];
+    for (const name of candidates) {
+      const id = json[name]?.[dfxNetwork];
+      if (id) { ids[key] = id; break; }
+    }
+  }
+  return ids;
+}
+
+/**
+ * Read `.dfx/<network>/canister_ids.json` (Node only).
+ * In the browser, import the JSON with your bundler and use canisterIdsFromDfx().
+ */
+export async function loadDfxCanisterIds(options: {
+  /** Project root containing .dfx/. Default: process.cwd() */
+  projectDir?: string;
+  dfxNetwork?: string;
+  names?: DfxCanisterNames;
+} = {}): Promise<Partial<CanisterIds>> {
+  const { readFile } = await import("node:fs/promises");
+  const dfxNetwork = options.dfxNetwork ?? "local";
+  const dir = options.projectDir ?? process.cwd();
+  const path = `${dir}/.dfx/${dfxNetwork}/canister_ids.json`;
+
+  let json: Record<string, Record<string, string>>;
+  try {
+    json = JSON.parse(await readFile(path, "utf8"));
+  } catch (e) {
+    throw new Error(`Could not read ${path} — run \`dfx deploy\` first (${(e as Error).message})`);
+  }
+  return canisterIdsFromDfx(json, dfxNetwork, options.names);
+}
+
+/**
+ * The "local" preset with canister IDs loaded from .dfx/local/canister_ids.json.
+ * Pass `host` if your replica is not on the default port.
+ */
+export async function localNetwork(options: {
+  projectDir?: string;
+  names?: DfxCanisterNames;
+  host?: string;
+} = {}): Promise<NetworkConfig> {
+  const canisterIds = await loadDfxCanisterIds({ projectDir: options.projectDir, names: options.names });
+  return {
+    ...NETWORKS.local,
+    host: options.host ?? NETWORKS.local.host,
+    canisterIds,
+  };
+}
@@ -0,0 +1,305 @@
+// query-cache.ts — Cache for canister reads that (almost) never change
+//
+// A principal's addresses never change, and ICRC-1 token info, the ICP DEX
+// token list and pools change rarely. Every actor from createMeneseActor()
+// checks a QueryCache before calling those methods:
+//
+//   method                          TTL
+//   getMy*Address, getAllAddresses  forever (derived from the principal)
+//   getICRC1TokenInfo               24 h
+//   getSupportedICPTokens           1 h
+//   getICPDexTokens                 1 h
+//   getICPDexPools                  5 min — dropped after swaps / liquidity changes
+//
+// By default all actors share one in-memory cache (sharedQueryCache), so
+// recreating the actor per function no longer refetches addresses. To keep
+// entries across reloads, pass a cache with persistent storage:
+//
+//   const cache = new QueryCache({ storage: indexedDbStorage() });    // browser
+//   const cache = new QueryCache({ storage: fileStorage(".menese-cache.json") });  // Node
+//   const menese = await createMeneseActor({ identity, cache });
+//
+// `cache: false` turns it off. Only successful results are stored — an
+// `{ err }` is never cached.
+
+import { Actor } from "@dfinity/agent";
+import { Principal } from "@dfinity/principal";
+
+// ============================================================
+// STORAGE ADAPTERS
+// ============================================================
+
+/** Where serialized entries live. Values are opaque strings. */
+export interface CacheStorage {
+  get(key: string): Promise<string | undefined>;
+  set(key: string, value: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+/** Lost on reload. The default. */
+export function memoryStorage(): CacheStorage {
+  const map = new Map<string, string>();
+  return {
+    async get(key) { return map.get(key); },
+    async set(key, value) { map.set(key, value); },
+    async delete(key) { map.delete(key); },
+    async keys() { return [...map.keys()]; },
+  };
+}
+
+/** window.localStorage, keys prefixed with `prefix`. ~5 MB per origin. */
+export function localStorageStorage(prefix = "menese-cache:"): CacheStorage {
+  return {
+    async get(key) { return localStorage.getItem(prefix + key) ?? undefined; },
+    async set(key, value) { localStorage.setItem(prefix + key, value); },
+    async delete(key) { localStorage.removeItem(prefix + key); },
+    async keys() {
+      const keys: string[] = [];
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (key?.startsWith(prefix)) keys.push(key.slice(prefix.length));
+      }
+      return keys;
+    },
+  };
+}
+
+/** IndexedDB object store — no size limit worth worrying about. */
+export function indexedDbStorage(dbName = "menese-cache", storeName = "entries"): CacheStorage {
+  let db: Promise<IDBDatabase> | undefined;
+  const open = () => (db ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(dbName, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(storeName);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }));
+  const run = async <T>(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const store = (await open()).transaction(storeName, mode).objectStore(storeName);
+    return new Promise((resolve, reject) => {
+      const request = op(store);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+  return {
+    async get(key) { return run("readonly", (s) => s.get(key)); },
+    async set(key, value) { await run("readwrite", (s) => s.put(value, key)); },
+    async delete(key) { await run("readwrite", (s) => s.delete(key)); },
+    async keys() { return (await run("readonly", (s) => s.getAllKeys())).map(String); },
+  };
+}
+
+/** One JSON file (Node). Read once, rewritten on every change. */
+export function fileStorage(path: string): CacheStorage {
+  let entries: Promise<Map<string, string>> | undefined;
+  const load = () => (entries ??= (async () => {
+    const fs = await import("node:fs/promises");
+    try {
+      return new Map(Object.entries(JSON.parse(await fs.readFile(path, "utf8")) as Record<string, string>));
+    } catch {
+      return new Map<string, string>();  // missing or corrupt file — start empty
+    }
+  })());
+  const save = async (map: Map<string, string>) => {
+    const fs = await import("node:fs/promises");
+    await fs.writeFile(path, JSON.stringify(Object.fromEntries(map)));
+  };
+  return {
+    async get(key) { return (await load()).get(key); },
+    async set(key, value) {
+      const map = await load();
+      map.set(key, value);
+      await save(map);
+    },
+    async delete(key) {
+      const map = await load();
+      if (map.delete(key)) await save(map);
+    },
+    async keys() { return [...(await load()).keys()]; },
+  };
+}
+
+// ============================================================
+// SERIALIZATION — Candid values → JSON
+// ============================================================
+
+// bigint, Principal and Uint8Array survive a round trip through storage.
+export function stringifyCandid(value: unknown): string {
+  return JSON.stringify(value, function (this: any, key: string) {
+    const raw = this[key];
+    if (typeof raw === "bigint") return { $bigint: raw.toString() };
+    if (raw instanceof Principal) return { $principal: raw.toText() };
+    if (raw instanceof Uint8Array) return { $bytes: Array.from(raw) };
+    return raw;
+  });
+}
+
+export function parseCandid(text: string): unknown {
+  return JSON.parse(text, (_key, value) => {
+    if (value && typeof value === "object" && !Array.isArray(value)) {
+      if ("$bigint" in value) return BigInt(value.$bigint);
+      if ("$principal" in value) return Principal.fromText(value.$principal);
+      if ("$bytes" in value) return Uint8Array.from(value.$bytes);
+    }
+    return value;
+  });
+}
+
+// ============================================================
+// POLICY
+// ============================================================
+
+const HOUR = 60 * 60 * 1000;
+
+/** Milliseconds each method stays cached. Infinity = forever; methods not listed are never cached. */
+export const DEFAULT_CACHE_TTLS: Readonly<Record<string, number>> = {
+  getMySolanaAddress: Infinity,
+  getMyEvmAddress: Infinity,
+  getMyBitcoinAddress: Infinity,
+  getMyLitecoinAddress: Infinity,
+  getMyCardanoAddress: Infinity,
+  getMySuiAddress: Infinity,
+  getMyXrpAddress: Infinity,
+  getMyTonAddress: Infinity,
+  getTronAddress: Infinity,
+  getMyAptosAddress: Infinity,
+  getMyNearAddress: Infinity,
+  getMyCloakAddress: Infinity,
+  getMyThorAddress: Infinity,
+  getMySolanaAta: Infinity,
+  getAllAddresses: Infinity,
+  getICRC1TokenInfo: 24 * HOUR,
+  getSupportedICPTokens: HOUR,
+  getICPDexTokens: HOUR,
+  getICPDexPools: 5 * 60 * 1000,
+};
+
+/** Update method → cached methods whose entries it makes stale. */
+export const DEFAULT_INVALIDATIONS: Readonly<Record<string, string[]>> = {
+  executeICPDexSwap: ["getICPDexPools"],
+  addICPLiquidity: ["getICPDexPools"],
+  removeICPLiquidity: ["getICPDexPools"],
+};
+
+export interface QueryCacheOptions {
+  /** Default: memoryStorage() */
+  storage?: CacheStorage;
+  /** Merged over DEFAULT_CACHE_TTLS. 0 stops caching a method. */
+  ttls?: Record<string, number>;
+  /** Merged over DEFAULT_INVALIDATIONS */
+  invalidations?: Record<string, string[]>;
+}
+
+interface Entry {
+  value: unknown;
+  /** null = never expires */
+  expiresAt: number | null;
+}
+
+/** `{ err }` / `{ Err }` — a failure, never cached. */
+const isFailure = (value: unknown) => typeof value === "object" && value !== null
+  && ("err" in value || "Err" in value) && Object.keys(value).length === 1;
+
+// ============================================================
+// CACHE
+// ============================================================
+
+export class QueryCache {
+  readonly storage: CacheStorage;
+  readonly ttls: Record<string, number>;
+  readonly invalidations: Record<string, string[]>;
+  /** Calls in flight, so concurrent callers share one request */
+  private pending = new Map<string, Promise<unknown>>();
+
+  constructor(options: QueryCacheOptions = {}) {
+    this.storage = options.storage ?? memoryStorage();
+    this.ttls = { ...DEFAULT_CACHE_TTLS, ...options.ttls };
+    this.invalidations = { ...DEFAULT_INVALIDATIONS, ...options.invalidations };
+  }
+
+  /**
+   * Wrap an actor so cached methods read through this cache and invalidating
+   * updates drop stale entries. Entries are keyed by method, canister,
+   * caller principal and arguments; `scope` replaces canister + caller for
+   * objects that are not actors (e.g. a mock service).
+   */
+  wrap<T extends object>(actor: T, scope?: string): T {
+    let resolvedScope: Promise<string> | undefined;
+    const scopeOf = () => (resolvedScope ??= scope !== undefined ? Promise.resolve(scope) : actorScope(actor));
+
+    return new Proxy(actor, {
+      get: (target, prop, receiver) => {
+        const value = Reflect.get(target, prop, receiver);
+        if (typeof prop !== "string" || typeof value !== "function") return value;
+        const call = (...args: unknown[]) => value.apply(target, args);
+
+        if (this.ttls[prop] > 0) {
+          return async (...args: unknown[]) => this.read(`${prop}|${await scopeOf()}|${stringifyCandid(args)}`, prop, () => call(...args));
+        }
+        const stale = this.invalidations[prop];
+        if (stale) {
+          return async (...args: unknown[]) => {
+            try {
+              return await call(...args);
+            } finally {
+              await this.invalidate(stale);
+            }
+          };
+        }
+        return call;
+      },
+    });
+  }
+
+  /** Drop every entry for these methods (all callers, all arguments). */
+  async invalidate(methods: string | string[]): Promise<void> {
+    const names = new Set(typeof methods === "string" ? [methods] : methods);
+    const keys = await this.storage.keys();
+    await Promise.all(keys.filter((key) => names.has(key.split("|")[0])).map((key) => this.storage.delete(key)));
+  }
+
+  /** Drop everything. */
+  async clear(): Promise<void> {
+    await Promise.all((await this.storage.keys()).map((key) => this.storage.delete(key)));
+  }
+
+  private async read(key: string, method: string, call: () => Promise<unknown>): Promise<unknown> {
+    const stored = await this.storage.get(key).catch(() => undefined);
+    if (stored !== undefined) {
+      const entry = parseCandid(stored) as Entry;
+      if (entry.expiresAt === null || entry.expiresAt > Date.now()) return entry.value;
+    }
+
+    let pending = this.pending.get(key);
+    if (!pending) {
+      pending = call().then(async (value) => {
+        if (!isFailure(value)) {
+          const ttl = this.ttls[method];
+          const entry: Entry = { value, expiresAt: ttl === Infinity ? null : Date.now() + ttl };
+          // A full or unavailable store must not fail the call
+          await this.storage.set(key, stringifyCandid(entry)).catch(() => {});
+        }
+        return value;
+      }).finally(() => this.pending.delete(key));
+      this.pending.set(key, pending);
+    }
+    return pending;
+  }
+}
+
+/** "<canister>|<caller principal>" for an actor created by agent-js. */
+async function actorScope(actor: object): Promise<string> {
+  const canister = Actor.canisterIdOf(actor as Actor).toText();
+  const agent = Actor.agentOf(actor as Actor);
+  const principal = (await agent?.getPrincipal?.())?.toText() ?? "anonymous";
+  return `${canister}|${principal}`;
+}
+
+/** Used by every actor whose config does not set `cache`. In-memory. */
+export const sharedQueryCache = new QueryCache();
+
+/** Wrap an actor with `cache` — sharedQueryCache when undefined, unchanged when false. */
+export function withCache<T extends object>(actor: T, cache?: QueryCache | false, scope?: string): T {
+  return cache === false ? actor : (cache ?? sharedQueryCache).wrap(actor, scope);
+}
@@ -0,0 +1,107 @@
+// retry.test.ts — which failures are retried for queries and updates, and the retry loop itself
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { AgentCallError, AgentHTTPResponseError, QueryCallRejectedError, ReplicaRejectCode, UpdateCallRejectedError } from "@dfinity/agent";
+import { Principal } from "@dfinity/principal";
+import { CallTimeout, InsufficientFunds, RpcFailure, toMeneseError } from "./errors";
+import { createMockMenese } from "./mock-menese";
+import { backoffDelay, callWithRetry, resolveRetryPolicy, shouldRetry, withRetry, type Failure, type RetryEvent } from "./retry";
+import { idlFactory } from "./sdk-setup";
+
+const CANISTER = Principal.fromText("aaaaa-aa");
+const http = (status: number) => new AgentHTTPResponseError(`HTTP ${status}`, { ok: false, status, statusText: "", headers: [] });
+const thrown = (e: unknown): Failure => ({ error: toMeneseError(e, "m"), thrown: e });
+
+// HttpAgent.call wraps a failed submission in AgentCallError with the HTTP error as its response
+const submitRejected = (status: number) => new AgentCallError("submit failed", http(status) as never, "", "", "", "");
+const updateRejected = (code: ReplicaRejectCode) =>
+  new UpdateCallRejectedError(CANISTER, "m", new Uint8Array() as never, { ok: false, status: 200, statusText: "", body: null, headers: [] }, code, "rejected");
+const queryRejected = (code: ReplicaRejectCode) =>
+  new QueryCallRejectedError(CANISTER, "m", { status: "rejected" as never, reject_code: code, reject_message: "rejected", error_code: "" });
+
+/** No waiting between attempts. */
+const fast = (onAttempt?: (e: RetryEvent) => void) =>
+  resolveRetryPolicy({ query: { baseDelayMs: 0 }, update: { baseDelayMs: 0 }, idempotentUpdates: ["register"], onAttempt })!;
+
+test("resolveRetryPolicy merges over the defaults; false turns retries off", () => {
+  const policy = resolveRetryPolicy({ query: { attempts: 9 }, idempotentUpdates: ["x"] })!;
+  assert.deepEqual(policy.query, { attempts: 9, baseDelayMs: 250, maxDelayMs: 4_000, timeoutMs: 30_000 });
+  assert.equal(policy.update.attempts, 3);
+  assert.deepEqual(policy.idempotentUpdates, ["expectCkSolDeposit", "x"]);
+  assert.equal(resolveRetryPolicy(false), null);
+});
+
+test("backoffDelay is full jitter under a doubling, capped ceiling", (t) => {
+  t.mock.method(Math, "random", () => 0.999999);
+  const rule = { attempts: 5, baseDelayMs: 100, maxDelayMs: 350, timeoutMs: 0 };
+  assert.deepEqual([1, 2, 3, 4].map((r) => backoffDelay(rule, r)), [99, 199, 349, 349]);
+});
+
+test("queries retry any transient failure", () => {
+  const policy = fast();
+  const query = (f: Failure) => shouldRetry(f, "query", "m", policy);
+  assert.equal(query({ error: new RpcFailure("HTTP outcall failed") }), true);
+  assert.equal(query({ error: new CallTimeout("slow") }), true);
+  assert.equal(query(thrown(http(503))), true);
+  assert.equal(query(thrown(queryRejected(ReplicaRejectCode.SysTransient))), true);
+  assert.equal(query(thrown(queryRejected(ReplicaRejectCode.CanisterError))), false);
+  assert.equal(query({ error: new InsufficientFunds("no") }), false);
+});
+
+test("updates retry only when the call provably did not execute", () => {
+  const policy = fast();
+  const update = (f: Failure, method = "m") => shouldRetry(f, "update", method, policy);
+  assert.equal(update(thrown(submitRejected(429))), true);
+  assert.equal(update(thrown(updateRejected(ReplicaRejectCode.SysTransient))), true);
+  assert.equal(update({ error: new RpcFailure("ledger busy"), ledgerNotExecuted: true }), true);
+  // After submission: the transfer may already be on-chain
+  assert.equal(update(thrown(submitRejected(503))), false);
+  assert.equal(update(thrown(http(503))), false);
+  assert.equal(update(thrown(updateRejected(ReplicaRejectCode.CanisterError))), false);
+  assert.equal(update({ error: new RpcFailure("HTTP outcall failed") }), false);
+  assert.equal(update({ error: new CallTimeout("slow") }), false);
+  // ...unless it is safe to repeat
+  assert.equal(update({ error: new RpcFailure("HTTP outcall failed") }, "register"), true);
+});
+
+test("callWithRetry retries a query's {err} and reports every attempt", async () => {
+  const events: RetryEvent[] = [];
+  const answers = [{ err: "HTTP outcall failed" }, { err: "rate limited" }, { ok: 1n }];
+  const result = await callWithRetry(async () => answers.shift()!, "balance", "query", fast((e) => events.push(e)));
+  assert.deepEqual(result, { ok: 1n });
+  assert.deepEqual(events.map((e) => [e.attempt, e.outcome, e.error?.kind]), [[1, "retry", "RpcFailure"], [2, "retry", "RpcFailure"], [3, "success", undefined]]);
+});
+
+test("callWithRetry returns the last {err} and re-throws thrown errors unchanged", async () => {
+  let calls = 0;
+  const refused = await callWithRetry(async () => (calls++, { err: "HTTP outcall failed" }), "send", "update", fast());
+  assert.deepEqual([refused, calls], [{ err: "HTTP outcall failed" }, 1]);
+
+  calls = 0;
+  const error = submitRejected(429);
+  await assert.rejects(callWithRetry(async () => { calls++; throw error; }, "send", "update", fast()), (e) => e === error);
+  assert.equal(calls, 3);
+});
+
+test("callWithRetry times out an attempt as CallTimeout", async () => {
+  const policy = resolveRetryPolicy({ query: { attempts: 1, timeoutMs: 5 } })!;
+  await assert.rejects(callWithRetry(() => new Promise(() => {}), "slow", "query", policy), CallTimeout);
+});
+
+test("withRetry reads query/update from the IDL", async () => {
+  const menese = createMockMenese();
+  let fails = 1;
+  menese.on("health", () => {
+    if (fails-- > 0) throw new Error("fetch failed");
+    return "ok";
+  });
+  const retried = withRetry(menese.service, { query: { baseDelayMs: 0 } }, idlFactory);
+  assert.equal(await retried.health(), "ok");
+  assert.equal(menese.callsTo("health").length, 2);
+
+  menese.failNext("sendSolTransaction", "RpcFailure");
+  const sent = await retried.sendSolTransaction("11111111111111111111111111111111", 1n);
+  assert.ok("err" in sent);
+  assert.equal(menese.callsTo("sendSolTransaction").length, 1);
+});
@@ -0,0 +1,330 @@
+// retry.ts — Retry, timeout and backoff for canister calls
+//
+// Every actor the SDK creates (Menese, Sovereign Send, mSOL, ICRC ledgers) is
+// wrapped with the policy from `config.retry`:
+//
+//   query calls   retried on any transient failure — replica SysTransient,
+//                 HTTP 429/5xx, network errors, timeouts, `err` texts that
+//                 classify as RpcFailure / TemporarilyUnavailable
+//   update calls  retried ONLY when the call provably did not execute:
+//                 turned away at submission (HTTP 429, SysTransient) or a
+//                 ledger `{ Err: { TemporarilyUnavailable } }`. A timeout, a
+//                 failed read_state poll or an `err: "HTTP outcall failed"`
+//                 after execution is NOT retried — the transfer may already be
+//                 on-chain. A failed poll is re-polled for the same request id
+//                 instead; the call itself is never submitted twice.
+//
+// Updates that are safe to repeat (same args → same effect) can opt in to the
+// query rules with `idempotentUpdates`:
+//
+//   const menese = await createMeneseActor({
+//     identity,
+//     retry: {
+//       query: { attempts: 5, timeoutMs: 10_000 },
+//       idempotentUpdates: ["expectCkSolDeposit"],
+//       onAttempt: (e) => console.debug(`${e.method} #${e.attempt}: ${e.outcome}`, e.error),
+//     },
+//   });
+//
+// `retry: false` turns it off. Retries happen inside the actor call, so the
+// caller still sees the last result (or error) if every attempt fails.
+
+import {
+  Actor,
+  AgentCallError,
+  AgentHTTPResponseError,
+  type ActorMethod,
+  type Agent,
+  ReplicaRejectCode,
+} from "@dfinity/agent";
+import { IDL } from "@dfinity/candid";
+import {
+  CallTimeout,
+  RpcFailure,
+  TemporarilyUnavailable,
+  errorFromLedger,
+  errorFromText,
+  toMeneseError,
+  type MeneseError,
+} from "./errors";
+
+// ============================================================
+// POLICY
+// ============================================================
+
+export interface RetryRule {
+  /** Total attempts, including the first. 1 = no retries */
+  attempts: number;
+  /** First backoff delay; doubles every retry */
+  baseDelayMs: number;
+  /** Backoff cap */
+  maxDelayMs: number;
+  /** Per-attempt timeout. 0 = none */
+  timeoutMs: number;
+}
+
+export type CallKind = "query" | "update";
+
+export interface RetryEvent {
+  method: string;
+  kind: CallKind;
+  /** 1-based */
+  attempt: number;
+  attempts: number;
+  /** "retry" → another attempt follows after `delayMs` */
+  outcome: "success" | "retry" | "giveup";
+  error?: MeneseError;
+  delayMs?: number;
+}
+
+export interface RetryPolicy {
+  query: RetryRule;
+  update: RetryRule;
+  /** Update methods that are safe to repeat — retried with the query rules */
+  idempotentUpdates: string[];
+  /** Called after every attempt */
+  onAttempt?: (event: RetryEvent) => void;
+}
+
+/** What MeneseConfig.retry accepts: any subset of the policy. */
+export interface RetryOptions {
+  query?: Partial<RetryRule>;
+  update?: Partial<RetryRule>;
+  idempotentUpdates?: string[];
+  onAttempt?: (event: RetryEvent) => void;
+}
+
+export const DEFAULT_RETRY_POLICY: Readonly<RetryPolicy> = {
+  query: { attempts: 4, baseDelayMs: 250, maxDelayMs: 4_000, timeoutMs: 30_000 },
+  // No default timeout: an update that outlives it has an unknown outcome anyway
+  update: { attempts: 3, baseDelayMs: 500, maxDelayMs: 5_000, timeoutMs: 0 },
+  // Keyed by the Solana tx signature — registering the same deposit twice is a no-op
+  idempotentUpdates: ["expectCkSolDeposit"],
+};
+
+/** Merge RetryOptions over the defaults. `false` → null (no retries). */
+export function resolveRetryPolicy(options?: RetryOptions | false): RetryPolicy | null {
+  if (options === false) return null;
+  return {
+    query: { ...DEFAULT_RETRY_POLICY.query, ...options?.query },
+    update: { ...DEFAULT_RETRY_POLICY.update, ...options?.update },
+    idempotentUpdates: [...DEFAULT_RETRY_POLICY.idempotentUpdates, ...(options?.idempotentUpdates ?? [])],
+    onAttempt: options?.onAttempt,
+  };
+}
+
+/** Full-jitter exponential backoff: random in [0, min(max, base · 2^(retry-1))]. */
+export function backoffDelay(rule: RetryRule, retry: number): number {
+  const ceiling = Math.min(rule.maxDelayMs, rule.baseDelayMs * 2 ** (retry - 1));
+  return Math.floor(Math.random() * ceiling);
+}
+
+// ============================================================
+// CLASSIFICATION
+// ============================================================
+
+/** A failed attempt: a thrown error, or a returned `{err}` / `{Err}`. */
+export interface Failure {
+  error: MeneseError;
+  /** The raw thrown value, when the call threw */
+  thrown?: unknown;
+  /** True for an ICRC `{ Err: { TemporarilyUnavailable } }` — the ledger did nothing */
+  ledgerNotExecuted?: boolean;
+}
+
+/** HTTP status of a gateway error, bare or wrapped by the agent (AgentCallError.response is the inner error). */
+function httpStatus(e: unknown): number | undefined {
+  if (e instanceof AgentHTTPResponseError) return e.response.status;
+  const inner = (e as { response?: unknown } | undefined)?.response;
+  return inner instanceof AgentHTTPResponseError ? inner.response.status : undefined;
+}
+
+const isTransientStatus = (status?: number) => status === 429 || (status !== undefined && status >= 500);
+
+/**
+ * Reject code of a replica rejection thrown by a query or update call.
+ * AgentError's constructor resets the prototype of agent-js's actor call
+ * errors, so `instanceof UpdateCallRejectedError` never matches: read their fields.
+ */
+function rejectCode(thrown: unknown, kind: CallKind): ReplicaRejectCode | undefined {
+  const e = thrown as { type?: string; reject_code?: ReplicaRejectCode; result?: { reject_code?: ReplicaRejectCode } } | null | undefined;
+  if (e?.type !== kind) return undefined;
+  return kind === "update" ? e.reject_code : e.result?.reject_code;
+}
+
+/**
+ * The update never reached the canister: turned away at submission.
+ * HttpAgent.call wraps submission failures in AgentCallError; a bare
+ * AgentHTTPResponseError comes from read_state polling, after the call was
+ * accepted, and does not count.
+ */
+function rejectedBeforeExecution(thrown: unknown): boolean {
+  const code = rejectCode(thrown, "update");
+  if (code !== undefined) return code === ReplicaRejectCode.SysTransient;
+  return thrown instanceof AgentCallError
+    && thrown.response instanceof AgentHTTPResponseError
+    && thrown.response.response.status === 429;
+}
+
+/** Would the same call plausibly succeed if repeated? (Says nothing about side effects.) */
+function isTransient(failure: Failure): boolean {
+  const { error, thrown } = failure;
+  const code = rejectCode(thrown, "query");
+  if (code !== undefined) return code === ReplicaRejectCode.SysTransient;
+  if (thrown !== undefined && (rejectedBeforeExecution(thrown) || isTransientStatus(httpStatus(thrown)))) return true;
+  return error instanceof RpcFailure || error instanceof TemporarilyUnavailable || error instanceof CallTimeout;
+}
+
+/** Should this failed attempt be retried under `policy`? */
+export function shouldRetry(failure: Failure, kind: CallKind, method: string, policy: RetryPolicy): boolean {
+  if (kind === "query" || policy.idempotentUpdates.includes(method)) return isTransient(failure);
+  return failure.ledgerNotExecuted === true
+    || (failure.thrown !== undefined && rejectedBeforeExecution(failure.thrown));
+}
+
+/** A returned value that signals a failure: `{ err }` or `{ Err }`. */
+function failureFromResult(result: unknown, method: string): Failure | null {
+  if (typeof result !== "object" || result === null || Array.isArray(result)) return null;
+  const r = result as Record<string, any>;
+  const keys = Object.keys(r);
+  if (keys.length !== 1) return null;
+  if (keys[0] === "err") return { error: errorFromText(String(r.err), { method, raw: result }) };
+  if (keys[0] === "Err" && typeof r.Err === "object" && r.Err !== null) {
+    const error = errorFromLedger(r.Err, method);
+    return { error, ledgerNotExecuted: "TemporarilyUnavailable" in r.Err };
+  }
+  return null;
+}
+
+// ============================================================
+// CALLING
+// ============================================================
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+function withTimeout<T>(promise: Promise<T>, ms: number, method: string): Promise<T> {
+  if (!ms) return promise;
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new CallTimeout(`${method} did not answer within ${ms}ms`, { method })), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Run `call` under `policy`. Returned `{err}`/`{Err}` values that are not
+ * retried are returned as-is; thrown errors are re-thrown unchanged.
+ */
+export async function callWithRetry<T>(
+  call: () => Promise<T>,
+  method: string,
+  kind: CallKind,
+  policy: RetryPolicy,
+): Promise<T> {
+  const idempotent = kind === "query" || policy.idempotentUpdates.includes(method);
+  const rule = idempotent ? policy.query : policy.update;
+
+  for (let attempt = 1; ; attempt++) {
+    let failure: Failure | null;
+    let result: T | undefined;
+    try {
+      result = await withTimeout(call(), rule.timeoutMs, method);
+      failure = failureFromResult(result, method);
+    } catch (thrown) {
+      failure = { error: toMeneseError(thrown, method), thrown };
+    }
+
+    const event = { method, kind, attempt, attempts: rule.attempts, error: failure?.error };
+    if (!failure) {
+      policy.onAttempt?.({ ...event, outcome: "success" });
+      return result as T;
+    }
+    if (attempt >= rule.attempts || !shouldRetry(failure, kind, method, policy)) {
+      policy.onAttempt?.({ ...event, outcome: "giveup" });
+      if (failure.thrown !== undefined) throw failure.thrown;
+      return result as T;
+    }
+    const delayMs = backoffDelay(rule, attempt);
+    policy.onAttempt?.({ ...event, outcome: "retry", delayMs });
+    await sleep(delayMs);
+  }
+}
+
+/**
+ * `agent`, with every read_state request retried under `rule`. An update
+ * being polled was accepted already: asking again about the same request id
+ * is safe where calling again is not.
+ */
+function repolling(agent: Agent, rule: RetryRule): Agent {
+  const readState: Agent["readState"] = async (...args) => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await agent.readState(...args);
+      } catch (e) {
+        if (attempt >= rule.attempts) throw e;
+        await sleep(backoffDelay(rule, attempt));
+      }
+    }
+  };
+  return new Proxy(agent, {
+    get(target, prop) {
+      if (prop === "readState") return readState;
+      // HttpAgent keeps its state in private fields: read and call on the agent itself
+      const value = Reflect.get(target, prop, target);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+}
+
+/** query / update for every method of an IDL service. */
+function callKinds(service: IDL.ServiceClass): Map<string, CallKind> {
+  return new Map(service._fields.map(([name, func]) => [
+    name,
+    func.annotations.includes("query") || func.annotations.includes("composite_query") ? "query" : "update",
+  ]));
+}
+
+/**
+ * Wrap an actor so every method call goes through the retry policy.
+ * Query/update is read from the actor's interface; pass `idlFactory` for
+ * plain objects (e.g. a mock service). Unknown methods count as updates.
+ */
+export function withRetry<T extends object>(
+  actor: T,
+  options?: RetryOptions | false,
+  idlFactory?: IDL.InterfaceFactory | ((arg: { IDL: any }) => any),
+): T {
+  const policy = resolveRetryPolicy(options);
+  if (!policy) return actor;
+
+  let kinds: Map<string, CallKind> = new Map();
+  if (idlFactory) {
+    kinds = callKinds(idlFactory({ IDL }) as IDL.ServiceClass);
+  } else {
+    try {
+      kinds = callKinds(Actor.interfaceOf(actor as any));
+    } catch {
+      // not an Actor — every method is treated as an update
+    }
+  }
+  let agent: Agent | undefined;
+  try {
+    const own = Actor.agentOf(actor as any);
+    if (own) agent = repolling(own, policy.update);
+  } catch {
+    // not an Actor — it polls nothing
+  }
+
+  return new Proxy(actor, {
+    get(target, prop, receiver) {
+      const value = Reflect.get(target, prop, receiver);
+      if (typeof prop !== "string" || typeof value !== "function") return value;
+      const kind = kinds.get(prop) ?? "update";
+      const { withOptions } = value as Partial<ActorMethod>;
+      const invoke = kind === "update" && agent && withOptions
+        ? (args: unknown[]) => withOptions({ agent })(...args)
+        : (args: unknown[]) => value.apply(target, args);
+      return (...args: unknown[]) => callWithRetry(() => invoke(args), prop, kind, policy);
+    },
+  });
+}
@@ -0,0 +1,359 @@
+// rpc-pool.ts — Several nodes per chain, health-scored, with failover
+//
+// Public nodes rate-limit, lag and go down. An RpcPool holds several
+// endpoints for one chain, scores them by latency and errors, and stops
+// asking one that keeps failing (circuit breaker) until a cooldown passes:
+//
+//   const pool = rpcPool("solana", solanaRpcsFor(config));
+//   await broadcastSolana(signed.signedTxBase64, pool.url);
+//
+// Once a pool exists, every SDK request to one of its endpoints goes through
+// it (rpc.ts) — so pass `pool.url`, the healthiest endpoint, wherever a
+// helper takes an rpcUrl, and to canister methods that take an `rpcEndpoint`:
+//
+//   await menese.aaveSupplyEth(amountWei, rpcPool("ethereum").url, []);
+//
+// Reads fail over to the next endpoint ("sequential", the default), race the
+// best few ("fastest") or need matching answers from several ("quorum").
+// Broadcasts fan out to every live endpoint; the first acceptance wins.
+//
+//   rpcPool("ethereum", [alchemy, infura, publicNode], { read: "quorum" });
+//   await jsonRpc(pool.url, "eth_getBalance", [address, "latest"], { strategy: "fastest" });
+//
+// Only endpoint faults — transport errors, timeouts, 429, 5xx, a body that is
+// not JSON — count against an endpoint and move on to the next one. Any
+// other error is the node's answer and is thrown as is.
+
+import type { ChainId } from "./chains";
+import { CallTimeout, MeneseError, RpcFailure } from "./errors";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type ReadStrategy = "sequential" | "fastest" | "quorum";
+export type RpcStrategy = ReadStrategy | "broadcast";
+
+export interface RpcPoolOptions {
+  /** Strategy for reads that don't name one. Default: "sequential" */
+  read?: ReadStrategy;
+  /** "fastest": endpoints raced at once. Default: 2 */
+  race?: number;
+  /** "quorum": identical answers required. Default: 2 */
+  quorum?: number;
+  /** Consecutive faults that open an endpoint's circuit. Default: 3 */
+  failureThreshold?: number;
+  /** An open circuit skips the endpoint this long, doubling each time it re-opens (up to 16×). Default: 30_000 */
+  cooldownMs?: number;
+  /** Per-request timeout. 0 = none. Default: 15_000 */
+  timeoutMs?: number;
+}
+
+export interface EndpointHealth {
+  url: string;
+  /** Moving average response time; 1s until the first answer */
+  latencyMs: number;
+  /** Moving average of faults, 0–1 */
+  errorRate: number;
+  consecutiveFailures: number;
+  /** Circuit open — skipped until `retryAt` (ms epoch) */
+  open: boolean;
+  retryAt?: number;
+  /** latencyMs × (1 + 4 × errorRate). Lower is better */
+  score: number;
+}
+
+/** A request against one endpoint. `signal` carries the pool timeout and the caller's signal. */
+export type EndpointCall<T> = (endpoint: string, signal?: AbortSignal) => Promise<T>;
+
+interface Endpoint {
+  url: string;
+  latencyMs: number;
+  errorRate: number;
+  consecutiveFailures: number;
+  openUntil: number;
+  /** Times the circuit opened in a row — each doubles the cooldown */
+  opens: number;
+}
+
+const DEFAULTS: Required<RpcPoolOptions> = {
+  read: "sequential",
+  race: 2,
+  quorum: 2,
+  failureThreshold: 3,
+  cooldownMs: 30_000,
+  timeoutMs: 15_000,
+};
+const UNKNOWN_LATENCY_MS = 1_000;
+/** Weight of the newest sample in the moving averages */
+const ALPHA = 0.3;
+
+/**
+ * Worth asking another node: transport failure, timeout, 429, 5xx, garbage
+ * body. A 4xx (404 not found, 400 bad request) is the node's answer, and so
+ * is a JSON-RPC `error` reply (it carries `method`) unless it says the node
+ * is throttling or overloaded.
+ */
+export function isEndpointFault(error: unknown): boolean {
+  if (!(error instanceof RpcFailure || error instanceof CallTimeout)) return false;
+  if (error.method) return /too many requests|rate.?limit|timed? ?out|overloaded|unavailable/i.test(error.message);
+  return !/status code 4(?!29)\d\d/.test(error.message);
+}
+
+const trim = (url: string) => url.replace(/\/+$/, "");
+
+// ============================================================
+// POOL
+// ============================================================
+
+export class RpcPool {
+  readonly chain: ChainId;
+  private options: Required<RpcPoolOptions>;
+  private list: Endpoint[] = [];
+
+  constructor(chain: ChainId, endpoints: string[], options: RpcPoolOptions = {}) {
+    this.chain = chain;
+    this.options = { ...DEFAULTS, ...options };
+    this.setEndpoints(endpoints);
+  }
+
+  /** Endpoints, healthiest first */
+  get endpoints(): string[] {
+    return this.ranked().map((e) => e.url);
+  }
+
+  /** The healthiest endpoint — for helpers that take an rpcUrl and canister `rpcEndpoint` arguments. */
+  get url(): string {
+    return this.ranked()[0].url;
+  }
+
+  health(): EndpointHealth[] {
+    const now = Date.now();
+    return this.ranked().map((e) => ({
+      url: e.url,
+      latencyMs: Math.round(e.latencyMs),
+      errorRate: e.errorRate,
+      consecutiveFailures: e.consecutiveFailures,
+      open: e.openUntil > now,
+      retryAt: e.openUntil > now ? e.openUntil : undefined,
+      score: this.score(e),
+    }));
+  }
+
+  /** Replace the endpoint list. Endpoints that stay keep their health. */
+  setEndpoints(endpoints: string[]): void {
+    const urls = [...new Set(endpoints.map(trim))];
+    if (!urls.length) throw new MeneseError(`${this.chain} RPC pool needs at least one endpoint`);
+    this.list = urls.map((url) => this.list.find((e) => e.url === url) ?? {
+      url, latencyMs: UNKNOWN_LATENCY_MS, errorRate: 0, consecutiveFailures: 0, openUntil: 0, opens: 0,
+    });
+  }
+
+  configure(options: RpcPoolOptions): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /** The endpoint `url` belongs to (the endpoint itself or a path under it), if any. */
+  endpointOf(url: string): string | undefined {
+    const match = this.list
+      .filter((e) => url === e.url || url.startsWith(`${e.url}/`) || url.startsWith(`${e.url}?`))
+      .sort((a, b) => b.url.length - a.url.length)[0];
+    return match?.url;
+  }
+
+  /** Run `call` against the pool's endpoints with `strategy` (default: the pool's read strategy). */
+  request<T>(call: EndpointCall<T>, strategy: RpcStrategy = this.options.read, signal?: AbortSignal): Promise<T> {
+    switch (strategy) {
+      case "fastest": return this.fastest(call, signal);
+      case "quorum": return this.quorum(call, signal);
+      case "broadcast": return this.broadcast(call, signal);
+      default: return this.sequential(call, this.ranked(), signal);
+    }
+  }
+
+  // ── Strategies ────────────────────────────────────────────
+
+  /** One endpoint at a time, healthiest first, until one answers. */
+  private async sequential<T>(call: EndpointCall<T>, endpoints: Endpoint[], signal?: AbortSignal, fault?: unknown): Promise<T> {
+    for (const e of endpoints) {
+      try {
+        return await this.attempt(e, call, signal);
+      } catch (error) {
+        if (!isEndpointFault(error) || signal?.aborted) throw error;
+        fault = error;
+      }
+    }
+    throw this.exhausted(fault);
+  }
+
+  /** The best `race` endpoints at once; the first answer wins. Falls back to the rest one by one. */
+  private async fastest<T>(call: EndpointCall<T>, signal?: AbortSignal): Promise<T> {
+    const ranked = this.ranked();
+    const racers = ranked.slice(0, this.options.race);
+    let winner: { value: T } | { error: unknown };
+    try {
+      winner = await Promise.any(racers.map((e) => this.attempt(e, call, signal).then(
+        (value) => ({ value }),
+        (error) => {
+          if (isEndpointFault(error)) throw error;
+          return { error };   // a node's answer also ends the race
+        },
+      )));
+    } catch (e) {
+      return this.sequential(call, ranked.slice(racers.length), signal, (e as AggregateError).errors.at(-1));
+    }
+    if ("error" in winner) throw winner.error;
+    return winner.value;
+  }
+
+  /**
+   * Ask `quorum` endpoints at once, then one more at a time, until `quorum`
+   * of them give the same answer (compared as JSON). Errors count as answers.
+   */
+  private async quorum<T>(call: EndpointCall<T>, signal?: AbortSignal): Promise<T> {
+    const ranked = this.ranked();
+    const need = Math.min(this.options.quorum, ranked.length);
+    const tally = new Map<string, { count: number; value?: T; error?: unknown }>();
+    let fault: unknown;
+    const ask = async (e: Endpoint) => {
+      let key: string;
+      let answer: { value?: T; error?: unknown };
+      try {
+        const value = await this.attempt(e, call, signal);
+        [key, answer] = [JSON.stringify(value, (_, v) => (typeof v === "bigint" ? `${v}n` : v)), { value }];
+      } catch (error) {
+        if (isEndpointFault(error)) { fault = error; return; }
+        [key, answer] = [`error: ${(error as Error).message}`, { error }];
+      }
+      const entry = tally.get(key) ?? { count: 0, ...answer };
+      entry.count++;
+      tally.set(key, entry);
+    };
+
+    await Promise.all(ranked.slice(0, need).map(ask));
+    for (let next = need; ; next++) {
+      const agreed = [...tally.values()].find((t) => t.count >= need);
+      if (agreed) {
+        if ("error" in agreed && agreed.error !== undefined) throw agreed.error;
+        return agreed.value as T;
+      }
+      if (signal?.aborted || next >= ranked.length) break;
+      await ask(ranked[next]);
+    }
+    if (!tally.size) throw this.exhausted(fault);
+    throw new RpcFailure(`${this.chain}: no ${need} of ${ranked.length} RPC endpoints agree (${tally.size} different answers)`, {
+      raw: [...tally.values()].map((t) => t.value ?? (t.error as Error)?.message),
+    });
+  }
+
+  /**
+   * Every live endpoint at once; the first success wins. If all fail, a
+   * node's rejection (insufficient funds, bad nonce…) beats a fault.
+   */
+  private async broadcast<T>(call: EndpointCall<T>, signal?: AbortSignal): Promise<T> {
+    try {
+      return await Promise.any(this.ranked().filter((e, i) => i === 0 || !this.isOpen(e)).map((e) => this.attempt(e, call, signal)));
+    } catch (e) {
+      const errors = (e as AggregateError).errors;
+      throw errors.find((error) => !isEndpointFault(error)) ?? this.exhausted(errors.at(-1));
+    }
+  }
+
+  // ── Health ────────────────────────────────────────────────
+
+  private async attempt<T>(e: Endpoint, call: EndpointCall<T>, signal?: AbortSignal): Promise<T> {
+    const started = Date.now();
+    const timeout = this.options.timeoutMs ? AbortSignal.timeout(this.options.timeoutMs) : undefined;
+    const combined = signal && timeout ? AbortSignal.any([signal, timeout]) : (signal ?? timeout);
+    try {
+      const value = await call(e.url, combined);
+      this.record(e, Date.now() - started);
+      return value;
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      // A node that answered — even with an error — is healthy
+      if (isEndpointFault(error)) this.record(e);
+      else this.record(e, Date.now() - started);
+      throw error;
+    }
+  }
+
+  /** A latency records an answer; none records a fault. */
+  private record(e: Endpoint, latencyMs?: number): void {
+    const failed = latencyMs === undefined;
+    e.errorRate = e.errorRate * (1 - ALPHA) + (failed ? ALPHA : 0);
+    if (!failed) {
+      e.latencyMs = e.latencyMs === UNKNOWN_LATENCY_MS ? latencyMs : e.latencyMs * (1 - ALPHA) + latencyMs * ALPHA;
+      e.consecutiveFailures = 0;
+      e.opens = 0;
+      e.openUntil = 0;
+      return;
+    }
+    if (++e.consecutiveFailures >= this.options.failureThreshold) {
+      // Half-open after the cooldown: one more fault re-opens it for twice as long
+      e.openUntil = Date.now() + this.options.cooldownMs * 2 ** Math.min(e.opens++, 4);
+      e.consecutiveFailures = this.options.failureThreshold - 1;
+    }
+  }
+
+  private isOpen(e: Endpoint): boolean {
+    return e.openUntil > Date.now();
+  }
+
+  private score(e: Endpoint): number {
+    return e.latencyMs * (1 + 4 * e.errorRate);
+  }
+
+  /** Closed circuits by score, then open ones by how soon they close — never empty. */
+  private ranked(): Endpoint[] {
+    const closed = this.list.filter((e) => !this.isOpen(e)).sort((a, b) => this.score(a) - this.score(b));
+    const open = this.list.filter((e) => this.isOpen(e)).sort((a, b) => a.openUntil - b.openUntil);
+    return [...closed, ...open];
+  }
+
+  private exhausted(fault: unknown): MeneseError {
+    const detail = fault instanceof Error ? ` — last: ${fault.message}` : "";
+    return new RpcFailure(`${this.chain}: all ${this.list.length} RPC endpoints failed${detail}`, { cause: fault });
+  }
+}
+
+// ============================================================
+// SHARED POOLS
+// ============================================================
+
+const pools = new Map<ChainId, RpcPool>();
+
+/**
+ * The process-wide pool for `chain`. `endpoints` creates it, or replaces the
+ * endpoint list of the existing one; `options` are merged into its settings.
+ */
+export function rpcPool(chain: ChainId, endpoints?: string[], options?: RpcPoolOptions): RpcPool {
+  let pool = pools.get(chain);
+  if (!pool) {
+    if (!endpoints?.length) throw new MeneseError(`No ${chain} RPC pool yet — pass its endpoints: rpcPool("${chain}", [url, ...])`);
+    pools.set(chain, (pool = new RpcPool(chain, endpoints, options)));
+    return pool;
+  }
+  if (endpoints?.length) pool.setEndpoints(endpoints);
+  if (options) pool.configure(options);
+  return pool;
+}
+
+export function hasRpcPool(chain: ChainId): boolean {
+  return pools.has(chain);
+}
+
+/** Forget the pool for `chain` — requests to its endpoints go straight to them again. */
+export function removeRpcPool(chain: ChainId): void {
+  pools.delete(chain);
+}
+
+/** The pool serving `url`, and the endpoint it matched. rpc.ts routes every request through this. */
+export function findRpcPool(url: string): { pool: RpcPool; endpoint: string } | undefined {
+  let found: { pool: RpcPool; endpoint: string } | undefined;
+  for (const pool of pools.values()) {
+    const endpoint = pool.endpointOf(url);
+    if (endpoint && (!found || endpoint.length > found.endpoint.length)) found = { pool, endpoint };
+  }
+  return found;
+}
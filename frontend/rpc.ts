@@ -0,0 +1,147 @@
+// rpc.ts — Minimal fetch helpers for chain RPCs
+//
+// Every chain helper (broadcasters, context fetchers...) talks to its node
+// through these, so failures look the same everywhere: transport errors,
+// non-2xx responses and JSON-RPC `error` objects become MeneseErrors via
+// errorFromText — "insufficient funds" is an InsufficientFunds, a 503 is an
+// RpcFailure.
+//
+// A URL that belongs to an RpcPool (rpc-pool.ts) is not fetched directly: the
+// pool picks the endpoint, fails over, races, or fans the request out.
+//
+//   const slot = await jsonRpc<number>(solanaRpcFor(config), "getSlot");
+//   const info = await postJson<any>("https://s1.ripple.com:51234", { method: "server_info", params: [{}] });
+
+import { RpcFailure, errorFromText } from "./errors";
+import { findRpcPool, type RpcStrategy } from "./rpc-pool";
+
+export interface RpcOptions {
+  /** Extra headers — API keys for TronGrid, Blockfrost, toncenter... */
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  /** How a pooled URL is requested. Default: the pool's read strategy; broadcasters use "broadcast" */
+  strategy?: RpcStrategy;
+}
+
+export interface CheckedRpcOptions<T> extends RpcOptions {
+  /**
+   * Runs on each endpoint's reply; throw to make it that endpoint's rejection.
+   * A pool then sees a rejection sent with HTTP 200 as a failed leg, not a winner.
+   */
+  check?: (reply: T) => void;
+}
+
+/** Run `request` against `url`, or through the RpcPool `url` belongs to — same path on each endpoint. */
+function routed<T>(
+  url: string,
+  options: RpcOptions,
+  request: (url: string, signal?: AbortSignal) => Promise<T>,
+): Promise<T> {
+  const route = findRpcPool(url);
+  if (!route) return request(url, options.signal);
+  const path = url.slice(route.endpoint.length);
+  return route.pool.request((endpoint, signal) => request(endpoint + path, signal), options.strategy, options.signal);
+}
+
+/** POST/GET and parse the JSON body. Throws on transport errors and non-2xx status. */
+export function fetchJson<T = any>(
+  url: string,
+  init: RequestInit & { label?: string; strategy?: RpcStrategy; check?: (reply: T) => void } = {},
+): Promise<T> {
+  const { strategy, check, ...rest } = init;
+  return routed(url, { signal: init.signal ?? undefined, strategy }, async (u, signal) => {
+    const reply = await fetchOnce<T>(u, { ...rest, signal });
+    check?.(reply);
+    return reply;
+  });
+}
+
+async function fetchOnce<T>(url: string, init: RequestInit & { label?: string }): Promise<T> {
+  const label = init.label ?? new URL(url).host;
+  let res: Response;
+  try {
+    res = await fetch(url, init);
+  } catch (e) {
+    throw new RpcFailure(`${label}: request failed — ${(e as Error).message}`, { cause: e });
+  }
+  const text = await res.text();
+  if (!res.ok) {
+    throw errorFromText(`${label}: status code ${res.status} — ${text.slice(0, 300)}`, { raw: text });
+  }
+  try {
+    return JSON.parse(text) as T;
+  } catch (e) {
+    throw new RpcFailure(`${label}: response is not JSON — ${text.slice(0, 300)}`, { cause: e, raw: text });
+  }
+}
+
+const post = <T>(url: string, body: unknown, options: RpcOptions, signal?: AbortSignal) =>
+  fetchOnce<T>(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...options.headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+/** POST a JSON body (rippled, REST endpoints). */
+export function postJson<T = any>(url: string, body: unknown, options: CheckedRpcOptions<T> = {}): Promise<T> {
+  return routed(url, options, async (u, signal) => {
+    const reply = await post<T>(u, body, options, signal);
+    options.check?.(reply);
+    return reply;
+  });
+}
+
+/** GET a JSON resource. */
+export function getJson<T = any>(url: string, options: RpcOptions = {}): Promise<T> {
+  return routed(url, options, (u, signal) => fetchOnce<T>(u, { headers: options.headers, signal }));
+}
+
+let nextId = 1;
+
+/**
+ * JSON-RPC 2.0 call (Solana, EVM, Sui, NEAR). Returns `result`; an `error`
+ * object throws `"<chain node> RPC error: <message>"` classified by errorFromText.
+ */
+export async function jsonRpc<T = any>(
+  url: string,
+  method: string,
+  params: unknown = [],
+  options: CheckedRpcOptions<T> = {},
+): Promise<T> {
+  // The checks run per endpoint, so a pool sees an `error` reply as that node's answer
+  return routed(url, options, async (u, signal) => {
+    const json = await post<{ result?: T; error?: { code?: number; message?: string; data?: unknown } }>(
+      u,
+      { jsonrpc: "2.0", id: nextId++, method, params },
+      options,
+      signal,
+    );
+    if (json.error) {
+      const detail = json.error.message ?? JSON.stringify(json.error);
+      throw errorFromText(`${method} RPC error: ${detail}`, { method, raw: json.error });
+    }
+    options.check?.(json.result as T);
+    return json.result as T;
+  });
+}
+
+/**
+ * rippled JSON-RPC (XRP). Not JSON-RPC 2.0: params are wrapped in an array and
+ * errors come back as `result.status: "error"` with an HTTP 200. The thrown
+ * error's `raw` is the result, so callers can branch on `raw.error` ("actNotFound", "txnNotFound"...).
+ */
+export async function rippledRpc<T = any>(
+  url: string,
+  method: string,
+  params: object = {},
+  options: RpcOptions = {},
+): Promise<T> {
+  return routed(url, options, async (u, signal) => {
+    const { result } = await post<any>(u, { method, params: [params] }, options, signal);
+    if (!result || result.status === "error") {
+      throw errorFromText(`${method} RPC error: ${result?.error_message ?? result?.error ?? "no result"}`, { method, raw: result });
+    }
+    return result;
+  });
+}
@@ -8,17 +8,32 @@
 //   - Full Execution: Frontend calls canister → canister handles RPC + signing + broadcast
 //   - Sign-Only: Frontend fetches chain data → canister signs → frontend broadcasts (cheaper in cycles)
 
-import { HttpAgent, Actor, ActorSubclass } from "@dfinity/agent";
+import { Actor, ActorSubclass } from "@dfinity/agent";
 import { IDL } from "@dfinity/candid";
 import { Principal } from "@dfinity/principal";
-import { AuthClient } from "@dfinity/auth-client";
+import type { MeneseService } from "./menese-types";
+import {
+  DEFAULT_CANISTER_IDS,
+  DEFAULT_IC_HOST,
+  createAgent,
+  createAnonymousAgent,
+  resolveCanisterIds,
+  toConfig,
+  type AgentSource,
+  type MeneseConfig,
+} from "./agent-config";
+import { withRetry } from "./retry";
+import { withCache } from "./query-cache";
+import { jsonRpc } from "./rpc";
 
 // ============================================================
 // CONFIG — Change these for your app
 // ============================================================
 
-export const MENESE_CANISTER_ID = "urs2a-ziaaa-aaaad-aembq-cai";
-export const IC_HOST = "https://icp0.io";
+// Mainnet defaults. To use another host, identity or canister, pass a
+// MeneseConfig to createMeneseActor / createAnonActor (see agent-config.ts).
+export const MENESE_CANISTER_ID = DEFAULT_CANISTER_IDS.menese;
+export const IC_HOST = DEFAULT_IC_HOST;
 
 // Your developer key (get one by calling registerDeveloperCanister)
 export const DEVELOPER_KEY = ""; // e.g. "msk_2e8829391e9e81f78ff604f1ea59c690"
@@ -26,6 +41,9 @@ export const DEVELOPER_KEY = ""; // e.g. "msk_2e8829391e9e81f78ff604f1ea59c690"
 // ============================================================
 // CANDID INTERFACE (matches backend.did exactly)
 // ============================================================
+// TypeScript types for every method live in menese-types.ts.
+// If you change anything here, update MeneseService to match —
+// assertMeneseIdlInSync(idlFactory) reports any drift.
 
 export const idlFactory = ({ IDL }: any) => {
   const Result = IDL.Variant({ ok: IDL.Text, err: IDL.Text });
@@ -969,39 +987,44 @@ export const idlFactory = ({ IDL }: any) => {
 // HELPER: Create authenticated Menese actor
 // ============================================================
 
-export async function createMeneseActor(): Promise<ActorSubclass<any>> {
-  const authClient = await AuthClient.create();
-
-  const isAuth = await authClient.isAuthenticated();
-  if (!isAuth) {
-    await new Promise<void>((resolve, reject) => {
-      authClient.login({
-        identityProvider: "https://identity.ic0.app",
-        onSuccess: resolve,
-        onError: reject,
-      });
-    });
-  }
-
-  const identity = authClient.getIdentity();
-  const agent = new HttpAgent({ host: IC_HOST, identity });
-
-  return Actor.createActor(idlFactory, {
-    agent,
-    canisterId: MENESE_CANISTER_ID,
+// Logs in with Internet Identity unless the config supplies an agent,
+// identity or wallet adapter:
+//   await createMeneseActor({ identity: identityFromPem(pem), host: "http://127.0.0.1:4943" });
+//
+// Calls are retried per config.retry (see retry.ts) — queries on any transient
+// failure, updates only when they provably did not execute. Addresses, token
+// info and pools are served from config.cache (see query-cache.ts).
+
+/** config.service as-is — wrapped only when the config asks for retries / caching explicitly. */
+function injectedService(config: MeneseConfig): ActorSubclass<MeneseService> {
+  let service = config.service as ActorSubclass<MeneseService>;
+  if (config.retry) service = withRetry(service, config.retry, idlFactory);
+  if (config.cache) service = withCache(service, config.cache, "service");
+  return service;
+}
+
+export async function createMeneseActor(source: AgentSource = {}): Promise<ActorSubclass<MeneseService>> {
+  const config = toConfig(source);
+  if (config.service) return injectedService(config);
+  const actor = Actor.createActor<MeneseService>(idlFactory, {
+    agent: await createAgent(config),
+    canisterId: resolveCanisterIds(config).menese,
   });
+  return withCache(withRetry(actor, config.retry), config.cache);
 }
 
 // ============================================================
 // HELPER: Create anonymous actor (for queries only)
 // ============================================================
 
-export async function createAnonActor(): Promise<ActorSubclass<any>> {
-  const agent = new HttpAgent({ host: IC_HOST });
-  return Actor.createActor(idlFactory, {
-    agent,
-    canisterId: MENESE_CANISTER_ID,
+export async function createAnonActor(source: AgentSource = {}): Promise<ActorSubclass<MeneseService>> {
+  const config = toConfig(source);
+  if (config.service) return injectedService(config);
+  const actor = Actor.createActor<MeneseService>(idlFactory, {
+    agent: createAnonymousAgent(config),
+    canisterId: resolveCanisterIds(config).menese,
   });
+  return withCache(withRetry(actor, config.retry), config.cache);
 }
 
 // ============================================================
@@ -1009,37 +1032,28 @@ export async function createAnonActor(): Promise<ActorSubclass<any>> {
 // ============================================================
 // After calling sign-only endpoints, use these to broadcast
 // the signed transaction to the target chain via your own RPCs.
+// Against local validators: broadcastSolana(tx, solanaRpcFor({ network: "local" }))
+// and broadcastEvm(tx, evmRpcFor({ network: "local" })) — see network.ts.
+// Every other sign-only chain (XRP, Sui, NEAR, Aptos, TON, Cardano, Tron)
+// has a broadcaster in broadcasters.ts. A URL that belongs to an RpcPool
+// (rpc-pool.ts) is sent to all of the pool's live endpoints at once.
 
 export async function broadcastSolana(
   signedTxBase64: string,
   rpcUrl: string = "https://api.mainnet-beta.solana.com",
 ): Promise<string> {
-  const res = await fetch(rpcUrl, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      jsonrpc: "2.0", id: 1, method: "sendTransaction",
-      params: [signedTxBase64, { encoding: "base64", skipPreflight: false }],
-    }),
+  // tx signature
+  return jsonRpc<string>(rpcUrl, "sendTransaction", [signedTxBase64, { encoding: "base64", skipPreflight: false }], {
+    strategy: "broadcast",
   });
-  const json = await res.json();
-  if (json.error) throw new Error(`Solana RPC error: ${json.error.message}`);
-  return json.result; // tx signature
 }
 
 export async function broadcastEvm(
   signedTxHex: string,
   rpcUrl: string,
 ): Promise<string> {
-  const res = await fetch(rpcUrl, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      jsonrpc: "2.0", id: 1, method: "eth_sendRawTransaction",
-      params: [signedTxHex.startsWith("0x") ? signedTxHex : `0x${signedTxHex}`],
-    }),
+  // tx hash
+  return jsonRpc<string>(rpcUrl, "eth_sendRawTransaction", [signedTxHex.startsWith("0x") ? signedTxHex : `0x${signedTxHex}`], {
+    strategy: "broadcast",
   });
-  const json = await res.json();
-  if (json.error) throw new Error(`EVM RPC error: ${json.error.message}`);
-  return json.result; // tx hash
 }
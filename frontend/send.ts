@@ -0,0 +1,384 @@
+// send.ts — One send() for every chain and token type
+//
+// The canister has a different send method per chain and token standard,
+// each with its own argument order and return shape (02-send-tokens.ts shows
+// all of them). send() picks the method and returns one receipt:
+//
+//   const receipt = await send({ chain: "xrp", to: "rExchange...", amount: "25", tag: 1234 }, session.config);
+//   receipt.txId; receipt.explorerUrl; receipt.fee;
+//
+//   await send({ chain: "thorchain", to, amount: "1", memo: "=:BTC.BTC:bc1q..." }, session.config);
+//   await send({ chain: "base", to, amount: "0.01" }, session.config, { rpcs: { base: "https://mainnet.base.org" } });
+//   await send({ chain: "bitcoin", to, amount: "0.01" }, session.config, { feeRate: 12n });   // sat/vB — see utxo-fees.ts
+//
+//   // Tokens
+//   await send({ chain: "tron", asset: { type: "trc20", contract: USDT_TRON, decimals: 6 }, to, amount: "10" }, cfg);
+//   await send({ chain: "ethereum", asset: { type: "erc20", contract: USDC_ETH, decimals: 6 }, to, amount: "5" }, cfg, { rpcs });
+//   await send({ chain: "icp", asset: { type: "icrc1", ledger: CKBTC_LEDGER }, to: principal, amount: "0.001" }, cfg);
+//   await send({ chain: "xrp", asset: { type: "xrpIou", currency: "USD", issuer }, to, amount: "12.5" }, cfg);
+//   await send({ chain: "solana", asset: { type: "spl", mint: USDC_SOL, decimals: 6 }, to: theirUsdcAta, amount: "1" }, cfg);
+//
+// The recipient is checked first (addresses.ts) — a malformed address, one of
+// the other network, or an XRP account that requires a missing destination
+// tag throws InvalidAddress without calling the canister.
+//
+// Failures throw a MeneseError (see errors.ts). 1 action per send.
+
+import type { ActorSubclass } from "@dfinity/agent";
+import { Principal } from "@dfinity/principal";
+import { RECIPIENT_STATE_CHAINS, validateAddress, type AddressInfo } from "./addresses";
+import { toConfig, type AgentSource } from "./agent-config";
+import { Amount, type AmountLike, type Token } from "./amount";
+import { EVM_CHAIN_IDS, isEvmChain, txExplorerUrl, type ChainId } from "./chains";
+import { InvalidAddress, MeneseError, unwrap } from "./errors";
+import { chainRpcFor, type Network } from "./network";
+import { createMeneseActor } from "./sdk-setup";
+import type { MeneseMethodName, MeneseService } from "./menese-types";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/** What is sent: the chain's native coin, or a token on it. */
+export type SendAsset =
+  | "native"
+  /** Solana SPL token — `to` is the recipient's token account (ATA), not their wallet */
+  | { type: "spl"; mint: string; decimals?: number; symbol?: string }
+  /** ERC-20 on any EVM chain */
+  | { type: "erc20"; contract: string; decimals?: number; symbol?: string }
+  /** TRC-20 on Tron */
+  | { type: "trc20"; contract: string; decimals?: number; symbol?: string }
+  /** Issued currency on the XRP Ledger — `amount` is decimal text */
+  | { type: "xrpIou"; currency: string; issuer: string }
+  /** ICRC-1 ledger on ICP — decimals are looked up when not given */
+  | { type: "icrc1"; ledger: string; decimals?: number; symbol?: string };
+
+export interface SendRequest {
+  chain: ChainId;
+  /** Default: "native" */
+  asset?: SendAsset;
+  /** Address, principal (ICP) or account id (NEAR); the token account for SPL */
+  to: string;
+  /**
+   * Decimal string in whole tokens, bigint in smallest units, or an Amount.
+   * Tokens without `decimals` need a bigint or an Amount.
+   */
+  amount: AmountLike;
+  /** TON comment, THORChain memo */
+  memo?: string;
+  /** XRP destination tag */
+  tag?: number;
+}
+
+export interface SendOptions {
+  /** Reuse an actor (e.g. `await session.menese()`) instead of creating one from the source */
+  menese?: ActorSubclass<MeneseService>;
+  network?: Network;
+  /** EVM: the RPC the canister sends through. Default: the chain's RpcPool (rpc-pool.ts) or the network's */
+  rpcs?: Partial<Record<ChainId, string>>;
+  /** EVM: gas quote id from a previous quote */
+  quoteId?: string;
+  /** TRC-20: most TRX the transaction may burn for energy. Default: "30" */
+  feeLimit?: AmountLike;
+  /**
+   * Bitcoin / Litecoin: sat/vB (sendBitcoinWithFee / sendLitecoinWithFee), or
+   * "dynamic" for sendBitcoinDynamicFee. Default: the canister's standard rate
+   * (sendBitcoin / sendLitecoin). See utxo-fees.ts.
+   */
+  feeRate?: bigint | "dynamic";
+  /** Expect testnet recipient addresses (addresses.ts). Default: mainnet */
+  testnet?: boolean;
+}
+
+export interface SendReceipt {
+  chain: ChainId;
+  asset: SendAsset;
+  /** Canister method that made the transfer */
+  method: MeneseMethodName;
+  /** The recipient as sent — normalized by validateAddress */
+  to: string;
+  amount: Amount;
+  /** Chain transaction id; the block height for ICP and ICRC-1 */
+  txId: string;
+  /** In the fee token's smallest unit — when the canister reports it (ICP, ICRC-1, Bitcoin) */
+  fee?: Amount;
+  /** "" for chains without an explorer */
+  explorerUrl: string;
+  /** The method's unwrapped result */
+  raw: unknown;
+}
+
+const ASSET_CHAIN: Record<Exclude<SendAsset, "native">["type"], string> = {
+  spl: "solana",
+  erc20: "an EVM chain",
+  trc20: "tron",
+  xrpIou: "xrp",
+  icrc1: "icp",
+};
+
+const DEFAULT_TRC20_FEE_LIMIT = "30";
+
+/** The fields send() reads from an unwrapped result — each method's result has some of them. */
+type SendResultFields = {
+  txSignature?: string;
+  expectedTxHash?: string;
+  txHash?: string;
+  txid?: string;
+  blockHeight?: bigint;
+  fee?: bigint;
+};
+
+// ============================================================
+// SEND
+// ============================================================
+
+/** Token for an asset's amounts; ICRC-1 decimals come from getICRC1TokenInfo (free, cached). */
+export async function tokenOf(menese: ActorSubclass<MeneseService>, chain: ChainId, asset: Exclude<SendAsset, "native">): Promise<Token> {
+  switch (asset.type) {
+    case "xrpIou":
+      return { symbol: asset.currency, decimals: 15 };
+    case "icrc1": {
+      if (asset.decimals !== undefined) return { symbol: asset.symbol ?? "ICRC1", decimals: asset.decimals, ledger: asset.ledger };
+      const info = unwrap(await menese.getICRC1TokenInfo(asset.ledger), "getICRC1TokenInfo");
+      return { symbol: info.symbol, decimals: info.decimals, ledger: asset.ledger };
+    }
+    default:
+      // Without decimals only smallest units can be read — Amount.from then rejects decimal strings
+      return { symbol: asset.symbol ?? asset.type.toUpperCase(), decimals: asset.decimals ?? 0, chain };
+  }
+}
+
+/** `request.amount` in `token`. An Amount keeps its own token when the asset's decimals are unknown. */
+function amountOf(request: SendRequest, token: Token, known: boolean): Amount {
+  const { amount } = request;
+  if (amount instanceof Amount) {
+    if (known && amount.decimals !== token.decimals) {
+      throw new MeneseError(`Expected a ${token.symbol} amount with ${token.decimals} decimals, got ${amount} ${amount.symbol}`);
+    }
+    return amount;
+  }
+  if (!known && typeof amount === "string") {
+    throw new MeneseError(`${token.symbol}: pass \`decimals\` with the asset to send a decimal amount, or a bigint in smallest units`);
+  }
+  return Amount.from(amount, token);
+}
+
+/**
+ * `request.amount` as an Amount of what is sent — the native coin, or the
+ * token when its decimals are known (ICRC-1 decimals are looked up, free).
+ * Throws for a decimal string of a token without decimals.
+ */
+export async function sendAmount(menese: ActorSubclass<MeneseService>, request: SendRequest): Promise<Amount> {
+  const asset = request.asset ?? "native";
+  if (asset === "native") return Amount.from(request.amount, request.chain);
+  const token = await tokenOf(menese, request.chain, asset);
+  const known = asset.type === "xrpIou" || asset.type === "icrc1" || asset.decimals !== undefined;
+  return amountOf(request, token, known);
+}
+
+/**
+ * validateAddress, plus the recipient-state checks where the chain has them.
+ * Those are best effort: the canister reads the chain itself, so a network
+ * without a node for the chain, or a node that is down, does not block the send.
+ */
+async function checkRecipient(request: SendRequest, options: SendOptions, network?: Network): Promise<AddressInfo> {
+  const { chain, to } = request;
+  const check = { testnet: options.testnet, destinationTag: request.tag };
+  const format = await validateAddress(chain, to, check);
+  if (!RECIPIENT_STATE_CHAINS.includes(chain)) return format;
+  try {
+    return await validateAddress(chain, to, { ...check, rpc: options.rpcs?.[chain] ?? chainRpcFor(chain, { network }) });
+  } catch (e) {
+    if (e instanceof InvalidAddress) throw e;
+    return format;
+  }
+}
+
+/**
+ * The checks send() makes before any canister call: the asset belongs to the
+ * chain, memo and tag only where the method takes them, and the recipient
+ * passes validateAddress. Returns the recipient and destination tag to send with.
+ */
+export async function checkSendRequest(
+  request: SendRequest,
+  options: SendOptions = {},
+  network?: Network,
+): Promise<{ to: string; tag?: number }> {
+  const { chain, memo } = request;
+  const asset = request.asset ?? "native";
+  if (asset !== "native" && (asset.type === "erc20" ? !isEvmChain(chain) : ASSET_CHAIN[asset.type] !== chain)) {
+    throw new MeneseError(`A ${asset.type} token is sent on ${ASSET_CHAIN[asset.type]}, not ${chain}`);
+  }
+  const unsupported = (field: string) => new MeneseError(`${chain} ${asset === "native" ? "" : `${asset.type} `}sends take no ${field}`);
+  if (memo !== undefined && !(asset === "native" && (chain === "ton" || chain === "thorchain"))) throw unsupported("memo");
+  if (request.tag !== undefined && chain !== "xrp") throw unsupported("destination tag");
+
+  const recipient = await checkRecipient(request, options, network);
+  if (chain === "icp" && recipient.kind !== "principal") {
+    throw new InvalidAddress(`icp: "${request.to}" is an account identifier — ${asset === "native" ? "sendICP" : "sendICRC1"} takes a principal`);
+  }
+  // X-addresses carry their tag
+  return { to: recipient.address, tag: request.tag ?? recipient.destinationTag };
+}
+
+/**
+ * Send native coins or tokens on any chain through the matching canister
+ * method, and normalize its result.
+ */
+export async function send(request: SendRequest, source: AgentSource = {}, options: SendOptions = {}): Promise<SendReceipt> {
+  const { chain, memo } = request;
+  const asset = request.asset ?? "native";
+  const config = toConfig(source);
+  const menese = options.menese ?? (await createMeneseActor(config));
+  const { to, tag } = await checkSendRequest(request, options, options.network ?? config.network);
+  const amount = await sendAmount(menese, request);
+  const units = amount.units;
+  const tags: [] | [number] = tag === undefined ? [] : [tag];
+  const evm = () => {
+    if (!isEvmChain(chain)) throw new MeneseError(`${chain} is not an EVM chain`);
+    return { rpc: options.rpcs?.[chain] ?? chainRpcFor(chain, { network: options.network ?? config.network }), chainId: BigInt(EVM_CHAIN_IDS[chain]) };
+  };
+  const quoteId: [] | [string] = options.quoteId === undefined ? [] : [options.quoteId];
+
+  // [method, call, txId from the unwrapped result, fee in smallest units]
+  let method: MeneseMethodName;
+  let call: () => Promise<unknown>;
+  let txIdOf: (r: SendResultFields) => string | undefined = (r) => String(r);
+  let feeOf: (r: SendResultFields) => bigint | undefined = () => undefined;
+
+  if (asset !== "native") {
+    switch (asset.type) {
+      case "spl": {
+        const sourceAta = await menese.getMySolanaAta(asset.mint);
+        method = "transferSplToken";
+        call = () => menese.transferSplToken(units, sourceAta, to);
+        txIdOf = (r) => r.txSignature;
+        break;
+      }
+      case "erc20": {
+        const { rpc, chainId } = evm();
+        const args = [to.replace(/^0x/i, "").padStart(64, "0"), units.toString(16).padStart(64, "0")];
+        method = "callEvmContractWrite";
+        call = () => menese.callEvmContractWrite(asset.contract, "transfer(address,uint256)", args, rpc, chainId, 0n, quoteId);
+        txIdOf = (r) => r.expectedTxHash;
+        break;
+      }
+      case "trc20":
+        method = "sendTrc20";
+        call = () => menese.sendTrc20(asset.contract, to, units, Amount.from(options.feeLimit ?? DEFAULT_TRC20_FEE_LIMIT, "tron").units);
+        break;
+      case "xrpIou":
+        method = "sendXrpIOU";
+        call = () => menese.sendXrpIOU(to, asset.currency, asset.issuer, amount.toString(), tags);
+        txIdOf = (r) => r.txHash;
+        break;
+      case "icrc1":
+        method = "sendICRC1";
+        call = () => menese.sendICRC1(Principal.fromText(to), units, asset.ledger);
+        txIdOf = (r) => String(r.blockHeight);
+        feeOf = (r) => r.fee;
+        break;
+    }
+  } else if (isEvmChain(chain)) {
+    const { rpc, chainId } = evm();
+    method = "sendEvmNativeTokenAutonomous";
+    call = () => menese.sendEvmNativeTokenAutonomous(to, units, rpc, chainId, quoteId);
+    txIdOf = (r) => r.expectedTxHash;
+  } else {
+    switch (chain) {
+      case "solana":
+        method = "sendSolTransaction";
+        call = () => menese.sendSolTransaction(to, units);
+        break;
+      case "icp":
+        method = "sendICP";
+        call = () => menese.sendICP(Principal.fromText(to), units);
+        txIdOf = (r) => String(r.blockHeight);
+        feeOf = (r) => r.fee;
+        break;
+      case "bitcoin": {
+        const { feeRate } = options;
+        if (feeRate === "dynamic") {
+          method = "sendBitcoinDynamicFee";
+          call = () => menese.sendBitcoinDynamicFee(to, units);
+        } else if (feeRate !== undefined) {
+          method = "sendBitcoinWithFee";
+          call = () => menese.sendBitcoinWithFee(to, units, feeRate);
+        } else {
+          method = "sendBitcoin";
+          call = () => menese.sendBitcoin(to, units);
+        }
+        txIdOf = (r) => r.txid;
+        feeOf = (r) => r.fee;
+        break;
+      }
+      case "litecoin": {
+        const { feeRate } = options;
+        if (feeRate === "dynamic") throw new MeneseError("litecoin has no dynamic-fee send — pass a sat/vB feeRate or none");
+        method = feeRate === undefined ? "sendLitecoin" : "sendLitecoinWithFee";
+        call = () => (feeRate === undefined ? menese.sendLitecoin(to, units) : menese.sendLitecoinWithFee(to, units, feeRate));
+        txIdOf = (r) => r.txHash;
+        break;
+      }
+      case "xrp":
+        method = "sendXrpAutonomous";
+        call = () => menese.sendXrpAutonomous(to, amount.toString(), tags);   // whole XRP as text
+        txIdOf = (r) => r.txHash;
+        break;
+      case "sui":
+        method = "sendSui";
+        call = () => menese.sendSui(to, units);
+        txIdOf = (r) => r.txHash;
+        break;
+      case "ton":
+        method = memo === undefined ? "sendTonSimple" : "sendTonWithComment";
+        call = () => (memo === undefined ? menese.sendTonSimple(to, units) : menese.sendTonWithComment(to, units, memo));
+        txIdOf = (r) => r.txHash;
+        break;
+      case "cardano":
+        method = "sendCardanoTransaction";
+        call = () => menese.sendCardanoTransaction(to, units);
+        break;
+      case "tron":
+        method = "sendTrx";
+        call = () => menese.sendTrx(to, units);
+        break;
+      case "aptos":
+        method = "sendAptos";
+        call = () => menese.sendAptos(to, units);
+        txIdOf = (r) => r.txHash;
+        break;
+      case "near":
+        method = "sendNearTransferFromUser";
+        call = () => menese.sendNearTransferFromUser(to, units);
+        break;
+      case "cloak":
+        method = "sendCloak";
+        call = () => menese.sendCloak(to, units);
+        txIdOf = (r) => r.txHash;
+        break;
+      case "thorchain":
+        method = "sendThor";
+        call = () => menese.sendThor(to, units, memo ?? "");
+        break;
+      default:
+        throw new MeneseError(`Unknown chain "${chain}" — see CHAINS in chains.ts`);
+    }
+  }
+
+  const raw = unwrap(await call(), method);
+  const txId = txIdOf(raw as SendResultFields);
+  if (!txId) throw new MeneseError(`${method} returned no transaction id`, { method, raw });
+  const fee = feeOf(raw as SendResultFields);
+  return {
+    chain,
+    asset,
+    method,
+    to,
+    amount,
+    txId,
+    fee: fee === undefined ? undefined : Amount.fromUnits(fee, amount.token),
+    explorerUrl: chain === "icp" ? "" : txExplorerUrl(chain, txId),
+    raw,
+  };
+}
@@ -0,0 +1,226 @@
+// session.ts — Log in once, reuse one agent for every canister
+//
+// createMeneseActor() logs in and builds a fresh agent on every call. A
+// MeneseSession authenticates on first use and hands out actors for every
+// canister, all sharing one agent:
+//
+//   const session = new MeneseSession();               // or new MeneseSession({ identity }), { wallet }...
+//   const menese = await session.menese();             // Internet Identity login happens here
+//   const ledger = session.ledger(CKBTC_LEDGER);       // same agent
+//   await redeemMsol("0.5", solAddress, session.config); // any helper that takes an AgentSource
+//   await session.logout();
+//
+// Login delegations expire (Internet Identity: 8 h by default). Before each
+// call the session checks the expiry and, within `refreshMarginMs`, gets a
+// new identity — from `onExpired` if given, else by reconnecting the wallet
+// (which shows the login again). Actors handed out earlier keep working: they
+// hold the session's agent, which always forwards to the current login.
+
+import { Actor, type ActorSubclass, type Agent, type Identity } from "@dfinity/agent";
+import type { Principal } from "@dfinity/principal";
+import {
+  createAgent,
+  internetIdentityAdapter,
+  resolveCanisterIds,
+  resolveHost,
+  toConfig,
+  type AgentSource,
+  type MeneseConfig,
+  type WalletAdapter,
+} from "./agent-config";
+import { SessionExpired } from "./errors";
+import { withRetry } from "./retry";
+import { createMeneseActor } from "./sdk-setup";
+import type { MeneseService } from "./menese-types";
+import { icrc2Idl } from "../msol-icp-sol-integration/12-msol-icp-sol";
+import {
+  createMsolActor,
+  createMsolLedgerActor,
+  createSovereignSendActor,
+} from "../sovereign-send-integration/sovereign-send";
+
+export interface SessionOptions {
+  /**
+   * Called when the login delegation is about to expire. Return a fresh
+   * Identity or Agent. Default: reconnect `config.wallet` (Internet Identity
+   * when none). Sessions built from a fixed `identity` or `agent` throw
+   * SessionExpired instead.
+   */
+  onExpired?: (session: MeneseSession) => Promise<Identity | Agent>;
+  /** Refresh this long before the delegation expires. Default: 5 min */
+  refreshMarginMs?: number;
+}
+
+/** Agent methods that need a valid login — checked before they run. */
+const GUARDED = new Set(["call", "query", "readState", "createReadStateRequest", "getPrincipal", "status", "fetchRootKey"]);
+
+/** Earliest expiry in a DelegationIdentity's chain, or null for plain identities. */
+function delegationExpiry(identity?: Identity): number | null {
+  const chain = (identity as any)?.getDelegation?.();
+  if (!chain?.delegations?.length) return null;
+  const ns = chain.delegations
+    .map((d: any) => BigInt(d.delegation.expiration))
+    .reduce((a: bigint, b: bigint) => (b < a ? b : a));
+  return Number(ns / 1_000_000n);
+}
+
+export class MeneseSession {
+  private readonly base: MeneseConfig;
+  private readonly options: SessionOptions;
+  private current?: Agent;
+  private identity?: Identity;
+  private pending?: Promise<void>;
+  private actors = new Map<string, unknown>();
+
+  /**
+   * The one agent every actor of this session uses. Forwards to the current
+   * login, refreshing it first when it is about to expire.
+   */
+  readonly agent: Agent;
+
+  /** Nothing happens until the first call — login is lazy. */
+  constructor(source: AgentSource = {}, options: SessionOptions = {}) {
+    this.base = toConfig(source);
+    this.options = options;
+    this.agent = new Proxy({} as Agent, {
+      get: (_target, prop) => {
+        if (typeof prop === "string" && GUARDED.has(prop)) {
+          return async (...args: unknown[]) => {
+            const agent = await this.ensureFresh();
+            return (agent as any)[prop](...args);
+          };
+        }
+        const value = (this.current as any)?.[prop];
+        return typeof value === "function" ? value.bind(this.current) : value;
+      },
+    });
+  }
+
+  /** The session's config with its agent — pass it to any helper that takes an AgentSource. */
+  get config(): MeneseConfig {
+    return { ...this.base, agent: this.agent };
+  }
+
+  /** When the current login stops working, or null if it does not expire (or nobody is logged in yet). */
+  get expiresAt(): Date | null {
+    const ms = delegationExpiry(this.identity);
+    return ms === null ? null : new Date(ms);
+  }
+
+  get isLoggedIn(): boolean {
+    return this.current !== undefined;
+  }
+
+  /** Log in now instead of on the first call (e.g. from a button's click handler). */
+  async login(): Promise<Principal> {
+    await this.ensureFresh();
+    return this.agent.getPrincipal();
+  }
+
+  /** End the wallet session and forget the login. The next call logs in again. */
+  async logout(): Promise<void> {
+    await this.pending?.catch(() => {});
+    this.current = undefined;
+    this.identity = undefined;
+    if (!this.base.agent && !this.base.identity) await this.wallet().disconnect?.();
+  }
+
+  // ── Actors (created once per session) ─────────────────────
+
+  /** MeneseSDK actor — same retry and cache settings as createMeneseActor. */
+  menese(): Promise<ActorSubclass<MeneseService>> {
+    return this.memo("menese", () => createMeneseActor(this.config));
+  }
+
+  /** ICRC-1/ICRC-2 ledger actor (fee, balance, approve) for any ledger canister. */
+  ledger(canisterId: string) {
+    return this.memo(`ledger:${canisterId}`, () =>
+      withRetry(Actor.createActor(icrc2Idl, { agent: this.agent, canisterId }), this.base.retry));
+  }
+
+  /** mSOL (ckSOL) canister — deposit and redemption. */
+  msol(): ReturnType<typeof createMsolActor> {
+    return this.memo("msol", () => createMsolActor(this.config));
+  }
+
+  /** mSOL ICRC-2 ledger. */
+  msolLedger(): ReturnType<typeof createMsolLedgerActor> {
+    return this.memo("msolLedger", () => createMsolLedgerActor(this.config));
+  }
+
+  /** Sovereign Send — per-principal Solana wallets. */
+  sovereignSend(): ReturnType<typeof createSovereignSendActor> {
+    return this.memo("sovereignSend", () => createSovereignSendActor(this.config));
+  }
+
+  // ── Login handling ────────────────────────────────────────
+
+  private wallet(): WalletAdapter {
+    return this.base.wallet ?? internetIdentityAdapter();
+  }
+
+  /** Create once per key. A creation that rejects is forgotten, so the next call tries again. */
+  private memo<T>(key: string, create: () => T): T {
+    if (!this.actors.has(key)) {
+      const value = create();
+      this.actors.set(key, value);
+      if (value instanceof Promise) {
+        value.catch(() => {
+          if (this.actors.get(key) === value) this.actors.delete(key);
+        });
+      }
+    }
+    return this.actors.get(key) as T;
+  }
+
+  private expiring(): boolean {
+    const expiry = delegationExpiry(this.identity);
+    return expiry !== null && expiry - (this.options.refreshMarginMs ?? 5 * 60_000) <= Date.now();
+  }
+
+  /** Run one login step; concurrent callers wait for the same one. */
+  private once(step: () => Promise<void>): Promise<void> {
+    return (this.pending ??= step().finally(() => {
+      this.pending = undefined;
+    }));
+  }
+
+  /** The current agent, logging in or refreshing first when needed. */
+  private async ensureFresh(): Promise<Agent> {
+    if (!this.current) await this.once(() => this.connect(this.base));
+    if (this.expiring()) {
+      await this.once(() => this.refresh());
+      if (this.expiring()) throw new SessionExpired("Login was refreshed but the new delegation expires too soon");
+    }
+    return this.current!;
+  }
+
+  /** Log in with `config` and switch the session to the resulting agent. */
+  private async connect(config: MeneseConfig): Promise<void> {
+    let identity = config.identity;
+    let agent = config.agent;
+    if (!agent && !identity) {
+      const connected = toConfig(await this.wallet().connect({
+        host: resolveHost(config),
+        whitelist: Object.values(resolveCanisterIds(config)),
+      }));
+      ({ identity, agent } = connected);
+    }
+    this.current = await createAgent({ ...config, agent, identity });
+    this.identity = identity;
+  }
+
+  private async refresh(): Promise<void> {
+    if (this.options.onExpired) {
+      const fresh = toConfig(await this.options.onExpired(this));
+      return this.connect({ ...this.base, agent: fresh.agent, identity: fresh.identity });
+    }
+    if (this.base.identity || this.base.agent) {
+      this.current = undefined;
+      throw new SessionExpired("Login delegation expired — pass onExpired to MeneseSession to refresh it");
+    }
+    // Drop the old login first, or Internet Identity hands back the same delegation
+    await this.wallet().disconnect?.();
+    return this.connect(this.base);
+  }
+}
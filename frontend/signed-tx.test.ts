@@ -0,0 +1,360 @@
+// signed-tx.test.ts — inspecting and asserting relayer-signed transactions: the EIP-155 sample, hand-built XRP, Sui, TON, Cardano and Tron
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { Ed25519KeyIdentity } from "@dfinity/identity";
+import { Secp256k1KeyIdentity } from "@dfinity/identity-secp256k1";
+import { bech32ToBytes, blake2b, bytesToBase58Check, bytesToBase64, bytesToBech32, bytesToHex, hexToBytes, keccak256, sha256 } from "./encoding";
+import { SignedTxMismatch } from "./errors";
+import type { SignedEvmTx } from "./menese-types";
+import { assertSignedTx, inspectSignedTx } from "./signed-tx";
+
+// ============================================================
+// EVM
+// ============================================================
+
+// The example transaction from EIP-155: nonce 9, 1 ether to 0x3535…, chain id 1
+const EIP155_TX = "0xf86c098504a817c800825208943535353535353535353535353535353535353535880de0b6b3a7640000"
+  + "8025a028ef61340bd939bc2195fe537567866003e1a15d3c71ff63e1590620aa636276a067cbe9d8997f761aecb703304b3800ccf555c9f3dc64214b297fb1966a3b6d83";
+const EIP155_FROM = "0x9d8a62f656a8d1615c1294fd71e9cfb3e4855a4f";
+const EVM_TO = `0x${"35".repeat(20)}`;
+
+const evmSigned = (raw: string) => ({ rawTxHex_v0: raw, rawTxHex_v1: "", txHash: "", signature: "" }) as SignedEvmTx;
+
+test("inspects an EVM transfer", async () => {
+  const preview = await inspectSignedTx("ethereum", evmSigned(EIP155_TX));
+  assert.equal(preview.from, EIP155_FROM);
+  assert.equal(preview.signatureValid, true);
+  assert.deepEqual(preview.transfers, [{ to: EVM_TO, amount: 10n ** 18n }]);
+  assert.equal(preview.fee, 21_000n * 20_000_000_000n);
+  assert.equal(preview.nonce, 9n);
+  assert.equal(preview.txId, "0x33469b22e9f636356c4160a87eb19df52b7412e8eac32a4a55ffe88ea8350788");
+});
+
+test("assertSignedTx checks the EVM chain id", async () => {
+  const expected = { from: EIP155_FROM.toUpperCase().replace("0X", "0x"), to: EVM_TO, amount: "1", nonce: 9n };
+  await assertSignedTx("ethereum", evmSigned(EIP155_TX), expected);
+  await assert.rejects(assertSignedTx("base", evmSigned(EIP155_TX), expected), /is for chain id 1, expected 8453/);
+
+  const pre155 = evmSigned(EIP155_TX.replace("8025a0", "801ba0"));
+  await assert.rejects(
+    assertSignedTx("ethereum", pre155, { to: EVM_TO }),
+    (e: unknown) => e instanceof SignedTxMismatch && /has no chain id/.test(e.message),
+  );
+});
+
+test("assertSignedTx lists every difference", async () => {
+  await assert.rejects(
+    assertSignedTx("ethereum", evmSigned(EIP155_TX), { from: EVM_TO, amount: 1n, token: EVM_TO, nonce: 10n }),
+    (e: unknown) => e instanceof SignedTxMismatch
+      && e.message.includes(`signed by ${EIP155_FROM}, expected ${EVM_TO}`)
+      && e.message.includes(`amount is ${10n ** 18n}, expected 1`)
+      && e.message.includes(`transfers the native coin, expected ${EVM_TO}`)
+      && e.message.includes("nonce is 9, expected 10"),
+  );
+});
+
+// ============================================================
+// XRP — a Payment serialized by hand, signed with an ed25519 key
+// ============================================================
+
+const key = Ed25519KeyIdentity.generate(new Uint8Array(32).fill(5));
+const publicKey = new Uint8Array(key.getPublicKey().toRaw());
+const sign = async (message: Uint8Array) => new Uint8Array(await key.sign(message.slice().buffer));
+const be = (value: number, bytes: number) => Array.from({ length: bytes }, (_, i) => (value >>> (8 * (bytes - 1 - i))) & 0xff);
+
+// Account ids 0…00 and 0…01 — rippled's ACCOUNT_ZERO and ACCOUNT_ONE
+const XRP_FROM = "rrrrrrrrrrrrrrrrrrrrrhoLvTp";
+const XRP_TO = "rrrrrrrrrrrrrrrrrrrrBZbvji";
+
+/** 1 XRP Payment, fee 12 drops, sequence 7, destination tag 42 — with `signature` in place. */
+function xrpPayment(signature?: Uint8Array): Uint8Array {
+  return Uint8Array.from([
+    0x12, 0, 0,                                   // TransactionType: Payment
+    0x22, ...be(0x80000000, 4),                   // Flags: tfFullyCanonicalSig
+    0x24, ...be(7, 4),                            // Sequence
+    0x2e, ...be(42, 4),                           // DestinationTag
+    0x20, 0x1b, ...be(1000, 4),                   // LastLedgerSequence
+    0x61, 0x40, 0, 0, 0, 0, 0x0f, 0x42, 0x40,     // Amount: 1,000,000 drops
+    0x68, 0x40, 0, 0, 0, 0, 0, 0, 0x0c,           // Fee: 12 drops
+    0x73, 0x21, 0xed, ...publicKey,               // SigningPubKey
+    ...(signature ? [0x74, 0x40, ...signature] : []),
+    0x81, 0x14, ...new Uint8Array(20),            // Account
+    0x83, 0x14, ...new Uint8Array(19), 1,         // Destination
+  ]);
+}
+
+async function signedXrpPayment(): Promise<Uint8Array> {
+  return xrpPayment(await sign(Uint8Array.from([0x53, 0x54, 0x58, 0x00, ...xrpPayment()])));
+}
+
+const xrpSigned = (blob: Uint8Array) => ({ signedTxHex: bytesToHex(blob).toUpperCase(), txHash: "", senderAddress: XRP_FROM, publicKeyHex: "" });
+
+test("inspects an XRP Payment and checks its ed25519 signature", async () => {
+  const blob = await signedXrpPayment();
+  const preview = await inspectSignedTx("xrp", xrpSigned(blob));
+  assert.equal(preview.signatureValid, true);
+  assert.equal(preview.from, XRP_FROM);
+  assert.deepEqual(preview.transfers, [{ to: XRP_TO, amount: 1_000_000n, token: undefined }]);
+  assert.equal(preview.fee, 12n);
+  assert.equal(preview.nonce, 7n);
+  assert.equal(preview.details.transactionType, "Payment");
+  assert.equal(preview.details.destinationTag, 42n);
+  assert.equal(preview.details.lastLedgerSequence, 1000n);
+  assert.match(preview.summary, /^xrp: 1 XRP from rrrr\w+ to rrrr\w+, fee ≤ 0.000012 XRP, nonce 7$/);
+  await assertSignedTx("xrp", xrpSigned(blob), { from: XRP_FROM, to: XRP_TO, amount: "1", maxFee: 12n, nonce: 7n });
+
+  const tampered = blob.slice();
+  tampered[tampered.length - 1] = 2;   // another destination
+  assert.equal((await inspectSignedTx("xrp", xrpSigned(tampered))).signatureValid, false);
+  await assert.rejects(assertSignedTx("xrp", xrpSigned(tampered), {}), /signature does not verify/);
+});
+
+// ============================================================
+// SUI — SplitCoins(GasCoin) + TransferObjects, BCS by hand
+// ============================================================
+
+const SUI_SENDER = `0x${bytesToHex(blake2b(Uint8Array.from([0, ...publicKey])))}`;
+const SUI_TO = `0x${"22".repeat(32)}`;
+const le = (value: bigint, bytes: number) => Array.from({ length: bytes }, (_, i) => Number((value >> BigInt(8 * i)) & 0xffn));
+
+/** TransactionData V1 sending `mist` out of the gas coin to SUI_TO. */
+function suiTransfer(mist: bigint): Uint8Array {
+  return Uint8Array.from([
+    0, 0,                                         // V1, ProgrammableTransaction
+    2,                                            // inputs
+    0, 8, ...le(mist, 8),                         //   pure u64
+    0, 32, ...new Uint8Array(32).fill(0x22),      //   pure address
+    2,                                            // commands
+    2, 0, 1, 1, ...le(0n, 2),                     //   SplitCoins(GasCoin, [Input 0])
+    1, 1, 2, ...le(0n, 2), 1, ...le(1n, 2),       //   TransferObjects([Result 0], Input 1)
+    ...new Uint8Array(blake2b(Uint8Array.from([0, ...publicKey]))),   // sender
+    1, ...new Uint8Array(32).fill(0x33), ...le(1n, 8), 32, ...new Uint8Array(32),   // gas payment
+    ...new Uint8Array(blake2b(Uint8Array.from([0, ...publicKey]))),   // gas owner
+    ...le(1_000n, 8), ...le(3_000_000n, 8),       // gas price, budget
+    0,                                            // no expiration
+  ]);
+}
+
+async function suiSigned(txBytes: Uint8Array) {
+  const signature = await sign(blake2b(Uint8Array.from([0, 0, 0, ...txBytes])));
+  return {
+    txBytesBase64: bytesToBase64(txBytes),
+    signatureBase64: bytesToBase64(Uint8Array.from([0, ...signature, ...publicKey])),
+    senderAddress: SUI_SENDER,
+  };
+}
+
+test("inspects a Sui split-and-transfer and checks the signer", async () => {
+  const preview = await inspectSignedTx("sui", await suiSigned(suiTransfer(5_000_000n)));
+  assert.equal(preview.signatureValid, true);
+  assert.equal(preview.from, SUI_SENDER);
+  assert.deepEqual(preview.transfers, [{ to: SUI_TO, amount: 5_000_000n, token: undefined }]);
+  assert.equal(preview.fee, 3_000_000n);
+  assert.deepEqual(preview.details.commands, ["SplitCoins", "TransferObjects"]);
+  await assertSignedTx("sui", await suiSigned(suiTransfer(5_000_000n)), { from: SUI_SENDER.toUpperCase().replace("0X", "0x"), to: SUI_TO, amount: 5_000_000n });
+  await assert.rejects(
+    assertSignedTx("sui", await suiSigned(suiTransfer(5_000_001n)), { to: SUI_TO, amount: 5_000_000n }),
+    /amount is 5000001, expected 5000000/,
+  );
+});
+
+// ============================================================
+// TON — a v4 wallet transfer, cells and bag of cells by hand
+// ============================================================
+
+interface TonCell { bits: number[]; refs: TonCell[] }
+
+class CellBuilder {
+  private cell: TonCell = { bits: [], refs: [] };
+  uint(value: bigint | number, n: number) {
+    for (let i = n - 1; i >= 0; i--) this.cell.bits.push(Number((BigInt(value) >> BigInt(i)) & 1n));
+    return this;
+  }
+  bytes(bytes: Uint8Array) { bytes.forEach((b) => this.uint(b, 8)); return this; }
+  grams(value: bigint) { const n = Math.ceil(value.toString(16).length / 2) * Number(value > 0n); return this.uint(n, 4).uint(value, 8 * n); }
+  address(raw: string) { const [wc, hash] = raw.split(":"); return this.uint(0b100, 3).uint(Number(wc) & 0xff, 8).bytes(hexToBytes(hash)); }
+  ref(cell: TonCell) { this.cell.refs.push(cell); return this; }
+  end() { return this.cell; }
+}
+
+/** Data bytes with the completion tag, as both the hash and the BoC store them. */
+function cellData(cell: TonCell): number[] {
+  const bits = cell.bits.length % 8 ? [...cell.bits, 1, ...new Array(7 - (cell.bits.length % 8)).fill(0)] : cell.bits;
+  return Array.from({ length: bits.length / 8 }, (_, i) => bits.slice(8 * i, 8 * i + 8).reduce((a, b) => (a << 1) | b, 0));
+}
+
+const cellDepth = (cell: TonCell): number => (cell.refs.length ? Math.max(...cell.refs.map(cellDepth)) + 1 : 0);
+const descriptors = (cell: TonCell) => [cell.refs.length, Math.floor(cell.bits.length / 8) + Math.ceil(cell.bits.length / 8)];
+
+async function tonCellHash(cell: TonCell): Promise<Uint8Array> {
+  const children = await Promise.all(cell.refs.map(tonCellHash));
+  return sha256(Uint8Array.from([
+    ...descriptors(cell),
+    ...cellData(cell),
+    ...cell.refs.flatMap((c) => be(cellDepth(c), 2)),
+    ...children.flatMap((h) => [...h]),
+  ]));
+}
+
+/** Single root, no index, 1-byte cell references, 2-byte offsets. */
+function toBoc(root: TonCell): Uint8Array {
+  const cells: TonCell[] = [];
+  const visit = (cell: TonCell) => { cells.push(cell); cell.refs.forEach(visit); };
+  visit(root);
+  const serialized = cells.map((c) => [...descriptors(c), ...cellData(c), ...c.refs.map((r) => cells.indexOf(r))]);
+  const size = serialized.reduce((n, c) => n + c.length, 0);
+  return Uint8Array.from([0xb5, 0xee, 0x9c, 0x72, 1, 2, cells.length, 1, 0, ...be(size, 2), 0, ...serialized.flat()]);
+}
+
+const TON_WALLET = `0:${"55".repeat(32)}`;
+const TON_TO = `0:${"66".repeat(32)}`;
+
+/** External message to TON_WALLET: seqno 4, one bounceable internal message with a "hello" comment. */
+async function tonTransfer(nanotons: bigint, signWith = nanotons): Promise<{ bocBase64: string; senderAddress: string; payloadHash: number[] }> {
+  const signedPart = (value: bigint) => new CellBuilder()
+    .uint(698983191, 32).uint(1_900_000_000, 32).uint(4, 32)   // subwallet, valid_until, seqno
+    .uint(0, 8).uint(3, 8)                                      // op: simple send, mode 3
+    .ref(new CellBuilder()
+      .uint(0b0110, 4).uint(0, 2).address(TON_TO).grams(value) // int_msg_info, ihr disabled, bounce, from addr_none
+      .uint(0, 1).grams(0n).grams(0n).uint(0, 64).uint(0, 32)  // no extra currencies, fees, lt, created_at
+      .uint(0, 2).uint(0, 32).bytes(new TextEncoder().encode("hello"))   // no init, inline body: text comment
+      .end())
+    .end();
+  const part = signedPart(nanotons);
+  const signature = await sign(await tonCellHash(signedPart(signWith)));
+  const body = { bits: [...new CellBuilder().bytes(signature).end().bits, ...part.bits], refs: part.refs };
+  const external = new CellBuilder().uint(0b10, 2).uint(0, 2).address(TON_WALLET).grams(0n).uint(0b01, 2).ref(body).end();
+  return { bocBase64: bytesToBase64(toBoc(external)), senderAddress: TON_WALLET, payloadHash: [] };
+}
+
+test("inspects a TON v4 wallet transfer and checks its signature with the wallet key", async () => {
+  const signed = await tonTransfer(1_000_000_000n);
+  const preview = await inspectSignedTx("ton", signed, { publicKey: bytesToHex(publicKey) });
+  assert.equal(preview.signatureValid, true);
+  assert.equal(preview.from, TON_WALLET);
+  assert.deepEqual(preview.transfers, [{ to: TON_TO, amount: 1_000_000_000n }]);
+  assert.equal(preview.memo, "hello");
+  assert.equal(preview.nonce, 4n);
+  assert.equal(preview.details.walletVersion, "v4");
+  assert.equal(preview.details.bounce, true);
+  assert.equal((await inspectSignedTx("ton", signed)).signatureValid, undefined);
+  await assertSignedTx("ton", signed, { from: TON_WALLET, to: TON_TO, amount: "1", memo: "hello", nonce: 4n }, { publicKey });
+
+  const tampered = await tonTransfer(2_000_000_000n, 1_000_000_000n);
+  assert.equal((await inspectSignedTx("ton", tampered, { publicKey })).signatureValid, false);
+});
+
+// ============================================================
+// CARDANO — CBOR by hand, one vkey witness over blake2b(body)
+// ============================================================
+
+type CborValue = bigint | string | boolean | Uint8Array | CborValue[] | Map<CborValue, CborValue>;
+
+function cborHead(major: number, n: number | bigint): number[] {
+  const value = BigInt(n);
+  if (value < 24n) return [(major << 5) | Number(value)];
+  const size = value < 0x100n ? 1 : value < 0x10000n ? 2 : value < 0x100000000n ? 4 : 8;
+  return [(major << 5) | (24 + Math.log2(size)), ...le(value, size).reverse()];
+}
+
+function toCbor(value: CborValue): number[] {
+  if (typeof value === "bigint") return cborHead(0, value);
+  if (typeof value === "boolean") return [value ? 0xf5 : 0xf4];
+  if (typeof value === "string") { const bytes = new TextEncoder().encode(value); return [...cborHead(3, bytes.length), ...bytes]; }
+  if (value instanceof Uint8Array) return [...cborHead(2, value.length), ...value];
+  if (Array.isArray(value)) return [...cborHead(4, value.length), ...value.flatMap(toCbor)];
+  return [...cborHead(5, value.size), ...[...value].flatMap(([k, v]) => [...toCbor(k), ...toCbor(v)])];
+}
+
+// Mainnet enterprise addresses (header 0x61): the signer's key hash, and another one
+const KEY_HASH = blake2b(publicKey, 28);
+const ADA_FROM = bytesToBech32("addr", Uint8Array.from([0x61, ...KEY_HASH]));
+const ADA_TO = bytesToBech32("addr", Uint8Array.from([0x61, ...new Uint8Array(28).fill(0x44)]));
+
+/** 2 ADA to ADA_TO, change to ADA_FROM, fee 0.17 ADA, ttl 9999 and a CIP-20 "hello" message. */
+async function cardanoTransfer({ fee = 170_000n, extraOutput = false } = {}) {
+  const outputs: CborValue[] = [[bech32ToBytes(ADA_TO).bytes, 2_000_000n], [bech32ToBytes(ADA_FROM).bytes, 7_000_000n]];
+  if (extraOutput) outputs.push([Uint8Array.from([0x61, ...new Uint8Array(28).fill(0x55)]), 1_000_000n]);
+  const body = new Map<CborValue, CborValue>([
+    [0n, [[new Uint8Array(32).fill(0x77), 0n]]],
+    [1n, outputs],
+    [2n, fee],
+    [3n, 9_999n],
+  ]);
+  const signature = await sign(blake2b(Uint8Array.from(toCbor(new Map([...body, [2n, 170_000n]])))));
+  const witnesses = new Map<CborValue, CborValue>([[0n, [[publicKey, signature]]]]);
+  const metadata = new Map<CborValue, CborValue>([[674n, new Map<CborValue, CborValue>([["msg", ["hel", "lo"]]])]]);
+  return { signedTxCbor: Uint8Array.from(toCbor([body, witnesses, true, metadata])), txHash: blake2b(Uint8Array.from(toCbor(body))) };
+}
+
+test("inspects a Cardano payment: change back to the signer is not a transfer", async () => {
+  const signed = await cardanoTransfer();
+  const preview = await inspectSignedTx("cardano", signed);
+  assert.equal(preview.signatureValid, true);
+  assert.equal(preview.txId, bytesToHex(signed.txHash));
+  assert.equal(preview.from, ADA_FROM);
+  assert.deepEqual(preview.transfers, [{ to: ADA_TO, amount: 2_000_000n }]);
+  assert.equal(preview.fee, 170_000n);
+  assert.equal(preview.memo, "hello");
+  assert.equal(preview.details.ttl, 9_999n);
+  assert.deepEqual(preview.details.signerKeyHashes, [bytesToHex(KEY_HASH)]);
+  await assertSignedTx("cardano", signed, { from: ADA_FROM, to: ADA_TO, amount: "2", maxFee: "0.2", memo: "hello" });
+
+  assert.equal((await inspectSignedTx("cardano", await cardanoTransfer({ fee: 1n }))).signatureValid, false);
+  await assert.rejects(
+    assertSignedTx("cardano", await cardanoTransfer({ extraOutput: true }), { to: ADA_TO, amount: "2" }),
+    /also transfers 1 ADA to addr1/,
+  );
+});
+
+// ============================================================
+// TRON — protobuf TransferContract, signed with a secp256k1 key
+// ============================================================
+
+const tronKey = Secp256k1KeyIdentity.generate(new Uint8Array(32).fill(6));
+const TRON_OWNER = Uint8Array.from([0x41, ...keccak256(new Uint8Array(tronKey.getPublicKey().toRaw()).slice(1)).slice(12)]);
+const TRON_TO = Uint8Array.from([0x41, ...new Uint8Array(20).fill(0x22)]);
+
+const varint = (value: bigint): number[] => (value < 0x80n ? [Number(value)] : [Number(value & 0x7fn) | 0x80, ...varint(value >> 7n)]);
+const pbBytes = (field: number, bytes: ArrayLike<number>) => [...varint(BigInt((field << 3) | 2)), ...varint(BigInt(bytes.length)), ...Array.from(bytes)];
+const pbVarint = (field: number, value: bigint) => [...varint(BigInt(field << 3)), ...varint(value)];
+
+/** raw_data of a `sun` TRX transfer from `owner` to TRON_TO, with a memo and a fee limit. */
+function tronRaw(sun: bigint, owner = TRON_OWNER): Uint8Array {
+  const transfer = [...pbBytes(1, owner), ...pbBytes(2, TRON_TO), ...pbVarint(3, sun)];
+  const parameter = [...pbBytes(1, new TextEncoder().encode("type.googleapis.com/protocol.TransferContract")), ...pbBytes(2, transfer)];
+  return Uint8Array.from([
+    ...pbBytes(1, [0xab, 0xcd]),                  // ref_block_bytes
+    ...pbVarint(8, 1_700_000_060_000n),           // expiration
+    ...pbBytes(10, new TextEncoder().encode("hello")),
+    ...pbBytes(11, [...pbVarint(1, 1n), ...pbBytes(2, parameter)]),
+    ...pbVarint(18, 1_000_000n),                  // fee_limit
+  ]);
+}
+
+/** Both recovery ids, as the relayer returns them: only one recovers the signer. */
+async function tronSigned(raw: Uint8Array, signWith = raw) {
+  const signature = new Uint8Array(await tronKey.sign(signWith.slice().buffer));
+  const tx = (v: number) => bytesToHex(Uint8Array.from([...pbBytes(1, raw), ...pbBytes(2, [...signature, v])]));
+  return { txHex1b: tx(0x1b), txHex1c: tx(0x1c), txID: bytesToHex(await sha256(raw)), senderAddress: await bytesToBase58Check(TRON_OWNER) };
+}
+
+test("inspects a Tron TRX transfer and recovers the owner from either recovery id", async () => {
+  const raw = tronRaw(25_000_000n);
+  const signed = await tronSigned(raw);
+  const preview = await inspectSignedTx("tron", signed);
+  assert.equal(preview.signatureValid, true);
+  assert.equal(preview.txId, signed.txID);
+  assert.equal(preview.from, signed.senderAddress);
+  assert.deepEqual(preview.transfers, [{ to: await bytesToBase58Check(TRON_TO), amount: 25_000_000n, token: undefined }]);
+  assert.equal(preview.fee, 1_000_000n);
+  assert.equal(preview.memo, "hello");
+  assert.equal(preview.details.contractType, 1);
+  // A hex recipient compares like its base58 form
+  await assertSignedTx("tron", signed, { from: signed.senderAddress, to: bytesToHex(TRON_TO), amount: "25", memo: "hello" });
+
+  const otherOwner = Uint8Array.from([0x41, ...new Uint8Array(20).fill(0x33)]);
+  assert.equal((await inspectSignedTx("tron", await tronSigned(tronRaw(25_000_000n, otherOwner)))).signatureValid, false);
+  assert.equal((await inspectSignedTx("tron", await tronSigned(tronRaw(26_000_000n), raw))).signatureValid, false);
+});
@@ -0,0 +1,1065 @@
+// signed-tx.ts — Inspect sign-only transactions before broadcasting them
+//
+// The relayer endpoints return signed bytes — rawTxHex_v1, signedTxHex,
+// txBytesBase64, bocBase64, signedTxCbor, txHex1b. inspectSignedTx decodes
+// them client-side into one shape — who signed, recipient, amount, fee,
+// nonce / sequence, memo — plus a one-line preview for a human to approve:
+//
+//   const signed = await menese.signXrpTransferRelayer(...args);
+//   const preview = await inspectSignedTx("xrp", signed);
+//   preview.summary;   // 'xrp: 10.5 XRP from rAbc… to rXyz…, fee ≤ 0.000012 XRP, nonce 42, memo "invoice 7"'
+//
+//   // Diff against the request — and the signer against getMy*Address — or throw SignedTxMismatch
+//   await assertSignedTx("tron", signed, { to, amount: "25" }, { menese });
+//
+// Supported: Solana (solana-tx.ts), EVM, XRP, Sui, TON, Cardano and Tron.
+// The signer is recovered from the signature (EVM, Tron) or read from the
+// bytes and checked against the signature. TON bytes carry no public key —
+// pass `menese` or `publicKey` to check its signature.
+
+import type { ActorSubclass } from "@dfinity/agent";
+import { Ed25519KeyIdentity } from "@dfinity/identity";
+import { Amount, toUnits, tokenFor, type AmountLike } from "./amount";
+import type { BroadcastChain, SignedTxByChain } from "./broadcasters";
+import { senderAddress } from "./chain-context";
+import { EVM_CHAIN_IDS, isEvmChain, type EvmChainId } from "./chains";
+import {
+  XRP_B58,
+  base58ToBytes,
+  base64ToBytes,
+  bech32ToBytes,
+  blake2b,
+  bytesToBase58,
+  bytesToBase58Check,
+  bytesToBech32,
+  bytesToHex,
+  hexToBytes,
+  keccak256,
+  secp256k1Recover,
+  secp256k1Verify,
+  sha256,
+  sha512,
+  toBytes,
+  type Bytes,
+} from "./encoding";
+import { MeneseError, SignedTxMismatch, unwrapResult } from "./errors";
+import { decodeEvmRawTx } from "./evm-fees";
+import { assertSolanaTx, decodeSolanaTx, verifySolanaTx } from "./solana-tx";
+import type { MeneseService, SignedCardanoTx, SignedSuiTx, SignedTonTx, SignedTronTx, SignedXrpTx } from "./menese-types";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type InspectableChain = Exclude<BroadcastChain, "near" | "aptos">;
+
+export interface SignedTxPreview {
+  chain: InspectableChain;
+  /** Transaction id, when it can be computed offline */
+  txId?: string;
+  /** Account that signs and pays */
+  from: string;
+  /** The signature checks out for `from`. undefined: no key to check it with */
+  signatureValid?: boolean;
+  /** `to`, `amount` and `token` are those of the first of `transfers` */
+  to: string;
+  /** Smallest units — of `token` when set, else of the native coin */
+  amount: bigint;
+  /** Token contract, mint, coin object or XRP currency.issuer; unset for the native coin */
+  token?: string;
+  /** Every transfer, output or message that moves value away from the signer, in order. Change is left out */
+  transfers: SignedTxTransfer[];
+  /** Most the transaction can pay the network, smallest native units. Unset when the bytes don't say (TON) */
+  fee?: bigint;
+  /** Nonce, sequence or seqno */
+  nonce?: bigint;
+  memo?: string;
+  /** Chain-specific fields: expiry, bounce, destination tag, gas budget... */
+  details: Record<string, unknown>;
+  /** One line for a human to review */
+  summary: string;
+}
+
+export interface SignedTxTransfer {
+  to: string;
+  /** Smallest units — of `token` when set, else of the native coin */
+  amount: bigint;
+  token?: string;
+  /** Sui: a whole coin or object changes hands — its value is not in the bytes */
+  wholeObject?: boolean;
+}
+
+export interface InspectOptions {
+  /** Used for the TON wallet key, and by assertSignedTx for the expected signer */
+  menese?: ActorSubclass<MeneseService>;
+  /** TON: wallet public key (hex or bytes), when `menese` isn't given */
+  publicKey?: Bytes | string;
+}
+
+export interface ExpectedSignedTx {
+  /** Signer address. Default: getMy*Address of `options.menese`, when given */
+  from?: string;
+  to?: string;
+  /** A bigint is smallest units; a decimal string is in the native coin */
+  amount?: AmountLike;
+  /** Token transfer — see SignedTxPreview.token. Unset: must be a native transfer */
+  token?: string;
+  memo?: string;
+  maxFee?: AmountLike;
+  nonce?: bigint;
+}
+
+// ============================================================
+// INSPECT
+// ============================================================
+
+/** Decode the relayer's return value for `chain` (as given to its broadcaster). */
+export async function inspectSignedTx<C extends InspectableChain>(
+  chain: C,
+  signed: SignedTxByChain[C],
+  options: InspectOptions = {},
+): Promise<SignedTxPreview> {
+  const decoded = isEvmChain(chain)
+    ? inspectEvm(signed as SignedTxByChain["ethereum"])
+    : await inspectOther(chain, signed, options);
+  return { chain, ...decoded, summary: summarize(chain, decoded) };
+}
+
+type Decoded = Omit<SignedTxPreview, "chain" | "summary">;
+
+async function inspectOther(chain: InspectableChain, signed: unknown, options: InspectOptions): Promise<Decoded> {
+  switch (chain) {
+    case "solana": return inspectSolana((signed as SignedTxByChain["solana"]).signedTxBase64);
+    case "xrp": return inspectXrp(signed as SignedXrpTx);
+    case "sui": return inspectSui(signed as SignedSuiTx);
+    case "ton": return inspectTon(signed as SignedTonTx, options);
+    case "cardano": return inspectCardano(unwrapped(signed as SignedTxByChain["cardano"], "signCardanoTransferRelayer"));
+    case "tron": return inspectTron(unwrapped(signed as SignedTxByChain["tron"], "signTrxTransferRelayer"));
+  }
+  throw new MeneseError(`No signed-transaction inspector for "${chain}" — supported: solana, EVM chains, xrp, sui, ton, cardano, tron`);
+}
+
+/** The preview fields that come from the transfers: the first one, and the list. */
+const moves = (transfers: SignedTxTransfer[]) =>
+  ({ to: transfers[0]?.to ?? "", amount: transfers[0]?.amount ?? 0n, token: transfers[0]?.token, transfers });
+
+const unwrapped = <T extends object>(signed: T | { ok: T } | { err: string }, method: string): T =>
+  "ok" in signed || "err" in signed ? unwrapResult(signed as { ok: T } | { err: string }, method) : signed;
+
+/** "1.5 SOL", "250 units of <mint>", "object <id>" */
+function transferValue(chain: InspectableChain, t: Omit<SignedTxTransfer, "to">): string {
+  if (t.wholeObject) return `object ${t.token}`;
+  return t.token ? `${t.amount} units of ${t.token}` : `${Amount.fromUnits(t.amount, chain)} ${tokenFor(chain).symbol}`;
+}
+
+function summarize(chain: InspectableChain, d: Decoded): string {
+  const coin = (units: bigint) => `${Amount.fromUnits(units, chain)} ${tokenFor(chain).symbol}`;
+  return [
+    `${chain}: ${transferValue(chain, d.transfers[0] ?? d)} from ${d.from} to ${d.to}`,
+    ...d.transfers.slice(1).map((t) => `+ ${transferValue(chain, t)} to ${t.to}`),
+    d.fee !== undefined && `fee ≤ ${coin(d.fee)}`,
+    d.nonce !== undefined && `nonce ${d.nonce}`,
+    d.memo && `memo ${JSON.stringify(d.memo)}`,
+  ].filter(Boolean).join(", ") + (d.signatureValid === false ? " — SIGNATURE DOES NOT VERIFY" : "");
+}
+
+const int = (bytes: Bytes) => BigInt(`0x${bytesToHex(bytes) || "0"}`);
+const utf8 = (bytes: Bytes) => new TextDecoder().decode(toBytes(bytes));
+
+function ed25519Verifies(signature: Bytes, message: Bytes, publicKey: Bytes): boolean {
+  try {
+    // Fresh copies: verify() reads the whole underlying buffer of a view
+    return Ed25519KeyIdentity.verify(toBytes(signature).slice(), toBytes(message).slice(), toBytes(publicKey).slice());
+  } catch {
+    return false;
+  }
+}
+
+// ============================================================
+// SOLANA and EVM — thin wrappers over solana-tx.ts / evm-fees.ts
+// ============================================================
+
+function inspectSolana(signedTxBase64: string): Decoded {
+  const tx = decodeSolanaTx(signedTxBase64);
+  const transfers = tx.instructions.flatMap((ix): SignedTxTransfer[] =>
+    ix.type === "systemTransfer" ? [{ to: ix.to, amount: ix.lamports }]
+    : ix.type === "splTransfer" ? [{ to: ix.destination, amount: ix.amount, token: ix.mint ?? ix.programId }]
+    : []);
+  const memo = tx.instructions.find((ix) => ix.type === "memo");
+  return {
+    txId: tx.signatures[0],
+    from: tx.feePayer,
+    signatureValid: verifySolanaTx(tx),
+    ...moves(transfers),
+    fee: tx.networkFee,
+    memo: memo?.type === "memo" ? memo.text : undefined,
+    details: { recentBlockhash: tx.recentBlockhash, instructions: tx.instructions.map((ix) => ix.type) },
+  };
+}
+
+const ERC20_TRANSFER = "a9059cbb";
+
+function inspectEvm(signed: SignedTxByChain[EvmChainId]): Decoded {
+  const tx = decodeEvmRawTx(signed.rawTxHex_v1 || signed.rawTxHex_v0);
+  const erc20 = tx.data.length === 68 && bytesToHex(tx.data.slice(0, 4)) === ERC20_TRANSFER;
+  const transfers: SignedTxTransfer[] = erc20
+    ? [{ to: `0x${bytesToHex(tx.data.slice(16, 36))}`, amount: int(tx.data.slice(36)), token: tx.to }]
+    : [];
+  // The native value goes to the contract alongside a token transfer
+  if (!erc20 || tx.value) transfers.push({ to: tx.to, amount: tx.value });
+  return {
+    txId: tx.hash,
+    from: tx.from,
+    signatureValid: tx.from !== "",
+    ...moves(transfers),
+    fee: tx.maxCost - tx.value,
+    nonce: tx.nonce,
+    details: {
+      type: tx.type, chainId: tx.chainId, gasLimit: tx.gasLimit,
+      gasPrice: tx.gasPrice ?? tx.maxFeePerGas, value: tx.value,
+      data: erc20 || !tx.data.length ? undefined : `0x${bytesToHex(tx.data)}`,
+    },
+  };
+}
+
+// ============================================================
+// XRP — binary codec (STObject)
+// ============================================================
+
+const XRP_FIELDS: Record<string, string> = {
+  "1.2": "TransactionType", "2.2": "Flags", "2.3": "SourceTag", "2.4": "Sequence", "2.14": "DestinationTag",
+  "2.27": "LastLedgerSequence", "6.1": "Amount", "6.8": "Fee", "6.9": "SendMax", "7.3": "SigningPubKey",
+  "7.4": "TxnSignature", "7.12": "MemoType", "7.13": "MemoData", "7.14": "MemoFormat", "8.1": "Account",
+  "8.3": "Destination", "14.10": "Memo", "15.9": "Memos",
+};
+const XRP_PAYMENT = 0;
+
+type XrpAmount = { drops: bigint } | { value: string; currency: string; issuer: Uint8Array };
+
+class XrpReader {
+  at = 0;
+  /** Byte range of the top-level TxnSignature field — everything else is signed */
+  signature?: [number, number];
+  constructor(readonly bytes: Uint8Array) {}
+
+  take(n: number): Uint8Array {
+    if (this.at + n > this.bytes.length) throw new SignedTxMismatch("XRP transaction is truncated");
+    return this.bytes.slice(this.at, (this.at += n));
+  }
+
+  vl(): number {
+    const b1 = this.take(1)[0];
+    if (b1 <= 192) return b1;
+    const b2 = this.take(1)[0];
+    if (b1 <= 240) return 193 + (b1 - 193) * 256 + b2;
+    return 12481 + (b1 - 241) * 65536 + b2 * 256 + this.take(1)[0];
+  }
+
+  /** Fields until `end` marker (0xe1 object end) or the end of the blob. */
+  object(depth = 0): Map<string, unknown> {
+    const fields = new Map<string, unknown>();
+    while (this.at < this.bytes.length) {
+      const start = this.at;
+      const header = this.take(1)[0];
+      if (header === 0xe1 && depth > 0) break;
+      let type = header >> 4;
+      let field = header & 0x0f;
+      if (type === 0) type = this.take(1)[0];
+      if (field === 0) field = this.take(1)[0];
+      const name = XRP_FIELDS[`${type}.${field}`] ?? `${type}.${field}`;
+      fields.set(name, this.value(type, depth));
+      if (name === "TxnSignature" && depth === 0) this.signature = [start, this.at];
+    }
+    return fields;
+  }
+
+  private value(type: number, depth: number): unknown {
+    switch (type) {
+      case 1: return int(this.take(2));
+      case 2: return int(this.take(4));
+      case 3: return int(this.take(8));
+      case 4: return bytesToHex(this.take(16));
+      case 5: return bytesToHex(this.take(32));
+      case 6: return this.amount();
+      case 7: case 8: case 19: return this.take(this.vl());
+      case 14: return this.object(depth + 1);
+      case 15: {
+        const items: Map<string, unknown>[] = [];
+        while (this.bytes[this.at] !== 0xf1) {
+          this.take(1);   // element header (e.g. Memo)
+          items.push(this.object(depth + 1));
+        }
+        this.take(1);
+        return items;
+      }
+      case 16: return int(this.take(1));
+      case 17: return bytesToHex(this.take(20));
+      case 21: return bytesToHex(this.take(24));
+    }
+    throw new SignedTxMismatch(`XRP transaction has a field of unsupported type ${type}`);
+  }
+
+  private amount(): XrpAmount {
+    const head = this.take(8);
+    const n = int(head);
+    if (!(n >> 63n)) return { drops: n & ((1n << 62n) - 1n) };
+    const [currency, issuer] = [this.take(20), this.take(20)];
+    const mantissa = n & ((1n << 54n) - 1n);
+    const exponent = Number((n >> 54n) & 0xffn) - 97;
+    const sign = (n >> 62n) & 1n ? "" : "-";
+    const digits = mantissa.toString();
+    const value = mantissa === 0n ? "0"
+      : exponent >= 0 ? `${sign}${digits}${"0".repeat(exponent)}`
+      : `${sign}${digits.padStart(-exponent + 1, "0").replace(new RegExp(`(\\d{${-exponent}})$`), ".$1").replace(/\.?0+$/, "")}`;
+    const code = currency.slice(12, 15);
+    const standard = currency.every((b, i) => (i >= 12 && i < 15) || b === 0);
+    return { value, currency: standard ? utf8(code) : bytesToHex(currency).toUpperCase(), issuer };
+  }
+}
+
+const xrpAddress = (accountId: Uint8Array) => bytesToBase58Check(Uint8Array.from([0, ...accountId]), XRP_B58);
+
+/** DER-encoded ECDSA signature → r, s */
+function derSignature(der: Uint8Array): [Uint8Array, Uint8Array] {
+  if (der[0] !== 0x30 || der[2] !== 0x02) throw new SignedTxMismatch("XRP TxnSignature is not DER");
+  const rLen = der[3];
+  const r = der.slice(4, 4 + rLen);
+  const s = der.slice(6 + rLen, 6 + rLen + der[5 + rLen]);
+  return [r, s];
+}
+
+async function inspectXrp(signed: SignedXrpTx): Promise<Decoded> {
+  const blob = hexToBytes(signed.signedTxHex);
+  const reader = new XrpReader(blob);
+  const f = reader.object();
+  const amount = f.get("Amount") as XrpAmount | undefined;
+  const key = f.get("SigningPubKey") as Uint8Array | undefined;
+  const signature = f.get("TxnSignature") as Uint8Array | undefined;
+
+  let signatureValid: boolean | undefined;
+  if (key?.length && signature && reader.signature) {
+    const [start, end] = reader.signature;
+    const signing = Uint8Array.from([0x53, 0x54, 0x58, 0x00, ...blob.slice(0, start), ...blob.slice(end)]);
+    signatureValid = key[0] === 0xed
+      ? ed25519Verifies(signature, signing, key.slice(1))
+      : secp256k1Verify((await sha512(signing)).slice(0, 32), ...derSignature(signature), key);
+  }
+  const memos = ((f.get("Memos") as Map<string, unknown>[] | undefined) ?? [])
+    .map((m) => (m.get("Memo") as Map<string, unknown> | undefined)?.get("MemoData") ?? m.get("MemoData"))
+    .filter((d): d is Uint8Array => d instanceof Uint8Array)
+    .map(utf8);
+  const issued = amount && "value" in amount;
+  const transfers: SignedTxTransfer[] = [];
+  if (amount || f.has("Destination")) {
+    transfers.push({
+      to: f.has("Destination") ? await xrpAddress(f.get("Destination") as Uint8Array) : "",
+      // Issued currencies carry up to 15 significant digits — amount is value × 10^15
+      amount: !amount ? 0n : "drops" in amount ? amount.drops : toUnits(amount.value.replace(/^-/, ""), { symbol: amount.currency, decimals: 15 }),
+      token: issued ? `${amount.currency}.${await xrpAddress(amount.issuer)}` : undefined,
+    });
+  }
+
+  return {
+    txId: bytesToHex((await sha512(Uint8Array.from([0x54, 0x58, 0x4e, 0x00, ...blob]))).slice(0, 32)).toUpperCase(),
+    from: f.has("Account") ? await xrpAddress(f.get("Account") as Uint8Array) : "",
+    signatureValid,
+    ...moves(transfers),
+    fee: (f.get("Fee") as { drops: bigint } | undefined)?.drops,
+    nonce: f.get("Sequence") as bigint | undefined,
+    memo: memos.length ? memos.join("\n") : undefined,
+    details: {
+      transactionType: Number(f.get("TransactionType") ?? -1) === XRP_PAYMENT ? "Payment" : f.get("TransactionType"),
+      destinationTag: f.get("DestinationTag"),
+      lastLedgerSequence: f.get("LastLedgerSequence"),
+      value: issued ? amount.value : undefined,
+      signingPubKey: key && bytesToHex(key).toUpperCase(),
+    },
+  };
+}
+
+// ============================================================
+// SUI — BCS TransactionData
+// ============================================================
+
+type SuiArg = { GasCoin: true } | { Input: number } | { Result: number } | { NestedResult: [number, number] };
+type SuiCommand =
+  | { kind: "TransferObjects"; objects: SuiArg[]; address: SuiArg }
+  | { kind: "SplitCoins"; coin: SuiArg; amounts: SuiArg[] }
+  | { kind: "other"; name: string };
+type SuiInput = { pure: Uint8Array } | { object: string };
+
+class Bcs {
+  at = 0;
+  constructor(readonly bytes: Uint8Array) {}
+
+  take(n: number): Uint8Array {
+    if (this.at + n > this.bytes.length) throw new SignedTxMismatch("Sui transaction is truncated");
+    return this.bytes.slice(this.at, (this.at += n));
+  }
+
+  u8() { return this.take(1)[0]; }
+  u16() { return this.u8() | (this.u8() << 8); }
+  u64() { return int(this.take(8).reverse()); }
+  bool() { return this.u8() !== 0; }
+
+  uleb(): number {
+    let value = 0;
+    for (let shift = 0; ; shift += 7) {
+      const b = this.u8();
+      value += (b & 0x7f) * 2 ** shift;
+      if (!(b & 0x80)) return value;
+    }
+  }
+
+  vec<T>(item: () => T): T[] { return Array.from({ length: this.uleb() }, item); }
+  bytesVec() { return this.take(this.uleb()); }
+  string() { return utf8(this.bytesVec()); }
+  address() { return `0x${bytesToHex(this.take(32))}`; }
+  objectRef() { const id = this.address(); this.u64(); this.bytesVec(); return id; }
+
+  arg(): SuiArg {
+    switch (this.u8()) {
+      case 0: return { GasCoin: true };
+      case 1: return { Input: this.u16() };
+      case 2: return { Result: this.u16() };
+      default: return { NestedResult: [this.u16(), this.u16()] };
+    }
+  }
+
+  typeTag(): void {
+    const tag = this.u8();
+    if (tag === 6) this.typeTag();
+    if (tag === 7) {
+      this.address();
+      this.string();
+      this.string();
+      this.vec(() => this.typeTag());
+    }
+  }
+
+  input(): SuiInput {
+    if (this.u8() === 0) return { pure: this.bytesVec() };
+    const kind = this.u8();
+    const id = kind === 1 ? this.address() : this.objectRef();
+    if (kind === 1) { this.u64(); this.bool(); }
+    return { object: id };
+  }
+
+  command(): SuiCommand {
+    const kind = this.u8();
+    switch (kind) {
+      case 0:
+        this.address(); this.string(); this.string();
+        this.vec(() => this.typeTag());
+        this.vec(() => this.arg());
+        return { kind: "other", name: "MoveCall" };
+      case 1: return { kind: "TransferObjects", objects: this.vec(() => this.arg()), address: this.arg() };
+      case 2: return { kind: "SplitCoins", coin: this.arg(), amounts: this.vec(() => this.arg()) };
+      case 3: this.arg(); this.vec(() => this.arg()); return { kind: "other", name: "MergeCoins" };
+      case 5:
+        if (this.bool()) this.typeTag();
+        this.vec(() => this.arg());
+        return { kind: "other", name: "MakeMoveVec" };
+    }
+    throw new SignedTxMismatch(`Sui transaction has an unsupported command (${kind === 4 ? "Publish" : kind === 6 ? "Upgrade" : kind})`);
+  }
+}
+
+async function inspectSui(signed: SignedSuiTx): Promise<Decoded> {
+  const txBytes = base64ToBytes(signed.txBytesBase64);
+  const r = new Bcs(txBytes);
+  if (r.u8() !== 0) throw new SignedTxMismatch("Sui TransactionData is not V1");
+  if (r.u8() !== 0) throw new SignedTxMismatch("Sui transaction is not a programmable transaction");
+  const inputs = r.vec(() => r.input());
+  const commands = r.vec(() => r.command());
+  const sender = r.address();
+  const payment = r.vec(() => r.objectRef());
+  r.address();   // gas owner
+  const [gasPrice, gasBudget] = [r.u64(), r.u64()];
+  const expiration = r.u8() === 1 ? r.u64() : undefined;
+
+  // Transfers: every object of every TransferObjects to a pure address input —
+  // SplitCoins results carry their amount, whole coins and objects do not
+  const input = (arg: SuiArg) => ("Input" in arg ? inputs[arg.Input] : undefined);
+  const objectId = (arg: SuiArg) => {
+    const source = input(arg);
+    return source && "object" in source ? source.object : undefined;
+  };
+  const transfers: SignedTxTransfer[] = [];
+  for (const command of commands) {
+    if (command.kind !== "TransferObjects") continue;
+    const recipient = input(command.address);
+    const to = recipient && "pure" in recipient && recipient.pure.length === 32 ? `0x${bytesToHex(recipient.pure)}` : "";
+    for (const obj of command.objects) {
+      const index = "Result" in obj ? obj.Result : "NestedResult" in obj ? obj.NestedResult[0] : -1;
+      const split = commands[index];
+      if (split?.kind !== "SplitCoins") {
+        transfers.push({ to, amount: 0n, token: "GasCoin" in obj ? "GasCoin" : objectId(obj) ?? `result ${index}`, wholeObject: true });
+        continue;
+      }
+      let amount = 0n;
+      const amounts = "NestedResult" in obj ? [split.amounts[obj.NestedResult[1]]] : split.amounts;
+      for (const a of amounts) {
+        const pure = input(a);
+        if (pure && "pure" in pure) amount += int(pure.pure.slice().reverse());
+      }
+      transfers.push({ to, amount, token: objectId(split.coin) });
+    }
+  }
+
+  // signatureBase64 = flag ‖ signature ‖ public key; ed25519 signs blake2b-256(intent ‖ tx bytes)
+  const sig = base64ToBytes(signed.signatureBase64);
+  let signatureValid: boolean | undefined;
+  if (sig[0] === 0 && sig.length === 97) {
+    const key = sig.slice(65);
+    const signer = `0x${bytesToHex(blake2b(Uint8Array.from([0, ...key])))}`;
+    signatureValid = signer === sender && ed25519Verifies(sig.slice(1, 65), blake2b(Uint8Array.from([0, 0, 0, ...txBytes])), key);
+  }
+
+  return {
+    txId: bytesToBase58(blake2b(Uint8Array.from([...new TextEncoder().encode("TransactionData::"), ...txBytes]))),
+    from: sender,
+    signatureValid,
+    ...moves(transfers),
+    fee: gasBudget,
+    details: {
+      gasPrice, gasBudget, gasPayment: payment, expiration,
+      commands: commands.map((c) => (c.kind === "other" ? c.name : c.kind)),
+    },
+  };
+}
+
+// ============================================================
+// TON — bag of cells, wallet v3 / v4 / v5 external messages
+// ============================================================
+
+interface Cell {
+  bits: Uint8Array;
+  bitLength: number;
+  refs: Cell[];
+}
+
+function parseBoc(boc: Uint8Array): Cell {
+  if (bytesToHex(boc.slice(0, 4)) !== "b5ee9c72") throw new SignedTxMismatch("TON payload is not a bag of cells");
+  const flags = boc[4];
+  const size = flags & 7;
+  const offBytes = boc[5];
+  let at = 6;
+  const read = (n: number) => { const v = Number(int(boc.slice(at, at + n))); at += n; return v; };
+  const cellCount = read(size);
+  const rootCount = read(size);
+  read(size);   // absent
+  read(offBytes);   // total cells size
+  const roots = Array.from({ length: rootCount }, () => read(size));
+  if (flags & 0x80) at += cellCount * offBytes;   // index
+
+  const raw = Array.from({ length: cellCount }, () => {
+    const [d1, d2] = [boc[at], boc[at + 1]];
+    at += 2;
+    const byteLength = Math.ceil(d2 / 2);
+    const bits = boc.slice(at, at + byteLength);
+    at += byteLength;
+    let bitLength = byteLength * 8;
+    if (d2 % 2) {
+      // Completion tag: the last 1-bit marks the end
+      const last = bits[byteLength - 1];
+      bitLength -= Math.log2(last & -last) + 1;
+    }
+    const refs = Array.from({ length: d1 & 7 }, () => read(size));
+    return { bits, bitLength, refs };
+  });
+  const cells: Cell[] = new Array(cellCount);
+  for (let i = cellCount - 1; i >= 0; i--) {
+    cells[i] = { bits: raw[i].bits, bitLength: raw[i].bitLength, refs: raw[i].refs.map((j) => cells[j]) };
+  }
+  return cells[roots[0]];
+}
+
+/** Representation hash of an ordinary cell — what wallets sign. */
+async function cellHash(cell: Cell, depths = new Map<Cell, number>()): Promise<Uint8Array> {
+  const childHashes = await Promise.all(cell.refs.map((c) => cellHash(c, depths)));
+  depths.set(cell, cell.refs.length ? Math.max(...cell.refs.map((c) => depths.get(c)!)) + 1 : 0);
+  const data = new Uint8Array(Math.ceil(cell.bitLength / 8));
+  data.set(cell.bits.slice(0, data.length));
+  if (cell.bitLength % 8) {
+    const keep = cell.bitLength % 8;
+    data[data.length - 1] = (data[data.length - 1] & (0xff << (8 - keep))) | (0x80 >> keep);
+  }
+  return sha256(Uint8Array.from([
+    cell.refs.length,
+    Math.floor(cell.bitLength / 8) + Math.ceil(cell.bitLength / 8),
+    ...data,
+    ...cell.refs.flatMap((c) => [depths.get(c)! >> 8, depths.get(c)! & 0xff]),
+    ...childHashes.flatMap((h) => [...h]),
+  ]));
+}
+
+class Slice {
+  private bit = 0;
+  private ref = 0;
+  constructor(private cell: Cell) {}
+
+  get bitsLeft() { return this.cell.bitLength - this.bit; }
+  get refsLeft() { return this.cell.refs.length - this.ref; }
+
+  uint(n: number): bigint {
+    if (n > this.bitsLeft) throw new SignedTxMismatch("TON cell underflow");
+    let v = 0n;
+    for (let i = 0; i < n; i++, this.bit++) v = (v << 1n) | BigInt((this.cell.bits[this.bit >> 3] >> (7 - (this.bit & 7))) & 1);
+    return v;
+  }
+
+  flag() { return this.uint(1) === 1n; }
+  loadRef(): Cell {
+    if (!this.refsLeft) throw new SignedTxMismatch("TON cell has no more references");
+    return this.cell.refs[this.ref++];
+  }
+  bytes(n: number) { return Uint8Array.from({ length: n }, () => Number(this.uint(8))); }
+  grams() { return this.uint(Number(this.uint(4)) * 8); }
+
+  /** "wc:hex" for addr_std, "" for addr_none / addr_extern */
+  address(): string {
+    const tag = Number(this.uint(2));
+    if (tag === 0) return "";
+    if (tag === 1) { this.uint(Number(this.uint(9))); return ""; }
+    if (tag !== 2) throw new SignedTxMismatch("TON addr_var is not supported");
+    if (this.flag()) this.uint(Number(this.uint(5)));   // anycast
+    const wc = Number(BigInt.asIntN(8, this.uint(8)));
+    return `${wc}:${bytesToHex(this.bytes(32))}`;
+  }
+
+  /** Skip a Maybe (Either StateInit ^StateInit) */
+  skipInit(): void {
+    if (!this.flag()) return;
+    if (this.flag()) { this.loadRef(); return; }
+    if (this.flag()) this.uint(5);   // split_depth
+    if (this.flag()) this.uint(2);   // special
+    for (let i = 0; i < 3; i++) if (this.flag()) this.loadRef();   // code, data, library
+  }
+
+  /** Either X ^X */
+  either(): Slice { return this.flag() ? new Slice(this.loadRef()) : this; }
+
+  /** What is left, as a cell of its own */
+  rest(): Cell {
+    const bitLength = this.bitsLeft;
+    const bits = new Uint8Array(Math.ceil(bitLength / 8));
+    for (let i = 0; i < bitLength; i++) {
+      const src = this.bit + i;
+      bits[i >> 3] |= ((this.cell.bits[src >> 3] >> (7 - (src & 7))) & 1) << (7 - (i & 7));
+    }
+    return { bits, bitLength, refs: this.cell.refs.slice(this.ref) };
+  }
+}
+
+const TON_V5_SIGNED_EXTERNAL = 0x7369676en;
+const TON_ACTION_SEND_MSG = 0x0ec3c86dn;
+
+interface TonMessage { to: string; value: bigint; bounce: boolean; comment?: string; mode: number }
+
+function tonInternal(cell: Cell, mode: number): TonMessage {
+  const s = new Slice(cell);
+  if (s.flag()) throw new SignedTxMismatch("TON wallet sends an external message");
+  s.flag();   // ihr_disabled
+  const bounce = s.flag();
+  s.flag();   // bounced
+  s.address();
+  const to = s.address();
+  const value = s.grams();
+  if (s.flag()) s.loadRef();   // extra currencies
+  s.grams();
+  s.grams();
+  s.uint(64);
+  s.uint(32);
+  s.skipInit();
+  const body = s.either();
+  let comment: string | undefined;
+  if (body.bitsLeft >= 32 && body.uint(32) === 0n) {
+    // Text comment, continued in a chain of refs ("snake")
+    const parts: Uint8Array[] = [];
+    for (let part: Slice | undefined = body; part; part = part.refsLeft ? new Slice(part.loadRef()) : undefined) {
+      parts.push(part.bytes(Math.floor(part.bitsLeft / 8)));
+    }
+    comment = utf8(Uint8Array.from(parts.flatMap((p) => [...p])));
+  }
+  return { to, value, bounce, comment, mode };
+}
+
+/** "EQ…" / "UQ…" or "0:hex" → "0:hex" */
+export function tonRawAddress(address: string): string {
+  if (/^-?\d+:[0-9a-fA-F]{64}$/.test(address)) return address.toLowerCase();
+  const bytes = base64ToBytes(address);
+  if (bytes.length !== 36) throw new SignedTxMismatch(`Not a TON address: "${address}"`);
+  return `${(bytes[1] << 24) >> 24}:${bytesToHex(bytes.slice(2, 34))}`;
+}
+
+async function inspectTon(signed: SignedTonTx, options: InspectOptions): Promise<Decoded> {
+  const root = new Slice(parseBoc(base64ToBytes(signed.bocBase64)));
+  if (root.uint(2) !== 2n) throw new SignedTxMismatch("TON payload is not an external inbound message");
+  root.address();
+  const wallet = root.address();
+  root.grams();
+  root.skipInit();
+  const body = root.either();
+
+  let signature: Uint8Array;
+  let signedPart: Cell;
+  let seqno: bigint;
+  let validUntil: bigint;
+  let version: string;
+  const messages: TonMessage[] = [];
+  const peek = new Slice(body.rest());
+  if (peek.bitsLeft >= 32 && peek.uint(32) === TON_V5_SIGNED_EXTERNAL) {
+    // v5: op, wallet_id, valid_until, seqno, Maybe ^OutList, has_other_actions, …, signature last
+    version = "v5";
+    const all = body.rest();
+    const s = new Slice(all);
+    s.uint(32);
+    s.uint(32);
+    validUntil = s.uint(32);
+    seqno = s.uint(32);
+    if (s.flag()) {
+      for (let list = s.loadRef(); list.refs.length === 2; list = list.refs[0]) {
+        const action = new Slice(list);
+        if (action.uint(32) !== TON_ACTION_SEND_MSG) throw new SignedTxMismatch("TON v5 wallet action is not a message send");
+        messages.unshift(tonInternal(list.refs[1], Number(action.uint(8))));
+      }
+    }
+    // Extended actions add/remove extensions or change the signing mode — never part of a transfer
+    if (s.flag()) throw new SignedTxMismatch("TON v5 wallet request carries extended actions");
+    const skip = new Slice({ ...all, refs: [] });
+    signedPart = { bits: skip.rest().bits, bitLength: all.bitLength - 512, refs: all.refs };
+    skip.uint(all.bitLength - 512);
+    signature = skip.bytes(64);
+  } else {
+    // v3 / v4: signature first, then subwallet_id, valid_until, seqno, [op,] (mode, ^message)*
+    signature = body.bytes(64);
+    signedPart = body.rest();
+    const s = new Slice(signedPart);
+    s.uint(32);
+    validUntil = s.uint(32);
+    seqno = s.uint(32);
+    version = s.bitsLeft === 8 * s.refsLeft + 8 ? "v4" : "v3";
+    if (version === "v4") s.uint(8);
+    while (s.refsLeft) {
+      const mode = Number(s.uint(8));
+      messages.push(tonInternal(s.loadRef(), mode));
+    }
+  }
+
+  const key = options.publicKey ?? (options.menese ? (await options.menese.getMyTonAddress()).publicKeyHex : undefined);
+  const signatureValid = key === undefined
+    ? undefined
+    : ed25519Verifies(signature, await cellHash(signedPart), typeof key === "string" ? hexToBytes(key) : key);
+  const [first] = messages;
+
+  return {
+    from: wallet,
+    signatureValid,
+    ...moves(messages.map((m) => ({ to: m.to, amount: m.value }))),
+    nonce: seqno,
+    memo: first?.comment,
+    details: { walletVersion: version, validUntil: Number(validUntil), bounce: first?.bounce, messages },
+  };
+}
+
+// ============================================================
+// CARDANO — CBOR
+// ============================================================
+
+type Cbor = bigint | number | boolean | null | undefined | string | Uint8Array | Cbor[] | Map<Cbor, Cbor>;
+
+function cbor(b: Uint8Array, at = 0): { value: Cbor; end: number } {
+  const major = b[at] >> 5;
+  const info = b[at] & 0x1f;
+  at++;
+  let arg = BigInt(info);
+  if (info >= 24 && info <= 27) {
+    const n = 1 << (info - 24);
+    arg = int(b.slice(at, at + n));
+    at += n;
+  }
+  const indefinite = info === 31;
+  const items = (count: number, pairs: boolean) => {
+    const out: Cbor[] = [];
+    for (let i = 0; indefinite ? b[at] !== 0xff : i < count * (pairs ? 2 : 1); i++) {
+      const next = cbor(b, at);
+      out.push(next.value);
+      at = next.end;
+    }
+    if (indefinite) at++;
+    return out;
+  };
+  switch (major) {
+    case 0: return { value: arg, end: at };
+    case 1: return { value: -1n - arg, end: at };
+    case 2: case 3: {
+      let bytes: Uint8Array;
+      if (indefinite) {
+        const chunks = items(0, false) as (Uint8Array | string)[];
+        bytes = Uint8Array.from(chunks.flatMap((c) => [...(typeof c === "string" ? new TextEncoder().encode(c) : c)]));
+      } else {
+        bytes = b.slice(at, at + Number(arg));
+        at += Number(arg);
+      }
+      return { value: major === 2 ? bytes : utf8(bytes), end: at };
+    }
+    case 4: return { value: items(Number(arg), false), end: at };
+    case 5: {
+      const flat = items(Number(arg), true);
+      const map = new Map<Cbor, Cbor>();
+      for (let i = 0; i < flat.length; i += 2) map.set(flat[i], flat[i + 1]);
+      return { value: map, end: at };
+    }
+    case 6: return cbor(b, at);   // tags (258 sets, 259 aux data…) — the content is what matters
+    default:
+      if (info === 20 || info === 21) return { value: info === 21, end: at };
+      if (info === 22 || info === 23) return { value: info === 22 ? null : undefined, end: at };
+      return { value: Number(arg), end: at };
+  }
+}
+
+function cardanoAddress(bytes: Uint8Array): string {
+  const type = bytes[0] >> 4;
+  if (type === 8) return bytesToBase58(bytes);   // Byron
+  return bytesToBech32((bytes[0] & 0x0f) === 1 ? "addr" : "addr_test", bytes);
+}
+
+/** Payment key hash of a Shelley address (bech32) — what a vkey witness must hash to. */
+function paymentKeyHash(address: string): string {
+  return bytesToHex(bech32ToBytes(address).bytes.slice(1, 29));
+}
+
+async function inspectCardano(signed: SignedCardanoTx): Promise<Decoded> {
+  const raw = toBytes(signed.signedTxCbor);
+  const bodyEnd = cbor(raw, 1).end;
+  const body = raw.slice(1, bodyEnd);
+  const [bodyMap, witnesses, third, fourth] = cbor(raw).value as Cbor[];
+  const aux = typeof third === "boolean" ? fourth : third;
+  const txId = blake2b(body);
+
+  const b = bodyMap as Map<Cbor, Cbor>;
+  const vkeys = (((witnesses as Map<Cbor, Cbor>).get(0n) ?? []) as Uint8Array[][]);
+  const signers = vkeys.map(([vkey]) => bytesToHex(blake2b(vkey, 28)));
+  const signatureValid = vkeys.length > 0 && vkeys.every(([vkey, sig]) => ed25519Verifies(sig, txId, vkey));
+
+  const outputs = ((b.get(1n) ?? []) as Cbor[]).map((o) => {
+    const [address, value] = o instanceof Map ? [o.get(0n), o.get(1n)] : (o as Cbor[]);
+    const [coin, assets] = Array.isArray(value) ? value : [value, undefined];
+    const bytes = address as Uint8Array;
+    return { address: cardanoAddress(bytes), keyHash: bytesToHex(bytes.slice(1, 29)), coin: coin as bigint, assets: assets as Map<Cbor, Cbor> | undefined };
+  });
+  const change = outputs.find((o) => signers.includes(o.keyHash));
+  // Every output not back to a signer, and every native asset on it (policy id.asset name)
+  const transfers = outputs.filter((o) => !signers.includes(o.keyHash)).flatMap((o): SignedTxTransfer[] => [
+    { to: o.address, amount: o.coin },
+    ...[...(o.assets ?? [])].flatMap(([policy, names]) => [...(names as Map<Cbor, Cbor>)].map(([name, quantity]) => ({
+      to: o.address,
+      amount: quantity as bigint,
+      token: `${bytesToHex(policy as Uint8Array)}.${bytesToHex(name as Uint8Array)}`,
+    }))),
+  ]);
+
+  // CIP-20 message: metadata label 674 → { msg: [strings] }. Auxiliary data is the
+  // metadata map, [metadata, scripts] (Mary) or #6.259({ 0: metadata, … }) (Alonzo)
+  const metadata = Array.isArray(aux) ? aux[0]
+    : aux instanceof Map && aux.get(0n) instanceof Map && !aux.has(674n) ? aux.get(0n)
+    : aux;
+  const message = metadata instanceof Map ? metadata.get(674n) : undefined;
+  const msg = message instanceof Map ? message.get("msg") : undefined;
+
+  return {
+    txId: bytesToHex(txId),
+    from: change?.address ?? (signers[0] ? `key hash ${signers[0]}` : ""),
+    signatureValid,
+    ...moves(transfers),
+    fee: b.get(2n) as bigint | undefined,
+    memo: Array.isArray(msg) ? msg.join("") : undefined,
+    details: {
+      ttl: b.get(3n),
+      signerKeyHashes: signers,
+      outputs: outputs.map(({ address, coin, assets }) => ({ address, coin, assets: assets?.size ? true : undefined })),
+    },
+  };
+}
+
+// ============================================================
+// TRON — protobuf Transaction
+// ============================================================
+
+function protobuf(b: Uint8Array): Map<number, (bigint | Uint8Array)[]> {
+  const fields = new Map<number, (bigint | Uint8Array)[]>();
+  let at = 0;
+  const varint = () => {
+    let v = 0n;
+    for (let shift = 0n; ; shift += 7n) {
+      const byte = b[at++];
+      if (byte === undefined) throw new SignedTxMismatch("Tron transaction is truncated");
+      v |= BigInt(byte & 0x7f) << shift;
+      if (!(byte & 0x80)) return v;
+    }
+  };
+  while (at < b.length) {
+    const key = Number(varint());
+    const [field, wire] = [key >> 3, key & 7];
+    let value: bigint | Uint8Array;
+    if (wire === 0) value = varint();
+    else if (wire === 2) { const n = Number(varint()); value = b.slice(at, (at += n)); }
+    else if (wire === 1 || wire === 5) value = b.slice(at, (at += wire === 1 ? 8 : 4));
+    else throw new SignedTxMismatch(`Tron transaction has unsupported wire type ${wire}`);
+    fields.set(field, [...(fields.get(field) ?? []), value]);
+  }
+  return fields;
+}
+
+const tronBase58 = (address: Uint8Array) => bytesToBase58Check(address);
+const TRON_TRANSFER = 1n;
+const TRON_TRANSFER_ASSET = 2n;
+const TRON_TRIGGER_SMART_CONTRACT = 31n;
+
+async function tronSigner(txHex: string): Promise<{ raw: Uint8Array; signer?: Uint8Array }> {
+  const tx = protobuf(hexToBytes(txHex));
+  const raw = tx.get(1)?.[0] as Uint8Array;
+  const sig = tx.get(2)?.[0] as Uint8Array | undefined;
+  if (!raw) throw new SignedTxMismatch("Tron transaction has no raw_data");
+  if (!sig || sig.length !== 65) return { raw };
+  const key = secp256k1Recover(await sha256(raw), sig.slice(0, 32), sig.slice(32, 64), sig[64] >= 27 ? sig[64] - 27 : sig[64]);
+  return { raw, signer: key ? Uint8Array.from([0x41, ...keccak256(key).slice(12)]) : undefined };
+}
+
+async function inspectTron(signed: SignedTronTx): Promise<Decoded> {
+  // Two candidates that differ only in the recovery id — the one that recovers the owner is valid
+  const candidates = await Promise.all([signed.txHex1b, signed.txHex1c].filter(Boolean).map(tronSigner));
+  const { raw } = candidates[0];
+  const r = protobuf(raw);
+  const contract = protobuf(r.get(11)?.[0] as Uint8Array);
+  const type = contract.get(1)?.[0] as bigint;
+  const value = protobuf(protobuf(contract.get(2)?.[0] as Uint8Array).get(2)?.[0] as Uint8Array ?? new Uint8Array());
+  const bytes = (field: number) => value.get(field)?.[0] as Uint8Array | undefined;
+  const num = (field: number) => (value.get(field)?.[0] as bigint | undefined) ?? 0n;
+
+  let owner = bytes(1);
+  let to: Uint8Array | undefined;
+  let amount = 0n;
+  let token: string | undefined;
+  if (type === TRON_TRANSFER) [to, amount] = [bytes(2), num(3)];
+  else if (type === TRON_TRANSFER_ASSET) [owner, to, amount, token] = [bytes(2), bytes(3), num(4), utf8(bytes(1) ?? [])];
+  else if (type === TRON_TRIGGER_SMART_CONTRACT) {
+    const data = bytes(4) ?? new Uint8Array();
+    token = await tronBase58(bytes(2) ?? new Uint8Array());
+    if (data.length === 68 && bytesToHex(data.slice(0, 4)) === ERC20_TRANSFER) {
+      [to, amount] = [Uint8Array.from([0x41, ...data.slice(16, 36)]), int(data.slice(36))];
+    }
+  }
+  const ownerHex = owner && bytesToHex(owner);
+  const memo = r.get(10)?.[0] as Uint8Array | undefined;
+  const transfers: SignedTxTransfer[] = [{ to: to ? await tronBase58(to) : "", amount, token }];
+  // call_value (TRX) and call_token_value (TRC-10, by token id) go to the contract with the call
+  if (type === TRON_TRIGGER_SMART_CONTRACT && num(3)) transfers.push({ to: token!, amount: num(3) });
+  if (type === TRON_TRIGGER_SMART_CONTRACT && num(5)) transfers.push({ to: token!, amount: num(5), token: String(num(6)) });
+
+  return {
+    txId: bytesToHex(await sha256(raw)),
+    from: owner ? await tronBase58(owner) : "",
+    signatureValid: candidates.some((c) => c.signer && bytesToHex(c.signer) === ownerHex),
+    ...moves(transfers),
+    fee: r.get(18)?.[0] as bigint | undefined,
+    memo: memo && utf8(memo),
+    details: {
+      contractType: Number(type),
+      expiration: Number((r.get(8)?.[0] as bigint | undefined) ?? 0n),
+      refBlockBytes: bytesToHex((r.get(1)?.[0] as Uint8Array | undefined) ?? []),
+    },
+  };
+}
+
+// ============================================================
+// ASSERT
+// ============================================================
+
+/** Comparable form of an address on `chain`. */
+async function normalizeAddress(chain: InspectableChain, address: string): Promise<string> {
+  if (isEvmChain(chain) || chain === "sui") return address.toLowerCase();
+  if (chain === "ton") return tonRawAddress(address);
+  if (chain === "tron" && /^(0x)?41[0-9a-fA-F]{40}$/.test(address)) return tronBase58(hexToBytes(address.replace(/^0x/, "")));
+  return address;
+}
+
+/**
+ * Inspect `signed` and compare it with what was requested. The signer must be
+ * `expected.from`, or the getMy*Address of `options.menese`, and the one
+ * transfer the request describes must be the only one: a second transfer, a
+ * non-change output, a native asset, value sent with a token call or an XRP
+ * transaction other than Payment is a difference too. Throws SignedTxMismatch
+ * listing every difference; returns the preview.
+ */
+export async function assertSignedTx<C extends InspectableChain>(
+  chain: C,
+  signed: SignedTxByChain[C],
+  expected: ExpectedSignedTx,
+  options: InspectOptions = {},
+): Promise<SignedTxPreview> {
+  const preview = await inspectSignedTx(chain, signed, options);
+  const problems: string[] = [];
+  const units = (a: AmountLike) => toUnits(a, chain);
+
+  if (preview.signatureValid === false) problems.push("signature does not verify");
+  const from = expected.from ?? (options.menese ? await senderAddress(options.menese, chain) : undefined);
+  if (from !== undefined) {
+    const matches = chain === "cardano"
+      ? (preview.details.signerKeyHashes as string[]).includes(paymentKeyHash(from))
+      : (await normalizeAddress(chain, from)) === (await normalizeAddress(chain, preview.from));
+    if (!matches) problems.push(`signed by ${preview.from}, expected ${from}`);
+  }
+  if (chain === "solana" && expected.to !== undefined && expected.amount !== undefined) {
+    // Exactly this transfer, and no instruction of an unknown program
+    const signedTxBase64 = (signed as SignedTxByChain["solana"]).signedTxBase64;
+    try {
+      assertSolanaTx(signedTxBase64, { transfers: [{ to: expected.to, amount: units(expected.amount), mint: expected.token }] });
+    } catch (e) {
+      if (!(e instanceof SignedTxMismatch)) throw e;
+      problems.push(e.message.slice(e.message.indexOf(": ") + 2));
+    }
+  } else {
+    if (expected.to !== undefined && (await normalizeAddress(chain, expected.to)) !== (await normalizeAddress(chain, preview.to))) {
+      problems.push(`pays ${preview.to}, expected ${expected.to}`);
+    }
+    if (expected.amount !== undefined && units(expected.amount) !== preview.amount) {
+      problems.push(`amount is ${preview.amount}, expected ${units(expected.amount)}`);
+    }
+    for (const t of preview.transfers.slice(1)) {
+      problems.push(`also transfers ${transferValue(chain, t)} to ${t.to}`);
+    }
+  }
+  // Checksummed EVM contracts, hex Tron contracts... compare like recipients
+  const token = async (t?: string) => (t ? normalizeAddress(chain, t) : "");
+  if ((await token(expected.token)) !== (await token(preview.token))) {
+    problems.push(preview.token ? `transfers ${preview.token}, expected ${expected.token ?? "the native coin"}` : `transfers the native coin, expected ${expected.token}`);
+  }
+  if (expected.memo !== undefined && expected.memo !== (preview.memo ?? "")) {
+    problems.push(`memo is ${JSON.stringify(preview.memo ?? "")}, expected ${JSON.stringify(expected.memo)}`);
+  }
+  if (expected.maxFee !== undefined && preview.fee !== undefined && preview.fee > units(expected.maxFee)) {
+    problems.push(`fee ${preview.fee} exceeds ${units(expected.maxFee)}`);
+  }
+  if (expected.nonce !== undefined && expected.nonce !== preview.nonce) {
+    problems.push(`nonce is ${preview.nonce}, expected ${expected.nonce}`);
+  }
+  if (isEvmChain(chain)) {
+    // A pre-EIP-155 signature is valid on every EVM chain, not just this one
+    const chainId = preview.details.chainId as bigint | undefined;
+    if (chainId === undefined) problems.push("has no chain id (pre-EIP-155, replayable on any EVM chain)");
+    else if (chainId !== BigInt(EVM_CHAIN_IDS[chain])) problems.push(`is for chain id ${chainId}, expected ${EVM_CHAIN_IDS[chain]}`);
+  }
+  if (chain === "xrp" && preview.details.transactionType !== "Payment") {
+    problems.push(`XRP transaction type is ${preview.details.transactionType}, expected Payment`);
+  }
+  if (chain === "sui" && (preview.details.commands as string[]).includes("MoveCall")) {
+    problems.push("makes a Move call");
+  }
+
+  if (problems.length) {
+    throw new SignedTxMismatch(`Signed ${chain} transaction: ${problems.join("; ")}\n${preview.summary}`, { raw: preview });
+  }
+  return preview;
+}
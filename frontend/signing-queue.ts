@@ -0,0 +1,526 @@
+// signing-queue.ts — Prepare and sign in one process, broadcast from another
+//
+// A sign-only transfer needs a Menese identity only for the signature. The
+// queue splits it so the process holding the identity never broadcasts, and
+// the one broadcasting holds nothing but RPC access:
+//
+//   // Preparer: fetches chain state and gets the canister signature (1 action each)
+//   const queue = new SigningQueue();
+//   await queue.prepare("xrp", dest, "25", session.config, { destinationTag: 7, label: "invoice 42" });
+//   await queue.prepare("tron", to, "100", session.config);
+//   await queue.signAll(await session.menese());
+//   await writeFile("outbox.json", queue.export());
+//
+//   // Broadcaster: later, elsewhere
+//   const queue = SigningQueue.import(await readFile("outbox.json", "utf8"), { confirm: "confirmed" });
+//   for (const { id, result, error } of await queue.broadcastAll()) ...
+//
+// An UnsignedIntent is the relayer's exact argument tuple (chain-context.ts)
+// plus the recipient, amount and sender it was built for; a SignedEnvelope
+// adds the relayer's output. Both carry expiry metadata — Solana blockhash
+// and age, XRP LastLedgerSequence, Aptos / Tron / TON expiry, EVM nonce —
+// and the queue refuses to broadcast an envelope that can no longer land
+// (TransactionDropped: sign it again). Before broadcasting, the signed bytes
+// are checked against the intent with assertSignedTx (signed-tx.ts), so an
+// edited file is caught.
+
+import type { ActorSubclass } from "@dfinity/agent";
+import { validateAddress } from "./addresses";
+import { toConfig, type AgentSource } from "./agent-config";
+import { Amount, type AmountLike } from "./amount";
+import { createBroadcasters, type BroadcastChain, type BroadcasterOptions, type SignedTxByChain } from "./broadcasters";
+import {
+  prepareAptosTransfer,
+  prepareCardanoTransfer,
+  prepareEvmTransfer,
+  prepareNearTransfer,
+  prepareSolanaTransfer,
+  prepareSuiTransfer,
+  prepareTonTransfer,
+  prepareTronTransfer,
+  prepareXrpTransfer,
+  senderAddress,
+  type SignAndBroadcastOptions,
+  type SignAndBroadcastResult,
+  type SignArgs,
+  type TransferOptions,
+} from "./chain-context";
+import { isEvmChain, type EvmChainId } from "./chains";
+import { waitForConfirmation, type ConfirmOptions } from "./confirmation";
+import { MeneseError, TransactionDropped, toMeneseError, unwrapResult } from "./errors";
+import { evmNonceManager, type NonceLease } from "./evm-nonce";
+import { chainRpcFor, type Network } from "./network";
+import { parseCandid, stringifyCandid } from "./query-cache";
+import { jsonRpc, rippledRpc } from "./rpc";
+import { createMeneseActor } from "./sdk-setup";
+import { assertSignedTx, type InspectableChain } from "./signed-tx";
+import type { MeneseService } from "./menese-types";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+type RelayerMethod = Record<EvmChainId, "buildAndSignEvmTxWithData"> & {
+  solana: "signSolTransferRelayer";
+  xrp: "signXrpTransferRelayer";
+  sui: "signSuiTransferRelayer";
+  near: "signNearTransferRelayer";
+  aptos: "signAptosTransferRelayer";
+  ton: "signTonTransferRelayer";
+  cardano: "signCardanoTransferRelayer";
+  tron: "signTrxTransferRelayer";
+};
+
+/** Arguments of `chain`'s sign-only relayer method. */
+export type IntentArgs<C extends BroadcastChain> = SignArgs<RelayerMethod[C]>;
+
+/** When a transaction stops being able to land. Unix ms throughout. */
+export interface IntentExpiry {
+  /** Solana: the blockhash it is built on */
+  blockhash?: string;
+  /** XRP: LastLedgerSequence */
+  lastLedgerSequence?: number;
+  /**
+   * Aptos expirationTimestampSecs, Tron expiration, TON valid_until (known
+   * once signed), Solana blockhash age limit
+   */
+  expiresAt?: number;
+  /** EVM: stale once the sender's account nonce passes it */
+  nonce?: bigint;
+}
+
+/** A transfer with its chain state, waiting for the canister's signature. */
+export interface UnsignedIntent<C extends BroadcastChain = BroadcastChain> {
+  id: string;
+  chain: C;
+  to: string;
+  /** Whole tokens, e.g. "25" */
+  amount: string;
+  /** getMy*Address — the address that signs and pays */
+  sender: string;
+  args: IntentArgs<C>;
+  /** Free text carried through to the broadcaster — an invoice number, a ticket */
+  label?: string;
+  preparedAt: number;
+  expiry: IntentExpiry;
+}
+
+/** An intent with the relayer's output, ready to broadcast. */
+export interface SignedEnvelope<C extends BroadcastChain = BroadcastChain> {
+  intent: UnsignedIntent<C>;
+  signed: SignedTxByChain[C];
+  signedAt: number;
+  expiry: IntentExpiry;
+}
+
+export type QueueEntry = UnsignedIntent | SignedEnvelope;
+
+export interface PrepareIntentOptions extends Omit<TransferOptions, "headers" | "evmChain"> {
+  network?: Network;
+  /** Node for the chain. Default: the network's (network.ts); EVM chains need one */
+  rpc?: string;
+  /** toncenter / Blockfrost / TronGrid API key headers */
+  headers?: Record<string, string>;
+  /** Reuse an actor instead of creating one from the source — only used to look up `sender` */
+  menese?: ActorSubclass<MeneseService>;
+  /** Skip the getMy*Address lookup */
+  sender?: string;
+  /** Expect a testnet recipient address (addresses.ts). Default: mainnet */
+  testnet?: boolean;
+  label?: string;
+}
+
+export interface BroadcastEnvelopeOptions extends BroadcasterOptions {
+  /** Refuse envelopes with less than this left before `expiresAt`. Default: 10 s */
+  minValidityMs?: number;
+  /** Check expiry with the local clock only — no isBlockhashValid / ledger_current / nonce call */
+  offline?: boolean;
+  /** Decode the signed bytes and compare them with the intent (signed-tx.ts). Default: true */
+  verify?: boolean;
+  confirm?: SignAndBroadcastOptions["confirm"];
+  signal?: AbortSignal;
+}
+
+/** One entry's result from signAll / broadcastAll. */
+export interface QueueOutcome<T> {
+  id: string;
+  result?: T;
+  error?: MeneseError;
+}
+
+const RELAYER: RelayerMethod = {
+  solana: "signSolTransferRelayer",
+  ethereum: "buildAndSignEvmTxWithData",
+  arbitrum: "buildAndSignEvmTxWithData",
+  base: "buildAndSignEvmTxWithData",
+  polygon: "buildAndSignEvmTxWithData",
+  bsc: "buildAndSignEvmTxWithData",
+  optimism: "buildAndSignEvmTxWithData",
+  xrp: "signXrpTransferRelayer",
+  sui: "signSuiTransferRelayer",
+  near: "signNearTransferRelayer",
+  aptos: "signAptosTransferRelayer",
+  ton: "signTonTransferRelayer",
+  cardano: "signCardanoTransferRelayer",
+  tron: "signTrxTransferRelayer",
+};
+
+/**
+ * A Solana blockhash lasts 150 blocks — 60 to 90 s — and getLatestBlockhash
+ * hands out a finalized one that is already ~13 s old.
+ */
+const SOLANA_BLOCKHASH_TTL_MS = 60_000;
+const DEFAULT_MIN_VALIDITY_MS = 10_000;
+/** Bumped when the exported JSON changes shape. */
+const FORMAT_VERSION = 1;
+
+const isEnvelope = (entry: QueueEntry): entry is SignedEnvelope => "signed" in entry;
+const intentOf = (entry: QueueEntry): UnsignedIntent => (isEnvelope(entry) ? entry.intent : entry);
+const stale = (intent: UnsignedIntent, reason: string) =>
+  new TransactionDropped(`${intent.chain} intent ${intent.id}: ${reason} — prepare and sign it again`, { method: "broadcast", raw: intent });
+
+// ============================================================
+// PREPARE
+// ============================================================
+
+/** Fetch chain state for one transfer. EVM nonces come leased from evmNonceManager. */
+async function fetchIntent<C extends BroadcastChain>(
+  chain: C,
+  to: string,
+  amount: AmountLike,
+  source: AgentSource,
+  options: PrepareIntentOptions,
+): Promise<{ intent: UnsignedIntent<C>; lease?: NonceLease }> {
+  const config = toConfig(source);
+  const rpc = options.rpc ?? chainRpcFor(chain, { network: options.network ?? config.network });
+  const recipient = await validateAddress(chain, to, {
+    testnet: options.testnet,
+    destinationTag: options.destinationTag,
+    // TON: prepareTonTransfer picks the bounce flag from the recipient's state itself
+    rpc: chain === "ton" ? undefined : rpc,
+    headers: options.headers,
+    signal: options.signal,
+  });
+  to = recipient.address;
+  const sender = options.sender ?? (await senderAddress(options.menese ?? (await createMeneseActor(config)), chain));
+  const prepare: TransferOptions = { ...options, destinationTag: options.destinationTag ?? recipient.destinationTag };
+  const preparedAt = Date.now();
+  const intent = (args: unknown[], expiry: IntentExpiry): UnsignedIntent<C> => ({
+    id: crypto.randomUUID(),
+    chain,
+    to,
+    amount: Amount.from(amount, chain).toString(),
+    sender,
+    args: args as IntentArgs<C>,
+    label: options.label,
+    preparedAt,
+    expiry,
+  });
+
+  if (isEvmChain(chain)) {
+    // Leased until broadcast, so intents queued from one address get consecutive nonces
+    const lease = options.nonce === undefined ? await evmNonceManager(chain, sender, rpc).reserve() : undefined;
+    try {
+      const args = await prepareEvmTransfer(rpc, sender, to, amount, { ...prepare, evmChain: chain, nonce: options.nonce ?? lease?.nonce });
+      return { intent: intent(args, { nonce: args[3] }), lease };
+    } catch (e) {
+      lease?.release();
+      throw e;
+    }
+  }
+  const secs = (s: bigint | number) => Number(s) * 1000;
+  switch (chain as BroadcastChain) {
+    case "solana": {
+      const args = await prepareSolanaTransfer(rpc, sender, to, amount, prepare);
+      return { intent: intent(args, { blockhash: args[2], expiresAt: preparedAt + SOLANA_BLOCKHASH_TTL_MS }) };
+    }
+    case "xrp": {
+      const args = await prepareXrpTransfer(rpc, sender, to, amount, prepare);
+      return { intent: intent(args, { lastLedgerSequence: args[3] }) };
+    }
+    case "sui":
+      return { intent: intent(await prepareSuiTransfer(rpc, sender, to, amount, prepare), {}) };
+    case "near":
+      return { intent: intent(await prepareNearTransfer(rpc, sender, to, amount, prepare), {}) };
+    case "aptos": {
+      const args = await prepareAptosTransfer(rpc, sender, to, amount, prepare);
+      return { intent: intent(args, { expiresAt: secs(args[4]) }) };
+    }
+    case "ton":
+      // valid_until counts from the canister's clock at signing — set by signIntent
+      return { intent: intent(await prepareTonTransfer(rpc, sender, to, amount, prepare), {}) };
+    case "cardano":
+      return { intent: intent(await prepareCardanoTransfer(rpc, sender, to, amount, prepare), {}) };
+    case "tron": {
+      const args = await prepareTronTransfer(rpc, sender, to, amount, prepare);
+      return { intent: intent(args, { expiresAt: Number(args[4]) }) };
+    }
+  }
+  throw new MeneseError(`"${chain}" has no sign-only transfer endpoint`);
+}
+
+/**
+ * Validate the recipient (addresses.ts) and fetch the chain state for a
+ * transfer (chain-context.ts) without signing it. Nodes come from
+ * `options.rpc`, else the source's network.
+ */
+export async function prepareIntent<C extends BroadcastChain>(
+  chain: C,
+  to: string,
+  amount: AmountLike,
+  source: AgentSource = {},
+  options: PrepareIntentOptions = {},
+): Promise<UnsignedIntent<C>> {
+  return (await fetchIntent(chain, to, amount, source, options)).intent;
+}
+
+// ============================================================
+// SIGN
+// ============================================================
+
+/** Sign an intent on the canister (1 action). Throws TransactionDropped rather than sign an expired one. */
+export async function signIntent<C extends BroadcastChain>(
+  menese: ActorSubclass<MeneseService>,
+  intent: UnsignedIntent<C>,
+): Promise<SignedEnvelope<C>> {
+  const reason = expiredLocally(intent.expiry, DEFAULT_MIN_VALIDITY_MS);
+  if (reason) throw stale(intent, reason);
+
+  const method = RELAYER[intent.chain];
+  const relayer = menese[method] as unknown as (...args: unknown[]) => Promise<SignedTxByChain[C]>;
+  let signed = await relayer.apply(menese, intent.args);
+  // Cardano and Tron return a Result — keep only the signed transaction
+  if (signed && typeof signed === "object" && ("ok" in signed || "err" in signed)) {
+    signed = unwrapResult(signed as { ok: SignedTxByChain[C] } | { err: string }, method);
+  }
+  const signedAt = Date.now();
+  const expiry = intent.chain === "ton"
+    ? { ...intent.expiry, expiresAt: signedAt + (intent.args as IntentArgs<"ton">)[5] * 1000 }
+    : intent.expiry;
+  return { intent, signed, signedAt, expiry };
+}
+
+// ============================================================
+// EXPIRY
+// ============================================================
+
+function expiredLocally(expiry: IntentExpiry, minValidityMs: number): string | undefined {
+  if (expiry.expiresAt !== undefined && Date.now() + minValidityMs > expiry.expiresAt) {
+    return `expired at ${new Date(expiry.expiresAt).toISOString()}`;
+  }
+  return undefined;
+}
+
+async function expiredOnChain(intent: UnsignedIntent, expiry: IntentExpiry, rpc: string, options: BroadcastEnvelopeOptions) {
+  const call = { signal: options.signal };
+  if (expiry.blockhash !== undefined) {
+    const { value } = await jsonRpc<{ value: boolean }>(rpc, "isBlockhashValid", [expiry.blockhash, { commitment: "processed" }], call);
+    if (!value) return `blockhash ${expiry.blockhash} expired`;
+  }
+  if (expiry.lastLedgerSequence !== undefined) {
+    const { ledger_current_index } = await rippledRpc(rpc, "ledger_current", {}, call);
+    if (ledger_current_index > expiry.lastLedgerSequence) return `LastLedgerSequence ${expiry.lastLedgerSequence} passed`;
+  }
+  if (expiry.nonce !== undefined) {
+    const used = BigInt(await jsonRpc<string>(rpc, "eth_getTransactionCount", [intent.sender, "latest"], call));
+    if (used > expiry.nonce) return `nonce ${expiry.nonce} was used by another transaction`;
+  }
+  return undefined;
+}
+
+/**
+ * Why `entry` can no longer land, or undefined if it still can. Asks the
+ * chain's node (blockhash, ledger, nonce) unless `options.offline`.
+ */
+export async function staleReason(entry: QueueEntry, options: BroadcastEnvelopeOptions = {}): Promise<string | undefined> {
+  const intent = intentOf(entry);
+  const expiry = isEnvelope(entry) ? entry.expiry : intent.expiry;
+  const local = expiredLocally(expiry, options.minValidityMs ?? DEFAULT_MIN_VALIDITY_MS);
+  if (local || options.offline) return local;
+  const rpc = options.rpcs?.[intent.chain] ?? chainRpcFor(intent.chain, options);
+  return expiredOnChain(intent, expiry, rpc, options);
+}
+
+// ============================================================
+// BROADCAST
+// ============================================================
+
+/**
+ * Broadcast a signed envelope after checking that it can still land and that
+ * the signed bytes match its intent. Needs no Menese identity.
+ */
+export async function broadcastEnvelope<C extends BroadcastChain>(
+  envelope: SignedEnvelope<C>,
+  options: BroadcastEnvelopeOptions = {},
+): Promise<SignAndBroadcastResult> {
+  const { intent, signed, expiry } = envelope;
+  const chain: BroadcastChain = intent.chain;
+  const reason = await staleReason(envelope, options);
+  if (reason) throw stale(intent, reason);
+
+  // NEAR and Aptos bytes cannot be decoded here; custom EVM calldata has no plain recipient / amount
+  if (options.verify !== false && chain !== "near" && chain !== "aptos") {
+    const plain = !(isEvmChain(chain) && (intent.args as IntentArgs<"ethereum">)[2].length);
+    await assertSignedTx(chain as InspectableChain, signed as SignedTxByChain[InspectableChain], {
+      from: intent.sender,
+      ...(plain ? { to: intent.to, amount: intent.amount } : {}),
+      nonce: expiry.nonce,
+    });
+  }
+
+  const result = await createBroadcasters(options)[chain].broadcast(signed as never);
+  return options.confirm ? confirmEnvelope(envelope, result, options) : result;
+}
+
+/** Wait for `options.confirm` on a broadcast envelope. */
+async function confirmEnvelope(
+  envelope: SignedEnvelope,
+  result: SignAndBroadcastResult,
+  options: BroadcastEnvelopeOptions,
+): Promise<SignAndBroadcastResult> {
+  const { intent, expiry } = envelope;
+  const chain: BroadcastChain = intent.chain;
+  const confirm = typeof options.confirm === "string" ? { level: options.confirm } : options.confirm;
+  const hints: ConfirmOptions = isEvmChain(chain) ? { sender: intent.sender, nonce: expiry.nonce }
+    : chain === "solana" ? { blockhash: expiry.blockhash }
+    : chain === "xrp" ? { lastLedgerSequence: expiry.lastLedgerSequence }
+    : chain === "near" ? { sender: intent.sender }
+    : { expiresAt: expiry.expiresAt };
+  const confirmation = await waitForConfirmation(chain, result.txId, {
+    ...hints,
+    ...confirm,
+    rpc: options.rpcs?.[chain],
+    network: options.network,
+    headers: options.headers?.[chain as "ton" | "cardano" | "tron"],
+    signal: options.signal,
+  });
+  return { ...result, confirmation };
+}
+
+// ============================================================
+// QUEUE
+// ============================================================
+
+export class SigningQueue {
+  /** Defaults for broadcastAll */
+  options: BroadcastEnvelopeOptions;
+  private entries = new Map<string, QueueEntry>();
+  /** EVM nonces reserved by prepare() in this process, released by remove() */
+  private leases = new Map<string, NonceLease>();
+
+  constructor(options: BroadcastEnvelopeOptions = {}) {
+    this.options = options;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /** Intents still waiting for a signature */
+  get intents(): UnsignedIntent[] {
+    return [...this.entries.values()].filter((e): e is UnsignedIntent => !isEnvelope(e));
+  }
+
+  /** Signed and not yet broadcast */
+  get envelopes(): SignedEnvelope[] {
+    return [...this.entries.values()].filter(isEnvelope);
+  }
+
+  get(id: string): QueueEntry | undefined {
+    return this.entries.get(id);
+  }
+
+  /** Add an intent or envelope, replacing one with the same id. */
+  add(entry: QueueEntry): void {
+    this.entries.set(intentOf(entry).id, entry);
+  }
+
+  /** Drop an entry. A reserved EVM nonce goes back to evmNonceManager. */
+  remove(id: string): boolean {
+    this.leases.get(id)?.release();
+    this.leases.delete(id);
+    return this.entries.delete(id);
+  }
+
+  /** prepareIntent, queued. */
+  async prepare<C extends BroadcastChain>(
+    chain: C,
+    to: string,
+    amount: AmountLike,
+    source: AgentSource = {},
+    options: PrepareIntentOptions = {},
+  ): Promise<UnsignedIntent<C>> {
+    const { intent, lease } = await fetchIntent(chain, to, amount, source, options);
+    if (lease) this.leases.set(intent.id, lease);
+    this.add(intent);
+    return intent;
+  }
+
+  /** Sign every queued intent (1 action each). Failures stay queued as intents. */
+  async signAll(menese: ActorSubclass<MeneseService>): Promise<Array<QueueOutcome<SignedEnvelope>>> {
+    const outcomes: Array<QueueOutcome<SignedEnvelope>> = [];
+    for (const intent of this.intents) {
+      try {
+        const envelope = await signIntent(menese, intent);
+        this.add(envelope);
+        outcomes.push({ id: intent.id, result: envelope });
+      } catch (e) {
+        outcomes.push({ id: intent.id, error: toMeneseError(e, RELAYER[intent.chain]) });
+      }
+    }
+    return outcomes;
+  }
+
+  /**
+   * Broadcast every envelope, one at a time in the order they were queued —
+   * so EVM nonces go out in order.
+   * Broadcast and stale (TransactionDropped) envelopes leave the queue;
+   * other failures stay queued for another try. A reserved EVM nonce goes
+   * back to evmNonceManager only when the broadcast itself failed — once a
+   * node accepted the transaction, a confirmation failure leaves it tracked.
+   */
+  async broadcastAll(options: BroadcastEnvelopeOptions = {}): Promise<Array<QueueOutcome<SignAndBroadcastResult>>> {
+    const merged = { ...this.options, ...options };
+    const outcomes: Array<QueueOutcome<SignAndBroadcastResult>> = [];
+    for (const envelope of this.envelopes) {
+      const { id } = envelope.intent;
+      let result: SignAndBroadcastResult;
+      try {
+        result = await broadcastEnvelope(envelope, { ...merged, confirm: undefined });
+      } catch (e) {
+        const error = toMeneseError(e, "broadcast");
+        if (error instanceof TransactionDropped) this.remove(id);
+        outcomes.push({ id, error });
+        continue;
+      }
+      this.leases.get(id)?.sent(envelope.intent.args as IntentArgs<"ethereum">, result.txId);
+      this.leases.delete(id);
+      try {
+        if (merged.confirm) result = await confirmEnvelope(envelope, result, merged);
+        this.entries.delete(id);
+        outcomes.push({ id, result });
+      } catch (e) {
+        const error = toMeneseError(e, "waitForConfirmation");
+        if (error instanceof TransactionDropped) this.entries.delete(id);
+        outcomes.push({ id, error });
+      }
+    }
+    return outcomes;
+  }
+
+  /** JSON of every entry — bigint and byte fields survive the round trip. */
+  export(): string {
+    return stringifyCandid({ version: FORMAT_VERSION, entries: [...this.entries.values()] });
+  }
+
+  /** Rebuild a queue from export(). */
+  static import(json: string, options: BroadcastEnvelopeOptions = {}): SigningQueue {
+    const data = parseCandid(json) as { version?: number; entries?: QueueEntry[] };
+    if (data?.version !== FORMAT_VERSION || !Array.isArray(data.entries)) {
+      throw new MeneseError(`Not a signing queue export (version ${data?.version}, expected ${FORMAT_VERSION})`);
+    }
+    const queue = new SigningQueue(options);
+    for (const entry of data.entries) queue.add(entry);
+    return queue;
+  }
+}
@@ -0,0 +1,393 @@
+// solana-swap.ts — Sign-only Solana swaps through signSolSwapTxsRelayer
+//
+// swapRaydiumApiUser quotes, builds, signs and submits a swap inside the
+// canister, paying for every HTTP outcall in cycles. The sign-only route does
+// the outcalls here and uses the canister only for signatures:
+//
+//   1. quote and unsigned route transactions from an aggregator (Jupiter or
+//      Raydium's trade API), built with your Menese Solana address as fee payer
+//   2. check them: fee payer, no other signer, a message the canister can sign
+//   3. sign all of them in one signSolSwapTxsRelayer call (1 action)
+//   4. broadcast in order, waiting for each to confirm before sending the next
+//      (Raydium's SOL wrap → swap → unwrap depend on each other)
+//
+//   const result = await swapSolanaSignOnly(session.config, {
+//     inputMint: SOL_MINT, outputMint: USDC_MINT, amount: 100_000_000n, slippageBps: 50,
+//   }, { aggregator: jupiterAggregator() });
+//   // → { quote, txIds, explorerUrls }
+//
+//   // Step by step
+//   const quote = await aggregator.quote(request);
+//   const unsigned = await buildSolanaSwap(aggregator, quote, sender);
+//   const signed = await signSolanaSwap(menese, unsigned);
+//   await broadcastSolanaSwap(signed, { rpc });
+//
+// mockSwapAggregator() quotes a fixed rate and returns memo-only transactions
+// without touching the network — pair it with createMockMenese() in tests.
+
+import type { ActorSubclass } from "@dfinity/agent";
+import { toConfig, type AgentSource } from "./agent-config";
+import { solanaBroadcaster } from "./broadcasters";
+import { txExplorerUrl } from "./chains";
+import { waitForConfirmation, type ConfirmationLevel } from "./confirmation";
+import { base58ToBytes, bytesToBase64, bytesToHex } from "./encoding";
+import { MeneseError, SignedTxMismatch, errorFromText } from "./errors";
+import { solanaRpcFor, type Network } from "./network";
+import { getJson, postJson, type RpcOptions } from "./rpc";
+import { createMeneseActor } from "./sdk-setup";
+import { MEMO_PROGRAM, decodeSolanaTx, verifySolanaTx } from "./solana-tx";
+import type { MeneseService, SignedSolSwapTx } from "./menese-types";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+/** Wrapped SOL — aggregators take it for native SOL and wrap / unwrap themselves. */
+export const SOL_MINT = "So11111111111111111111111111111111111111112";
+
+export interface SolanaSwapRequest {
+  inputMint: string;
+  outputMint: string;
+  /** In the input token's smallest unit */
+  amount: bigint;
+  /** Default: 50 (0.5%) */
+  slippageBps?: number;
+  /** Raydium: your token accounts (ATAs) for SPL input / output. SOL needs none */
+  inputAccount?: string;
+  outputAccount?: string;
+}
+
+export interface SolanaSwapQuote {
+  aggregator: string;
+  request: SolanaSwapRequest;
+  inAmount: bigint;
+  outAmount: bigint;
+  /** Least output the transactions accept — they fail below it */
+  minOutAmount: bigint;
+  priceImpactPct: number;
+  slippageBps: number;
+  /** The aggregator's own quote, handed back to build the transactions */
+  raw: unknown;
+}
+
+/** A swap route API. Transactions come back unsigned, base64, in execution order. */
+export interface SolanaSwapAggregator {
+  readonly name: string;
+  quote(request: SolanaSwapRequest, options?: RpcOptions): Promise<SolanaSwapQuote>;
+  transactions(quote: SolanaSwapQuote, feePayer: string, options?: RpcOptions): Promise<string[]>;
+}
+
+export interface BroadcastSwapOptions {
+  /** Solana node. Default: the network's (network.ts) */
+  rpc?: string;
+  network?: Network;
+  /** Level each transaction must reach before the next is sent. Default: "confirmed" */
+  level?: ConfirmationLevel;
+  /** Wait for the last transaction too. Default: true */
+  confirmLast?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface SolanaSwapOptions extends BroadcastSwapOptions {
+  /** Default: jupiterAggregator() */
+  aggregator?: SolanaSwapAggregator;
+  /** Reuse an actor (e.g. `await session.menese()`) instead of creating one from the source */
+  menese?: ActorSubclass<MeneseService>;
+  /** Skip the getMySolanaAddress lookup */
+  sender?: string;
+}
+
+export interface SolanaSwapResult {
+  quote: SolanaSwapQuote;
+  /** One signature per route transaction, in broadcast order */
+  txIds: string[];
+  explorerUrls: string[];
+}
+
+const DEFAULT_SLIPPAGE_BPS = 50;
+
+/** Aggregator answered with an error — classify it like a canister message. */
+const rejected = (aggregator: string, step: string, detail: string, raw?: unknown) =>
+  errorFromText(`${aggregator} ${step}: ${detail}`, { method: step, raw });
+
+const trim = (url: string) => url.replace(/\/$/, "");
+
+// ============================================================
+// AGGREGATORS
+// ============================================================
+
+/**
+ * Jupiter's swap API — one versioned transaction per swap, SOL wrapped and
+ * unwrapped inside it. `apiUrl` takes the paid host and an `x-api-key` header.
+ */
+export function jupiterAggregator(options: { apiUrl?: string; headers?: Record<string, string> } = {}): SolanaSwapAggregator {
+  const api = trim(options.apiUrl ?? "https://lite-api.jup.ag/swap/v1");
+  const call = (rpc: RpcOptions = {}): RpcOptions => ({ ...rpc, headers: { ...options.headers, ...rpc.headers } });
+  return {
+    name: "jupiter",
+    async quote(request, rpc) {
+      const slippageBps = request.slippageBps ?? DEFAULT_SLIPPAGE_BPS;
+      const query = new URLSearchParams({
+        inputMint: request.inputMint,
+        outputMint: request.outputMint,
+        amount: request.amount.toString(),
+        slippageBps: String(slippageBps),
+      });
+      const q = await getJson(`${api}/quote?${query}`, call(rpc));
+      if (q.error || !q.outAmount) throw rejected("jupiter", "quote", q.error ?? "no route", q);
+      return {
+        aggregator: "jupiter",
+        request,
+        inAmount: BigInt(q.inAmount),
+        outAmount: BigInt(q.outAmount),
+        minOutAmount: BigInt(q.otherAmountThreshold),
+        priceImpactPct: Number(q.priceImpactPct) * 100,
+        slippageBps,
+        raw: q,
+      };
+    },
+    async transactions(quote, feePayer, rpc) {
+      const r = await postJson(`${api}/swap`, {
+        quoteResponse: quote.raw,
+        userPublicKey: feePayer,
+        wrapAndUnwrapSol: true,
+        dynamicComputeUnitLimit: true,
+        prioritizationFeeLamports: "auto",
+      }, call(rpc));
+      if (!r.swapTransaction) throw rejected("jupiter", "swap", r.error ?? "no transaction", r);
+      return [r.swapTransaction];
+    },
+  };
+}
+
+/**
+ * Raydium's trade API — the same route swapRaydiumApiUser uses, up to three
+ * transactions (wrap SOL, swap, unwrap). Priority fee from Raydium's
+ * auto-fee endpoint unless `computeUnitPriceMicroLamports` is set.
+ */
+export function raydiumAggregator(options: {
+  apiUrl?: string;
+  feeApiUrl?: string;
+  computeUnitPriceMicroLamports?: bigint;
+} = {}): SolanaSwapAggregator {
+  const api = trim(options.apiUrl ?? "https://transaction-v1.raydium.io");
+  const feeApi = options.feeApiUrl ?? "https://api-v3.raydium.io/main/auto-fee";
+  return {
+    name: "raydium",
+    async quote(request, rpc) {
+      const slippageBps = request.slippageBps ?? DEFAULT_SLIPPAGE_BPS;
+      const query = new URLSearchParams({
+        inputMint: request.inputMint,
+        outputMint: request.outputMint,
+        amount: request.amount.toString(),
+        slippageBps: String(slippageBps),
+        txVersion: "V0",
+      });
+      const r = await getJson(`${api}/compute/swap-base-in?${query}`, rpc);
+      if (!r.success || !r.data) throw rejected("raydium", "quote", r.msg ?? "no route", r);
+      return {
+        aggregator: "raydium",
+        request,
+        inAmount: BigInt(r.data.inputAmount),
+        outAmount: BigInt(r.data.outputAmount),
+        minOutAmount: BigInt(r.data.otherAmountThreshold),
+        priceImpactPct: Number(r.data.priceImpactPct),
+        slippageBps,
+        raw: r,
+      };
+    },
+    async transactions(quote, feePayer, rpc) {
+      const { request } = quote;
+      const price = options.computeUnitPriceMicroLamports
+        ?? BigInt((await getJson(feeApi, rpc)).data.default.m);
+      const r = await postJson(`${api}/transaction/swap-base-in`, {
+        computeUnitPriceMicroLamports: price.toString(),
+        swapResponse: quote.raw,
+        txVersion: "V0",
+        wallet: feePayer,
+        wrapSol: request.inputMint === SOL_MINT,
+        unwrapSol: request.outputMint === SOL_MINT,
+        inputAccount: request.inputMint === SOL_MINT ? undefined : request.inputAccount,
+        outputAccount: request.outputMint === SOL_MINT ? undefined : request.outputAccount,
+      }, rpc);
+      if (!r.success || !r.data?.length) throw rejected("raydium", "transaction", r.msg ?? "no transactions", r);
+      return r.data.map((t: { transaction: string }) => t.transaction);
+    },
+  };
+}
+
+/** compact-u16 length prefix */
+function shortVec(n: number): number[] {
+  const out: number[] = [];
+  do {
+    out.push((n & 0x7f) | (n > 0x7f ? 0x80 : 0));
+    n >>= 7;
+  } while (n);
+  return out;
+}
+
+/**
+ * No network: quotes `outPerIn` output units per input unit (no impact) and
+ * returns `transactions` legacy transactions carrying one memo each.
+ */
+export function mockSwapAggregator(options: {
+  outPerIn?: number;
+  transactions?: number;
+  /** base58. Default: 32 zero bytes */
+  blockhash?: string;
+} = {}): SolanaSwapAggregator {
+  const count = options.transactions ?? 1;
+  const blockhash = base58ToBytes(options.blockhash ?? "11111111111111111111111111111111");
+  return {
+    name: "mock",
+    async quote(request) {
+      const slippageBps = request.slippageBps ?? DEFAULT_SLIPPAGE_BPS;
+      const outAmount = (request.amount * BigInt(Math.round((options.outPerIn ?? 1) * 1e6))) / 1_000_000n;
+      return {
+        aggregator: "mock",
+        request,
+        inAmount: request.amount,
+        outAmount,
+        minOutAmount: (outAmount * BigInt(10_000 - slippageBps)) / 10_000n,
+        priceImpactPct: 0,
+        slippageBps,
+        raw: null,
+      };
+    },
+    async transactions(quote, feePayer) {
+      return Array.from({ length: count }, (_, i) => {
+        const memo = new TextEncoder().encode(`mock swap ${quote.request.inputMint} → ${quote.request.outputMint} ${i + 1}/${count}`);
+        const message = [
+          1, 0, 1,   // one signer (the fee payer), the memo program read-only
+          ...shortVec(2), ...base58ToBytes(feePayer), ...base58ToBytes(MEMO_PROGRAM),
+          ...blockhash,
+          ...shortVec(1), 1, ...shortVec(0), ...shortVec(memo.length), ...memo,
+        ];
+        return bytesToBase64([...shortVec(1), ...new Uint8Array(64), ...message]);
+      });
+    },
+  };
+}
+
+// ============================================================
+// BUILD — route transactions, checked before signing
+// ============================================================
+
+/**
+ * Unsigned route transactions for `quote`, checked: each must be paid by
+ * `feePayer` and need no other signature — the canister signs for that one
+ * key only. Aggregators build the route around the fee payer (token
+ * accounts, wrapping), so a wrong one cannot be rewritten after the fact.
+ * Throws SignedTxMismatch.
+ */
+export async function buildSolanaSwap(
+  aggregator: SolanaSwapAggregator,
+  quote: SolanaSwapQuote,
+  feePayer: string,
+  options: RpcOptions = {},
+): Promise<string[]> {
+  const txs = await aggregator.transactions(quote, feePayer, options);
+  txs.forEach((tx, i) => {
+    const decoded = decodeSolanaTx(tx);
+    const problems: string[] = [];
+    if (decoded.feePayer !== feePayer) problems.push(`fee payer is ${decoded.feePayer}, expected ${feePayer}`);
+    const others = decoded.signers.slice(1);
+    if (others.length) problems.push(`also needs signatures from ${others.join(", ")}`);
+    if (!decoded.instructions.length) problems.push("has no instructions");
+    if (problems.length) {
+      throw new SignedTxMismatch(`${aggregator.name} swap transaction ${i + 1}/${txs.length}: ${problems.join("; ")}`, { raw: decoded });
+    }
+  });
+  return txs;
+}
+
+// ============================================================
+// SIGN — one canister call for the whole route
+// ============================================================
+
+/**
+ * Sign every route transaction in one signSolSwapTxsRelayer call (1 action).
+ * Throws SignedTxMismatch unless each comes back with the same message, in
+ * the same order, and a valid signature from the fee payer (the message's
+ * first signer, the account the route was built for).
+ */
+export async function signSolanaSwap(
+  menese: ActorSubclass<MeneseService>,
+  transactions: string[],
+): Promise<SignedSolSwapTx[]> {
+  if (!transactions.length) throw new MeneseError("No swap transactions to sign");
+  const signed = await menese.signSolSwapTxsRelayer(transactions);
+  if (signed.length !== transactions.length) {
+    throw new SignedTxMismatch(`signSolSwapTxsRelayer returned ${signed.length} transactions for ${transactions.length}`, {
+      method: "signSolSwapTxsRelayer", raw: signed,
+    });
+  }
+  signed.forEach((s, i) => {
+    const before = decodeSolanaTx(transactions[i]);
+    const after = decodeSolanaTx(s.signedTxBase64);
+    if (bytesToHex(after.message) !== bytesToHex(before.message)) {
+      throw new SignedTxMismatch(`Signed swap transaction ${i + 1}: message differs from the route's`, {
+        method: "signSolSwapTxsRelayer", raw: after,
+      });
+    }
+    if (!verifySolanaTx(after, after.signers[0])) {
+      throw new SignedTxMismatch(`Signed swap transaction ${i + 1}: fee payer ${after.signers[0]} signature does not verify`, {
+        method: "signSolSwapTxsRelayer", raw: after,
+      });
+    }
+  });
+  return signed;
+}
+
+// ============================================================
+// BROADCAST — in order, each confirmed before the next
+// ============================================================
+
+/**
+ * Send the signed route one transaction at a time. A transaction that fails
+ * or expires throws (TransactionFailed / TransactionDropped) and the rest are
+ * not sent; the ones before it have landed.
+ */
+export async function broadcastSolanaSwap(
+  signed: SignedSolSwapTx[],
+  options: BroadcastSwapOptions = {},
+): Promise<string[]> {
+  const rpc = options.rpc ?? solanaRpcFor(options);
+  const broadcaster = solanaBroadcaster(rpc);
+  const txIds: string[] = [];
+  for (const [i, tx] of signed.entries()) {
+    const { txId } = await broadcaster.broadcast(tx);
+    txIds.push(txId);
+    if (i < signed.length - 1 || options.confirmLast !== false) {
+      await waitForConfirmation("solana", txId, {
+        level: options.level ?? "confirmed",
+        blockhash: decodeSolanaTx(tx.signedTxBase64).recentBlockhash,
+        rpc,
+        signal: options.signal,
+      });
+    }
+  }
+  return txIds;
+}
+
+/**
+ * Quote, build, sign (1 action) and broadcast a Solana swap — the sign-only
+ * counterpart of swapRaydiumApiUser.
+ */
+export async function swapSolanaSignOnly(
+  source: AgentSource,
+  request: SolanaSwapRequest,
+  options: SolanaSwapOptions = {},
+): Promise<SolanaSwapResult> {
+  const config = toConfig(source);
+  const aggregator = options.aggregator ?? jupiterAggregator();
+  const menese = options.menese ?? (await createMeneseActor(config));
+  const sender = options.sender ?? (await menese.getMySolanaAddress()).address;
+  const call = { signal: options.signal };
+
+  const quote = await aggregator.quote(request, call);
+  const unsigned = await buildSolanaSwap(aggregator, quote, sender, call);
+  const signed = await signSolanaSwap(menese, unsigned);
+  const txIds = await broadcastSolanaSwap(signed, { network: config.network, ...options });
+  return { quote, txIds, explorerUrls: txIds.map((id) => txExplorerUrl("solana", id)) };
+}
@@ -0,0 +1,94 @@
+// solana-tx.test.ts — decoding and checking signed Solana transactions built here, byte by byte
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { Ed25519KeyIdentity } from "@dfinity/identity";
+import { base58ToBytes, bytesToBase58, bytesToBase64 } from "./encoding";
+import { SignedTxMismatch } from "./errors";
+import { COMPUTE_BUDGET_PROGRAM, SYSTEM_PROGRAM, assertSolanaTx, decodeSolanaTx, verifySolanaTx } from "./solana-tx";
+
+const payer = Ed25519KeyIdentity.generate(new Uint8Array(32).fill(1));
+const PAYER = bytesToBase58(new Uint8Array(payer.getPublicKey().toRaw()));
+const TO = bytesToBase58(new Uint8Array(32).fill(2));
+const BLOCKHASH = bytesToBase58(new Uint8Array(32).fill(3));
+const UNKNOWN_PROGRAM = bytesToBase58(new Uint8Array(32).fill(9));
+
+const le = (value: bigint, bytes: number) => Array.from({ length: bytes }, (_, i) => Number((value >> BigInt(8 * i)) & 0xffn));
+const ix = (program: number, accounts: number[], data: number[]) => [program, accounts.length, ...accounts, data.length, ...data];
+
+/** Compute unit limit 200k at `microLamports`, then a system transfer PAYER → TO. */
+function transferMessage(lamports: bigint, { microLamports = 1_000n, v0 = false, program = SYSTEM_PROGRAM } = {}): Uint8Array {
+  const keys = [PAYER, TO, program, COMPUTE_BUDGET_PROGRAM].flatMap((k) => [...base58ToBytes(k)]);
+  return Uint8Array.from([
+    ...(v0 ? [0x80] : []),
+    1, 0, 2,            // one signer, no read-only signer, two read-only programs
+    4, ...keys,
+    ...base58ToBytes(BLOCKHASH),
+    3,
+    ...ix(3, [], [2, ...le(200_000n, 4)]),
+    ...ix(3, [], [3, ...le(microLamports, 8)]),
+    ...ix(2, [0, 1], [2, 0, 0, 0, ...le(lamports, 8)]),
+    ...(v0 ? [0] : []), // no address table lookups
+  ]);
+}
+
+async function signed(message: Uint8Array, key = payer): Promise<Uint8Array> {
+  const signature = new Uint8Array(await key.sign(message.slice().buffer));
+  return Uint8Array.from([1, ...signature, ...message]);
+}
+
+test("decodes a legacy transfer: signer, blockhash, instructions and fee", async () => {
+  const tx = decodeSolanaTx(bytesToBase64(await signed(transferMessage(1_500n))));
+  assert.equal(tx.version, "legacy");
+  assert.equal(tx.feePayer, PAYER);
+  assert.deepEqual(tx.signers, [PAYER]);
+  assert.equal(tx.recentBlockhash, BLOCKHASH);
+  assert.deepEqual(tx.instructions.map((i) => i.type), ["setComputeUnitLimit", "setComputeUnitPrice", "systemTransfer"]);
+  assert.deepEqual(
+    tx.instructions.filter((i) => i.type === "systemTransfer").map((i) => [i.from, i.to, i.lamports]),
+    [[PAYER, TO, 1_500n]],
+  );
+  // 5000 per signature + 1000 µlamports × 200k units
+  assert.equal(tx.networkFee, 5_200n);
+});
+
+test("decodes a v0 message", async () => {
+  const tx = decodeSolanaTx(await signed(transferMessage(1n, { v0: true })));
+  assert.equal(tx.version, 0);
+  assert.deepEqual(tx.addressTableLookups, []);
+  assert.equal(verifySolanaTx(tx, PAYER), true);
+});
+
+test("verifies the signature of the signer, and only over the signed bytes", async () => {
+  const bytes = await signed(transferMessage(1_500n));
+  assert.equal(verifySolanaTx(bytes), true);
+  assert.equal(verifySolanaTx(bytes, PAYER), true);
+  assert.equal(verifySolanaTx(bytes, TO), false);
+
+  const tampered = bytes.slice();
+  tampered[tampered.length - 8] ^= 1;   // lamports, after signing
+  assert.equal(verifySolanaTx(tampered), false);
+});
+
+test("assertSolanaTx accepts exactly the expected transfer", async () => {
+  const bytes = await signed(transferMessage(1_500n));
+  const tx = assertSolanaTx(bytes, { signer: PAYER, feePayer: PAYER, blockhash: BLOCKHASH, transfers: [{ to: TO, amount: 1_500n }] });
+  assert.equal(tx.signatures.length, 1);
+
+  assert.throws(
+    () => assertSolanaTx(bytes, { transfers: [{ to: TO, amount: 1_000n }], maxNetworkFee: 5_000n }),
+    (e: unknown) => e instanceof SignedTxMismatch
+      && /unexpected transfer of 1500 to/.test(e.message)
+      && /missing transfer of 1000 to/.test(e.message)
+      && /network fee 5200 exceeds 5000/.test(e.message),
+  );
+});
+
+test("assertSolanaTx rejects another signer and unknown programs", async () => {
+  const other = Ed25519KeyIdentity.generate(new Uint8Array(32).fill(4));
+  const byOther = await signed(transferMessage(1n), other);
+  assert.throws(() => assertSolanaTx(byOther), /a signature does not verify/);
+  const unknown = await signed(transferMessage(1n, { program: UNKNOWN_PROGRAM }));
+  assert.throws(() => assertSolanaTx(unknown), /unexpected program/);
+  assertSolanaTx(unknown, { allowPrograms: [UNKNOWN_PROGRAM] });
+});
@@ -0,0 +1,326 @@
+// solana-tx.ts — Decode and check canister-signed Solana transactions
+//
+// signSend, signSolTransferRelayer, exp_signSolTransfer and swapIcpToSolSign
+// return opaque signedTxBase64 blobs. Decode them before broadcasting to see
+// what was actually signed — transfers, SPL transfers, compute budget, ATA
+// creation — and refuse bytes that don't do what you asked:
+//
+//   const signed = await menese.signSolTransferRelayer(to, lamports, blockhash);
+//   assertSolanaTx(signed.signedTxBase64, {
+//     signer: signed.publicKey,               // signature must verify against it
+//     blockhash,
+//     transfers: [{ to, amount: lamports }],  // exactly these, nothing else moves funds
+//   });                                       // throws SignedTxMismatch
+//   await broadcastSolanaTx(signed.signedTxBase64);
+//
+//   decodeSolanaTx(signedTxBase64).instructions
+//   // → [{ type: "systemTransfer", from, to, lamports }, { type: "systemTransfer", ... fee }]
+//
+// Legacy and v0 messages. Accounts loaded from v0 address lookup tables can't
+// be resolved offline — they show as "<table>#<index>".
+
+import { Ed25519KeyIdentity } from "@dfinity/identity";
+import { base58ToBytes, base64ToBytes, bytesToBase58, toBytes, type Bytes } from "./encoding";
+import { SignedTxMismatch } from "./errors";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export const SYSTEM_PROGRAM = "11111111111111111111111111111111";
+export const TOKEN_PROGRAM = "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA";
+export const TOKEN_2022_PROGRAM = "TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb";
+export const ASSOCIATED_TOKEN_PROGRAM = "ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL";
+export const COMPUTE_BUDGET_PROGRAM = "ComputeBudget111111111111111111111111111111";
+export const MEMO_PROGRAM = "MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr";
+
+interface RawInstruction {
+  programId: string;
+  accounts: string[];
+  data: Uint8Array;
+}
+
+export type SolanaInstruction = RawInstruction & (
+  | { type: "systemTransfer"; from: string; to: string; lamports: bigint }
+  /** Transfer or TransferChecked — only TransferChecked carries mint and decimals */
+  | { type: "splTransfer"; source: string; destination: string; owner: string; amount: bigint; mint?: string; decimals?: number }
+  | { type: "createAssociatedTokenAccount"; payer: string; account: string; owner: string; mint: string; idempotent: boolean }
+  | { type: "setComputeUnitLimit"; units: number }
+  | { type: "setComputeUnitPrice"; microLamports: bigint }
+  | { type: "requestHeapFrame"; bytes: number }
+  | { type: "setLoadedAccountsDataSizeLimit"; bytes: number }
+  | { type: "memo"; text: string }
+  | { type: "unknown" }
+);
+
+export interface SolanaTx {
+  version: "legacy" | 0;
+  /** base58, one per required signer; the first is the transaction id */
+  signatures: string[];
+  /** Accounts that must sign, fee payer first */
+  signers: string[];
+  feePayer: string;
+  recentBlockhash: string;
+  instructions: SolanaInstruction[];
+  /** Static account keys of the message */
+  accountKeys: string[];
+  addressTableLookups: { table: string; writable: number[]; readonly: number[] }[];
+  /** The signed bytes */
+  message: Uint8Array;
+  /** 5000 lamports per signature + compute unit price × limit */
+  networkFee: bigint;
+}
+
+export interface ExpectedTransfer {
+  /** Recipient — for SPL transfers the destination token account, not the wallet */
+  to: string;
+  /** Lamports, or token base units */
+  amount: bigint;
+  /** Set for SPL transfers. Plain Transfer has no mint, so only `to` and `amount` are checked */
+  mint?: string;
+}
+
+export interface SolanaTxExpectations {
+  /** Key that must have signed (signSolTransferRelayer's publicKey), base58 or bytes. Default: every signature must verify */
+  signer?: Bytes | string;
+  feePayer?: string;
+  blockhash?: string;
+  /** Exactly these SOL / SPL transfers, any order — no other instruction may move funds */
+  transfers?: ExpectedTransfer[];
+  /** Cap on the fee the transaction pays, lamports */
+  maxNetworkFee?: bigint;
+  /** Programs allowed besides System, SPL Token, ATA, Compute Budget and Memo. Default: none */
+  allowPrograms?: string[];
+}
+
+// ============================================================
+// DECODE
+// ============================================================
+
+const LAMPORTS_PER_SIGNATURE = 5_000n;
+const DEFAULT_UNITS_PER_INSTRUCTION = 200_000;
+const MAX_COMPUTE_UNITS = 1_400_000;
+
+class Reader {
+  private at = 0;
+  constructor(private bytes: Uint8Array) {}
+
+  get offset() { return this.at; }
+
+  take(n: number): Uint8Array {
+    if (this.at + n > this.bytes.length) throw new SignedTxMismatch("Solana transaction is truncated");
+    return this.bytes.slice(this.at, (this.at += n));
+  }
+
+  u8(): number { return this.take(1)[0]; }
+
+  /** compact-u16: 7 bits per byte, little-endian */
+  shortVec(): number {
+    let value = 0;
+    for (let shift = 0; ; shift += 7) {
+      const b = this.u8();
+      value |= (b & 0x7f) << shift;
+      if (!(b & 0x80)) return value;
+      if (shift >= 14) throw new SignedTxMismatch("Solana transaction has a bad length prefix");
+    }
+  }
+
+  key(): string { return bytesToBase58(this.take(32)); }
+
+  done(): boolean { return this.at === this.bytes.length; }
+}
+
+const u32 = (b: Uint8Array, at: number) => new DataView(b.buffer, b.byteOffset).getUint32(at, true);
+const u64 = (b: Uint8Array, at: number) => new DataView(b.buffer, b.byteOffset).getBigUint64(at, true);
+
+/** Parse a signed transaction — signedTxBase64 or raw bytes. */
+export function decodeSolanaTx(signed: string | Bytes): SolanaTx {
+  const bytes = typeof signed === "string" ? base64ToBytes(signed) : toBytes(signed);
+  const r = new Reader(bytes);
+  const signatures = Array.from({ length: r.shortVec() }, () => bytesToBase58(r.take(64)));
+  const start = r.offset;
+
+  const prefix = r.u8();
+  const version = prefix & 0x80 ? (prefix & 0x7f) : "legacy";
+  if (version !== "legacy" && version !== 0) throw new SignedTxMismatch(`Unsupported Solana message version ${version}`);
+  const numRequiredSignatures = version === "legacy" ? prefix : r.u8();
+  r.take(2); // read-only signed / unsigned counts
+
+  const accountKeys = Array.from({ length: r.shortVec() }, () => r.key());
+  const recentBlockhash = r.key();
+  const compiled = Array.from({ length: r.shortVec() }, () => ({
+    program: r.u8(),
+    accounts: Array.from(r.take(r.shortVec())),
+    data: r.take(r.shortVec()),
+  }));
+  const addressTableLookups = version === 0
+    ? Array.from({ length: r.shortVec() }, () => ({
+        table: r.key(),
+        writable: Array.from(r.take(r.shortVec())),
+        readonly: Array.from(r.take(r.shortVec())),
+      }))
+    : [];
+  const end = r.offset;
+  if (!r.done()) throw new SignedTxMismatch("Solana transaction has trailing bytes");
+  if (signatures.length !== numRequiredSignatures) {
+    throw new SignedTxMismatch(`Solana transaction has ${signatures.length} signatures, message needs ${numRequiredSignatures}`);
+  }
+
+  // Loaded addresses follow the static keys: every table's writable ones, then every table's read-only ones
+  const keys = [
+    ...accountKeys,
+    ...addressTableLookups.flatMap((l) => l.writable.map((i) => `${l.table}#${i}`)),
+    ...addressTableLookups.flatMap((l) => l.readonly.map((i) => `${l.table}#${i}`)),
+  ];
+  const key = (i: number) => {
+    if (i >= keys.length) throw new SignedTxMismatch(`Solana instruction references account #${i} of ${keys.length}`);
+    return keys[i];
+  };
+  const instructions = compiled.map((ix) =>
+    decodeInstruction({ programId: key(ix.program), accounts: ix.accounts.map(key), data: ix.data }));
+
+  return {
+    version,
+    signatures,
+    signers: accountKeys.slice(0, numRequiredSignatures),
+    feePayer: accountKeys[0],
+    recentBlockhash,
+    instructions,
+    accountKeys,
+    addressTableLookups,
+    message: bytes.slice(start, end),
+    networkFee: networkFee(instructions, signatures.length),
+  };
+}
+
+function decodeInstruction(raw: RawInstruction): SolanaInstruction {
+  const { programId, accounts: a, data: d } = raw;
+  switch (programId) {
+    case SYSTEM_PROGRAM:
+      if (d.length === 12 && u32(d, 0) === 2 && a.length >= 2) {
+        return { ...raw, type: "systemTransfer", from: a[0], to: a[1], lamports: u64(d, 4) };
+      }
+      break;
+    case TOKEN_PROGRAM:
+    case TOKEN_2022_PROGRAM:
+      if (d.length === 9 && d[0] === 3 && a.length >= 3) {
+        return { ...raw, type: "splTransfer", source: a[0], destination: a[1], owner: a[2], amount: u64(d, 1) };
+      }
+      if (d.length === 10 && d[0] === 12 && a.length >= 4) {
+        return {
+          ...raw, type: "splTransfer",
+          source: a[0], mint: a[1], destination: a[2], owner: a[3], amount: u64(d, 1), decimals: d[9],
+        };
+      }
+      break;
+    case ASSOCIATED_TOKEN_PROGRAM:
+      if ((d.length === 0 || (d.length === 1 && d[0] <= 1)) && a.length >= 4) {
+        return {
+          ...raw, type: "createAssociatedTokenAccount",
+          payer: a[0], account: a[1], owner: a[2], mint: a[3], idempotent: d[0] === 1,
+        };
+      }
+      break;
+    case COMPUTE_BUDGET_PROGRAM:
+      if (d.length === 5 && d[0] === 2) return { ...raw, type: "setComputeUnitLimit", units: u32(d, 1) };
+      if (d.length === 9 && d[0] === 3) return { ...raw, type: "setComputeUnitPrice", microLamports: u64(d, 1) };
+      if (d.length === 5 && d[0] === 1) return { ...raw, type: "requestHeapFrame", bytes: u32(d, 1) };
+      if (d.length === 5 && d[0] === 4) return { ...raw, type: "setLoadedAccountsDataSizeLimit", bytes: u32(d, 1) };
+      break;
+    case MEMO_PROGRAM:
+      return { ...raw, type: "memo", text: new TextDecoder().decode(d) };
+  }
+  return { ...raw, type: "unknown" };
+}
+
+function networkFee(instructions: SolanaInstruction[], signatures: number): bigint {
+  let limit: number | undefined;
+  let price = 0n;
+  for (const ix of instructions) {
+    if (ix.type === "setComputeUnitLimit") limit = ix.units;
+    if (ix.type === "setComputeUnitPrice") price = ix.microLamports;
+  }
+  const others = instructions.filter((ix) => ix.programId !== COMPUTE_BUDGET_PROGRAM).length;
+  const units = BigInt(Math.min(limit ?? others * DEFAULT_UNITS_PER_INSTRUCTION, MAX_COMPUTE_UNITS));
+  return LAMPORTS_PER_SIGNATURE * BigInt(signatures) + (price * units + 999_999n) / 1_000_000n;
+}
+
+// ============================================================
+// VERIFY
+// ============================================================
+
+const keyBytes = (key: Bytes | string) => (typeof key === "string" ? base58ToBytes(key) : toBytes(key));
+
+function verifies(signature: string, message: Uint8Array, signer: string): boolean {
+  try {
+    // Fresh copies: verify() reads the whole underlying buffer of a view
+    return Ed25519KeyIdentity.verify(base58ToBytes(signature).slice(), message.slice(), base58ToBytes(signer).slice());
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * True when `publicKey` is one of the signers and its signature is valid —
+ * or, without `publicKey`, when every signature is.
+ */
+export function verifySolanaTx(tx: SolanaTx | string | Bytes, publicKey?: Bytes | string): boolean {
+  const decoded = typeof tx === "object" && "message" in tx ? tx : decodeSolanaTx(tx);
+  if (publicKey === undefined) {
+    return decoded.signers.every((signer, i) => verifies(decoded.signatures[i], decoded.message, signer));
+  }
+  const i = decoded.signers.indexOf(bytesToBase58(keyBytes(publicKey)));
+  return i >= 0 && verifies(decoded.signatures[i], decoded.message, decoded.signers[i]);
+}
+
+const KNOWN_PROGRAMS = [SYSTEM_PROGRAM, TOKEN_PROGRAM, TOKEN_2022_PROGRAM, ASSOCIATED_TOKEN_PROGRAM, COMPUTE_BUDGET_PROGRAM, MEMO_PROGRAM];
+
+/**
+ * Decode `signed` and check it against `expect` before broadcasting. Throws
+ * SignedTxMismatch listing every difference; returns the decoded transaction.
+ */
+export function assertSolanaTx(signed: string | Bytes, expect: SolanaTxExpectations = {}): SolanaTx {
+  const tx = decodeSolanaTx(signed);
+  const problems: string[] = [];
+
+  if (!verifySolanaTx(tx, expect.signer)) {
+    problems.push(expect.signer === undefined
+      ? "a signature does not verify"
+      : `not signed by ${bytesToBase58(keyBytes(expect.signer))}`);
+  }
+  if (expect.feePayer && tx.feePayer !== expect.feePayer) problems.push(`fee payer is ${tx.feePayer}, expected ${expect.feePayer}`);
+  if (expect.blockhash && tx.recentBlockhash !== expect.blockhash) {
+    problems.push(`blockhash is ${tx.recentBlockhash}, expected ${expect.blockhash}`);
+  }
+  if (expect.maxNetworkFee !== undefined && tx.networkFee > expect.maxNetworkFee) {
+    problems.push(`network fee ${tx.networkFee} exceeds ${expect.maxNetworkFee} lamports`);
+  }
+
+  const allowed = new Set([...KNOWN_PROGRAMS, ...(expect.allowPrograms ?? [])]);
+  for (const ix of tx.instructions) {
+    if (!allowed.has(ix.programId)) problems.push(`unexpected program ${ix.programId}`);
+    else if (ix.type === "unknown" && KNOWN_PROGRAMS.includes(ix.programId)) {
+      problems.push(`unrecognised ${ix.programId} instruction`);
+    }
+  }
+
+  if (expect.transfers) {
+    const left = [...expect.transfers];
+    for (const ix of tx.instructions) {
+      if (ix.type !== "systemTransfer" && ix.type !== "splTransfer") continue;
+      const to = ix.type === "systemTransfer" ? ix.to : ix.destination;
+      const amount = ix.type === "systemTransfer" ? ix.lamports : ix.amount;
+      const mint = ix.type === "splTransfer" ? ix.mint : undefined;
+      const match = left.findIndex((t) =>
+        t.to === to && t.amount === amount && (ix.type === "systemTransfer" ? !t.mint : !!t.mint && (!mint || mint === t.mint)));
+      if (match >= 0) left.splice(match, 1);
+      else problems.push(`unexpected transfer of ${amount}${mint ? ` ${mint}` : ""} to ${to}`);
+    }
+    for (const t of left) problems.push(`missing transfer of ${t.amount}${t.mint ? ` ${t.mint}` : ""} to ${t.to}`);
+  }
+
+  if (problems.length) {
+    throw new SignedTxMismatch(`Signed Solana transaction ${tx.signatures[0] ?? ""}: ${problems.join("; ")}`, { raw: tx });
+  }
+  return tx;
+}
@@ -0,0 +1,64 @@
+// utxo-fees.test.ts — transaction sizes, fee rates and input selection with a stub indexer
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { InsufficientFunds, RpcFailure } from "./errors";
+import { createMockMenese } from "./mock-menese";
+import { esploraIndexer, estimateUtxoTx, estimateVbytes, recommendFeeRate, type Utxo, type UtxoIndexer } from "./utxo-fees";
+
+// BIP-173 P2WPKH sample
+const TO = "bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4";
+
+const utxo = (value: bigint, confirmed = true): Utxo => ({ txid: `${value}`.padStart(64, "0"), vout: 0, value, confirmed });
+const indexer = (utxos: Utxo[], estimates: Record<number, number> = { 6: 10 }): UtxoIndexer =>
+  ({ chain: "bitcoin", utxos: async () => utxos, feeEstimates: async () => estimates });
+
+test("estimateVbytes: segwit overhead, P2WPKH inputs and outputs by kind", () => {
+  // The usual 1-in, 2-out P2WPKH payment
+  assert.equal(estimateVbytes(1, ["p2wpkh", "p2wpkh"]), 141);
+  assert.equal(estimateVbytes(2, ["p2tr"]), 189);
+  assert.equal(estimateVbytes(1, ["p2pkh"]), 113);
+});
+
+test("recommendFeeRate takes the nearest target at or below, rounded up", async () => {
+  const estimates = { 1: 20.2, 3: 12.1, 6: 8, 144: 0.5, 1008: 0 };
+  const rate = (target: number) => recommendFeeRate("bitcoin", target, { indexer: indexer([], estimates) });
+  assert.deepEqual(await Promise.all([rate(3), rate(5), rate(1), rate(0), rate(1008)]), [13n, 13n, 21n, 21n, 1n]);
+  await assert.rejects(recommendFeeRate("bitcoin", 6, { indexer: indexer([], { 2: 0 }) }), RpcFailure);
+});
+
+test("estimateUtxoTx spends the largest UTXOs first and keeps change above dust", async () => {
+  const mock = createMockMenese();
+  const source = { service: mock.service };
+  const utxos = [utxo(30_000n), utxo(50_000n), utxo(100_000n, false)];
+  const preview = (amount: bigint, feeRate: bigint, includeUnconfirmed = false) =>
+    estimateUtxoTx("bitcoin", [{ to: TO, amount }], source, { indexer: indexer(utxos), feeRate, includeUnconfirmed });
+
+  const one = await preview(40_000n, 10n);
+  assert.equal(one.from, (await mock.service.getMyBitcoinAddress()).bech32Address);
+  assert.deepEqual([one.inputs.map((u) => u.value), one.vbytes, one.fee.units, one.change.units, one.available.units],
+    [[50_000n], 141, 1_410n, 8_590n, 80_000n]);
+
+  // One input leaves too little for change at 10 sat/vB: a second one is added
+  const two = await preview(49_000n, 10n);
+  assert.deepEqual([two.inputs.length, two.fee.units, two.change.units], [2, 2_080n, 28_920n]);
+
+  // Change below DUST_LIMIT goes to the fee
+  const dust = await preview(49_500n, 1n);
+  assert.deepEqual([dust.inputs.length, dust.vbytes, dust.fee.units, dust.change.units], [1, 110, 500n, 0n]);
+
+  await assert.rejects(preview(90_000n, 1n), (e: unknown) => e instanceof InsufficientFunds && /in 2 spendable UTXOs/.test(e.message));
+  assert.equal((await preview(90_000n, 1n, true)).inputs[0].value, 100_000n);
+});
+
+test("esploraIndexer follows the network, and a local replica has none", async (t) => {
+  const urls: string[] = [];
+  t.mock.method(globalThis, "fetch", async (url: string) => {
+    urls.push(url);
+    return new Response(JSON.stringify({ 6: 3.2 }));
+  });
+  const signet = { host: "https://icp0.io", chainRpcs: { bitcoin: "https://mempool.space/signet/api/" } };
+  assert.equal(await recommendFeeRate("bitcoin", 6, { network: signet }), 4n);
+  assert.deepEqual(urls, ["https://mempool.space/signet/api/fee-estimates"]);
+  assert.throws(() => esploraIndexer("bitcoin", { network: "local" }), /No bitcoin Esplora on this network/);
+});
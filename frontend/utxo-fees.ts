@@ -0,0 +1,275 @@
+// utxo-fees.ts — Bitcoin / Litecoin UTXOs, fee rates and transaction previews
+//
+// The canister picks inputs and change itself; this module shows what a send
+// will look like before the action is spent. UTXOs and fee estimates come
+// from an indexer — Esplora (blockstream.info, mempool.space, litecoinspace.org
+// or your own electrs) by default:
+//
+//   const utxos = await listUtxos("bitcoin", session.config);
+//   const feeRate = await recommendFeeRate("bitcoin", 3);       // sat/vB to confirm within ~3 blocks
+//   const preview = await estimateUtxoTx("bitcoin", [{ to, amount: "0.01" }], session.config, { feeRate });
+//   preview.vbytes; preview.fee; preview.change; preview.inputs;
+//   await send({ chain: "bitcoin", to, amount: "0.01" }, session.config, { feeRate });   // sendBitcoinWithFee
+//
+//   // Tests: any object with utxos() and feeEstimates() is an indexer
+//   const indexer: UtxoIndexer = { chain: "bitcoin", utxos: async () => UTXOS, feeEstimates: async () => ({ 1: 20, 6: 8 }) };
+//
+// The three ways the canister can send (send.ts picks one from `feeRate`):
+//
+//   feeRate      method                    fee rate                             use when
+//   (none)       sendBitcoin               the canister's standard rate         small sends, no rush
+//   "dynamic"    sendBitcoinDynamicFee     percentiles of the IC Bitcoin API    let the canister follow the mempool
+//   bigint       sendBitcoinWithFee        yours, sat/vB (recommendFeeRate)     a deadline, or fees you want to see first
+//
+// Litecoin has sendLitecoin and sendLitecoinWithFee — no dynamic variant.
+//
+// Sizes assume native segwit (P2WPKH) inputs, as the wallet's own bech32
+// address spends, and a P2WPKH change output. The preview spends the largest
+// confirmed UTXOs first; the canister may choose other inputs, so the fee is
+// an estimate — a wallet of many small UTXOs pays for each one it spends.
+
+import type { ActorSubclass } from "@dfinity/agent";
+import { validateAddress } from "./addresses";
+import { toConfig, type AgentSource } from "./agent-config";
+import { Amount, type AmountLike } from "./amount";
+import { InsufficientFunds, RpcFailure } from "./errors";
+import { resolveNetwork, type Network } from "./network";
+import { getJson, type RpcOptions } from "./rpc";
+import { createMeneseActor } from "./sdk-setup";
+import type { MeneseService } from "./menese-types";
+
+// ============================================================
+// TYPES
+// ============================================================
+
+export type UtxoChain = "bitcoin" | "litecoin";
+
+export interface Utxo {
+  txid: string;
+  vout: number;
+  /** sats (litoshis on Litecoin) */
+  value: bigint;
+  confirmed: boolean;
+  blockHeight?: number;
+}
+
+/** Where UTXOs and fee estimates come from. */
+export interface UtxoIndexer {
+  readonly chain: UtxoChain;
+  utxos(address: string): Promise<Utxo[]>;
+  /** sat/vB by confirmation target in blocks, e.g. { 1: 21.4, 6: 9.1, 144: 2 } */
+  feeEstimates(): Promise<Record<number, number>>;
+}
+
+export interface UtxoOptions extends RpcOptions {
+  /** Reuse an actor (e.g. `await session.menese()`) instead of creating one from the source */
+  menese?: ActorSubclass<MeneseService>;
+  /**
+   * Picks the default indexer's Esplora: the network's `chainRpcs.bitcoin` /
+   * `.litecoin` (e.g. "https://mempool.space/signet/api"), else mainnet.
+   * A local replica has no default — its Bitcoin is regtest.
+   */
+  network?: Network;
+  /** Default: esploraIndexer(chain, { network }) */
+  indexer?: UtxoIndexer;
+}
+
+export interface UtxoTxOptions extends UtxoOptions {
+  /** sat/vB. Default: recommendFeeRate(chain, targetBlocks) */
+  feeRate?: bigint;
+  /** Confirmation target for the recommended rate. Default: 6 */
+  targetBlocks?: number;
+  /** Spend unconfirmed UTXOs too. Default: false */
+  includeUnconfirmed?: boolean;
+  /** Expect testnet recipient addresses. Default: mainnet */
+  testnet?: boolean;
+}
+
+export interface UtxoOutput {
+  to: string;
+  /** Decimal string in whole coins, bigint in sats, or an Amount */
+  amount: AmountLike;
+}
+
+export interface UtxoTxPreview {
+  chain: UtxoChain;
+  /** The wallet's address — inputs and change */
+  from: string;
+  feeRate: bigint;
+  /** Spent largest first */
+  inputs: Utxo[];
+  outputs: Array<{ to: string; amount: Amount; kind: string }>;
+  vbytes: number;
+  /** Includes change too small to keep (below DUST_LIMIT) */
+  fee: Amount;
+  /** Zero when there is no change output */
+  change: Amount;
+  /** Spendable UTXOs of the wallet, all of them */
+  available: Amount;
+}
+
+export const ESPLORA_URLS: Readonly<Record<UtxoChain, string>> = {
+  bitcoin: "https://blockstream.info/api",
+  litecoin: "https://litecoinspace.org/api",
+};
+
+const DEFAULT_TARGET_BLOCKS = 6;
+const MIN_RELAY_FEE_RATE = 1n;   // sat/vB
+/** Smallest change output worth creating, sats — less is left to the fee */
+export const DUST_LIMIT = 546n;
+
+// vbytes: version, locktime, counts and the segwit marker (10.5), P2WPKH input (67.75)
+const TX_OVERHEAD_VBYTES = 10.5;
+const P2WPKH_INPUT_VBYTES = 67.75;
+const OUTPUT_VBYTES: Record<string, number> = { p2pkh: 34, p2sh: 32, p2wpkh: 31, p2wsh: 43, p2tr: 43 };
+
+// ============================================================
+// INDEXER
+// ============================================================
+
+/** Esplora base URL for `chain` on a network — see UtxoOptions.network. */
+function esploraUrl(chain: UtxoChain, network?: Network): string {
+  const config = resolveNetwork(network);
+  const url = config.chainRpcs?.[chain];
+  if (url) return url;
+  if (config.fetchRootKey) {
+    throw new Error(`No ${chain} Esplora on this network — set chainRpcs.${chain} to your regtest electrs, or pass an indexer`);
+  }
+  return ESPLORA_URLS[chain];
+}
+
+/**
+ * An Esplora REST API: GET /address/:address/utxo and /fee-estimates.
+ * Default `url`: the network's (UtxoOptions.network), else ESPLORA_URLS.
+ */
+export function esploraIndexer(
+  chain: UtxoChain,
+  options: RpcOptions & { url?: string; network?: Network } = {},
+): UtxoIndexer {
+  const base = (options.url ?? esploraUrl(chain, options.network)).replace(/\/+$/, "");
+  return {
+    chain,
+    async utxos(address) {
+      const rows = await getJson<Array<{ txid: string; vout: number; value: number; status: { confirmed: boolean; block_height?: number } }>>(
+        `${base}/address/${address}/utxo`, options);
+      return rows.map((u) => ({
+        txid: u.txid,
+        vout: u.vout,
+        value: BigInt(u.value),
+        confirmed: u.status.confirmed,
+        blockHeight: u.status.block_height,
+      }));
+    },
+    async feeEstimates() {
+      const rates = await getJson<Record<string, number>>(`${base}/fee-estimates`, options);
+      return Object.fromEntries(Object.entries(rates).map(([target, rate]) => [Number(target), rate]));
+    },
+  };
+}
+
+const largestFirst = (a: Utxo, b: Utxo) => (a.value < b.value ? 1 : a.value > b.value ? -1 : 0);
+
+async function walletAddress(chain: UtxoChain, source: AgentSource, options: UtxoOptions): Promise<string> {
+  const menese = options.menese ?? (await createMeneseActor(toConfig(source)));
+  const info = chain === "bitcoin" ? await menese.getMyBitcoinAddress() : await menese.getMyLitecoinAddress();
+  return info.bech32Address;
+}
+
+/** UTXOs of the caller's address (getMyBitcoinAddress / getMyLitecoinAddress), largest first. */
+export async function listUtxos(chain: UtxoChain, source: AgentSource = {}, options: UtxoOptions = {}): Promise<Utxo[]> {
+  const network = options.network ?? toConfig(source).network;
+  const indexer = options.indexer ?? esploraIndexer(chain, { ...options, network });
+  const utxos = await indexer.utxos(await walletAddress(chain, source, options));
+  return [...utxos].sort(largestFirst);
+}
+
+// ============================================================
+// FEE RATE
+// ============================================================
+
+/**
+ * sat/vB to confirm within `targetBlocks`: the estimate for the nearest
+ * target at or below it (the next one up when there is none), rounded up.
+ */
+export async function recommendFeeRate(
+  chain: UtxoChain,
+  targetBlocks = DEFAULT_TARGET_BLOCKS,
+  options: Pick<UtxoOptions, "indexer" | "network" | "headers" | "signal"> = {},
+): Promise<bigint> {
+  const estimates = await (options.indexer ?? esploraIndexer(chain, options)).feeEstimates();
+  const targets = Object.keys(estimates).map(Number).filter((t) => estimates[t] > 0).sort((a, b) => a - b);
+  if (!targets.length) throw new RpcFailure(`${chain}: the indexer returned no fee estimates`, { raw: estimates });
+  const target = targets.filter((t) => t <= targetBlocks).pop() ?? targets[0];
+  const rate = BigInt(Math.ceil(estimates[target]));
+  return rate > MIN_RELAY_FEE_RATE ? rate : MIN_RELAY_FEE_RATE;
+}
+
+// ============================================================
+// SIZE AND FEE
+// ============================================================
+
+/** Virtual size of a transaction spending `inputs` P2WPKH inputs to outputs of these kinds (see OUTPUT_VBYTES). */
+export function estimateVbytes(inputs: number, outputKinds: string[]): number {
+  const outputs = outputKinds.reduce((sum, kind) => sum + (OUTPUT_VBYTES[kind] ?? OUTPUT_VBYTES.p2wsh), 0);
+  return Math.ceil(TX_OVERHEAD_VBYTES + inputs * P2WPKH_INPUT_VBYTES + outputs);
+}
+
+/**
+ * The transaction the wallet would build to pay `outputs`: inputs spent
+ * largest first until they cover the outputs and the fee at `feeRate`, with a
+ * change output when what is left clears DUST_LIMIT. Throws InsufficientFunds
+ * when the UTXOs fall short.
+ */
+export async function estimateUtxoTx(
+  chain: UtxoChain,
+  outputs: UtxoOutput[],
+  source: AgentSource = {},
+  options: UtxoTxOptions = {},
+): Promise<UtxoTxPreview> {
+  const config = toConfig(source);
+  const menese = options.menese ?? (await createMeneseActor(config));
+  const indexer = options.indexer ?? esploraIndexer(chain, { ...options, network: options.network ?? config.network });
+  const from = await walletAddress(chain, config, { ...options, menese });
+  const [utxos, feeRate, recipients] = await Promise.all([
+    indexer.utxos(from),
+    options.feeRate ?? recommendFeeRate(chain, options.targetBlocks, { ...options, indexer }),
+    Promise.all(outputs.map(async (o) => {
+      const info = await validateAddress(chain, o.to, { testnet: options.testnet });
+      return { to: info.address, amount: Amount.from(o.amount, chain), kind: info.kind };
+    })),
+  ]);
+  const coin = (units: bigint) => Amount.fromUnits(units, chain);
+  const spendable = utxos
+    .filter((u) => u.confirmed || options.includeUnconfirmed)
+    .sort(largestFirst);
+  const available = spendable.reduce((sum, u) => sum + u.value, 0n);
+  const paying = recipients.reduce((sum, o) => sum + o.amount.units, 0n);
+  const kinds = recipients.map((o) => o.kind);
+  const feeFor = (inputs: number, withChange: boolean) =>
+    BigInt(estimateVbytes(inputs, withChange ? [...kinds, "p2wpkh"] : kinds)) * feeRate;
+
+  let total = 0n;
+  const preview = (n: number, fee: bigint, change: bigint): UtxoTxPreview => ({
+    chain,
+    from,
+    feeRate,
+    inputs: spendable.slice(0, n),
+    outputs: recipients,
+    vbytes: estimateVbytes(n, change ? [...kinds, "p2wpkh"] : kinds),
+    fee: coin(fee),
+    change: coin(change),
+    available: coin(available),
+  });
+  for (let n = 1; n <= spendable.length; n++) {
+    total += spendable[n - 1].value;
+    const change = total - paying - feeFor(n, true);
+    if (change >= DUST_LIMIT) return preview(n, feeFor(n, true), change);
+    // No change output: what is left over goes to the fee
+    if (total >= paying + feeFor(n, false)) return preview(n, total - paying, 0n);
+  }
+  const needed = paying + feeFor(Math.max(spendable.length, 1), false);
+  throw new InsufficientFunds(
+    `${chain}: ${coin(needed)} needed at ${feeRate} sat/vB, ${coin(available)} in ${spendable.length} spendable UTXOs`,
+    { raw: { utxos, feeRate } },
+  );
+}
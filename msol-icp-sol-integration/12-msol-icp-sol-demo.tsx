@@ -40,6 +40,7 @@ import {
   fmtIcp,
   fmtRate,
 } from "./12-msol-icp-sol";
+import { Amount } from "../frontend/amount";
 
 // ══════════════════════════════════════════════════════════════
 // TYPES
@@ -124,8 +125,9 @@ export function MsolIcpSolDemo() {
     setResult(null);
 
     try {
-      const amt = parseFloat(amount);
-      if (isNaN(amt) || amt <= 0) throw new Error("Enter a valid amount");
+      // Passed as a decimal string — the helpers convert it exactly
+      const amt = amount.trim();
+      if (!/^\d*\.?\d+$/.test(amt) || !/[1-9]/.test(amt)) throw new Error("Enter a valid amount");
 
       let res: TxResult;
 
@@ -178,13 +180,13 @@ export function MsolIcpSolDemo() {
           if (pathMode === "autonomous") {
             const d = await swapIcpToSol(amt, solDest, agent);
             res = {
-              message: `Swapped ${amt} ICP → SOL. Swap #${d.id}. Output: ${Number(d.expectedOutput) / 1e9} SOL`,
+              message: `Swapped ${amt} ICP → SOL. Swap #${d.id}. Output: ${Amount.fromUnits(d.expectedOutput, "solana")} SOL`,
               explorerUrl: d.solTxHash ? `https://solscan.io/tx/${d.solTxHash}` : undefined,
             };
           } else {
             const d = await swapIcpToSolSignOnly(amt, solDest, agent);
             res = {
-              message: `Sign-only ICP→SOL. Swap #${d.swapId}. Output: ${Number(d.solOutputLamports) / 1e9} SOL`,
+              message: `Sign-only ICP→SOL. Swap #${d.swapId}. Output: ${Amount.fromUnits(d.solOutputLamports, "solana")} SOL`,
             };
           }
         }
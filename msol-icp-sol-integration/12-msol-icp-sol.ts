@@ -58,9 +58,25 @@
  * https://menese.io
  */
 
-import { Actor, HttpAgent } from "@dfinity/agent";
-import { AuthClient } from "@dfinity/auth-client";
+import { Actor, type Agent } from "@dfinity/agent";
 import { Principal } from "@dfinity/principal";
+import { errorFromText, unwrapLedger } from "../frontend/errors";
+import {
+  DEFAULT_CANISTER_IDS,
+  DEFAULT_IC_HOST,
+  createAgent,
+  resolveCanisterIds,
+  toConfig,
+  type AgentSource,
+  type CanisterIds,
+  type MeneseConfig,
+} from "../frontend/agent-config";
+import { solanaRpcFor } from "../frontend/network";
+import { jsonRpc } from "../frontend/rpc";
+import { withRetry } from "../frontend/retry";
+import { withCache } from "../frontend/query-cache";
+import { assertSolanaTx } from "../frontend/solana-tx";
+import { Amount, toUnits, type AmountLike, type Token } from "../frontend/amount";
 
 // ══════════════════════════════════════════════════════════════
 // CONFIG — Change these for your app
@@ -68,27 +84,33 @@ import { Principal } from "@dfinity/principal";
 
 export const CONFIG = {
   /** MeneseSDK canister on IC mainnet */
-  SDK_CANISTER_ID: "urs2a-ziaaa-aaaad-aembq-cai",
+  SDK_CANISTER_ID: DEFAULT_CANISTER_IDS.menese,
   /** ckSOL canister (mSOL minting/redemption) */
-  CKSOL_CANISTER_ID: "crmds-kqaaa-aaaaf-qf5aq-cai",
+  CKSOL_CANISTER_ID: DEFAULT_CANISTER_IDS.cksol,
   /** ckSOL ICRC-2 ledger (mSOL token) */
-  CKSOL_LEDGER_ID: "2ykjj-eyaaa-aaaae-af4ma-cai",
+  CKSOL_LEDGER_ID: DEFAULT_CANISTER_IDS.cksolLedger,
   /** ICP-SOL oracle swap pool */
-  ICP_SOL_SWAP_ID: "w2vjc-2yaaa-aaaab-ae6zq-cai",
+  ICP_SOL_SWAP_ID: DEFAULT_CANISTER_IDS.icpSolSwap,
   /** ICP ICRC-2 ledger */
-  ICP_LEDGER_ID: "ryjl3-tyaaa-aaaaa-aaaba-cai",
+  ICP_LEDGER_ID: DEFAULT_CANISTER_IDS.icpLedger,
   /** IC host for agent creation */
-  IC_HOST: "https://icp0.io",
+  IC_HOST: DEFAULT_IC_HOST,
   /** Solana RPC — swap for your own in production */
   SOLANA_RPC: "https://api.mainnet-beta.solana.com",
 };
 
+/**
+ * mSOL (ckSOL ledger token). Amounts below are AmountLike: Amount.parse("0.1", MSOL),
+ * a decimal string ("0.1") or a bigint in lamports.
+ */
+export const MSOL: Token = { symbol: "mSOL", decimals: 9, ledger: DEFAULT_CANISTER_IDS.cksolLedger };
+
 // ══════════════════════════════════════════════════════════════
 // IDL FACTORIES — Candid type definitions for each canister
 // ══════════════════════════════════════════════════════════════
 
 // --- SDK canister (only the functions we need here) ---
-const sdkIdl = ({ IDL }: any) => {
+export const sdkIdl = ({ IDL }: any) => {
   const SolanaAddressInfo = IDL.Record({
     address: IDL.Text,
     publicKeyHex: IDL.Text,
@@ -123,7 +145,7 @@ const sdkIdl = ({ IDL }: any) => {
 };
 
 // --- ckSOL canister (redemption + rate queries) ---
-const cksolIdl = ({ IDL }: any) => IDL.Service({
+export const cksolIdl = ({ IDL }: any) => IDL.Service({
   requestCkSolRedemption: IDL.Func(
     [IDL.Nat64, IDL.Text, IDL.Opt(IDL.Text)],
     [IDL.Variant({
@@ -142,7 +164,7 @@ const cksolIdl = ({ IDL }: any) => IDL.Service({
 });
 
 // --- ICP-SOL swap canister (ICP → SOL direction) ---
-const icpSolSwapIdl = ({ IDL }: any) => {
+export const icpSolSwapIdl = ({ IDL }: any) => {
   const SwapDirection = IDL.Variant({ IcpToSol: IDL.Null, SolToIcp: IDL.Null });
   const CompletedInfo = IDL.Record({ solTxHash: IDL.Text, icpBlockHeight: IDL.Nat, completedAt: IDL.Int });
   const SwapStatus = IDL.Variant({
@@ -167,7 +189,7 @@ const icpSolSwapIdl = ({ IDL }: any) => {
 };
 
 // --- ICRC-2 ledger (approve, balance, fee — works for BOTH ICP and mSOL ledgers) ---
-const icrc2Idl = ({ IDL }: any) => {
+export const icrc2Idl = ({ IDL }: any) => {
   const Account = IDL.Record({ owner: IDL.Principal, subaccount: IDL.Opt(IDL.Vec(IDL.Nat8)) });
   const ApproveArg = IDL.Record({
     fee: IDL.Opt(IDL.Nat), memo: IDL.Opt(IDL.Vec(IDL.Nat8)),
@@ -197,85 +219,103 @@ const icrc2Idl = ({ IDL }: any) => {
 // AUTH + ACTOR CREATION
 // ══════════════════════════════════════════════════════════════
 
-/** Create an authenticated HttpAgent using Internet Identity */
-export async function createAuthAgent(): Promise<HttpAgent> {
-  const authClient = await AuthClient.create();
-  if (!authClient.isAuthenticated()) {
-    await new Promise<void>((resolve, reject) => {
-      authClient.login({
-        identityProvider: "https://identity.ic0.app",
-        onSuccess: () => resolve(),
-        onError: (err) => reject(new Error(err)),
-      });
-    });
-  }
-  const identity = authClient.getIdentity();
-  return HttpAgent.createSync({ host: CONFIG.IC_HOST, identity });
+/**
+ * Every function below takes an AgentSource: an agent you already have, or a
+ * MeneseConfig (identity, wallet, host, canisterIds — see frontend/agent-config.ts).
+ * CONFIG supplies the defaults; config.canisterIds overrides them.
+ */
+function withConfig(source: AgentSource = {}): MeneseConfig {
+  const config = toConfig(source);
+  if (config.network) return config;  // network presets supply host + canister IDs
+  return {
+    host: CONFIG.IC_HOST,
+    ...config,
+    canisterIds: {
+      menese: CONFIG.SDK_CANISTER_ID,
+      cksol: CONFIG.CKSOL_CANISTER_ID,
+      cksolLedger: CONFIG.CKSOL_LEDGER_ID,
+      icpSolSwap: CONFIG.ICP_SOL_SWAP_ID,
+      icpLedger: CONFIG.ICP_LEDGER_ID,
+      ...config.canisterIds,
+    },
+  };
+}
+
+/** Solana RPC for one operation: explicit `rpc`, else the config's network, else CONFIG */
+function solanaRpc(source?: AgentSource, rpc?: string): string {
+  if (rpc) return rpc;
+  const { network } = toConfig(source);
+  return network ? solanaRpcFor({ network }) : CONFIG.SOLANA_RPC;
+}
+
+/** Agent, canister IDs and retry policy for one operation */
+interface Connection {
+  agent: Agent;
+  ids: CanisterIds;
+  retry: MeneseConfig["retry"];
+}
+
+/** Resolve the agent and canister IDs for one operation */
+async function connect(source?: AgentSource): Promise<Connection> {
+  const config = withConfig(source);
+  return { agent: await createAgent(config), ids: resolveCanisterIds(config), retry: config.retry };
+}
+
+/** Create an authenticated agent — Internet Identity unless the config says otherwise */
+export async function createAuthAgent(source?: AgentSource): Promise<Agent> {
+  return createAgent(withConfig(source));
 }
 
 /** Create an authenticated MeneseSDK actor */
-export async function createSdkActor(agent?: HttpAgent) {
-  const a = agent || await createAuthAgent();
-  return Actor.createActor(sdkIdl, { agent: a, canisterId: CONFIG.SDK_CANISTER_ID });
+export async function createSdkActor(source?: AgentSource) {
+  const config = withConfig(source);
+  const { agent, ids, retry } = await connect(config);
+  return withCache(withRetry(Actor.createActor(sdkIdl, { agent, canisterId: ids.menese }), retry), config.cache);
 }
 
-/** Create an actor for a specific canister using an authenticated agent */
-function createCksolActor(agent: HttpAgent) {
-  return Actor.createActor(cksolIdl, { agent, canisterId: CONFIG.CKSOL_CANISTER_ID });
+/** Create an actor for a specific canister using an authenticated agent (config.retry applies) */
+function createCksolActor({ agent, ids, retry }: Connection) {
+  return withRetry(Actor.createActor(cksolIdl, { agent, canisterId: ids.cksol }), retry);
 }
-function createIcpSolActor(agent: HttpAgent) {
-  return Actor.createActor(icpSolSwapIdl, { agent, canisterId: CONFIG.ICP_SOL_SWAP_ID });
+function createIcpSolActor({ agent, ids, retry }: Connection) {
+  return withRetry(Actor.createActor(icpSolSwapIdl, { agent, canisterId: ids.icpSolSwap }), retry);
 }
-function createLedgerActor(agent: HttpAgent, canisterId: string) {
-  return Actor.createActor(icrc2Idl, { agent, canisterId });
+function createLedgerActor({ agent, retry }: Connection, canisterId: string) {
+  return withRetry(Actor.createActor(icrc2Idl, { agent, canisterId }), retry);
 }
 
 // ══════════════════════════════════════════════════════════════
 // SOLANA RPC HELPERS
 // ══════════════════════════════════════════════════════════════
 
-/** Fetch a recent Solana blockhash. Uses CONFIG.SOLANA_RPC by default. */
+/**
+ * Fetch a recent Solana blockhash. Uses CONFIG.SOLANA_RPC by default — through
+ * its RpcPool (rpc-pool.ts) when it is part of one, like every RPC below.
+ */
 export async function fetchBlockhash(rpc?: string): Promise<string> {
-  const url = rpc || CONFIG.SOLANA_RPC;
-  const resp = await fetch(url, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      jsonrpc: "2.0", id: 1,
-      method: "getLatestBlockhash",
-      params: [{ commitment: "finalized" }],
-    }),
-  });
-  const json = await resp.json();
-  if (json.error) throw new Error(`Solana RPC error: ${json.error.message}`);
-  return json.result.value.blockhash;
+  const { value } = await jsonRpc<{ value: { blockhash: string } }>(
+    rpc || CONFIG.SOLANA_RPC, "getLatestBlockhash", [{ commitment: "finalized" }]);
+  return value.blockhash;
 }
 
 /** Broadcast a signed Solana transaction (base64). Returns tx signature or throws. */
 export async function broadcastTx(signedTxBase64: string, rpc?: string): Promise<string> {
-  const url = rpc || CONFIG.SOLANA_RPC;
-  const resp = await fetch(url, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      jsonrpc: "2.0", id: 1,
-      method: "sendTransaction",
-      params: [signedTxBase64, { encoding: "base64", skipPreflight: false }],
-    }),
-  });
-  const json = await resp.json();
-  if (json.error) throw new Error(`Broadcast failed: ${json.error.message}`);
-  return json.result;
+  return jsonRpc<string>(
+    rpc || CONFIG.SOLANA_RPC,
+    "sendTransaction",
+    [signedTxBase64, { encoding: "base64", skipPreflight: false }],
+    { strategy: "broadcast" },
+  );
 }
 
 /** ICRC-2 approve helper — works for any ICRC-2 ledger (ICP, mSOL, etc.) */
 export async function icrc2Approve(
-  agent: HttpAgent,
+  source: AgentSource,
   ledgerCanisterId: string,
   spenderCanisterId: string,
   amount: bigint,
 ): Promise<bigint> {
-  const ledger = createLedgerActor(agent, ledgerCanisterId);
+  const ledger = createLedgerActor(await connect(source), ledgerCanisterId);
   const fee = await ledger.icrc1_fee() as bigint;
   const result = await ledger.icrc2_approve({
     spender: { owner: Principal.fromText(spenderCanisterId), subaccount: [] },
@@ -284,13 +324,8 @@ export async function icrc2Approve(
     memo: [], from_subaccount: [], created_at_time: [],
     expected_allowance: [], expires_at: [],
   }) as any;
-  if ("Err" in result) {
-    const err = result.Err;
-    if ("InsufficientFunds" in err) throw new Error(`Insufficient funds. Balance: ${err.InsufficientFunds.balance}`);
-    if ("BadFee" in err) throw new Error(`Bad fee. Expected: ${err.BadFee.expected_fee}`);
-    throw new Error(`ICRC-2 approve failed: ${JSON.stringify(err)}`);
-  }
-  return result.Ok as bigint;
+  // Throws InsufficientFunds / BadFee / LedgerRejected (see frontend/errors.ts)
+  return unwrapLedger<bigint>(result, "icrc2_approve");
 }
 
 // ══════════════════════════════════════════════════════════════
@@ -298,11 +333,11 @@ export async function icrc2Approve(
 // ══════════════════════════════════════════════════════════════
 
 /** Deposit SOL and receive mSOL. One call — SDK handles everything. */
-export async function depositMsolAutonomous(solAmount: number, agent?: HttpAgent) {
-  const sdk = await createSdkActor(agent);
-  const lamports = BigInt(Math.floor(solAmount * 1_000_000_000));
+export async function depositMsolAutonomous(solAmount: AmountLike, source?: AgentSource) {
+  const sdk = await createSdkActor(source);
+  const lamports = toUnits(solAmount, "solana");
   const result = await sdk.msolDeposit(lamports) as any;
-  if ("err" in result) throw new Error(result.err);
+  if ("err" in result) throw errorFromText(result.err);
   return result.ok as { depositId: bigint; txSignature: string };
 }
 
@@ -311,18 +346,21 @@ export async function depositMsolAutonomous(solAmount: number, agent?: HttpAgent
 // ══════════════════════════════════════════════════════════════
 
 /** SDK signs the SOL transfer, you broadcast. Deposit auto-detected by SDK. */
-export async function depositMsolSignOnly(solAmount: number, agent?: HttpAgent, rpc?: string) {
-  const sdk = await createSdkActor(agent);
-  const lamports = BigInt(Math.floor(solAmount * 1_000_000_000));
+export async function depositMsolSignOnly(solAmount: AmountLike, source?: AgentSource, rpc?: string) {
+  const sdk = await createSdkActor(source);
+  const url = solanaRpc(source, rpc);
+  const lamports = toUnits(solAmount, "solana");
 
   const treasuryAddr = await sdk.getMsolTreasuryAddress() as string;
-  const blockhash = await fetchBlockhash(rpc);
+  const blockhash = await fetchBlockhash(url);
 
   const signed = await sdk.exp_signSolTransfer(treasuryAddr, lamports, blockhash) as any;
-  if ("err" in signed) throw new Error(signed.err);
+  if ("err" in signed) throw errorFromText(signed.err);
+  // The bytes must pay exactly `lamports` to the treasury — else SignedTxMismatch, nothing broadcast
+  assertSolanaTx(signed.ok.signedTxBase64, { blockhash, transfers: [{ to: treasuryAddr, amount: lamports }] });
 
   // Broadcast (deposit already auto-registered by SDK)
-  const txSig = await broadcastTx(signed.ok.signedTxBase64, rpc);
+  const txSig = await broadcastTx(signed.ok.signedTxBase64, url);
 
   return {
     signatureBase58: signed.ok.signatureBase58 as string,
@@ -342,23 +380,26 @@ export async function depositMsolSignOnly(solAmount: number, agent?: HttpAgent,
  * 3. You broadcast the signed TX to Solana
  */
 export async function redeemMsol(
-  msolAmount: number,
+  msolAmount: AmountLike,
   solDestination: string,
-  agent: HttpAgent,
+  source: AgentSource,
   rpc?: string,
 ) {
-  const msolLamports = BigInt(Math.floor(msolAmount * 1_000_000_000));
+  const msolLamports = toUnits(msolAmount, MSOL);
+  const conn = await connect(source);
+  const { agent, ids, retry } = conn;
+  const url = solanaRpc(source, rpc);
 
   // Step 1: Approve
-  await icrc2Approve(agent, CONFIG.CKSOL_LEDGER_ID, CONFIG.CKSOL_CANISTER_ID, msolLamports);
+  await icrc2Approve({ agent, retry }, ids.cksolLedger, ids.cksol, msolLamports);
 
   // Step 2: Burn + sign
-  const cksol = createCksolActor(agent);
+  const cksol = createCksolActor(conn);
   const result = await cksol.requestCkSolRedemption(msolLamports, solDestination, []) as any;
-  if ("err" in result) throw new Error(result.err);
+  if ("err" in result) throw errorFromText(result.err);
 
   // Step 3: Broadcast
-  const txSig = await broadcastTx(result.ok.signedTxBase64, rpc);
+  const txSig = await broadcastTx(result.ok.signedTxBase64, url);
 
   return {
     redemptionId: result.ok.redemptionId as bigint,
@@ -373,11 +414,11 @@ export async function redeemMsol(
 // ══════════════════════════════════════════════════════════════
 
 /** Deposit SOL into ICP-SOL pool, receive ICP at oracle rate. One call. */
-export async function depositSolForIcp(solAmount: number, agent?: HttpAgent) {
-  const sdk = await createSdkActor(agent);
-  const lamports = BigInt(Math.floor(solAmount * 1_000_000_000));
+export async function depositSolForIcp(solAmount: AmountLike, source?: AgentSource) {
+  const sdk = await createSdkActor(source);
+  const lamports = toUnits(solAmount, "solana");
   const result = await sdk.icpSolPoolDeposit(lamports) as any;
-  if ("err" in result) throw new Error(result.err);
+  if ("err" in result) throw errorFromText(result.err);
   return result.ok as { expectedDepositId: bigint; txSignature: string };
 }
 
@@ -386,17 +427,19 @@ export async function depositSolForIcp(solAmount: number, agent?: HttpAgent) {
 // ══════════════════════════════════════════════════════════════
 
 /** SDK signs SOL transfer to pool treasury, you broadcast. Auto-detected. */
-export async function depositSolForIcpSignOnly(solAmount: number, agent?: HttpAgent, rpc?: string) {
-  const sdk = await createSdkActor(agent);
-  const lamports = BigInt(Math.floor(solAmount * 1_000_000_000));
+export async function depositSolForIcpSignOnly(solAmount: AmountLike, source?: AgentSource, rpc?: string) {
+  const sdk = await createSdkActor(source);
+  const url = solanaRpc(source, rpc);
+  const lamports = toUnits(solAmount, "solana");
 
   const treasuryAddr = await sdk.getIcpSolTreasuryAddress() as string;
-  const blockhash = await fetchBlockhash(rpc);
+  const blockhash = await fetchBlockhash(url);
 
   const signed = await sdk.exp_signSolTransfer(treasuryAddr, lamports, blockhash) as any;
-  if ("err" in signed) throw new Error(signed.err);
+  if ("err" in signed) throw errorFromText(signed.err);
+  assertSolanaTx(signed.ok.signedTxBase64, { blockhash, transfers: [{ to: treasuryAddr, amount: lamports }] });
 
-  const txSig = await broadcastTx(signed.ok.signedTxBase64, rpc);
+  const txSig = await broadcastTx(signed.ok.signedTxBase64, url);
 
   return {
     signatureBase58: signed.ok.signatureBase58 as string,
@@ -412,16 +455,18 @@ export async function depositSolForIcpSignOnly(solAmount: number, agent?: HttpAg
  * Swap ICP for SOL. Pool pulls your ICP via ICRC-2 and broadcasts SOL to your address.
  * Requires ICRC-2 approve on ICP ledger first (handled automatically).
  */
-export async function swapIcpToSol(icpAmount: number, solDestination: string, agent: HttpAgent) {
-  const icpE8s = BigInt(Math.floor(icpAmount * 100_000_000));
+export async function swapIcpToSol(icpAmount: AmountLike, solDestination: string, source: AgentSource) {
+  const icpE8s = toUnits(icpAmount, "icp");
+  const conn = await connect(source);
+  const { agent, ids, retry } = conn;
 
   // Approve
-  await icrc2Approve(agent, CONFIG.ICP_LEDGER_ID, CONFIG.ICP_SOL_SWAP_ID, icpE8s);
+  await icrc2Approve({ agent, retry }, ids.icpLedger, ids.icpSolSwap, icpE8s);
 
   // Swap
-  const pool = createIcpSolActor(agent);
+  const pool = createIcpSolActor(conn);
   const result = await pool.swapIcpToSol(icpE8s, solDestination) as any;
-  if ("err" in result) throw new Error(result.err);
+  if ("err" in result) throw errorFromText(result.err);
   return result.ok;
 }
 
@@ -434,24 +479,32 @@ export async function swapIcpToSol(icpAmount: number, solDestination: string, ag
  * Requires ICRC-2 approve on ICP ledger first (handled automatically).
  */
 export async function swapIcpToSolSignOnly(
-  icpAmount: number,
+  icpAmount: AmountLike,
   solDestination: string,
-  agent: HttpAgent,
+  source: AgentSource,
   rpc?: string,
 ) {
-  const icpE8s = BigInt(Math.floor(icpAmount * 100_000_000));
+  const icpE8s = toUnits(icpAmount, "icp");
+  const conn = await connect(source);
+  const { agent, ids, retry } = conn;
+  const url = solanaRpc(source, rpc);
 
   // Approve
-  await icrc2Approve(agent, CONFIG.ICP_LEDGER_ID, CONFIG.ICP_SOL_SWAP_ID, icpE8s);
+  await icrc2Approve({ agent, retry }, ids.icpLedger, ids.icpSolSwap, icpE8s);
 
   // Pool pulls ICP + signs SOL TX
-  const blockhash = await fetchBlockhash(rpc);
-  const pool = createIcpSolActor(agent);
+  const blockhash = await fetchBlockhash(url);
+  const pool = createIcpSolActor(conn);
   const result = await pool.swapIcpToSolSign(icpE8s, solDestination, blockhash) as any;
-  if ("err" in result) throw new Error(result.err);
+  if ("err" in result) throw errorFromText(result.err);
+  // The pool's transaction must pay the quoted SOL to you
+  assertSolanaTx(result.ok.signedTxBase64, {
+    blockhash,
+    transfers: [{ to: solDestination, amount: result.ok.solOutputLamports }],
+  });
 
   // Broadcast
-  const txSig = await broadcastTx(result.ok.signedTxBase64, rpc);
+  const txSig = await broadcastTx(result.ok.signedTxBase64, url);
 
   return {
     swapId: result.ok.swapId as bigint,
@@ -465,22 +518,23 @@ export async function swapIcpToSolSignOnly(
 // ══════════════════════════════════════════════════════════════
 
 /** Get your Menese-derived Solana address */
-export async function getMySolAddress(agent?: HttpAgent): Promise<string> {
-  const sdk = await createSdkActor(agent);
+export async function getMySolAddress(source?: AgentSource): Promise<string> {
+  const sdk = await createSdkActor(source);
   const info = await sdk.getMySolanaAddress() as { address: string };
   return info.address;
 }
 
 /** Get mSOL balance for any principal */
-export async function getMsolBalance(agent: HttpAgent, owner?: Principal): Promise<bigint> {
-  const p = owner || (await agent.getPrincipal?.()) || Principal.anonymous();
-  const ledger = createLedgerActor(agent, CONFIG.CKSOL_LEDGER_ID);
+export async function getMsolBalance(source: AgentSource, owner?: Principal): Promise<bigint> {
+  const conn = await connect(source);
+  const p = owner || (await conn.agent.getPrincipal?.()) || Principal.anonymous();
+  const ledger = createLedgerActor(conn, conn.ids.cksolLedger);
   return await ledger.icrc1_balance_of({ owner: p, subaccount: [] }) as bigint;
 }
 
 /** Get current mSOL exchange rate and treasury stats */
-export async function getCksolRate(agent: HttpAgent) {
-  const cksol = createCksolActor(agent);
+export async function getCksolRate(source: AgentSource) {
+  const cksol = createCksolActor(await connect(source));
   return await cksol.getCksolRate() as {
     solPerCkSolE9: bigint;
     epoch: bigint;
@@ -494,9 +548,9 @@ export async function getCksolRate(agent: HttpAgent) {
 // FORMATTERS
 // ══════════════════════════════════════════════════════════════
 
-export const fmtSol = (lamports: bigint) => (Number(lamports) / 1e9).toFixed(4);
-export const fmtIcp = (e8s: bigint) => (Number(e8s) / 1e8).toFixed(4);
-export const fmtRate = (e9: bigint) => (Number(e9) / 1e9).toFixed(6);
+export const fmtSol = (lamports: bigint) => Amount.fromUnits(lamports, "solana").toFixed(4);
+export const fmtIcp = (e8s: bigint) => Amount.fromUnits(e8s, "icp").toFixed(4);
+export const fmtRate = (e9: bigint) => Amount.fromUnits(e9, "solana").toFixed(6);
 
 // ══════════════════════════════════════════════════════════════
 // EXAMPLE USAGE (uncomment to run)
@@ -506,30 +560,31 @@ export const fmtRate = (e9: bigint) => (Number(e9) / 1e9).toFixed(6);
 async function main() {
   // Authenticate with Internet Identity
   const agent = await createAuthAgent();
+  // ...or, from Node / CI: createAuthAgent({ identity: identityFromPem(pem) })
 
   // Get your SOL address
   const solAddr = await getMySolAddress(agent);
   console.log("My SOL address:", solAddr);
 
   // ── mSOL: Deposit 0.1 SOL (autonomous — simplest) ──
-  const deposit = await depositMsolAutonomous(0.1, agent);
+  const deposit = await depositMsolAutonomous("0.1", agent);
   console.log("Deposit ID:", deposit.depositId.toString());
   console.log("Explorer:", `https://solscan.io/tx/${deposit.txSignature}`);
 
   // ── mSOL: Deposit 0.1 SOL (sign-only — you control broadcast) ──
-  const signOnly = await depositMsolSignOnly(0.1, agent);
+  const signOnly = await depositMsolSignOnly("0.1", agent);
   console.log("Broadcast:", signOnly.broadcastResult);
 
   // ── mSOL: Redeem 0.05 mSOL → SOL ──
-  const redeem = await redeemMsol(0.05, solAddr, agent);
+  const redeem = await redeemMsol("0.05", solAddr, agent);
   console.log("Redeemed:", redeem.explorerUrl);
 
   // ── SOL → ICP: Deposit 0.5 SOL (autonomous) ──
-  const solToIcp = await depositSolForIcp(0.5, agent);
+  const solToIcp = await depositSolForIcp("0.5", agent);
   console.log("Expected deposit:", solToIcp.expectedDepositId.toString());
 
   // ── ICP → SOL: Swap 1 ICP (autonomous — pool broadcasts SOL) ──
-  const icpToSol = await swapIcpToSol(1.0, solAddr, agent);
+  const icpToSol = await swapIcpToSol("1", solAddr, agent);
   console.log("Swap:", icpToSol.id.toString(), "SOL:", icpToSol.expectedOutput.toString());
 
   // ── Check mSOL balance and rate ──
@@ -30,14 +30,15 @@ import {
   lamportsToSol,
   SOLANA_NETWORK_FEE,
 } from "./sovereign-send";
+import { Amount } from "../frontend/amount";
 
 // ── Solana RPC for balance check ─────────────────────────────
 const SOL_RPC = "https://api.mainnet-beta.solana.com";
 
 /** Network fee reserve in SOL (0.00005 SOL = 50,000 lamports). */
-const NETWORK_FEE_SOL = 0.00005;
+const NETWORK_FEE_SOL = lamportsToSol(SOLANA_NETWORK_FEE);
 
-async function getSolBalance(address: string): Promise<number> {
+async function getSolBalance(address: string): Promise<Amount> {
   try {
     const res = await fetch(SOL_RPC, {
       method: "POST",
@@ -49,9 +50,9 @@ async function getSolBalance(address: string): Promise<number> {
       }),
     });
     const json = await res.json();
-    return (json.result?.value ?? 0) / 1e9;
+    return lamportsToSol(BigInt(json.result?.value ?? 0));
   } catch {
-    return 0;
+    return Amount.zero("solana");
   }
 }
 
@@ -70,7 +71,7 @@ type Tab = "send" | "swap";
 export function SovereignSendDemo({ identity }: Props) {
   const [actor, setActor] = useState<any>(null);
   const [address, setAddress] = useState("");
-  const [balance, setBalance] = useState(0);
+  const [balance, setBalance] = useState<Amount>(() => Amount.zero("solana"));
   const [loading, setLoading] = useState(true);
   const [tab, setTab] = useState<Tab>("send");
   const [status, setStatus] = useState("");
@@ -114,15 +115,19 @@ export function SovereignSendDemo({ identity }: Props) {
 
   // ── Fill max amount (balance minus network fee reserve) ─
   const fillMaxAmount = useCallback((setter: (v: string) => void) => {
-    const max = Math.max(0, balance - NETWORK_FEE_SOL);
-    setter(max > 0 ? max.toFixed(9).replace(/\.?0+$/, "") : "0");
+    setter(lamportsToSol(maxSendLamports(balance.units)).toString());
   }, [balance]);
 
   // ── Check if amount is close to full balance ───────────
   const isNearMaxBalance = useCallback((amount: string): boolean => {
-    const parsed = parseFloat(amount);
-    if (isNaN(parsed) || parsed <= 0) return false;
-    return parsed > balance - NETWORK_FEE_SOL * 2;
+    let parsed: Amount;
+    try {
+      parsed = Amount.parse(amount, "solana");
+    } catch {
+      return false;
+    }
+    if (!parsed.isPositive()) return false;
+    return parsed.gt(balance.sub(NETWORK_FEE_SOL.mul(2)));
   }, [balance]);
 
   // ── Send SOL ───────────────────────────────────────────
@@ -133,21 +138,21 @@ export function SovereignSendDemo({ identity }: Props) {
     setTxHash("");
 
     try {
-      const amount = parseFloat(sendAmount);
-      if (isNaN(amount) || amount <= 0) throw new Error("Invalid amount");
+      const amount = Amount.parse(sendAmount, "solana");  // exact — throws on bad input
+      if (!amount.isPositive()) throw new Error("Invalid amount");
 
       if (useAutonomous) {
         // Autonomous: one call, canister handles everything
         setStatus("Sending (autonomous -- canister fetches blockhash + broadcasts)...");
         const result = await sendSol(actor, sendTo, amount);
         setTxHash(result.txSignature);
-        setStatus(`Sent ${Number(result.sendAmount) / 1e9} SOL + ${Number(result.feeAmount) / 1e9} fee`);
+        setStatus(`Sent ${lamportsToSol(result.sendAmount)} SOL + ${lamportsToSol(result.feeAmount)} fee`);
       } else {
         // Sign-only: we fetch blockhash + broadcast
         setStatus("Fetching blockhash...");
         const result = await signSend(actor, sendTo, amount);
         setTxHash(result.txSignature);
-        setStatus(`Sent ${Number(result.sendAmount) / 1e9} SOL + ${Number(result.feeAmount) / 1e9} fee`);
+        setStatus(`Sent ${lamportsToSol(result.sendAmount)} SOL + ${lamportsToSol(result.feeAmount)} fee`);
       }
 
       await refreshBalance();
@@ -165,8 +170,8 @@ export function SovereignSendDemo({ identity }: Props) {
     setTxHash("");
 
     try {
-      const amount = parseFloat(depositAmount);
-      if (isNaN(amount) || amount <= 0) throw new Error("Invalid amount");
+      const amount = Amount.parse(depositAmount, "solana");
+      if (!amount.isPositive()) throw new Error("Invalid amount");
 
       setStatus("Depositing SOL to ICP-SOL swap pool...");
       const result = await solToIcp(actor, amount);
@@ -195,7 +200,7 @@ export function SovereignSendDemo({ identity }: Props) {
           {balance.toFixed(6)} SOL
           <button onClick={refreshBalance} style={styles.refreshBtn}>↻</button>
         </p>
-        {balance === 0 && (
+        {balance.isZero() && (
           <p style={styles.hint}>
             Send SOL to this address from any wallet or exchange to get started.
           </p>
@@ -263,7 +268,7 @@ export function SovereignSendDemo({ identity }: Props) {
             </div>
             {isNearMaxBalance(sendAmount) && (
               <p style={styles.feeWarning}>
-                Near full balance. 50,000 lamports ({NETWORK_FEE_SOL} SOL) reserved for the Solana network fee.
+                Near full balance. 50,000 lamports ({NETWORK_FEE_SOL.toString()} SOL) reserved for the Solana network fee.
               </p>
             )}
             <p style={styles.hint}>0.1% protocol fee deducted atomically from send amount.</p>
@@ -295,7 +300,7 @@ export function SovereignSendDemo({ identity }: Props) {
             </div>
             {isNearMaxBalance(depositAmount) && (
               <p style={styles.feeWarning}>
-                Near full balance. 50,000 lamports ({NETWORK_FEE_SOL} SOL) reserved for the Solana network fee.
+                Near full balance. 50,000 lamports ({NETWORK_FEE_SOL.toString()} SOL) reserved for the Solana network fee.
               </p>
             )}
             <p style={styles.hint}>SOL is sent to the ICP-SOL oracle pool. You receive ICP at the current oracle rate. No fee on deposit -- full amount swapped.</p>
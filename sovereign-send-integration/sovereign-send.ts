@@ -58,19 +58,38 @@
  * Made with love by Menese Protocol — https://meneseprotocol.io
  */
 
-import { Actor, HttpAgent } from "@dfinity/agent";
+import { Actor, type Agent, type Identity } from "@dfinity/agent";
 import { Principal } from "@dfinity/principal";
 import { IDL } from "@dfinity/candid";
+import { errorFromText, unwrapLedger } from "../frontend/errors";
+import {
+  DEFAULT_CANISTER_IDS,
+  createAgentSync,
+  createAnonymousAgent,
+  resolveCanisterIds,
+  toConfig,
+  type AgentSource,
+  type CanisterIds,
+  type MeneseConfig,
+} from "../frontend/agent-config";
+import { solanaRpcsFor } from "../frontend/network";
+import { jsonRpc } from "../frontend/rpc";
+import { findRpcPool, rpcPool, type RpcPool } from "../frontend/rpc-pool";
+import { withRetry } from "../frontend/retry";
+import { waitForConfirmation } from "../frontend/confirmation";
+import { SignedTxMismatch } from "../frontend/errors";
+import { assertSolanaTx, type SolanaTx } from "../frontend/solana-tx";
+import { Amount, toUnits, type AmountLike } from "../frontend/amount";
 
 // ═══════════════════════════════════════════════════════════════
 //  CONSTANTS
 // ═══════════════════════════════════════════════════════════════
 
-const SOVEREIGN_SEND = "fxjsq-raaaa-aaaab-agdaa-cai";
-const ICP_SOL_SWAP   = "w2vjc-2yaaa-aaaab-ae6zq-cai";
-const SOL_BORROW_V3  = "p7teu-wyaaa-aaaab-afnvq-cai";
-const CKSOL_MSOL     = "crmds-kqaaa-aaaaf-qf5aq-cai";  // mSOL canister (deposit SOL, mint mSOL)
-const MSOL_LEDGER    = "2ykjj-eyaaa-aaaae-af4ma-cai";   // mSOL ICRC-2 ledger (balances, approve, transfer)
+const SOVEREIGN_SEND = DEFAULT_CANISTER_IDS.sovereignSend;
+const ICP_SOL_SWAP   = DEFAULT_CANISTER_IDS.icpSolSwap;
+const SOL_BORROW_V3  = DEFAULT_CANISTER_IDS.solBorrowV3;
+const CKSOL_MSOL     = DEFAULT_CANISTER_IDS.cksol;        // mSOL canister (deposit SOL, mint mSOL)
+const MSOL_LEDGER    = DEFAULT_CANISTER_IDS.cksolLedger;  // mSOL ICRC-2 ledger (balances, approve, transfer)
 const IC_HOST        = "https://icp-api.io";
 
 /**
@@ -80,18 +99,23 @@ const IC_HOST        = "https://icp-api.io";
  */
 export const SOLANA_NETWORK_FEE = 50_000n;
 
-const SOLANA_RPCS = [
-  "https://api.mainnet-beta.solana.com",
-  "https://solana-rpc.publicnode.com",
-  "https://solana.drpc.org",
-  "https://rpc.ankr.com/solana",
-];
+/** Protocol fee on signSend / sendSol: 10 basis points. */
+export const PROTOCOL_FEE_BPS = 10n;
+
+/**
+ * Solana RPCs for the sign-only helpers. They default to solanaRpcsFor() —
+ * the Solana RpcPool's endpoints once one is set up, else public mainnet
+ * nodes — and every helper takes an `rpcs` override, e.g.
+ * solanaRpcsFor({ network: "local" }) for solana-test-validator. Requests go
+ * through the pool serving rpcs[0], or the shared Solana pool set to `rpcs`.
+ */
+const solanaPool = (rpcs: string[]): RpcPool => findRpcPool(rpcs[0])?.pool ?? rpcPool("solana", rpcs);
 
 // ═══════════════════════════════════════════════════════════════
 //  CANDID IDL — matches deployed canister exactly
 // ═══════════════════════════════════════════════════════════════
 
-const sovereignSendIDL = ({ IDL }: any) => {
+export const sovereignSendIDL = ({ IDL }: any) => {
   const BorrowParams = IDL.Record({
     iasolExpected: IDL.Nat64, // internal param — handled by canister
     iausdToMint: IDL.Nat64,
@@ -247,75 +271,72 @@ interface AutonomousDepositResult {
 //  ACTOR FACTORY
 // ═══════════════════════════════════════════════════════════════
 
+/**
+ * Actor factories accept the identity from AuthClient.getIdentity(), an
+ * existing agent, or a MeneseConfig (see frontend/agent-config.ts).
+ * Wallet adapters need an async login — resolve them with createAgent() first.
+ */
+export type ActorSource = Identity | AgentSource;
+
+function connect(source: ActorSource): { agent: Agent; ids: CanisterIds; retry: MeneseConfig["retry"] } {
+  const config = { ...toConfig(source) };
+  if (!config.network && !config.host) config.host = IC_HOST;
+  if (config.wallet && !config.agent && !config.identity) {
+    // Anonymous here would send the user's calls from the anonymous principal
+    throw new Error("Sovereign Send actors need an agent or identity — resolve the wallet with `await createAgent(config)` and pass the agent");
+  }
+  const agent = config.agent || config.identity ? createAgentSync(config) : createAnonymousAgent(config);
+  return { agent, ids: resolveCanisterIds(config), retry: config.retry };
+}
+
 /**
  * Create an authenticated Sovereign Send actor.
- * Pass the identity from AuthClient.getIdentity().
+ * Pass the identity from AuthClient.getIdentity(), an agent, or a MeneseConfig.
  */
-export function createSovereignSendActor(identity: any) {
-  const agent = new HttpAgent({ host: IC_HOST, identity });
-  return Actor.createActor(sovereignSendIDL, {
+export function createSovereignSendActor(source: ActorSource) {
+  const { agent, ids, retry } = connect(source);
+  return withRetry(Actor.createActor(sovereignSendIDL, {
     agent,
-    canisterId: SOVEREIGN_SEND,
-  });
+    canisterId: ids.sovereignSend,
+  }), retry);
 }
 
 // ═══════════════════════════════════════════════════════════════
 //  SOLANA HELPERS (for sign-only path)
 // ═══════════════════════════════════════════════════════════════
 
-/** Fetch a recent Solana blockhash. Tries RPCs with sequential fallback. */
-export async function fetchSolanaBlockhash(): Promise<string> {
-  for (const rpc of SOLANA_RPCS) {
-    try {
-      const res = await fetch(rpc, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          jsonrpc: "2.0", id: 1,
-          method: "getLatestBlockhash",
-          params: [{ commitment: "confirmed" }],
-        }),
-      });
-      const json = await res.json();
-      if (json.result?.value?.blockhash) return json.result.value.blockhash;
-    } catch { continue; }
-  }
-  throw new Error("Failed to fetch Solana blockhash from all RPCs");
+/** Fetch a recent Solana blockhash. Tries the healthiest RPC first, then the others. */
+export async function fetchSolanaBlockhash(rpcs: string[] = solanaRpcsFor()): Promise<string> {
+  const { value } = await jsonRpc<{ value: { blockhash: string } }>(
+    solanaPool(rpcs).url, "getLatestBlockhash", [{ commitment: "confirmed" }], { strategy: "sequential" });
+  return value.blockhash;
 }
 
 /**
  * Broadcast a base64-encoded signed Solana TX. Returns TX signature.
  *
- * Sends to ALL RPCs in parallel via Promise.any — Solana transactions
+ * Sends to ALL live RPCs in parallel (RpcPool "broadcast") — Solana transactions
  * are idempotent (same TX submitted twice = same result), so it is safe
  * and faster to broadcast to multiple RPCs simultaneously.
+ *
+ * Preflight is skipped, so a returned signature does NOT mean the TX
+ * landed — follow with waitForConfirmation("solana", sig, { blockhash }).
  */
-export async function broadcastSolanaTx(signedTxBase64: string): Promise<string> {
-  const attempts = SOLANA_RPCS.map(async (rpc) => {
-    const res = await fetch(rpc, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        jsonrpc: "2.0", id: 1,
-        method: "sendTransaction",
-        params: [signedTxBase64, { encoding: "base64", skipPreflight: true }],
-      }),
-    });
-    const json = await res.json();
-    if (json.result) return json.result as string;
-    throw new Error(json.error?.message ?? "No result from RPC");
-  });
-
-  try {
-    return await Promise.any(attempts);
-  } catch {
-    throw new Error("Broadcast failed on all RPCs");
-  }
+export async function broadcastSolanaTx(signedTxBase64: string, rpcs: string[] = solanaRpcsFor()): Promise<string> {
+  return jsonRpc<string>(
+    solanaPool(rpcs).url,
+    "sendTransaction",
+    [signedTxBase64, { encoding: "base64", skipPreflight: true }],
+    { strategy: "broadcast" },
+  );
 }
 
-/** Convert SOL amount (e.g. 0.5) to lamports (500_000_000). */
-export function solToLamports(sol: number): bigint {
-  return BigInt(Math.round(sol * 1_000_000_000));
+/**
+ * Convert a SOL amount ("0.5" or Amount.parse("0.5", "solana")) to lamports (500_000_000n).
+ * A bigint is taken as lamports already.
+ */
+export function solToLamports(sol: AmountLike): bigint {
+  return toUnits(sol, "solana");
 }
 
 /**
@@ -337,9 +358,9 @@ export function maxSendLamports(balanceLamports: bigint): bigint {
   return balanceLamports - SOLANA_NETWORK_FEE;
 }
 
-/** Convert lamports to SOL for display (e.g. 1_500_000_000 -> 1.5). */
-export function lamportsToSol(lamports: bigint): number {
-  return Number(lamports) / 1_000_000_000;
+/** Convert lamports to SOL for display (e.g. 1_500_000_000n -> "1.5"). Exact — no float rounding. */
+export function lamportsToSol(lamports: bigint): Amount {
+  return Amount.fromUnits(lamports, "solana");
 }
 
 // ═══════════════════════════════════════════════════════════════
@@ -374,27 +395,66 @@ export async function getMyAddress(actor: any): Promise<{ address: string; publi
  * Flow:
  *   1. fetchSolanaBlockhash() from any Solana RPC
  *   2. signSend(destination, lamports, blockhash) -> signed TX
- *   3. broadcastSolanaTx(signedTxBase64) -> TX lands on Solana
+ *   3. verifySignedSend() -> the bytes really pay destination + 0.1% fee, or SignedTxMismatch
+ *   4. broadcastSolanaTx(signedTxBase64) -> TX sent to Solana
+ *   5. waitForConfirmation() -> TX confirmed, or TransactionFailed / TransactionDropped
  */
 export async function signSend(
   actor: any,
   toAddress: string,
-  solAmount: number,
+  solAmount: AmountLike,
+  rpcs: string[] = solanaRpcsFor(),
 ): Promise<{ txSignature: string; signedTxBase64: string; sendAmount: bigint; feeAmount: bigint }> {
-  const blockhash = await fetchSolanaBlockhash();
+  const blockhash = await fetchSolanaBlockhash(rpcs);
   const lamports = solToLamports(solAmount);
 
   const result = await actor.signSend(toAddress, lamports, blockhash);
-  if ("err" in result) throw new Error(result.err);
+  if ("err" in result) throw errorFromText(result.err);
 
   const { signedTxBase64, sendAmount, feeAmount, txSignature } = result.ok;
 
+  // Check the signed bytes before they leave the browser
+  await verifySignedSend(actor, result.ok, toAddress, lamports, blockhash);
+
   // Broadcast from browser (0 canister cycles)
-  await broadcastSolanaTx(signedTxBase64);
+  await broadcastSolanaTx(signedTxBase64, rpcs);
+  await waitForConfirmation("solana", txSignature, { rpc: rpcs[0], blockhash });
 
   return { txSignature, signedTxBase64, sendAmount, feeAmount };
 }
 
+/**
+ * Proof of the atomic fee: decode the bytes signSend returned and check they
+ * are signed by your derived address, pay `sendAmount` to `toAddress` and
+ * `feeAmount` to getFeeTreasuryAddress(), split `lamports` at 0.1%, and move
+ * nothing else. Throws SignedTxMismatch — do not broadcast then.
+ */
+export async function verifySignedSend(
+  actor: any,
+  signed: { signedTxBase64: string; sendAmount: bigint; feeAmount: bigint },
+  toAddress: string,
+  lamports: bigint,
+  blockhash?: string,
+): Promise<SolanaTx> {
+  const { signedTxBase64, sendAmount, feeAmount } = signed;
+  if (sendAmount + feeAmount !== lamports || feeAmount > (lamports * PROTOCOL_FEE_BPS + 9_999n) / 10_000n) {
+    throw new SignedTxMismatch(
+      `signSend split ${lamports} lamports into ${sendAmount} + ${feeAmount} fee — expected a ${PROTOCOL_FEE_BPS} bps fee`,
+      { method: "signSend", raw: signed },
+    );
+  }
+  const [me, treasury] = await Promise.all([getMyAddress(actor), actor.getFeeTreasuryAddress() as Promise<string>]);
+  return assertSolanaTx(signedTxBase64, {
+    signer: me.publicKeyBytes,
+    feePayer: me.address,
+    blockhash,
+    transfers: [
+      { to: toAddress, amount: sendAmount },
+      ...(feeAmount > 0n ? [{ to: treasury, amount: feeAmount }] : []),
+    ],
+  });
+}
+
 /**
  * AUTONOMOUS SEND — Transfer SOL, canister handles everything.
  *
@@ -412,11 +472,11 @@ export async function signSend(
 export async function sendSol(
   actor: any,
   toAddress: string,
-  solAmount: number,
+  solAmount: AmountLike,
 ): Promise<AutonomousSendResult> {
   const lamports = solToLamports(solAmount);
   const result = await actor.sendSol(toAddress, lamports);
-  if ("err" in result) throw new Error(result.err);
+  if ("err" in result) throw errorFromText(result.err);
   return result.ok;
 }
 
@@ -440,13 +500,13 @@ export async function sendSol(
  *
  * @param actor - Sovereign Send actor
  * @param targetCanisterId - Target treasury canister ID (e.g. ICP_SOL_SWAP or SOL_BORROW_V3)
- * @param solAmount - Amount of SOL to deposit (human-readable, e.g. 0.5)
+ * @param solAmount - Amount of SOL to deposit ("0.5", an Amount, or lamports as bigint)
  * @param borrowParams - Optional. Required only for SOL Borrow V3 deposits.
  */
 export async function depositSol(
   actor: any,
   targetCanisterId: string,
-  solAmount: number,
+  solAmount: AmountLike,
   borrowParams?: {
     iasolExpected: bigint;
     iausdToMint: bigint;
@@ -470,7 +530,7 @@ export async function depositSol(
     lamports,
     bpOpt,
   );
-  if ("err" in result) throw new Error(result.err);
+  if ("err" in result) throw errorFromText(result.err);
   return result.ok;
 }
 
@@ -479,7 +539,7 @@ export async function depositSol(
 // ═══════════════════════════════════════════════════════════════
 
 /** Send SOL, receive ICP at oracle rate. Autonomous — one call. */
-export async function solToIcp(actor: any, solAmount: number) {
+export async function solToIcp(actor: any, solAmount: AmountLike) {
   return depositSol(actor, ICP_SOL_SWAP, solAmount);
 }
 
@@ -487,7 +547,7 @@ export async function solToIcp(actor: any, solAmount: number) {
  * Send SOL, receive ICP. Sign-only style — but uses autonomous depositSol
  * under the hood since deposits have no sign-only variant in the canister.
  */
-export async function signSolToIcp(actor: any, solAmount: number) {
+export async function signSolToIcp(actor: any, solAmount: AmountLike) {
   return depositSol(actor, ICP_SOL_SWAP, solAmount);
 }
 
@@ -582,7 +642,7 @@ export async function registerPartnerUsers(
   userPrincipals: Principal[],
 ): Promise<number> {
   const result = await actor.registerPartnerUsers(userPrincipals);
-  if ("err" in result) throw new Error(result.err);
+  if ("err" in result) throw errorFromText(result.err);
   return Number(result.ok);
 }
 
@@ -592,7 +652,7 @@ export async function removePartnerUsers(
   userPrincipals: Principal[],
 ): Promise<number> {
   const result = await actor.removePartnerUsers(userPrincipals);
-  if ("err" in result) throw new Error(result.err);
+  if ("err" in result) throw errorFromText(result.err);
   return Number(result.ok);
 }
 
@@ -637,7 +697,7 @@ export { CKSOL_MSOL, MSOL_LEDGER };
 
 // ── mSOL Canister IDL ─────────────────────────────────────────
 
-const msolCanisterIDL = ({ IDL }: any) => {
+export const msolCanisterIDL = ({ IDL }: any) => {
   return IDL.Service({
     expectCkSolDeposit: IDL.Func(
       [IDL.Text, IDL.Nat64, IDL.Opt(IDL.Principal)],
@@ -688,7 +748,7 @@ const msolCanisterIDL = ({ IDL }: any) => {
 
 // ── ICRC-2 Ledger IDL (for approve + balance) ────────────────
 
-const icrc2LedgerIDL = ({ IDL }: any) => {
+export const icrc2LedgerIDL = ({ IDL }: any) => {
   const Account = IDL.Record({
     owner: IDL.Principal,
     subaccount: IDL.Opt(IDL.Vec(IDL.Nat8)),
@@ -722,21 +782,21 @@ const icrc2LedgerIDL = ({ IDL }: any) => {
 // ── mSOL Actor Factories ─────────────────────────────────────
 
 /** Create mSOL canister actor (for deposit/redeem). Requires authenticated identity. */
-export function createMsolActor(identity: any) {
-  const agent = new HttpAgent({ host: IC_HOST, identity });
-  return Actor.createActor(msolCanisterIDL, {
+export function createMsolActor(source: ActorSource) {
+  const { agent, ids, retry } = connect(source);
+  return withRetry(Actor.createActor(msolCanisterIDL, {
     agent,
-    canisterId: CKSOL_MSOL,
-  });
+    canisterId: ids.cksol,
+  }), retry);
 }
 
 /** Create mSOL ledger actor (for balance/approve). Requires authenticated identity. */
-export function createMsolLedgerActor(identity: any) {
-  const agent = new HttpAgent({ host: IC_HOST, identity });
-  return Actor.createActor(icrc2LedgerIDL, {
+export function createMsolLedgerActor(source: ActorSource) {
+  const { agent, ids, retry } = connect(source);
+  return withRetry(Actor.createActor(icrc2LedgerIDL, {
     agent,
-    canisterId: MSOL_LEDGER,
-  });
+    canisterId: ids.cksolLedger,
+  }), retry);
 }
 
 // ── mSOL Types ────────────────────────────────────────────────
@@ -796,19 +856,19 @@ export async function getMsolBalance(
  *
  * @param sovereignActor - from createSovereignSendActor(identity)
  * @param msolActor - from createMsolActor(identity)
- * @param solAmount - amount of SOL to deposit (human-readable, e.g. 0.5)
+ * @param solAmount - amount of SOL to deposit ("0.5", an Amount, or lamports as bigint)
  * @returns depositId — track status via myCksolDeposits()
  *
  * @example
  *   const ss = createSovereignSendActor(identity);
  *   const msol = createMsolActor(identity);
- *   const { depositId, txSignature } = await depositSolForMsol(ss, msol, 0.1);
+ *   const { depositId, txSignature } = await depositSolForMsol(ss, msol, "0.1");
  *   // mSOL minted to your principal within ~30s
  */
 export async function depositSolForMsol(
   sovereignActor: any,
   msolActor: any,
-  solAmount: number,
+  solAmount: AmountLike,
 ): Promise<{ depositId: bigint; txSignature: string }> {
   const lamports = solToLamports(solAmount);
 
@@ -845,12 +905,13 @@ export async function depositSolForMsol(
  * @example
  *   const ss = createSovereignSendActor(identity);
  *   const msol = createMsolActor(identity);
- *   const { depositId, txSignature } = await signDepositSolForMsol(ss, msol, 0.1);
+ *   const { depositId, txSignature } = await signDepositSolForMsol(ss, msol, "0.1");
  */
 export async function signDepositSolForMsol(
   sovereignActor: any,
   msolActor: any,
-  solAmount: number,
+  solAmount: AmountLike,
+  rpcs: string[] = solanaRpcsFor(),
 ): Promise<{ depositId: bigint; txSignature: string }> {
   const lamports = solToLamports(solAmount);
 
@@ -859,14 +920,17 @@ export async function signDepositSolForMsol(
   const treasuryAddress = treasury.address as string;
 
   // Step 2: Sign SOL transfer via Sovereign Send (sign-only)
-  const blockhash = await fetchSolanaBlockhash();
+  const blockhash = await fetchSolanaBlockhash(rpcs);
   const signResult = await sovereignActor.signSend(treasuryAddress, lamports, blockhash);
   if ("err" in signResult) throw new Error(signResult.err);
 
   const { signedTxBase64, txSignature } = signResult.ok;
+  await verifySignedSend(sovereignActor, signResult.ok, treasuryAddress, lamports, blockhash);
 
-  // Step 3: Broadcast from browser
-  await broadcastSolanaTx(signedTxBase64);
+  // Step 3: Broadcast from browser, and wait until it lands — the mSOL
+  // canister looks the deposit up on-chain
+  await broadcastSolanaTx(signedTxBase64, rpcs);
+  await waitForConfirmation("solana", txSignature, { rpc: rpcs[0], blockhash });
 
   // Step 4: Register deposit with mSOL canister
   const expectResult = await msolActor.expectCkSolDeposit(
@@ -919,7 +983,7 @@ export async function redeemMsolForSol(
     solDestination,
     [], // recentBlockhash: null (canister fetches)
   );
-  if ("err" in result) throw new Error(result.err);
+  if ("err" in result) throw errorFromText(result.err);
   return {
     redemptionId: result.ok.redemptionId,
     signedTxBase64: result.ok.signedTxBase64,
@@ -962,12 +1026,8 @@ export async function approveMsolForRedemption(
     created_at_time: [],
   });
 
-  if ("Err" in result) {
-    const err = result.Err;
-    if ("InsufficientFunds" in err) throw new Error(`Insufficient mSOL. Balance: ${err.InsufficientFunds.balance}`);
-    if ("BadFee" in err) throw new Error(`Bad fee. Expected: ${err.BadFee.expected_fee}`);
-    throw new Error(`Approve failed: ${Object.keys(err)[0]}`);
-  }
+  // Throws InsufficientFunds / BadFee / LedgerRejected (see frontend/errors.ts)
+  unwrapLedger(result, "icrc2_approve");
 }
 
 /**
@@ -984,7 +1044,7 @@ export async function getMsolStats(msolActor: any): Promise<MsolStats> {
 export async function solToMsol(
   sovereignActor: any,
   msolActor: any,
-  solAmount: number,
+  solAmount: AmountLike,
 ) {
   return depositSolForMsol(sovereignActor, msolActor, solAmount);
 }